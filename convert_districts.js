@@ -22,7 +22,7 @@ let output = `// Real Kyiv district boundaries from OpenStreetMap
 
 export interface District {
   name: string;
-  coordinates: [number, number][];
+  polygons: [number, number][][][]; // MultiPolygon: parts of outer ring followed by holes, as [lat, lng]
   population: number;
   area: number;
 }
@@ -34,8 +34,13 @@ districts.forEach((district, index) => {
   const ukrainianName = district.name;
   const englishName = nameMapping[ukrainianName] || ukrainianName;
   
-  // Convert coordinates from [lng, lat] to [lat, lng]
-  const coordinates = district.geojson.coordinates[0].map(coord => [coord[1], coord[0]]);
+  // Keep every part and its holes; convert coordinates from [lng, lat] to [lat, lng]
+  const geojsonPolygons = district.geojson.type === 'MultiPolygon'
+    ? district.geojson.coordinates
+    : [district.geojson.coordinates];
+  const polygons = geojsonPolygons.map(polygon =>
+    polygon.map(ring => ring.map(coord => [coord[1], coord[0]]))
+  );
   
   // Sample population data (you might want to update these with real data)
   const populations = {
@@ -64,19 +69,23 @@ districts.forEach((district, index) => {
   
   output += `  {
     name: "${englishName}",
-    coordinates: [
+    polygons: [
 `;
   
-  // Add coordinates in chunks to avoid very long lines
-  const coordChunks = [];
-  for (let i = 0; i < coordinates.length; i += 5) {
-    const chunk = coordinates.slice(i, i + 5)
-      .map(coord => `[${coord[0]}, ${coord[1]}]`)
-      .join(', ');
-    coordChunks.push(`      ${chunk}`);
-  }
-  
-  output += coordChunks.join(',\n');
+  output += polygons.map(polygon => {
+    const rings = polygon.map(ring => {
+      // Add coordinates in chunks to avoid very long lines
+      const coordChunks = [];
+      for (let i = 0; i < ring.length; i += 5) {
+        const chunk = ring.slice(i, i + 5)
+          .map(coord => `[${coord[0]}, ${coord[1]}]`)
+          .join(', ');
+        coordChunks.push(`          ${chunk}`);
+      }
+      return `        [\n${coordChunks.join(',\n')}\n        ]`;
+    });
+    return `      [\n${rings.join(',\n')}\n      ]`;
+  }).join(',\n');
   output += `
     ],
     population: ${populations[englishName] || 300000},
@@ -91,47 +100,21 @@ districts.forEach((district, index) => {
 
 output += `];
 
-// Calculate district density based on alert markers
-export function calculateDistrictDensities(markers: any[]): Map<string, number> {
-  const densities = new Map<string, number>();
-  
-  // Initialize all districts with 0 density
-  kyivDistricts.forEach(district => {
-    densities.set(district.name, 0);
-  });
-  
-  // Count markers in each district
-  markers.forEach(marker => {
-    const point = [marker.lat, marker.lng];
-    
-    for (const district of kyivDistricts) {
-      if (isPointInPolygon(point, district.coordinates)) {
-        const currentCount = densities.get(district.name) || 0;
-        densities.set(district.name, currentCount + 1);
-        break; // Point can only be in one district
-      }
-    }
-  });
-  
-  return densities;
-}
-
-// Point-in-polygon algorithm (ray casting)
-function isPointInPolygon(point: [number, number], polygon: [number, number][]): boolean {
-  const [lat, lng] = point;
-  let inside = false;
-  
-  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
-    const [lat1, lng1] = polygon[i];
-    const [lat2, lng2] = polygon[j];
-    
-    if ((lng1 > lng) !== (lng2 > lng) && 
-        lat < (lat2 - lat1) * (lng - lng1) / (lng2 - lng1) + lat1) {
-      inside = !inside;
-    }
-  }
+// Helper function to get Ukrainian names
+export function getUkrainianName(englishName: string): string {
+  const nameMap: Record<string, string> = {
+    'Darnytskyi': 'Дарницький',
+    'Desnianskyi': 'Деснянський',
+    'Dniprovskyi': 'Дніпровський',
+    'Holosiivskyi': 'Голосіївський',
+    'Obolonskyi': 'Оболонський',
+    'Podilskyi': 'Подільський',
+    'Shevchenkivskyi': 'Шевченківський',
+    'Solomianskyi': 'Солом\\'янський',
+    'Sviatoshynskyi': 'Святошинський'
+  };
   
-  return inside;
+  return nameMap[englishName] || englishName;
 }
 `;
 
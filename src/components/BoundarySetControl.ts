@@ -0,0 +1,248 @@
+import {
+  getBoundaryPropertyKeys,
+  getBoundarySet,
+  getBoundarySets,
+  parseBoundaryGeoJSON,
+  registerBoundarySet,
+  removeBoundarySet,
+  KYIV_BOUNDARY_SET_ID
+} from '../data/boundarySets';
+import { escapeHtml } from '../utils/htmlUtils';
+
+/**
+ * Picks the active boundary set and loads new sets from polygon GeoJSON files
+ */
+export class BoundarySetControl {
+  private element: HTMLElement;
+  private onSelect: (boundarySetId: string) => void;
+  private selectedId: string;
+  private pendingGeoJSON: any = null; // Loaded file awaiting its property mapping
+
+  constructor(container: HTMLElement, selectedId: string, onSelect: (boundarySetId: string) => void) {
+    this.element = document.createElement('div');
+    this.element.className = 'boundary-set-control';
+    this.element.innerHTML = this.getHTML();
+    container.appendChild(this.element);
+
+    this.selectedId = getBoundarySet(selectedId) ? selectedId : KYIV_BOUNDARY_SET_ID;
+    this.onSelect = onSelect;
+    this.updateOptions();
+    this.setupEventListeners();
+  }
+
+  /**
+   * Get the HTML structure for the control
+   */
+  private getHTML(): string {
+    return `
+      <label>
+        Boundaries:
+        <select id="boundary-set-select"></select>
+      </label>
+      <button id="boundary-remove-btn" class="btn btn-secondary" title="Remove the selected boundary set">Remove</button>
+      <label class="btn btn-secondary boundary-file-label" title="Load polygon GeoJSON as a boundary set">
+        Load GeoJSON…
+        <input type="file" id="boundary-file-input" accept=".geojson,.json" hidden />
+      </label>
+      <div class="boundary-mapping" id="boundary-mapping" style="display: none;">
+        <label>
+          Set name:
+          <input type="text" id="boundary-set-name" />
+        </label>
+        <label>
+          Name property:
+          <select id="boundary-name-property"></select>
+        </label>
+        <label>
+          Population property:
+          <select id="boundary-population-property"></select>
+        </label>
+        <label>
+          Area property (km²):
+          <select id="boundary-area-property"></select>
+        </label>
+        <button id="boundary-add-btn" class="btn btn-secondary">Add boundary set</button>
+        <button id="boundary-cancel-btn" class="btn btn-secondary">Cancel</button>
+      </div>
+      <span class="boundary-status" id="boundary-status"></span>
+    `;
+  }
+
+  /**
+   * Setup event listeners
+   */
+  private setupEventListeners(): void {
+    const select = this.element.querySelector('#boundary-set-select') as HTMLSelectElement;
+    select.addEventListener('change', () => this.select(select.value));
+
+    this.element.querySelector('#boundary-remove-btn')?.addEventListener('click', () => {
+      try {
+        removeBoundarySet(this.selectedId);
+        this.setStatus('');
+        this.select(KYIV_BOUNDARY_SET_ID);
+      } catch (error) {
+        this.setStatus(error instanceof Error ? error.message : 'Failed to remove boundary set', true);
+      }
+    });
+
+    const fileInput = this.element.querySelector('#boundary-file-input') as HTMLInputElement;
+    fileInput.addEventListener('change', async () => {
+      const file = fileInput.files?.[0];
+      fileInput.value = '';
+      if (file) {
+        await this.loadFile(file);
+      }
+    });
+
+    this.element.querySelector('#boundary-add-btn')?.addEventListener('click', () => this.addBoundarySet());
+    this.element.querySelector('#boundary-cancel-btn')?.addEventListener('click', () => this.hideMapping());
+  }
+
+  /**
+   * Read a GeoJSON file and ask for its property mapping
+   */
+  private async loadFile(file: File): Promise<void> {
+    try {
+      const geoJson = JSON.parse(await file.text());
+      const keys = getBoundaryPropertyKeys(geoJson);
+
+      this.pendingGeoJSON = geoJson;
+      (this.element.querySelector('#boundary-set-name') as HTMLInputElement).value = file.name.replace(/\.(geo)?json$/i, '');
+      this.setPropertyOptions('#boundary-name-property', keys, null, /^(name|name_en|name:en|shapename|name_1|name_2)$/i, /name/i);
+      this.setPropertyOptions('#boundary-population-property', keys, 'None', /^(population|pop)$/i, /pop/i);
+      this.setPropertyOptions('#boundary-area-property', keys, 'Compute from geometry', /^(area|area_km2|area_sqkm)$/i, /area/i);
+
+      (this.element.querySelector('#boundary-mapping') as HTMLElement).style.display = '';
+      this.setStatus(`${file.name}: choose the feature properties`);
+    } catch (error) {
+      this.setStatus(`Invalid GeoJSON: ${error instanceof Error ? error.message : 'Unknown error'}`, true);
+    }
+  }
+
+  /**
+   * Register the loaded file as a boundary set and select it
+   */
+  private addBoundarySet(): void {
+    if (!this.pendingGeoJSON) return;
+
+    const value = (selector: string) => (this.element.querySelector(selector) as HTMLInputElement | HTMLSelectElement).value;
+    const name = value('#boundary-set-name').trim() || 'Boundaries';
+
+    try {
+      const { boundarySet, skippedFeatures } = parseBoundaryGeoJSON(this.pendingGeoJSON, name, {
+        name: value('#boundary-name-property'),
+        population: value('#boundary-population-property') || undefined,
+        area: value('#boundary-area-property') || undefined
+      });
+
+      registerBoundarySet(boundarySet);
+      this.hideMapping();
+      this.setStatus(
+        `Added ${boundarySet.features.length} areas` +
+        (skippedFeatures > 0 ? `, skipped ${skippedFeatures} non-polygon features` : '')
+      );
+      this.select(boundarySet.id);
+    } catch (error) {
+      this.setStatus(error instanceof Error ? error.message : 'Failed to add boundary set', true);
+    }
+  }
+
+  /**
+   * Fill a property select, preselecting the best matching key
+   */
+  private setPropertyOptions(
+    selector: string,
+    keys: string[],
+    emptyLabel: string | null,
+    exactPattern: RegExp,
+    loosePattern: RegExp
+  ): void {
+    const select = this.element.querySelector(selector) as HTMLSelectElement;
+    const guess = keys.find(key => exactPattern.test(key)) ?? keys.find(key => loosePattern.test(key));
+
+    select.innerHTML = (emptyLabel !== null ? `<option value="">${emptyLabel}</option>` : '') +
+      keys.map(key => `<option value="${escapeHtml(key)}" ${key === guess ? 'selected' : ''}>${escapeHtml(key)}</option>`).join('');
+  }
+
+  /**
+   * Hide the property mapping and drop the loaded file
+   */
+  private hideMapping(): void {
+    this.pendingGeoJSON = null;
+    (this.element.querySelector('#boundary-mapping') as HTMLElement).style.display = 'none';
+    this.setStatus('');
+  }
+
+  /**
+   * Make a boundary set active and notify the listener
+   */
+  private select(boundarySetId: string): void {
+    this.selectedId = boundarySetId;
+    this.updateOptions();
+    this.onSelect(boundarySetId);
+  }
+
+  /**
+   * Update the boundary set options and the remove button
+   */
+  private updateOptions(): void {
+    const select = this.element.querySelector('#boundary-set-select') as HTMLSelectElement;
+    select.innerHTML = getBoundarySets()
+      .map(boundarySet => `
+        <option value="${escapeHtml(boundarySet.id)}" ${boundarySet.id === this.selectedId ? 'selected' : ''}>
+          ${escapeHtml(boundarySet.name)} (${boundarySet.features.length})
+        </option>
+      `)
+      .join('');
+
+    const removeButton = this.element.querySelector('#boundary-remove-btn') as HTMLButtonElement;
+    removeButton.disabled = !!getBoundarySet(this.selectedId)?.builtIn;
+  }
+
+  /**
+   * Show a status or error message
+   */
+  private setStatus(message: string, isError: boolean = false): void {
+    const status = this.element.querySelector('#boundary-status') as HTMLElement;
+    status.textContent = message;
+    status.classList.toggle('error', isError);
+  }
+
+  /**
+   * Get CSS styles for the control
+   */
+  static getCSS(): string {
+    return `
+      .boundary-set-control,
+      .boundary-mapping {
+        display: contents;
+      }
+
+      .boundary-file-label {
+        white-space: nowrap;
+      }
+
+      .boundary-set-control .btn:disabled {
+        opacity: 0.5;
+        cursor: not-allowed;
+      }
+
+      .boundary-mapping input[type="text"] {
+        padding: 0.25rem 0.5rem;
+        border-radius: 4px;
+        border: 1px solid rgba(255, 255, 255, 0.2);
+        background: rgba(255, 255, 255, 0.1);
+        color: inherit;
+      }
+
+      .boundary-status {
+        font-size: 0.9em;
+        color: #646cff;
+      }
+
+      .boundary-status.error {
+        color: #ff6b6b;
+      }
+    `;
+  }
+}
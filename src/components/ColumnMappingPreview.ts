@@ -0,0 +1,268 @@
+import type { ColumnMapping } from '../utils/fileLoader';
+import { escapeHtml } from '../utils/htmlUtils';
+
+/**
+ * Role a CSV column plays when importing
+ */
+export type ColumnRole =
+  | 'lat'
+  | 'lng'
+  | 'intensity'
+  | 'name'
+  | 'id'
+  | 'timestamp'
+  | 'alertType'
+  | 'severity'
+  | 'status'
+  | 'description'
+  | 'metadata'
+  | 'ignore';
+
+/**
+ * Roles that at most one column can have
+ */
+type SingleColumnRole = Exclude<ColumnRole, 'metadata' | 'ignore'>;
+
+const ROLE_LABELS: Record<ColumnRole, string> = {
+  lat: 'Latitude',
+  lng: 'Longitude',
+  intensity: 'Intensity',
+  name: 'Name',
+  id: 'ID',
+  timestamp: 'Timestamp',
+  alertType: 'Alert type',
+  severity: 'Severity',
+  status: 'Status',
+  description: 'Description',
+  metadata: 'Metadata',
+  ignore: 'Ignore'
+};
+
+const SINGLE_COLUMN_ROLES: SingleColumnRole[] = [
+  'lat', 'lng', 'intensity', 'name', 'id', 'timestamp', 'alertType', 'severity', 'status', 'description'
+];
+
+/**
+ * Number of data rows shown in the preview table
+ */
+const PREVIEW_ROW_COUNT = 10;
+
+/**
+ * Preview table of a CSV file where each column gets a role from a dropdown
+ */
+export class ColumnMappingPreview {
+  private container: HTMLElement;
+  private onChange: (mapping: ColumnMapping | null) => void;
+  private headers: string[] = [];
+  private rows: string[][] = [];
+  private roles: ColumnRole[] = [];
+
+  constructor(container: HTMLElement, onChange: (mapping: ColumnMapping | null) => void) {
+    this.container = container;
+    this.onChange = onChange;
+  }
+
+  /**
+   * Show new data, assigning roles from an initial (guessed) mapping
+   */
+  public setData(headers: string[], rows: string[][], initialMapping: Partial<ColumnMapping>): void {
+    this.headers = headers;
+    this.rows = rows;
+    this.roles = headers.map(header => {
+      const role = SINGLE_COLUMN_ROLES.find(candidate => initialMapping[candidate] === header);
+      if (role) return role;
+      if (initialMapping.ignore?.includes(header)) return 'ignore';
+      return 'metadata';
+    });
+
+    this.render();
+    this.onChange(this.getColumnMapping());
+  }
+
+  /**
+   * Build the column mapping from the selected roles, or null without coordinates
+   */
+  public getColumnMapping(): ColumnMapping | null {
+    const columnFor = (role: ColumnRole) => {
+      const index = this.roles.indexOf(role);
+      return index >= 0 ? this.headers[index] : undefined;
+    };
+
+    const lat = columnFor('lat');
+    const lng = columnFor('lng');
+    if (!lat || !lng) return null;
+
+    const mapping: ColumnMapping = {
+      lat,
+      lng,
+      ignore: this.headers.filter((_, index) => this.roles[index] === 'ignore')
+    };
+
+    (['intensity', 'name', 'id', 'timestamp', 'alertType', 'severity', 'status', 'description'] as const).forEach(role => {
+      const column = columnFor(role);
+      if (column) mapping[role] = column;
+    });
+
+    return mapping;
+  }
+
+  /**
+   * Show how many previewed rows would be imported with the current mapping
+   */
+  public setValidity(validRows: number, totalRows: number): void {
+    const status = this.container.querySelector('.mapping-preview-status');
+    if (!status) return;
+
+    if (!this.getColumnMapping()) {
+      status.className = 'mapping-preview-status error';
+      status.textContent = 'Assign a Latitude and a Longitude column to import.';
+      return;
+    }
+
+    status.className = `mapping-preview-status ${validRows === totalRows ? 'success' : 'warning'}`;
+    status.textContent = `${validRows} of ${totalRows} sampled rows would be imported`;
+  }
+
+  /**
+   * Render the preview table
+   */
+  private render(): void {
+    const roleOptions = (selected: ColumnRole) => (Object.keys(ROLE_LABELS) as ColumnRole[])
+      .map(role => `<option value="${role}" ${role === selected ? 'selected' : ''}>${ROLE_LABELS[role]}</option>`)
+      .join('');
+
+    this.container.innerHTML = `
+      <div class="mapping-preview-scroll">
+        <table class="mapping-preview-table">
+          <thead>
+            <tr>
+              ${this.headers.map(header => `<th>${escapeHtml(header)}</th>`).join('')}
+            </tr>
+            <tr>
+              ${this.roles.map((role, index) => `
+                <th>
+                  <select class="column-role role-${role}" data-column="${index}">${roleOptions(role)}</select>
+                </th>
+              `).join('')}
+            </tr>
+          </thead>
+          <tbody>
+            ${this.rows.slice(0, PREVIEW_ROW_COUNT).map(row => `
+              <tr>
+                ${this.headers.map((_, index) => `<td>${escapeHtml(row[index] ?? '')}</td>`).join('')}
+              </tr>
+            `).join('')}
+          </tbody>
+        </table>
+      </div>
+      <div class="mapping-preview-status"></div>
+    `;
+
+    this.container.querySelectorAll<HTMLSelectElement>('select.column-role').forEach(select => {
+      select.addEventListener('change', () => {
+        this.setRole(parseInt(select.dataset.column || '0'), select.value as ColumnRole);
+      });
+    });
+  }
+
+  /**
+   * Assign a role to a column; single-column roles move away from their previous column
+   */
+  private setRole(column: number, role: ColumnRole): void {
+    if ((SINGLE_COLUMN_ROLES as ColumnRole[]).includes(role)) {
+      this.roles = this.roles.map(existing => existing === role ? 'metadata' : existing);
+    }
+    this.roles[column] = role;
+
+    this.render();
+    this.onChange(this.getColumnMapping());
+  }
+
+  /**
+   * Get CSS styles for the component
+   */
+  static getCSS(): string {
+    return `
+      .mapping-preview-scroll {
+        max-height: 320px;
+        overflow: auto;
+        border-radius: 4px;
+        border: 1px solid rgba(255, 255, 255, 0.1);
+        margin-bottom: 10px;
+      }
+
+      .mapping-preview-table {
+        border-collapse: collapse;
+        font-size: 12px;
+        width: 100%;
+      }
+
+      .mapping-preview-table th,
+      .mapping-preview-table td {
+        padding: 4px 8px;
+        border-bottom: 1px solid rgba(255, 255, 255, 0.1);
+        text-align: left;
+        white-space: nowrap;
+        max-width: 200px;
+        overflow: hidden;
+        text-overflow: ellipsis;
+      }
+
+      .mapping-preview-table thead th {
+        position: sticky;
+        background: #1a1a1a;
+      }
+
+      .mapping-preview-table thead tr:first-child th {
+        top: 0;
+      }
+
+      .mapping-preview-table thead tr:nth-child(2) th {
+        top: 24px;
+      }
+
+      .column-role {
+        padding: 3px;
+        border-radius: 4px;
+        border: 1px solid #ccc;
+        background: #1a1a1a;
+        color: #fff;
+        font-size: 12px;
+      }
+
+      .column-role.role-lat,
+      .column-role.role-lng {
+        border-color: #22c55e;
+      }
+
+      .column-role.role-ignore {
+        opacity: 0.6;
+      }
+
+      .mapping-preview-status {
+        font-size: 13px;
+        margin-bottom: 10px;
+      }
+
+      .mapping-preview-status.success {
+        color: #22c55e;
+      }
+
+      .mapping-preview-status.warning {
+        color: #f59e0b;
+      }
+
+      .mapping-preview-status.error {
+        color: #ef4444;
+      }
+
+      @media (prefers-color-scheme: light) {
+        .mapping-preview-table thead th,
+        .column-role {
+          background: #ffffff;
+          color: #213547;
+        }
+      }
+    `;
+  }
+}
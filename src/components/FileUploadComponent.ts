@@ -1,6 +1,39 @@
-import { FileLoader, type FileLoadOptions, type FileLoadResult, type ColumnMapping } from '../utils/fileLoader';
+import {
+  FileLoader,
+  type FileLoadOptions,
+  type FileLoadResult,
+  type ColumnMapping,
+  type FileLoadProgress,
+  type LineGeometryMode,
+  type PolygonGeometryMode,
+  type SupportedFileFormat
+} from '../utils/fileLoader';
+import { BackgroundFileLoader } from '../utils/backgroundFileLoader';
+import { detectCSVLayout, guessColumnMapping, parseCSVRecords, type CSVLayoutGuess } from '../utils/csvParser';
+import { ColumnMappingPreview } from './ColumnMappingPreview';
+import { escapeHtml } from '../utils/htmlUtils';
+import { isValidTimeZone } from '../utils/timeParser';
 import type { Location } from '../types';
 
+/**
+ * Bytes read from the start of a CSV/TSV file to detect its layout
+ */
+const CSV_SNIFF_BYTES = 64 * 1024;
+
+/**
+ * Text inputs holding the optional CSV column names, by mapping field
+ */
+const OPTIONAL_COLUMN_INPUTS = {
+  intensity: '#intensityColumn',
+  name: '#nameColumn',
+  id: '#idColumn',
+  timestamp: '#timestampColumn',
+  alertType: '#alertTypeColumn',
+  severity: '#severityColumn',
+  status: '#statusColumn',
+  description: '#descriptionColumn'
+} as const;
+
 /**
  * FileUploadComponent for handling file uploads and data loading
  */
@@ -9,6 +42,11 @@ export class FileUploadComponent {
   private onDataLoaded: (locations: Location[], result: FileLoadResult, shouldAppend?: boolean) => void;
   private dropZone: HTMLElement | null = null;
   private fileInput: HTMLInputElement | null = null;
+  private loadController: AbortController | null = null;
+  private resolveCSVConfirmation: ((confirmed: boolean) => void) | null = null;
+  private csvPreview: ColumnMappingPreview | null = null;
+  private csvSample = '';
+  private previewMapping: ColumnMapping | null = null;
 
   constructor(
     containerId: string,
@@ -47,11 +85,17 @@ export class FileUploadComponent {
                 <line x1="12" y1="15" x2="12" y2="3"></line>
               </svg>
               <h3>Drop files here or click to browse</h3>
-              <p>Supports JSON, CSV, TSV, and GeoJSON formats</p>
+              <p>Supports JSON, NDJSON, CSV, TSV, GeoJSON, KML, KMZ and GPX formats</p>
             </div>
           </div>
           
-          <input type="file" id="fileInput" accept=".json,.csv,.tsv,.txt,.geojson" multiple style="display: none;">
+          <div class="load-progress" id="loadProgress" style="display: none;">
+            <progress id="loadProgressBar" max="100"></progress>
+            <span id="loadProgressText"></span>
+            <button id="cancelLoadBtn" class="cancel-btn">Cancel</button>
+          </div>
+          
+          <input type="file" id="fileInput" accept=".json,.ndjson,.jsonl,.csv,.tsv,.txt,.geojson,.kml,.kmz,.gpx" multiple style="display: none;">
           
           <div class="file-options">
             <div class="upload-mode-section">
@@ -73,14 +117,48 @@ export class FileUploadComponent {
               <select id="fileFormat">
                 <option value="auto">Auto-detect</option>
                 <option value="json">JSON</option>
+                <option value="ndjson">NDJSON / JSON Lines</option>
                 <option value="csv">CSV</option>
                 <option value="tsv">TSV</option>
                 <option value="geojson">GeoJSON</option>
+                <option value="kml">KML</option>
+                <option value="kmz">KMZ</option>
+                <option value="gpx">GPX</option>
               </select>
             </div>
             
+            <div class="geojson-options" id="geojsonOptions">
+              <h4>GeoJSON Geometry Options</h4>
+              <div class="option-row">
+                <label for="lineMode">Lines:</label>
+                <select id="lineMode">
+                  <option value="vertices" selected>Use vertices</option>
+                  <option value="sample">Sample along line</option>
+                </select>
+                <label for="lineSampleDistance">every</label>
+                <input type="number" id="lineSampleDistance" value="100" min="1" step="1"> m
+              </div>
+              <div class="option-row">
+                <label for="polygonMode">Polygons:</label>
+                <select id="polygonMode">
+                  <option value="centroid" selected>Centroid</option>
+                  <option value="sample">Area-weighted sampling</option>
+                </select>
+                <label for="polygonSampleCount">samples:</label>
+                <input type="number" id="polygonSampleCount" value="20" min="1" step="1">
+              </div>
+            </div>
+            
             <div class="csv-options" id="csvOptions" style="display: none;">
               <h4>CSV/TSV Options</h4>
+              <div class="csv-detection" id="csvDetection" style="display: none;">
+                <p id="csvDetectionText"></p>
+                <div id="csvPreview"></div>
+                <div class="csv-detection-buttons">
+                  <button id="csvImportBtn">Import</button>
+                  <button id="csvSkipBtn" class="sample-btn">Skip file</button>
+                </div>
+              </div>
               <div class="option-row">
                 <label>
                   <input type="checkbox" id="hasHeader" checked> 
@@ -96,6 +174,14 @@ export class FileUploadComponent {
                   <option value="|">Pipe (|)</option>
                 </select>
               </div>
+              <div class="option-row">
+                <label for="quoteChar">Quote character:</label>
+                <select id="quoteChar">
+                  <option value='"' selected>Double quote (")</option>
+                  <option value="'">Single quote (')</option>
+                  <option value="">None</option>
+                </select>
+              </div>
               
               <h5>Column Mapping</h5>
               <div class="column-mapping">
@@ -119,7 +205,36 @@ export class FileUploadComponent {
                   <label for="idColumn">ID column (optional):</label>
                   <input type="text" id="idColumn" value="id" placeholder="id">
                 </div>
+                <div class="mapping-row">
+                  <label for="timestampColumn">Timestamp column (optional):</label>
+                  <input type="text" id="timestampColumn" value="" placeholder="timestamp, date">
+                </div>
+                <div class="mapping-row">
+                  <label for="timestampFormat">Timestamp format:</label>
+                  <input type="text" id="timestampFormat" value="" placeholder="auto, DD.MM.YYYY HH:mm, unix">
+                </div>
+                <div class="mapping-row">
+                  <label for="timezone">Timezone:</label>
+                  <input type="text" id="timezone" value="" placeholder="local, UTC, Europe/Kyiv, +02:00">
+                </div>
+                <div class="mapping-row">
+                  <label for="alertTypeColumn">Alert type column (optional):</label>
+                  <input type="text" id="alertTypeColumn" value="" placeholder="alert_type, type">
+                </div>
+                <div class="mapping-row">
+                  <label for="severityColumn">Severity column (optional):</label>
+                  <input type="text" id="severityColumn" value="" placeholder="severity, level">
+                </div>
+                <div class="mapping-row">
+                  <label for="statusColumn">Status column (optional):</label>
+                  <input type="text" id="statusColumn" value="" placeholder="status">
+                </div>
+                <div class="mapping-row">
+                  <label for="descriptionColumn">Description column (optional):</label>
+                  <input type="text" id="descriptionColumn" value="" placeholder="description">
+                </div>
               </div>
+              <p class="mapping-note">Columns without a role are kept as metadata.</p>
             </div>
           </div>
           
@@ -189,6 +304,30 @@ export class FileUploadComponent {
     const loadUrlBtn = this.container.querySelector('#loadFromUrl');
     loadUrlBtn?.addEventListener('click', this.handleLoadFromUrl.bind(this));
 
+    // Column mapping preview for CSV files
+    const csvPreviewContainer = this.container.querySelector('#csvPreview') as HTMLElement;
+    this.csvPreview = new ColumnMappingPreview(csvPreviewContainer, (mapping) => this.handlePreviewMappingChange(mapping));
+
+    ['#delimiter', '#hasHeader', '#quoteChar'].forEach(selector => {
+      this.container.querySelector(selector)?.addEventListener('change', () => {
+        if (this.resolveCSVConfirmation) this.refreshCSVPreview();
+      });
+    });
+
+    ['#timestampFormat', '#timezone'].forEach(selector => {
+      this.container.querySelector(selector)?.addEventListener('change', () => {
+        if (this.resolveCSVConfirmation) this.handlePreviewMappingChange(this.csvPreview?.getColumnMapping() ?? null);
+      });
+    });
+
+    // Confirm or skip a CSV file after layout detection
+    this.container.querySelector('#csvImportBtn')?.addEventListener('click', () => this.settleCSVConfirmation(true));
+    this.container.querySelector('#csvSkipBtn')?.addEventListener('click', () => this.settleCSVConfirmation(false));
+
+    // Cancel a running load
+    const cancelLoadBtn = this.container.querySelector('#cancelLoadBtn');
+    cancelLoadBtn?.addEventListener('click', () => this.loadController?.abort());
+
     // Data management
     const clearDataBtn = this.container.querySelector('#clearDataBtn');
     clearDataBtn?.addEventListener('click', this.handleClearData.bind(this));
@@ -239,12 +378,20 @@ export class FileUploadComponent {
   private handleFormatChange(): void {
     const formatSelect = this.container.querySelector('#fileFormat') as HTMLSelectElement;
     const csvOptions = this.container.querySelector('#csvOptions') as HTMLElement;
+    const geojsonOptions = this.container.querySelector('#geojsonOptions') as HTMLElement;
     
     if (formatSelect.value === 'csv' || formatSelect.value === 'tsv') {
       csvOptions.style.display = 'block';
     } else {
       csvOptions.style.display = 'none';
     }
+
+    // Auto-detect may resolve to GeoJSON, so keep geometry options visible there too
+    if (formatSelect.value === 'geojson' || formatSelect.value === 'auto') {
+      geojsonOptions.style.display = 'block';
+    } else {
+      geojsonOptions.style.display = 'none';
+    }
   }
 
   /**
@@ -259,12 +406,22 @@ export class FileUploadComponent {
       return;
     }
 
+    const controller = this.startLoad(url);
+
     try {
       const options = this.getLoadOptions();
-      const result = await FileLoader.loadFromUrl(url, options);
+      options.onProgress = (progress) => this.showProgress(url, progress);
+      options.signal = controller.signal;
+      const result = await BackgroundFileLoader.loadFromUrl(url, options);
       this.handleLoadResult(result);
     } catch (error) {
-      this.showError(`Failed to load from URL: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      if (controller.signal.aborted) {
+        this.showMessage('Loading cancelled.', 'warning');
+      } else {
+        this.showError(`Failed to load from URL: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    } finally {
+      this.finishLoad(controller);
     }
   }
 
@@ -273,56 +430,299 @@ export class FileUploadComponent {
    */
   private async handleFiles(files: File[]): Promise<void> {
     for (const file of files) {
-      await this.handleSingleFile(file);
+      const completed = await this.handleSingleFile(file);
+      if (!completed) break; // Cancelling stops the remaining files too
     }
   }
 
   /**
-   * Handle a single file
+   * Handle a single file, returning false when the load was cancelled
    */
-  private async handleSingleFile(file: File): Promise<void> {
+  private async handleSingleFile(file: File): Promise<boolean> {
+    const formatSelect = this.container.querySelector('#fileFormat') as HTMLSelectElement;
+    const format = formatSelect.value === 'auto'
+      ? FileLoader.detectFormat(file.name)
+      : formatSelect.value as SupportedFileFormat;
+    const isDelimited = format === 'csv' || format === 'tsv';
+
+    // Let the user confirm the column mapping before importing
+    let previewMapping: ColumnMapping | null = null;
+    if (isDelimited) {
+      previewMapping = await this.confirmCSVLayout(file);
+      if (!previewMapping) return true;
+    }
+
+    const controller = this.startLoad(file.name);
+
     try {
-      const options = this.getLoadOptions();
-      const result = await FileLoader.loadFromFile(file, options);
+      const options = this.getLoadOptions(isDelimited ? 'csv' : undefined);
+      if (previewMapping) options.columnMapping = { ...previewMapping, ...this.getTimestampOptions() };
+      options.onProgress = (progress) => this.showProgress(file.name, progress);
+      options.signal = controller.signal;
+      const result = await BackgroundFileLoader.loadFromFile(file, options);
       this.handleLoadResult(result);
     } catch (error) {
+      if (controller.signal.aborted) {
+        this.showMessage(`Loading "${file.name}" cancelled.`, 'warning');
+        return false;
+      }
       this.showError(`Failed to load file "${file.name}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      this.finishLoad(controller);
+    }
+
+    return true;
+  }
+
+  /**
+   * Detect the layout of a CSV/TSV file, show a preview with column roles
+   * and wait until the user imports (returning the mapping) or skips the file
+   */
+  private async confirmCSVLayout(file: File): Promise<ColumnMapping | null> {
+    let sample = await file.slice(0, CSV_SNIFF_BYTES).text();
+    if (file.size > CSV_SNIFF_BYTES) {
+      // Drop the partial last line
+      sample = sample.slice(0, sample.lastIndexOf('\n') + 1);
+    }
+
+    const quoteChar = (this.container.querySelector('#quoteChar') as HTMLSelectElement).value;
+    const guess = detectCSVLayout(sample, quoteChar);
+    this.applyCSVLayoutGuess(guess);
+
+    const csvOptions = this.container.querySelector('#csvOptions') as HTMLElement;
+    const detection = this.container.querySelector('#csvDetection') as HTMLElement;
+    const detectionText = this.container.querySelector('#csvDetectionText') as HTMLElement;
+    const delimiterNames: Record<string, string> = { ',': 'comma', ';': 'semicolon', '\t': 'tab', '|': 'pipe' };
+
+    detectionText.textContent = `"${file.name}": ${delimiterNames[guess.delimiter] || guess.delimiter}-separated, ` +
+      `${guess.hasHeader ? 'with' : 'without'} header. Check the role of each column and import.`;
+
+    // A newer file replaces a confirmation that is still pending
+    this.settleCSVConfirmation(false);
+
+    this.csvSample = sample;
+    this.refreshCSVPreview(guess.columnMapping);
+
+    csvOptions.style.display = 'block';
+    detection.style.display = 'block';
+    csvOptions.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+
+    // An unknown timezone would fail every row, so it is reported once and the import waits for a fix
+    let confirmed = false;
+    while (true) {
+      confirmed = await new Promise<boolean>(resolve => {
+        this.resolveCSVConfirmation = resolve;
+      });
+
+      const { timezone } = this.getTimestampOptions();
+      if (!confirmed || !timezone || isValidTimeZone(timezone)) break;
+      this.showError(`Unknown timezone "${timezone}". Use UTC, an offset such as +02:00 or an IANA name such as Europe/Kyiv.`);
     }
+
+    detection.style.display = 'none';
+    this.handleFormatChange();
+    return confirmed ? this.previewMapping : null;
   }
 
   /**
-   * Get load options from UI
+   * Re-parse the CSV sample with the current options and update the preview table
    */
-  private getLoadOptions(): FileLoadOptions {
+  private refreshCSVPreview(initialMapping?: Partial<ColumnMapping>): void {
+    const { delimiter, hasHeader, quoteChar } = this.getCSVParseOptions();
+    const records = parseCSVRecords(this.csvSample, delimiter, quoteChar, []);
+    const columnCount = Math.max(0, ...records.map(record => record.values.length));
+    const headers = hasHeader && records.length > 0
+      ? records[0].values
+      : Array.from({ length: columnCount }, (_, i) => `column_${i}`);
+    const rows = records.slice(hasHeader ? 1 : 0).map(record => record.values);
+
+    this.csvPreview?.setData(headers, rows, initialMapping ?? guessColumnMapping(headers, rows));
+  }
+
+  /**
+   * Track the mapping chosen in the preview and show how many rows it accepts
+   */
+  private handlePreviewMappingChange(mapping: ColumnMapping | null): void {
+    this.previewMapping = mapping;
+
+    const importBtn = this.container.querySelector('#csvImportBtn') as HTMLButtonElement;
+    importBtn.disabled = !mapping;
+
+    if (!mapping) {
+      this.csvPreview?.setValidity(0, 0);
+      return;
+    }
+
+    // Keep the text fields in sync so URL loads reuse the same mapping
+    this.setColumnInputs(mapping);
+
+    // An unknown timezone is reported on import; until then the sample is counted without it
+    const timestampOptions = this.getTimestampOptions();
+    if (timestampOptions.timezone && !isValidTimeZone(timestampOptions.timezone)) {
+      delete timestampOptions.timezone;
+    }
+
+    const result = FileLoader.loadFromText(this.csvSample, 'csv', {
+      ...this.getCSVParseOptions(),
+      columnMapping: { ...mapping, ...timestampOptions }
+    });
+    this.csvPreview?.setValidity(result.summary.validLocations, result.summary.totalRows);
+  }
+
+  /**
+   * Read delimiter, header and quote settings from the CSV options
+   */
+  private getCSVParseOptions(): { delimiter: string; hasHeader: boolean; quoteChar: string } {
+    const delimiterSelect = this.container.querySelector('#delimiter') as HTMLSelectElement;
+    return {
+      delimiter: delimiterSelect.value === '\\t' ? '\t' : delimiterSelect.value,
+      hasHeader: (this.container.querySelector('#hasHeader') as HTMLInputElement).checked,
+      quoteChar: (this.container.querySelector('#quoteChar') as HTMLSelectElement).value
+    };
+  }
+
+  /**
+   * Resolve a pending CSV confirmation, if any
+   */
+  private settleCSVConfirmation(confirmed: boolean): void {
+    const resolve = this.resolveCSVConfirmation;
+    this.resolveCSVConfirmation = null;
+    resolve?.(confirmed);
+  }
+
+  /**
+   * Pre-fill the CSV options with a detected layout
+   */
+  private applyCSVLayoutGuess(guess: CSVLayoutGuess): void {
+    const delimiterSelect = this.container.querySelector('#delimiter') as HTMLSelectElement;
+    const hasHeaderCheck = this.container.querySelector('#hasHeader') as HTMLInputElement;
+
+    delimiterSelect.value = guess.delimiter === '\t' ? '\\t' : guess.delimiter;
+    hasHeaderCheck.checked = guess.hasHeader;
+
+    this.setColumnInputs(guess.columnMapping);
+  }
+
+  /**
+   * Fill the column text inputs from a mapping; coordinates keep their value when unmapped
+   */
+  private setColumnInputs(mapping: Partial<ColumnMapping>): void {
+    if (mapping.lat) (this.container.querySelector('#latColumn') as HTMLInputElement).value = mapping.lat;
+    if (mapping.lng) (this.container.querySelector('#lngColumn') as HTMLInputElement).value = mapping.lng;
+
+    (Object.keys(OPTIONAL_COLUMN_INPUTS) as (keyof typeof OPTIONAL_COLUMN_INPUTS)[]).forEach(field => {
+      (this.container.querySelector(OPTIONAL_COLUMN_INPUTS[field]) as HTMLInputElement).value = mapping[field] || '';
+    });
+  }
+
+  /**
+   * Read the timestamp format and timezone inputs
+   */
+  private getTimestampOptions(): Pick<ColumnMapping, 'timestampFormat' | 'timezone'> {
+    const timestampFormat = (this.container.querySelector('#timestampFormat') as HTMLInputElement).value.trim();
+    const timezone = (this.container.querySelector('#timezone') as HTMLInputElement).value.trim();
+    return {
+      ...(timestampFormat && { timestampFormat }),
+      ...(timezone && { timezone })
+    };
+  }
+
+  /**
+   * Begin a cancellable load and show an indeterminate progress bar
+   */
+  private startLoad(sourceName: string): AbortController {
+    this.loadController?.abort();
+    this.loadController = new AbortController();
+    this.showProgress(sourceName, { loadedBytes: 0, rowsProcessed: 0 });
+    return this.loadController;
+  }
+
+  /**
+   * End a load started with startLoad
+   */
+  private finishLoad(controller: AbortController): void {
+    if (this.loadController === controller) {
+      this.loadController = null;
+      this.hideProgress();
+    }
+  }
+
+  /**
+   * Show loading progress for a streamed source
+   */
+  private showProgress(sourceName: string, progress: FileLoadProgress): void {
+    const progressSection = this.container.querySelector('#loadProgress') as HTMLElement;
+    const progressBar = this.container.querySelector('#loadProgressBar') as HTMLProgressElement;
+    const progressText = this.container.querySelector('#loadProgressText') as HTMLElement;
+    
+    progressSection.style.display = 'flex';
+    
+    const loadedMb = (progress.loadedBytes / (1024 * 1024)).toFixed(1);
+    if (progress.totalRows) {
+      const percent = Math.min(100, (progress.rowsProcessed / progress.totalRows) * 100);
+      progressBar.value = percent;
+      progressText.textContent = `${sourceName}: parsing ${progress.rowsProcessed.toLocaleString()} / ${progress.totalRows.toLocaleString()} rows`;
+    } else if (progress.totalBytes) {
+      const percent = Math.min(100, (progress.loadedBytes / progress.totalBytes) * 100);
+      progressBar.value = percent;
+      progressText.textContent = `${sourceName}: ${percent.toFixed(0)}% (${loadedMb} MB, ${progress.rowsProcessed.toLocaleString()} rows)`;
+    } else {
+      // Unknown total size: indeterminate bar
+      progressBar.removeAttribute('value');
+      progressText.textContent = progress.loadedBytes > 0
+        ? `${sourceName}: ${loadedMb} MB, ${progress.rowsProcessed.toLocaleString()} rows`
+        : `Loading ${sourceName}...`;
+    }
+  }
+
+  /**
+   * Hide loading progress
+   */
+  private hideProgress(): void {
+    const progressSection = this.container.querySelector('#loadProgress') as HTMLElement;
+    progressSection.style.display = 'none';
+  }
+
+  /**
+   * Get load options from UI, optionally forcing the format (e.g. after CSV detection)
+   */
+  private getLoadOptions(resolvedFormat?: SupportedFileFormat): FileLoadOptions {
     const formatSelect = this.container.querySelector('#fileFormat') as HTMLSelectElement;
     const hasHeaderCheck = this.container.querySelector('#hasHeader') as HTMLInputElement;
     const delimiterSelect = this.container.querySelector('#delimiter') as HTMLSelectElement;
+    const format = resolvedFormat || formatSelect.value;
     
     const options: FileLoadOptions = {};
     
-    if (formatSelect.value !== 'auto') {
-      options.format = formatSelect.value as any;
+    if (format !== 'auto') {
+      options.format = format as SupportedFileFormat;
     }
     
-    if (formatSelect.value === 'csv' || formatSelect.value === 'tsv') {
+    if (format === 'csv' || format === 'tsv') {
       options.hasHeader = hasHeaderCheck.checked;
       options.delimiter = delimiterSelect.value === '\\t' ? '\t' : delimiterSelect.value;
+      options.quoteChar = (this.container.querySelector('#quoteChar') as HTMLSelectElement).value;
       
       const columnMapping: ColumnMapping = {
         lat: (this.container.querySelector('#latColumn') as HTMLInputElement).value || 'lat',
-        lng: (this.container.querySelector('#lngColumn') as HTMLInputElement).value || 'lng'
+        lng: (this.container.querySelector('#lngColumn') as HTMLInputElement).value || 'lng',
+        ...this.getTimestampOptions()
       };
       
-      const intensityCol = (this.container.querySelector('#intensityColumn') as HTMLInputElement).value;
-      const nameCol = (this.container.querySelector('#nameColumn') as HTMLInputElement).value;
-      const idCol = (this.container.querySelector('#idColumn') as HTMLInputElement).value;
-      
-      if (intensityCol) columnMapping.intensity = intensityCol;
-      if (nameCol) columnMapping.name = nameCol;
-      if (idCol) columnMapping.id = idCol;
+      (Object.keys(OPTIONAL_COLUMN_INPUTS) as (keyof typeof OPTIONAL_COLUMN_INPUTS)[]).forEach(field => {
+        const column = (this.container.querySelector(OPTIONAL_COLUMN_INPUTS[field]) as HTMLInputElement).value;
+        if (column) columnMapping[field] = column;
+      });
       
       options.columnMapping = columnMapping;
     }
+
+    if (formatSelect.value === 'geojson' || formatSelect.value === 'auto') {
+      options.lineMode = (this.container.querySelector('#lineMode') as HTMLSelectElement).value as LineGeometryMode;
+      options.polygonMode = (this.container.querySelector('#polygonMode') as HTMLSelectElement).value as PolygonGeometryMode;
+      options.lineSampleDistance = parseFloat((this.container.querySelector('#lineSampleDistance') as HTMLInputElement).value) || undefined;
+      options.polygonSampleCount = parseInt((this.container.querySelector('#polygonSampleCount') as HTMLInputElement).value) || undefined;
+    }
     
     return options;
   }
@@ -411,7 +811,7 @@ export class FileUploadComponent {
         <div class="load-errors">
           <h4>Errors (${result.errors.length})</h4>
           <ul>
-            ${result.errors.slice(0, 10).map(error => `<li>${this.escapeHtml(error)}</li>`).join('')}
+            ${result.errors.slice(0, 10).map(error => `<li>${escapeHtml(error)}</li>`).join('')}
             ${result.errors.length > 10 ? `<li><em>... and ${result.errors.length - 10} more errors</em></li>` : ''}
           </ul>
         </div>
@@ -441,7 +841,7 @@ export class FileUploadComponent {
     summaryDiv.innerHTML = `
       <div class="load-summary">
         <div class="summary-item ${type}">
-          <strong>${iconMap[type]} ${message}</strong>
+          <strong>${iconMap[type]} ${escapeHtml(message)}</strong>
         </div>
       </div>
     `;
@@ -458,7 +858,7 @@ export class FileUploadComponent {
     summaryDiv.innerHTML = `
       <div class="load-summary">
         <div class="summary-item error">
-          <strong>✗ Error:</strong> ${this.escapeHtml(message)}
+          <strong>✗ Error:</strong> ${escapeHtml(message)}
         </div>
       </div>
     `;
@@ -484,15 +884,6 @@ export class FileUploadComponent {
     URL.revokeObjectURL(url);
   }
 
-  /**
-   * Escape HTML for security
-   */
-  private escapeHtml(text: string): string {
-    const div = document.createElement('div');
-    div.textContent = text;
-    return div.innerHTML;
-  }
-
   /**
    * Clear results
    */
@@ -505,7 +896,7 @@ export class FileUploadComponent {
    * Get CSS styles for the component
    */
   static getCSS(): string {
-    return `
+    return ColumnMappingPreview.getCSS() + `
       .file-upload-component {
         max-width: 800px;
         margin: 0 auto;
@@ -543,6 +934,30 @@ export class FileUploadComponent {
         margin-bottom: 10px;
       }
 
+      .load-progress {
+        display: flex;
+        align-items: center;
+        gap: 10px;
+        margin-bottom: 20px;
+      }
+
+      .load-progress progress {
+        flex: 1;
+        height: 12px;
+        accent-color: #646cff;
+      }
+
+      .load-progress span {
+        font-size: 13px;
+        color: #888;
+        white-space: nowrap;
+      }
+
+      .cancel-btn {
+        padding: 6px 14px;
+        font-size: 13px;
+      }
+
       .file-options {
         background: rgba(255, 255, 255, 0.05);
         border-radius: 8px;
@@ -608,12 +1023,36 @@ export class FileUploadComponent {
         color: #fff;
       }
 
+      .geojson-options h4,
       .csv-options h4,
       .csv-options h5 {
         margin: 15px 0 10px 0;
         color: #646cff;
       }
 
+      .csv-detection {
+        background: rgba(100, 108, 255, 0.1);
+        border: 1px solid rgba(100, 108, 255, 0.4);
+        border-radius: 6px;
+        padding: 10px 15px;
+        margin-bottom: 15px;
+      }
+
+      .csv-detection p {
+        margin: 0 0 10px 0;
+        font-size: 14px;
+      }
+
+      .csv-detection-buttons {
+        display: flex;
+        gap: 10px;
+      }
+
+      .csv-detection-buttons button:disabled {
+        opacity: 0.5;
+        cursor: not-allowed;
+      }
+
       .option-row,
       .mapping-row {
         margin-bottom: 10px;
@@ -627,6 +1066,19 @@ export class FileUploadComponent {
         font-size: 14px;
       }
 
+      .geojson-options select,
+      .geojson-options input {
+        padding: 6px;
+        border-radius: 4px;
+        border: 1px solid #ccc;
+        background: #1a1a1a;
+        color: #fff;
+      }
+
+      .geojson-options input {
+        width: 80px;
+      }
+
       .mapping-row input {
         flex: 1;
         padding: 6px;
@@ -636,6 +1088,12 @@ export class FileUploadComponent {
         color: #fff;
       }
 
+      .mapping-note {
+        font-size: 12px;
+        opacity: 0.7;
+        margin: 0;
+      }
+
       .url-section {
         background: rgba(255, 255, 255, 0.05);
         border-radius: 8px;
@@ -814,6 +1272,8 @@ export class FileUploadComponent {
 
       @media (prefers-color-scheme: light) {
         .format-section select,
+        .geojson-options select,
+        .geojson-options input,
         .mapping-row input,
         .url-input-group input {
           background: #ffffff;
@@ -0,0 +1,413 @@
+import { escapeHtml } from '../utils/htmlUtils';
+import { getPaletteGradient, getPalettes, interpolateColor } from '../utils/palettes';
+
+const GRADIENT_STORAGE_KEY = 'heatmap_saved_gradients';
+
+/**
+ * Color stop of a gradient, at a position between 0 and 1
+ */
+interface GradientStop {
+  position: number;
+  color: string; // #rrggbb
+}
+
+/**
+ * Edits a heatmap gradient: draggable color stops, presets and saved gradients
+ */
+export class GradientEditor {
+  private element: HTMLElement;
+  private onChange: (gradient: Record<string, string>) => void;
+  private stops: GradientStop[];
+  private selectedStop: GradientStop | null = null;
+
+  constructor(
+    container: HTMLElement,
+    idPrefix: string,
+    gradient: Record<string, string>,
+    onChange: (gradient: Record<string, string>) => void
+  ) {
+    this.element = document.createElement('div');
+    this.element.className = 'gradient-editor';
+    this.element.innerHTML = this.getHTML(idPrefix);
+    container.appendChild(this.element);
+
+    this.stops = GradientEditor.toStops(gradient);
+    this.onChange = onChange;
+    this.updatePresetOptions(this.findPreset());
+    this.setupEventListeners();
+    this.selectStop(null);
+  }
+
+  /**
+   * Get the HTML structure for the editor
+   */
+  private getHTML(idPrefix: string): string {
+    return `
+      <label>
+        Gradient:
+        <select id="${idPrefix}-gradient-preset"></select>
+      </label>
+      <div class="gradient-track" id="${idPrefix}-gradient-track" title="Click to add a stop, drag stops to move them">
+        <div class="gradient-bar"></div>
+      </div>
+      <input type="color" id="${idPrefix}-gradient-color" title="Color of the selected stop" />
+      <button class="btn btn-secondary gradient-remove" title="Remove the selected stop">✕</button>
+      <button class="btn btn-secondary gradient-reverse" title="Reverse the gradient">⇄</button>
+      <input type="text" class="gradient-name" placeholder="Gradient name" />
+      <button class="btn btn-secondary gradient-save">Save</button>
+      <button class="btn btn-secondary gradient-delete" title="Delete the selected saved gradient">Delete</button>
+    `;
+  }
+
+  /**
+   * Setup event listeners
+   */
+  private setupEventListeners(): void {
+    const track = this.element.querySelector('.gradient-track') as HTMLElement;
+    const colorInput = this.element.querySelector('input[type="color"]') as HTMLInputElement;
+    const presetSelect = this.element.querySelector('select') as HTMLSelectElement;
+
+    // Clicking the bar adds a stop with the color already shown there
+    track.addEventListener('click', event => {
+      if ((event.target as HTMLElement).classList.contains('gradient-stop')) return;
+
+      const position = this.getTrackPosition(track, event.clientX);
+      const stop = { position, color: this.getColorAt(position) };
+      this.stops.push(stop);
+      this.selectStop(stop);
+      this.commit();
+    });
+
+    track.addEventListener('pointerdown', event => {
+      const handle = event.target as HTMLElement;
+      if (!handle.classList.contains('gradient-stop')) return;
+
+      const stop = this.stops[Number(handle.dataset.index)];
+      this.selectStop(stop);
+      handle.setPointerCapture(event.pointerId);
+
+      // Move the stop live, and apply the gradient once it is dropped
+      const onMove = (moveEvent: PointerEvent) => {
+        stop.position = this.getTrackPosition(track, moveEvent.clientX);
+        this.renderStops();
+      };
+      const onUp = () => {
+        handle.removeEventListener('pointermove', onMove);
+        handle.removeEventListener('pointerup', onUp);
+        this.commit();
+      };
+      handle.addEventListener('pointermove', onMove);
+      handle.addEventListener('pointerup', onUp);
+    });
+
+    colorInput.addEventListener('input', () => {
+      if (!this.selectedStop) return;
+      this.selectedStop.color = colorInput.value;
+      this.renderStops();
+    });
+    colorInput.addEventListener('change', () => this.commit());
+
+    this.element.querySelector('.gradient-remove')?.addEventListener('click', () => {
+      // A gradient needs at least two stops
+      if (!this.selectedStop || this.stops.length <= 2) return;
+      this.stops = this.stops.filter(stop => stop !== this.selectedStop);
+      this.selectStop(null);
+      this.commit();
+    });
+
+    this.element.querySelector('.gradient-reverse')?.addEventListener('click', () => {
+      this.stops.forEach(stop => {
+        stop.position = 1 - stop.position;
+      });
+      this.commit();
+    });
+
+    presetSelect.addEventListener('change', () => {
+      const [source, id] = GradientEditor.parsePresetValue(presetSelect.value);
+      const gradient = source === 'saved' ? GradientEditor.loadGradients()[id] : getPaletteGradient(id);
+      if (!gradient) return;
+
+      this.stops = GradientEditor.toStops(gradient);
+      this.selectStop(null);
+      this.commit(true);
+    });
+
+    this.element.querySelector('.gradient-save')?.addEventListener('click', () => {
+      const nameInput = this.element.querySelector('.gradient-name') as HTMLInputElement;
+      const name = nameInput.value.trim();
+      if (!name) {
+        nameInput.focus();
+        return;
+      }
+
+      const gradients = GradientEditor.loadGradients();
+      gradients[name] = this.getGradient();
+      GradientEditor.saveGradients(gradients);
+      nameInput.value = '';
+      this.updatePresetOptions(`saved:${name}`);
+    });
+
+    this.element.querySelector('.gradient-delete')?.addEventListener('click', () => {
+      const [source, id] = GradientEditor.parsePresetValue(presetSelect.value);
+      if (source !== 'saved') return;
+
+      const gradients = GradientEditor.loadGradients();
+      delete gradients[id];
+      GradientEditor.saveGradients(gradients);
+      this.updatePresetOptions();
+    });
+  }
+
+  /**
+   * Current gradient in Leaflet.heat format
+   */
+  public getGradient(): Record<string, string> {
+    return GradientEditor.toGradient(this.stops);
+  }
+
+  /**
+   * Redraw the bar and apply the gradient; edits turn the preset select back to 'Custom'
+   */
+  private commit(fromPreset: boolean = false): void {
+    if (!fromPreset) {
+      (this.element.querySelector('select') as HTMLSelectElement).value = '';
+    }
+    this.updateDeleteButton();
+    this.renderStops();
+    this.onChange(this.getGradient());
+  }
+
+  /**
+   * Draw the gradient bar and one handle per stop
+   */
+  private renderStops(): void {
+    const track = this.element.querySelector('.gradient-track') as HTMLElement;
+    const sorted = [...this.stops].sort((a, b) => a.position - b.position);
+
+    (track.querySelector('.gradient-bar') as HTMLElement).style.background =
+      `linear-gradient(to right, ${sorted.map(stop => `${stop.color} ${(stop.position * 100).toFixed(1)}%`).join(', ')})`;
+
+    // Reuse the handles so one being dragged keeps its pointer capture
+    const handles = Array.from(track.querySelectorAll('.gradient-stop')) as HTMLElement[];
+    while (handles.length < this.stops.length) {
+      const handle = document.createElement('div');
+      handle.className = 'gradient-stop';
+      track.appendChild(handle);
+      handles.push(handle);
+    }
+    handles.splice(this.stops.length).forEach(handle => handle.remove());
+
+    this.stops.forEach((stop, index) => {
+      const handle = handles[index];
+      handle.classList.toggle('selected', stop === this.selectedStop);
+      handle.dataset.index = String(index);
+      handle.style.left = `${stop.position * 100}%`;
+      handle.style.background = stop.color;
+      handle.title = `${stop.color} at ${stop.position.toFixed(2)}`;
+    });
+
+    (this.element.querySelector('.gradient-remove') as HTMLButtonElement).disabled =
+      !this.selectedStop || this.stops.length <= 2;
+  }
+
+  /**
+   * Select a stop for color editing and removal
+   */
+  private selectStop(stop: GradientStop | null): void {
+    this.selectedStop = stop;
+    const colorInput = this.element.querySelector('input[type="color"]') as HTMLInputElement;
+    colorInput.disabled = !stop;
+    if (stop) {
+      colorInput.value = stop.color;
+    }
+    this.renderStops();
+  }
+
+  /**
+   * Fill the preset select with palettes and saved gradients
+   */
+  private updatePresetOptions(selected: string = ''): void {
+    const select = this.element.querySelector('select') as HTMLSelectElement;
+    const savedNames = Object.keys(GradientEditor.loadGradients());
+    const option = (value: string, label: string) =>
+      `<option value="${escapeHtml(value)}" ${value === selected ? 'selected' : ''}>${escapeHtml(label)}</option>`;
+
+    select.innerHTML = option('', 'Custom') +
+      `<optgroup label="Palettes">
+        ${getPalettes(['sequential', 'diverging'])
+          .map(palette => option(`palette:${palette.id}`, `${palette.name}${palette.colorBlindSafe ? ' (color-blind safe)' : ''}`))
+          .join('')}
+      </optgroup>` +
+      (savedNames.length > 0
+        ? `<optgroup label="Saved">${savedNames.map(name => option(`saved:${name}`, name)).join('')}</optgroup>`
+        : '');
+
+    this.updateDeleteButton();
+  }
+
+  /**
+   * Preset option matching the current stops, or '' for a custom gradient
+   */
+  private findPreset(): string {
+    const current = JSON.stringify(this.getGradient());
+    const matches = (gradient: Record<string, string>) =>
+      JSON.stringify(GradientEditor.toGradient(GradientEditor.toStops(gradient))) === current;
+
+    const palette = getPalettes(['sequential', 'diverging']).find(palette => matches(getPaletteGradient(palette.id)));
+    if (palette) return `palette:${palette.id}`;
+
+    const saved = Object.entries(GradientEditor.loadGradients()).find(([, gradient]) => matches(gradient));
+    return saved ? `saved:${saved[0]}` : '';
+  }
+
+  /**
+   * Only saved gradients can be deleted
+   */
+  private updateDeleteButton(): void {
+    const select = this.element.querySelector('select') as HTMLSelectElement;
+    (this.element.querySelector('.gradient-delete') as HTMLButtonElement).disabled = !select.value.startsWith('saved:');
+  }
+
+  /**
+   * Position on the track for a pointer x coordinate
+   */
+  private getTrackPosition(track: HTMLElement, clientX: number): number {
+    const rect = track.getBoundingClientRect();
+    return Math.min(Math.max((clientX - rect.left) / rect.width, 0), 1);
+  }
+
+  /**
+   * Color of the current gradient at a position
+   */
+  private getColorAt(position: number): string {
+    const sorted = [...this.stops].sort((a, b) => a.position - b.position);
+    const next = sorted.findIndex(stop => stop.position >= position);
+
+    if (next === -1) return sorted[sorted.length - 1].color;
+    if (next === 0) return sorted[0].color;
+
+    const before = sorted[next - 1];
+    const after = sorted[next];
+    const span = after.position - before.position;
+    return interpolateColor(before.color, after.color, span > 0 ? (position - before.position) / span : 0);
+  }
+
+  /**
+   * Source and id of a preset option value; saved names may contain ':'
+   */
+  private static parsePresetValue(value: string): [string, string] {
+    const separator = value.indexOf(':');
+    return separator === -1 ? [value, ''] : [value.slice(0, separator), value.slice(separator + 1)];
+  }
+
+  /**
+   * Gradient of stops, keyed by position
+   */
+  private static toGradient(stops: GradientStop[]): Record<string, string> {
+    const gradient: Record<string, string> = {};
+    [...stops]
+      .sort((a, b) => a.position - b.position)
+      .forEach(stop => {
+        gradient[stop.position.toFixed(3)] = stop.color;
+      });
+    return gradient;
+  }
+
+  /**
+   * Stops of a gradient, with colors as #rrggbb
+   */
+  private static toStops(gradient: Record<string, string>): GradientStop[] {
+    return Object.entries(gradient)
+      .map(([position, color]) => ({ position: Math.min(Math.max(Number(position), 0), 1), color: GradientEditor.toHex(color) }))
+      .filter(stop => isFinite(stop.position))
+      .sort((a, b) => a.position - b.position);
+  }
+
+  /**
+   * Convert any CSS color to #rrggbb for the color input
+   */
+  private static toHex(color: string): string {
+    if (/^#[0-9a-f]{6}$/i.test(color)) return color.toLowerCase();
+
+    const context = document.createElement('canvas').getContext('2d');
+    if (!context) return '#000000';
+    context.fillStyle = color;
+    return context.fillStyle.startsWith('#') ? context.fillStyle : '#000000';
+  }
+
+  /**
+   * Gradients saved by name in localStorage
+   */
+  private static loadGradients(): Record<string, Record<string, string>> {
+    try {
+      const stored = localStorage.getItem(GRADIENT_STORAGE_KEY);
+      return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      console.warn('Failed to load gradients from localStorage:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Save the named gradients to localStorage
+   */
+  private static saveGradients(gradients: Record<string, Record<string, string>>): void {
+    try {
+      localStorage.setItem(GRADIENT_STORAGE_KEY, JSON.stringify(gradients));
+    } catch (error) {
+      console.warn('Failed to save gradients to localStorage:', error);
+    }
+  }
+
+  /**
+   * Get CSS styles for the editor
+   */
+  static getCSS(): string {
+    return `
+      .gradient-editor {
+        display: contents;
+      }
+
+      .gradient-track {
+        position: relative;
+        width: 200px;
+        height: 28px;
+        cursor: copy;
+      }
+
+      .gradient-bar {
+        position: absolute;
+        top: 0;
+        left: 0;
+        right: 0;
+        height: 16px;
+        border: 1px solid rgba(255, 255, 255, 0.3);
+        border-radius: 3px;
+      }
+
+      .gradient-stop {
+        position: absolute;
+        top: 12px;
+        width: 12px;
+        height: 12px;
+        margin-left: -6px;
+        border: 2px solid #fff;
+        border-radius: 2px;
+        box-shadow: 0 1px 3px rgba(0, 0, 0, 0.5);
+        cursor: ew-resize;
+        touch-action: none;
+      }
+
+      .gradient-stop.selected {
+        border-color: #646cff;
+        transform: scale(1.2);
+      }
+
+      .gradient-editor .btn:disabled,
+      .gradient-editor input:disabled {
+        opacity: 0.5;
+        cursor: not-allowed;
+      }
+    `;
+  }
+}
@@ -0,0 +1,124 @@
+import { getPaletteColors, getPalettes, type PaletteKind } from '../utils/palettes';
+
+const KIND_LABELS: Record<PaletteKind, string> = {
+  sequential: 'Sequential',
+  diverging: 'Diverging',
+  categorical: 'Categorical'
+};
+
+/**
+ * Palette select with a reverse toggle and a preview of the colors
+ */
+export class PalettePicker {
+  private element: HTMLElement;
+  private onChange: (paletteId: string, reversed: boolean) => void;
+
+  /**
+   * @param idPrefix Prefix of the element ids, e.g. the visualization type
+   * @param kinds Palette kinds offered, in this order
+   */
+  constructor(
+    container: HTMLElement,
+    idPrefix: string,
+    kinds: PaletteKind[],
+    paletteId: string,
+    reversed: boolean,
+    onChange: (paletteId: string, reversed: boolean) => void
+  ) {
+    this.element = document.createElement('div');
+    this.element.className = 'palette-picker';
+    this.element.innerHTML = this.getHTML(idPrefix, kinds, paletteId, reversed);
+    container.appendChild(this.element);
+
+    this.onChange = onChange;
+    this.setupEventListeners();
+    this.updatePreview();
+  }
+
+  /**
+   * Get the HTML structure for the picker
+   */
+  private getHTML(idPrefix: string, kinds: PaletteKind[], paletteId: string, reversed: boolean): string {
+    const groups = kinds
+      .map(kind => `
+        <optgroup label="${KIND_LABELS[kind]}">
+          ${getPalettes([kind]).map(palette => `
+            <option value="${palette.id}" ${palette.id === paletteId ? 'selected' : ''}>
+              ${palette.name}${palette.colorBlindSafe ? ' (color-blind safe)' : ''}
+            </option>
+          `).join('')}
+        </optgroup>
+      `)
+      .join('');
+
+    return `
+      <label>
+        Palette:
+        <select id="${idPrefix}-palette">${groups}</select>
+      </label>
+      <span class="palette-preview" id="${idPrefix}-palette-preview"></span>
+      <label>
+        Reverse:
+        <input type="checkbox" id="${idPrefix}-palette-reversed" ${reversed ? 'checked' : ''} />
+      </label>
+    `;
+  }
+
+  /**
+   * Setup event listeners
+   */
+  private setupEventListeners(): void {
+    const [select, reverse] = this.getInputs();
+    const notify = () => {
+      this.updatePreview();
+      this.onChange(select.value, reverse.checked);
+    };
+
+    select.addEventListener('change', notify);
+    reverse.addEventListener('change', notify);
+  }
+
+  /**
+   * Show the selected colors as a strip
+   */
+  private updatePreview(): void {
+    const [select, reverse] = this.getInputs();
+    const preview = this.element.querySelector('.palette-preview') as HTMLElement;
+    preview.innerHTML = getPaletteColors(select.value, reverse.checked)
+      .map(color => `<span style="background: ${color};"></span>`)
+      .join('');
+  }
+
+  /**
+   * The palette select and the reverse checkbox
+   */
+  private getInputs(): [HTMLSelectElement, HTMLInputElement] {
+    return [
+      this.element.querySelector('select') as HTMLSelectElement,
+      this.element.querySelector('input[type="checkbox"]') as HTMLInputElement
+    ];
+  }
+
+  /**
+   * Get CSS styles for the picker
+   */
+  static getCSS(): string {
+    return `
+      .palette-picker {
+        display: contents;
+      }
+
+      .palette-preview {
+        display: inline-flex;
+        height: 14px;
+        border: 1px solid rgba(255, 255, 255, 0.3);
+        border-radius: 2px;
+        overflow: hidden;
+      }
+
+      .palette-preview span {
+        width: 10px;
+      }
+    `;
+  }
+}
@@ -0,0 +1,385 @@
+/**
+ * One step of a playback: the time window shown on the map
+ */
+export interface PlaybackFrame {
+  index: number;
+  start: Date;
+  end: Date;
+}
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+const WINDOW_OPTIONS: [number, string][] = [
+  [15 * MINUTE_MS, '15 min'],
+  [30 * MINUTE_MS, '30 min'],
+  [HOUR_MS, '1 hour'],
+  [3 * HOUR_MS, '3 hours'],
+  [6 * HOUR_MS, '6 hours'],
+  [12 * HOUR_MS, '12 hours'],
+  [DAY_MS, '1 day'],
+  [7 * DAY_MS, '7 days']
+];
+
+const STEP_OPTIONS: [number, string][] = [
+  [5 * MINUTE_MS, '5 min'],
+  [15 * MINUTE_MS, '15 min'],
+  [30 * MINUTE_MS, '30 min'],
+  [HOUR_MS, '1 hour'],
+  [3 * HOUR_MS, '3 hours'],
+  [6 * HOUR_MS, '6 hours'],
+  [DAY_MS, '1 day']
+];
+
+const SPEED_OPTIONS: [number, string][] = [
+  [0.5, '0.5 fps'],
+  [1, '1 fps'],
+  [2, '2 fps'],
+  [4, '4 fps'],
+  [8, '8 fps']
+];
+
+/**
+ * Plays a sliding time window through the dataset's timestamp range
+ */
+export class TimePlaybackControl {
+  private container: HTMLElement;
+  private onFrame: (frame: PlaybackFrame | null) => void;
+  private onExport: (frames: PlaybackFrame[]) => void;
+  private domainStart: number | null = null;
+  private domainEnd: number | null = null;
+  private currentIndex: number | null = null; // null while playback is stopped
+  private timer: number | null = null;
+
+  constructor(
+    containerId: string,
+    onFrame: (frame: PlaybackFrame | null) => void,
+    onExport: (frames: PlaybackFrame[]) => void
+  ) {
+    const container = document.getElementById(containerId);
+    if (!container) {
+      throw new Error(`Container with id '${containerId}' not found`);
+    }
+
+    this.container = container;
+    this.onFrame = onFrame;
+    this.onExport = onExport;
+    this.container.innerHTML = this.getHTML();
+    this.setupEventListeners();
+    this.updateControls();
+  }
+
+  /**
+   * Set the time span to play through; null bounds disable playback
+   */
+  public setDomain(start: number | null, end: number | null): void {
+    this.domainStart = start;
+    this.domainEnd = end;
+
+    if (this.currentIndex !== null) {
+      const frameCount = this.getFrameCount();
+      if (frameCount === 0) {
+        this.stop();
+        return;
+      }
+      this.currentIndex = Math.min(this.currentIndex, frameCount - 1);
+    }
+
+    this.updateControls();
+  }
+
+  /**
+   * Frame being shown, or null when playback is stopped
+   */
+  public getCurrentFrame(): PlaybackFrame | null {
+    return this.currentIndex === null ? null : this.getFrame(this.currentIndex);
+  }
+
+  /**
+   * All frames for the current domain, window and step
+   */
+  public getFrames(): PlaybackFrame[] {
+    return Array.from({ length: this.getFrameCount() }, (_, index) => this.getFrame(index));
+  }
+
+  /**
+   * Get the HTML structure for the control
+   */
+  private getHTML(): string {
+    const options = (values: [number, string][], selected: number) => values
+      .map(([value, label]) => `<option value="${value}" ${value === selected ? 'selected' : ''}>${label}</option>`)
+      .join('');
+
+    return `
+      <div class="time-playback-control">
+        <div class="playback-buttons">
+          <button id="playback-reset" class="playback-btn" title="Stop playback">⏹</button>
+          <button id="playback-step-back" class="playback-btn" title="Previous frame">⏮</button>
+          <button id="playback-toggle" class="playback-btn" title="Play">▶</button>
+          <button id="playback-step-forward" class="playback-btn" title="Next frame">⏭</button>
+        </div>
+        <input type="range" id="playback-position" min="0" max="0" value="0" />
+        <label>
+          Window:
+          <select id="playback-window">${options(WINDOW_OPTIONS, HOUR_MS)}</select>
+        </label>
+        <label>
+          Step:
+          <select id="playback-step">${options(STEP_OPTIONS, 15 * MINUTE_MS)}</select>
+        </label>
+        <label>
+          Speed:
+          <select id="playback-speed">${options(SPEED_OPTIONS, 2)}</select>
+        </label>
+        <button id="playback-export" class="playback-btn" title="Download the frame sequence as JSON">Export frames</button>
+        <span class="playback-readout" id="playback-readout"></span>
+      </div>
+    `;
+  }
+
+  /**
+   * Setup event listeners
+   */
+  private setupEventListeners(): void {
+    this.container.querySelector('#playback-toggle')?.addEventListener('click', () => {
+      if (this.timer !== null) {
+        this.pause();
+      } else {
+        this.play();
+      }
+    });
+
+    this.container.querySelector('#playback-step-back')?.addEventListener('click', () => {
+      this.pause();
+      this.showFrame((this.currentIndex ?? 1) - 1);
+    });
+
+    this.container.querySelector('#playback-step-forward')?.addEventListener('click', () => {
+      this.pause();
+      this.showFrame((this.currentIndex ?? -1) + 1);
+    });
+
+    this.container.querySelector('#playback-reset')?.addEventListener('click', () => this.stop());
+
+    const position = this.container.querySelector('#playback-position') as HTMLInputElement;
+    position.addEventListener('input', () => this.showFrame(parseInt(position.value)));
+
+    // Window and step change the frame layout; keep the current start time
+    ['#playback-window', '#playback-step'].forEach(selector => {
+      this.container.querySelector(selector)?.addEventListener('change', () => {
+        const frame = this.getCurrentFrame();
+        this.updateControls();
+        if (frame && this.domainStart !== null) {
+          this.showFrame(Math.floor((frame.start.getTime() - this.domainStart) / this.getStep()));
+        }
+      });
+    });
+
+    // Restart the timer at the new speed
+    this.container.querySelector('#playback-speed')?.addEventListener('change', () => {
+      if (this.timer !== null) {
+        this.pause();
+        this.play();
+      }
+    });
+
+    this.container.querySelector('#playback-export')?.addEventListener('click', () => {
+      const frames = this.getFrames();
+      if (frames.length > 0) this.onExport(frames);
+    });
+  }
+
+  /**
+   * Start or resume playback
+   */
+  private play(): void {
+    const frameCount = this.getFrameCount();
+    if (frameCount === 0) return;
+
+    // Start over once the end was reached
+    if (this.currentIndex === null || this.currentIndex >= frameCount - 1) {
+      this.showFrame(0);
+    }
+
+    const speed = parseFloat((this.container.querySelector('#playback-speed') as HTMLSelectElement).value);
+    this.timer = window.setInterval(() => {
+      if (this.currentIndex === null || this.currentIndex >= this.getFrameCount() - 1) {
+        this.pause();
+        return;
+      }
+      this.showFrame(this.currentIndex + 1);
+    }, 1000 / speed);
+
+    this.updateControls();
+  }
+
+  /**
+   * Pause on the current frame
+   */
+  private pause(): void {
+    if (this.timer !== null) {
+      window.clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.updateControls();
+  }
+
+  /**
+   * Stop playback and return to the regular time range
+   */
+  private stop(): void {
+    this.pause();
+    if (this.currentIndex === null) return;
+
+    this.currentIndex = null;
+    this.updateControls();
+    this.onFrame(null);
+  }
+
+  /**
+   * Show a frame, clamped to the available frames
+   */
+  private showFrame(index: number): void {
+    const frameCount = this.getFrameCount();
+    if (frameCount === 0) return;
+
+    this.currentIndex = Math.max(0, Math.min(frameCount - 1, index));
+    this.updateControls();
+    this.onFrame(this.getFrame(this.currentIndex));
+  }
+
+  /**
+   * Number of frames needed to cover the domain
+   */
+  private getFrameCount(): number {
+    if (this.domainStart === null || this.domainEnd === null) return 0;
+
+    const span = this.domainEnd - this.domainStart;
+    return Math.max(1, Math.ceil((span - this.getWindow()) / this.getStep()) + 1);
+  }
+
+  /**
+   * Window of a frame
+   */
+  private getFrame(index: number): PlaybackFrame {
+    const start = (this.domainStart ?? 0) + index * this.getStep();
+    return { index, start: new Date(start), end: new Date(start + this.getWindow()) };
+  }
+
+  /**
+   * Selected window length in milliseconds
+   */
+  private getWindow(): number {
+    return parseFloat((this.container.querySelector('#playback-window') as HTMLSelectElement).value);
+  }
+
+  /**
+   * Selected step between frames in milliseconds
+   */
+  private getStep(): number {
+    return parseFloat((this.container.querySelector('#playback-step') as HTMLSelectElement).value);
+  }
+
+  /**
+   * Update buttons, position slider and readout
+   */
+  private updateControls(): void {
+    const frameCount = this.getFrameCount();
+    const position = this.container.querySelector('#playback-position') as HTMLInputElement;
+    const toggle = this.container.querySelector('#playback-toggle') as HTMLButtonElement;
+    const readout = this.container.querySelector('#playback-readout') as HTMLElement;
+
+    position.max = String(Math.max(0, frameCount - 1));
+    position.value = String(this.currentIndex ?? 0);
+
+    toggle.textContent = this.timer !== null ? '⏸' : '▶';
+    toggle.title = this.timer !== null ? 'Pause' : 'Play';
+
+    this.container.querySelectorAll<HTMLButtonElement | HTMLInputElement>('.playback-btn, #playback-position').forEach(element => {
+      element.disabled = frameCount === 0;
+    });
+
+    if (frameCount === 0) {
+      readout.textContent = 'No dated locations to play';
+      return;
+    }
+
+    const frame = this.getCurrentFrame();
+    if (!frame) {
+      readout.textContent = `${frameCount} frames`;
+      return;
+    }
+
+    const format = (date: Date) => date.toLocaleString([], { dateStyle: 'short', timeStyle: 'short' });
+    readout.textContent = `Frame ${frame.index + 1}/${frameCount}: ${format(frame.start)} – ${format(frame.end)}`;
+  }
+
+  /**
+   * Get CSS styles for the control
+   */
+  static getCSS(): string {
+    return `
+      .time-playback-control {
+        display: flex;
+        flex-wrap: wrap;
+        align-items: center;
+        gap: 0.75rem;
+        margin-top: 10px;
+        font-size: 14px;
+      }
+
+      .playback-buttons {
+        display: flex;
+        gap: 4px;
+      }
+
+      .playback-btn {
+        padding: 4px 10px;
+        border-radius: 4px;
+        border: 1px solid #555;
+        background: #1a1a1a;
+        color: #fff;
+        cursor: pointer;
+      }
+
+      .playback-btn:hover:not(:disabled) {
+        border-color: #646cff;
+      }
+
+      .playback-btn:disabled,
+      #playback-position:disabled {
+        opacity: 0.5;
+        cursor: not-allowed;
+      }
+
+      #playback-position {
+        flex: 1;
+        min-width: 150px;
+      }
+
+      .time-playback-control select {
+        margin-left: 6px;
+        padding: 4px;
+        border-radius: 4px;
+        border: 1px solid #555;
+        background: #1a1a1a;
+        color: #fff;
+      }
+
+      .playback-readout {
+        font-weight: 500;
+        color: #646cff;
+      }
+
+      @media (prefers-color-scheme: light) {
+        .playback-btn,
+        .time-playback-control select {
+          background: #ffffff;
+          color: #213547;
+          border-color: #ccc;
+        }
+      }
+    `;
+  }
+}
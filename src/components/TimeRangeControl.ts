@@ -0,0 +1,487 @@
+/**
+ * Quick selections offered by the time-range control
+ */
+export type TimeRangePreset = 'all' | 'today' | 'last24h' | 'last7d' | 'last30d' | 'custom';
+
+/**
+ * Selected time range; a null bound is open-ended
+ */
+export interface TimeRange {
+  start: Date | null;
+  end: Date | null;
+  includeUndated: boolean; // Whether locations without a timestamp pass a bounded range
+}
+
+const PRESET_LABELS: Record<TimeRangePreset, string> = {
+  all: 'All time',
+  today: 'Today',
+  last24h: 'Last 24 hours',
+  last7d: 'Last 7 days',
+  last30d: 'Last 30 days',
+  custom: 'Custom'
+};
+
+const HISTOGRAM_BINS = 60;
+
+/**
+ * Drags shorter than this share of the histogram width clear the brush instead of selecting
+ */
+const MIN_BRUSH_FRACTION = 0.01;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Shared time-range filter: presets, start/end pickers and a histogram brush
+ */
+export class TimeRangeControl {
+  private container: HTMLElement;
+  private onChange: (range: TimeRange) => void;
+  private timestamps: number[] = [];
+  private undatedCount = 0;
+  private preset: TimeRangePreset = 'all';
+  private customStart: Date | null = null;
+  private customEnd: Date | null = null;
+  private brushStart: number | null = null; // Histogram fraction where a drag began
+
+  constructor(containerId: string, onChange: (range: TimeRange) => void) {
+    const container = document.getElementById(containerId);
+    if (!container) {
+      throw new Error(`Container with id '${containerId}' not found`);
+    }
+
+    this.container = container;
+    this.onChange = onChange;
+    this.container.innerHTML = this.getHTML();
+    this.setupEventListeners();
+    this.renderHistogram();
+  }
+
+  /**
+   * Set the timestamps shown in the histogram; null entries are undated locations
+   */
+  public setTimestamps(timestamps: (Date | null)[]): void {
+    this.timestamps = timestamps
+      .filter((timestamp): timestamp is Date => timestamp !== null)
+      .map(timestamp => timestamp.getTime())
+      .sort((a, b) => a - b);
+    this.undatedCount = timestamps.length - this.timestamps.length;
+    this.renderHistogram();
+  }
+
+  /**
+   * Current range; relative presets are evaluated against the current time
+   */
+  public getRange(): TimeRange {
+    const includeUndated = (this.container.querySelector('#include-undated') as HTMLInputElement).checked;
+    const { start, end } = this.preset === 'custom'
+      ? { start: this.customStart, end: this.customEnd }
+      : this.getPresetBounds(this.preset);
+
+    return { start, end, includeUndated };
+  }
+
+  /**
+   * Human-readable description of a range, or an empty string when unbounded
+   */
+  static describeRange(range: TimeRange): string {
+    const format = (date: Date) => date.toLocaleString([], { dateStyle: 'short', timeStyle: 'short' });
+
+    if (range.start && range.end) return `${format(range.start)} – ${format(range.end)}`;
+    if (range.start) return `since ${format(range.start)}`;
+    if (range.end) return `until ${format(range.end)}`;
+    return '';
+  }
+
+  /**
+   * Check whether a range restricts time at all
+   */
+  static isBounded(range: TimeRange): boolean {
+    return range.start !== null || range.end !== null;
+  }
+
+  /**
+   * Get the HTML structure for the control
+   */
+  private getHTML(): string {
+    const presetOptions = (Object.keys(PRESET_LABELS) as TimeRangePreset[])
+      .map(preset => `<option value="${preset}" ${preset === this.preset ? 'selected' : ''}>${PRESET_LABELS[preset]}</option>`)
+      .join('');
+
+    return `
+      <div class="time-range-control">
+        <div class="time-range-inputs">
+          <label>
+            Time range:
+            <select id="time-range-preset">${presetOptions}</select>
+          </label>
+          <label>
+            From:
+            <input type="datetime-local" id="time-range-start" />
+          </label>
+          <label>
+            To:
+            <input type="datetime-local" id="time-range-end" />
+          </label>
+          <label>
+            <input type="checkbox" id="include-undated" />
+            Include undated
+          </label>
+        </div>
+        <div class="time-histogram" id="time-histogram" title="Drag to select a time range, click to clear">
+          <div class="time-histogram-bars"></div>
+          <div class="time-histogram-brush"></div>
+        </div>
+        <div class="time-histogram-axis">
+          <span id="time-histogram-min"></span>
+          <span id="time-range-summary"></span>
+          <span id="time-histogram-max"></span>
+        </div>
+      </div>
+    `;
+  }
+
+  /**
+   * Setup event listeners
+   */
+  private setupEventListeners(): void {
+    const presetSelect = this.container.querySelector('#time-range-preset') as HTMLSelectElement;
+    const startInput = this.container.querySelector('#time-range-start') as HTMLInputElement;
+    const endInput = this.container.querySelector('#time-range-end') as HTMLInputElement;
+
+    presetSelect.addEventListener('change', () => {
+      const preset = presetSelect.value as TimeRangePreset;
+      if (preset === 'custom') {
+        // Start the custom range from whatever was selected before
+        const { start, end } = this.getRange();
+        this.setCustomRange(start, end);
+      } else {
+        this.preset = preset;
+        this.handleRangeChange();
+      }
+    });
+
+    const handlePickerChange = () => {
+      this.setCustomRange(this.parseDateTimeInput(startInput.value), this.parseDateTimeInput(endInput.value));
+    };
+    startInput.addEventListener('change', handlePickerChange);
+    endInput.addEventListener('change', handlePickerChange);
+
+    this.container.querySelector('#include-undated')?.addEventListener('change', () => this.handleRangeChange());
+
+    // Timeline brush
+    const histogram = this.container.querySelector('#time-histogram') as HTMLElement;
+
+    histogram.addEventListener('pointerdown', (e: PointerEvent) => {
+      if (!this.getHistogramDomain()) return;
+      histogram.setPointerCapture(e.pointerId);
+      this.brushStart = this.getHistogramFraction(e);
+      this.drawBrush(this.brushStart, this.brushStart);
+    });
+
+    histogram.addEventListener('pointermove', (e: PointerEvent) => {
+      if (this.brushStart === null) return;
+      this.drawBrush(this.brushStart, this.getHistogramFraction(e));
+    });
+
+    histogram.addEventListener('pointerup', (e: PointerEvent) => {
+      if (this.brushStart === null) return;
+
+      const from = Math.min(this.brushStart, this.getHistogramFraction(e));
+      const to = Math.max(this.brushStart, this.getHistogramFraction(e));
+      this.brushStart = null;
+
+      if (to - from < MIN_BRUSH_FRACTION) {
+        this.preset = 'all';
+        this.handleRangeChange();
+        return;
+      }
+
+      this.setCustomRange(this.getTimeAtFraction(from), this.getTimeAtFraction(to));
+    });
+  }
+
+  /**
+   * Switch to a custom range with the given bounds
+   */
+  private setCustomRange(start: Date | null, end: Date | null): void {
+    this.preset = 'custom';
+    this.customStart = start;
+    this.customEnd = end;
+    this.handleRangeChange();
+  }
+
+  /**
+   * Sync the inputs and histogram with the selected range and notify listeners
+   */
+  private handleRangeChange(): void {
+    const range = this.getRange();
+
+    (this.container.querySelector('#time-range-preset') as HTMLSelectElement).value = this.preset;
+    (this.container.querySelector('#time-range-start') as HTMLInputElement).value = this.formatDateTimeInput(range.start);
+    (this.container.querySelector('#time-range-end') as HTMLInputElement).value = this.formatDateTimeInput(range.end);
+
+    this.renderHistogram();
+    this.onChange(range);
+  }
+
+  /**
+   * Bounds of a relative preset, evaluated now
+   */
+  private getPresetBounds(preset: Exclude<TimeRangePreset, 'custom'>): { start: Date | null; end: Date | null } {
+    const now = Date.now();
+
+    switch (preset) {
+      case 'today': {
+        const midnight = new Date();
+        midnight.setHours(0, 0, 0, 0);
+        return { start: midnight, end: null };
+      }
+      case 'last24h':
+        return { start: new Date(now - DAY_MS), end: null };
+      case 'last7d':
+        return { start: new Date(now - 7 * DAY_MS), end: null };
+      case 'last30d':
+        return { start: new Date(now - 30 * DAY_MS), end: null };
+      default:
+        return { start: null, end: null };
+    }
+  }
+
+  /**
+   * Time span covered by the histogram, or null without dated locations
+   */
+  private getHistogramDomain(): [number, number] | null {
+    if (this.timestamps.length === 0) return null;
+
+    const min = this.timestamps[0];
+    const max = this.timestamps[this.timestamps.length - 1];
+
+    // Give a single instant some width
+    return min === max ? [min - HOUR_MS / 2, max + HOUR_MS / 2] : [min, max];
+  }
+
+  /**
+   * Draw the histogram bars, the selected range and the summary
+   */
+  private renderHistogram(): void {
+    const bars = this.container.querySelector('.time-histogram-bars') as HTMLElement;
+    const minLabel = this.container.querySelector('#time-histogram-min') as HTMLElement;
+    const maxLabel = this.container.querySelector('#time-histogram-max') as HTMLElement;
+    const domain = this.getHistogramDomain();
+    const range = this.getRange();
+
+    this.updateSummary(range);
+
+    if (!domain) {
+      bars.innerHTML = '<div class="time-histogram-empty">No dated locations</div>';
+      minLabel.textContent = '';
+      maxLabel.textContent = '';
+      this.hideBrush();
+      return;
+    }
+
+    const [min, max] = domain;
+    const binSize = (max - min) / HISTOGRAM_BINS;
+    const counts = new Array<number>(HISTOGRAM_BINS).fill(0);
+
+    this.timestamps.forEach(time => {
+      const bin = Math.min(HISTOGRAM_BINS - 1, Math.floor((time - min) / binSize));
+      counts[bin]++;
+    });
+
+    const maxCount = Math.max(...counts);
+    const rangeStart = range.start?.getTime() ?? -Infinity;
+    const rangeEnd = range.end?.getTime() ?? Infinity;
+
+    bars.innerHTML = counts.map((count, bin) => {
+      const binStart = min + bin * binSize;
+      const binEnd = binStart + binSize;
+      const inRange = binEnd >= rangeStart && binStart <= rangeEnd;
+      const height = maxCount > 0 ? (count / maxCount) * 100 : 0;
+      const title = `${new Date(binStart).toLocaleString()}: ${count} point${count === 1 ? '' : 's'}`;
+
+      return `<div class="time-histogram-bar ${inRange ? 'in-range' : ''}" style="height: ${height}%" title="${title}"></div>`;
+    }).join('');
+
+    minLabel.textContent = new Date(min).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' });
+    maxLabel.textContent = new Date(max).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' });
+
+    if (TimeRangeControl.isBounded(range)) {
+      const toFraction = (time: number) => Math.max(0, Math.min(1, (time - min) / (max - min)));
+      this.drawBrush(toFraction(rangeStart), toFraction(rangeEnd));
+    } else {
+      this.hideBrush();
+    }
+  }
+
+  /**
+   * Show how many dated and undated locations the range covers
+   */
+  private updateSummary(range: TimeRange): void {
+    const summary = this.container.querySelector('#time-range-summary') as HTMLElement;
+    const start = range.start?.getTime() ?? -Infinity;
+    const end = range.end?.getTime() ?? Infinity;
+    const inRange = this.timestamps.filter(time => time >= start && time <= end).length;
+
+    let text = `${inRange} of ${this.timestamps.length} dated points in range`;
+    if (this.undatedCount > 0) {
+      text += `, ${this.undatedCount} undated`;
+    }
+    summary.textContent = text;
+  }
+
+  /**
+   * Draw the brush overlay between two fractions of the histogram width
+   */
+  private drawBrush(from: number, to: number): void {
+    const brush = this.container.querySelector('.time-histogram-brush') as HTMLElement;
+    brush.style.display = 'block';
+    brush.style.left = `${Math.min(from, to) * 100}%`;
+    brush.style.width = `${Math.abs(to - from) * 100}%`;
+  }
+
+  /**
+   * Hide the brush overlay
+   */
+  private hideBrush(): void {
+    (this.container.querySelector('.time-histogram-brush') as HTMLElement).style.display = 'none';
+  }
+
+  /**
+   * Pointer position as a fraction (0-1) of the histogram width
+   */
+  private getHistogramFraction(e: PointerEvent): number {
+    const histogram = this.container.querySelector('#time-histogram') as HTMLElement;
+    const rect = histogram.getBoundingClientRect();
+    if (rect.width === 0) return 0;
+    return Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width));
+  }
+
+  /**
+   * Time at a fraction of the histogram width
+   */
+  private getTimeAtFraction(fraction: number): Date | null {
+    const domain = this.getHistogramDomain();
+    if (!domain) return null;
+
+    return new Date(domain[0] + fraction * (domain[1] - domain[0]));
+  }
+
+  /**
+   * Format a date for a datetime-local input (local time, minute precision)
+   */
+  private formatDateTimeInput(date: Date | null): string {
+    if (!date) return '';
+
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+      `T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+  }
+
+  /**
+   * Parse a datetime-local input value, or null when empty
+   */
+  private parseDateTimeInput(value: string): Date | null {
+    if (!value) return null;
+
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  /**
+   * Get CSS styles for the control
+   */
+  static getCSS(): string {
+    return `
+      .time-range-control {
+        background: rgba(255, 255, 255, 0.05);
+        border-radius: 8px;
+        padding: 12px 16px;
+        margin-bottom: 1rem;
+      }
+
+      .time-range-inputs {
+        display: flex;
+        flex-wrap: wrap;
+        align-items: center;
+        gap: 1rem;
+        margin-bottom: 10px;
+        font-size: 14px;
+      }
+
+      .time-range-inputs select,
+      .time-range-inputs input[type="datetime-local"] {
+        margin-left: 6px;
+        padding: 5px;
+        border-radius: 4px;
+        border: 1px solid #555;
+        background: #1a1a1a;
+        color: #fff;
+      }
+
+      .time-histogram {
+        position: relative;
+        height: 60px;
+        cursor: crosshair;
+        user-select: none;
+        touch-action: none;
+        border-bottom: 1px solid rgba(255, 255, 255, 0.2);
+      }
+
+      .time-histogram-bars {
+        display: flex;
+        align-items: flex-end;
+        gap: 1px;
+        height: 100%;
+      }
+
+      .time-histogram-bar {
+        flex: 1;
+        min-height: 1px;
+        background: rgba(100, 108, 255, 0.35);
+      }
+
+      .time-histogram-bar.in-range {
+        background: #646cff;
+      }
+
+      .time-histogram-empty {
+        width: 100%;
+        align-self: center;
+        text-align: center;
+        font-size: 13px;
+        opacity: 0.6;
+      }
+
+      .time-histogram-brush {
+        display: none;
+        position: absolute;
+        top: 0;
+        bottom: 0;
+        background: rgba(100, 108, 255, 0.15);
+        border-left: 2px solid #646cff;
+        border-right: 2px solid #646cff;
+        pointer-events: none;
+      }
+
+      .time-histogram-axis {
+        display: flex;
+        justify-content: space-between;
+        gap: 1rem;
+        margin-top: 4px;
+        font-size: 12px;
+        opacity: 0.8;
+      }
+
+      @media (prefers-color-scheme: light) {
+        .time-range-inputs select,
+        .time-range-inputs input[type="datetime-local"] {
+          background: #ffffff;
+          color: #213547;
+          border-color: #ccc;
+        }
+      }
+    `;
+  }
+}
@@ -0,0 +1,140 @@
+import type { VisualizationControlSchema, VisualizationModule } from '../visualizations';
+
+/**
+ * Builds a visualization's config controls from its schema
+ */
+export class VisualizationControlPanel {
+  private container: HTMLElement;
+  private visualization: VisualizationModule<any>;
+  private onChange: (config: Record<string, any>) => void;
+  private config: Record<string, any>;
+
+  constructor(
+    container: HTMLElement,
+    visualization: VisualizationModule<any>,
+    onChange: (config: Record<string, any>) => void
+  ) {
+    this.container = container;
+    this.visualization = visualization;
+    this.onChange = onChange;
+    this.config = { ...visualization.defaultConfig };
+
+    this.container.innerHTML = (visualization.controls || [])
+      .map(control => this.getControlHTML(control))
+      .join('');
+    this.setupEventListeners();
+
+    visualization.createControls?.(this.container, this.getConfig(), changes => this.update(changes));
+  }
+
+  /**
+   * Current config of the visualization
+   */
+  public getConfig(): Record<string, any> {
+    return { ...this.config };
+  }
+
+  /**
+   * Get the HTML for one schema control
+   */
+  private getControlHTML(control: VisualizationControlSchema<any>): string {
+    const id = this.getControlId(control.key);
+    const value = this.config[control.key];
+
+    switch (control.type) {
+      case 'range':
+        return `
+          <label>
+            ${control.label}:
+            <input type="range" id="${id}" min="${control.min}" max="${control.max}" step="${control.step ?? 1}" value="${value}" />
+            <span id="${id}-value">${value}</span>${control.unit ?? ''}
+          </label>
+        `;
+      case 'number':
+        return `
+          <label>
+            ${control.label}:
+            <input type="number" id="${id}" value="${value}"
+              ${control.min !== undefined ? `min="${control.min}"` : ''}
+              ${control.max !== undefined ? `max="${control.max}"` : ''}
+              ${control.step !== undefined ? `step="${control.step}"` : ''} />
+          </label>
+        `;
+      case 'checkbox':
+        return `
+          <label>
+            ${control.label}:
+            <input type="checkbox" id="${id}" ${value ? 'checked' : ''} />
+          </label>
+        `;
+      case 'text':
+        return `
+          <label>
+            ${control.label}:
+            <input type="text" id="${id}" value="${value}" ${control.placeholder ? `placeholder="${control.placeholder}"` : ''} />
+          </label>
+        `;
+      case 'select':
+        return `
+          <label>
+            ${control.label}:
+            <select id="${id}">
+              ${control.options.map(option => `
+                <option value="${option.value}" ${option.value === value ? 'selected' : ''}>${option.label}</option>
+              `).join('')}
+            </select>
+          </label>
+        `;
+    }
+  }
+
+  /**
+   * Setup event listeners
+   */
+  private setupEventListeners(): void {
+    (this.visualization.controls || []).forEach(control => {
+      const input = this.container.querySelector(`#${this.getControlId(control.key)}`) as HTMLInputElement | HTMLSelectElement;
+      if (!input) return;
+
+      const eventName = control.type === 'range' ? 'input' : 'change';
+      input.addEventListener(eventName, () => {
+        if (control.type === 'checkbox') {
+          this.update({ [control.key]: (input as HTMLInputElement).checked });
+          return;
+        }
+
+        if (control.type === 'text') {
+          this.update({ [control.key]: input.value });
+          return;
+        }
+
+        if (control.type === 'range') {
+          const valueElement = this.container.querySelector(`#${this.getControlId(control.key)}-value`);
+          if (valueElement) valueElement.textContent = input.value;
+        }
+
+        // Keep numeric select options numeric
+        const isNumeric = control.type !== 'select' || typeof this.visualization.defaultConfig[control.key] === 'number';
+        const value = isNumeric ? parseFloat(input.value) : input.value;
+        if (typeof value === 'number' && isNaN(value)) return;
+
+        this.update({ [control.key]: value });
+      });
+    });
+  }
+
+  /**
+   * Apply config changes and notify the listener
+   */
+  private update(changes: Record<string, any>): void {
+    this.config = { ...this.config, ...changes };
+    this.onChange(this.getConfig());
+  }
+
+  /**
+   * Element id of the control for a config field
+   */
+  private getControlId(key: string): string {
+    return `${this.visualization.type}-${key}`;
+  }
+}
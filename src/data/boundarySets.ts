@@ -0,0 +1,414 @@
+import type { Coordinate } from '../types';
+import { calculatePolygonArea } from '../utils/geoUtils';
+import { SpatialIndex } from '../utils/spatialIndex';
+import { kyivDistricts, getUkrainianName } from './kyivDistricts';
+
+// Polygon as outer ring followed by holes, positions as [lat, lng]
+export type BoundaryPolygon = [number, number][][];
+
+/**
+ * One administrative area of a boundary set
+ */
+export interface BoundaryFeature {
+  id: string;
+  name: string;
+  localName?: string; // Shown on labels instead of the name, e.g. in Ukrainian
+  polygons: BoundaryPolygon[];
+  population?: number;
+  area: number; // Square kilometers
+  properties?: Record<string, number>; // Numeric attributes usable as rate denominators
+  bbox: { north: number; south: number; east: number; west: number };
+}
+
+/**
+ * Named collection of administrative areas (districts, oblasts, hromadas, ...)
+ */
+export interface BoundarySet {
+  id: string;
+  name: string;
+  features: BoundaryFeature[];
+  builtIn?: boolean;
+}
+
+/**
+ * GeoJSON feature properties holding the area attributes
+ */
+export interface BoundaryPropertyMapping {
+  name: string;
+  population?: string;
+  area?: string; // Square kilometers; computed from the geometry when missing
+}
+
+/**
+ * Denominator of district rates: none, area, residents or a numeric feature property
+ */
+export type DistrictNormalization = 'count' | 'area' | 'population' | 'field';
+
+// Interface for district statistics
+export interface DistrictStats {
+  district: BoundaryFeature;
+  count: number;
+  density: number; // Points per km²
+  rate: number | null; // Normalized value; null when the district lacks the denominator
+}
+
+/**
+ * District statistics plus the points no district contains
+ */
+export interface DistrictDensityResult {
+  stats: DistrictStats[];
+  outsideCount: number; // Beyond the extent of every district
+  gapCount: number; // Within a district's extent but in no district, e.g. in a hole or between parts
+}
+
+export const KYIV_BOUNDARY_SET_ID = 'kyiv-districts';
+
+const BOUNDARY_STORAGE_KEY = 'heatmap_boundary_sets';
+
+const boundarySets = new Map<string, BoundarySet>();
+
+// Feature bounding box indexes, built on first use per set
+const featureIndexes = new WeakMap<BoundarySet, SpatialIndex<BoundaryFeature>>();
+
+/**
+ * Create a feature, deriving its bounding box
+ */
+function createBoundaryFeature(feature: Omit<BoundaryFeature, 'bbox'>): BoundaryFeature {
+  // Outer rings only; a single pass, since detailed boundaries are too large to spread into Math.max
+  const bbox = feature.polygons
+    .flatMap(polygon => polygon[0] || [])
+    .reduce((bounds, [lat, lng]) => ({
+      north: Math.max(bounds.north, lat),
+      south: Math.min(bounds.south, lat),
+      east: Math.max(bounds.east, lng),
+      west: Math.min(bounds.west, lng)
+    }), { north: -Infinity, south: Infinity, east: -Infinity, west: Infinity });
+
+  return { ...feature, bbox };
+}
+
+/**
+ * Register a boundary set; loaded sets are kept in localStorage
+ */
+export function registerBoundarySet(boundarySet: BoundarySet): void {
+  boundarySets.set(boundarySet.id, boundarySet);
+  if (!boundarySet.builtIn) {
+    saveBoundarySets();
+  }
+}
+
+/**
+ * Remove a loaded boundary set; built-in sets cannot be removed
+ */
+export function removeBoundarySet(id: string): void {
+  if (boundarySets.get(id)?.builtIn) {
+    throw new Error(`Boundary set '${id}' is built in and cannot be removed`);
+  }
+  boundarySets.delete(id);
+  saveBoundarySets();
+}
+
+/**
+ * Look up a boundary set
+ */
+export function getBoundarySet(id: string): BoundarySet | undefined {
+  return boundarySets.get(id);
+}
+
+/**
+ * All boundary sets, built-in first
+ */
+export function getBoundarySets(): BoundarySet[] {
+  return Array.from(boundarySets.values());
+}
+
+/**
+ * Property keys found on the features of a GeoJSON document, for mapping
+ */
+export function getBoundaryPropertyKeys(geoJson: any): string[] {
+  const keys = new Set<string>();
+  getGeoJSONFeatures(geoJson).forEach(feature => {
+    Object.keys(feature.properties || {}).forEach(key => keys.add(key));
+  });
+  return Array.from(keys);
+}
+
+/**
+ * Build a boundary set from the Polygon and MultiPolygon features of a GeoJSON document
+ */
+export function parseBoundaryGeoJSON(
+  geoJson: any,
+  name: string,
+  mapping: BoundaryPropertyMapping
+): { boundarySet: BoundarySet; skippedFeatures: number } {
+  const features: BoundaryFeature[] = [];
+  let skippedFeatures = 0;
+
+  getGeoJSONFeatures(geoJson).forEach((feature, index) => {
+    const geometry = feature.geometry;
+    const polygons: number[][][][] | null =
+      geometry?.type === 'Polygon' ? [geometry.coordinates] :
+      geometry?.type === 'MultiPolygon' ? geometry.coordinates :
+      null;
+
+    // GeoJSON positions are [lng, lat]
+    const boundaryPolygons = (polygons || [])
+      .map(polygon => (polygon || [])
+        .map(ring => (ring || [])
+          .filter(position => Array.isArray(position) && isFinite(position[0]) && isFinite(position[1]))
+          .map(position => [position[1], position[0]] as [number, number]))
+        .filter(ring => ring.length >= 3))
+      .filter(polygon => polygon.length > 0);
+
+    if (boundaryPolygons.length === 0) {
+      skippedFeatures++;
+      return;
+    }
+
+    const properties = feature.properties || {};
+    const population = mapping.population ? Number(properties[mapping.population]) : NaN;
+    const area = mapping.area ? Number(properties[mapping.area]) : NaN;
+
+    const numericProperties: Record<string, number> = {};
+    Object.entries(properties).forEach(([key, value]) => {
+      if ((typeof value === 'number' || (typeof value === 'string' && value.trim() !== '')) && isFinite(Number(value))) {
+        numericProperties[key] = Number(value);
+      }
+    });
+
+    features.push(createBoundaryFeature({
+      id: String(feature.id ?? index),
+      name: String(properties[mapping.name] ?? `Area ${index + 1}`),
+      polygons: boundaryPolygons,
+      population: isFinite(population) && population > 0 ? population : undefined,
+      area: isFinite(area) && area > 0 ? area : calculateBoundaryArea(boundaryPolygons),
+      properties: numericProperties
+    }));
+  });
+
+  if (features.length === 0) {
+    throw new Error('No Polygon or MultiPolygon features found');
+  }
+
+  return {
+    boundarySet: {
+      id: `${name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}-${Date.now().toString(36)}`,
+      name,
+      features
+    },
+    skippedFeatures
+  };
+}
+
+/**
+ * Numeric feature properties of a boundary set, for picking a custom denominator
+ */
+export function getBoundaryNumericFields(boundarySet: BoundarySet): string[] {
+  const fields = new Set<string>();
+  boundarySet.features.forEach(feature => {
+    Object.keys(feature.properties || {}).forEach(key => fields.add(key));
+  });
+  return Array.from(fields);
+}
+
+/**
+ * Unit of district rates, for legends and labels
+ */
+export function getNormalizationUnit(normalization: DistrictNormalization, denominatorField?: string): string {
+  switch (normalization) {
+    case 'count':
+      return 'points';
+    case 'area':
+      return 'points/km²';
+    case 'population':
+      return 'per 1,000 residents';
+    case 'field':
+      return `per ${denominatorField || 'field'}`;
+  }
+}
+
+/**
+ * Count points per feature of a boundary set, and the points that fall into no feature
+ * @param normalization Denominator of each feature's rate
+ * @param denominatorField Feature property used by the 'field' normalization
+ */
+export function calculateDistrictDensities(
+  markers: any[],
+  boundarySet: BoundarySet = getBoundarySet(KYIV_BOUNDARY_SET_ID)!,
+  normalization: DistrictNormalization = 'area',
+  denominatorField?: string
+): DistrictDensityResult {
+  const counts = new Map<BoundaryFeature, number>();
+  let outsideCount = 0;
+  let gapCount = 0;
+
+  let featureIndex = featureIndexes.get(boundarySet);
+  if (!featureIndex) {
+    featureIndex = new SpatialIndex(boundarySet.features, feature => feature.bbox);
+    featureIndexes.set(boundarySet, featureIndex);
+  }
+
+  // Initialize all features with 0 count
+  boundarySet.features.forEach(feature => {
+    counts.set(feature, 0);
+  });
+
+  // Count markers in each feature
+  markers.forEach(marker => {
+    // Handle different marker formats
+    let lat, lng;
+
+    if (marker.lat !== undefined && marker.lng !== undefined) {
+      lat = marker.lat;
+      lng = marker.lng;
+    } else if (marker.latitude !== undefined && marker.longitude !== undefined) {
+      lat = marker.latitude;
+      lng = marker.longitude;
+    } else if (marker.coordinates) {
+      lat = marker.coordinates.lat;
+      lng = marker.coordinates.lng;
+    } else {
+      return;
+    }
+
+    const point: [number, number] = [lat, lng];
+    const candidates = featureIndex.search({ north: lat, south: lat, east: lng, west: lng });
+
+    for (const feature of candidates) {
+      if (feature.polygons.some(polygon => isPointInPolygon(point, polygon))) {
+        counts.set(feature, (counts.get(feature) || 0) + 1);
+        return; // Point can only be in one feature
+      }
+    }
+
+    if (candidates.length > 0) {
+      gapCount++;
+    } else {
+      outsideCount++;
+    }
+  });
+
+  const stats = boundarySet.features.map(feature => {
+    const count = counts.get(feature) || 0;
+    return {
+      district: feature,
+      count,
+      density: feature.area > 0 ? count / feature.area : 0,
+      rate: calculateRate(feature, count, normalization, denominatorField)
+    };
+  });
+
+  return { stats, outsideCount, gapCount };
+}
+
+/**
+ * Normalized value of a feature's point count
+ */
+function calculateRate(
+  feature: BoundaryFeature,
+  count: number,
+  normalization: DistrictNormalization,
+  denominatorField?: string
+): number | null {
+  switch (normalization) {
+    case 'count':
+      return count;
+    case 'area':
+      return feature.area > 0 ? count / feature.area : null;
+    case 'population':
+      return feature.population ? count / feature.population * 1000 : null;
+    case 'field': {
+      const denominator = denominatorField ? feature.properties?.[denominatorField] : undefined;
+      return denominator ? count / denominator : null;
+    }
+  }
+}
+
+/**
+ * Features of a FeatureCollection or a single Feature
+ */
+function getGeoJSONFeatures(geoJson: any): any[] {
+  if (geoJson?.type === 'FeatureCollection' && Array.isArray(geoJson.features)) {
+    return geoJson.features;
+  }
+  if (geoJson?.type === 'Feature') {
+    return [geoJson];
+  }
+  throw new Error('Expected a GeoJSON FeatureCollection or Feature');
+}
+
+/**
+ * Area of a set of polygons in square kilometers
+ */
+function calculateBoundaryArea(polygons: BoundaryPolygon[]): number {
+  const toCoordinate = ([lat, lng]: [number, number]): Coordinate => ({ lat, lng });
+  return polygons.reduce((sum, polygon) => sum + calculatePolygonArea(polygon.map(ring => ring.map(toCoordinate))), 0);
+}
+
+// Point-in-polygon algorithm (ray casting), excluding holes
+function isPointInPolygon(point: [number, number], polygon: BoundaryPolygon): boolean {
+  const isInRing = (ring: [number, number][]) => {
+    const [lat, lng] = point;
+    let inside = false;
+
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [lat1, lng1] = ring[i];
+      const [lat2, lng2] = ring[j];
+
+      if ((lng1 > lng) !== (lng2 > lng) &&
+          lat < (lat2 - lat1) * (lng - lng1) / (lng2 - lng1) + lat1) {
+        inside = !inside;
+      }
+    }
+
+    return inside;
+  };
+
+  return polygon.length > 0 && isInRing(polygon[0]) && !polygon.slice(1).some(isInRing);
+}
+
+/**
+ * Save loaded boundary sets to localStorage
+ */
+function saveBoundarySets(): void {
+  try {
+    const loadedSets = getBoundarySets().filter(boundarySet => !boundarySet.builtIn);
+    localStorage.setItem(BOUNDARY_STORAGE_KEY, JSON.stringify(loadedSets));
+  } catch (error) {
+    console.warn('Failed to save boundary sets to localStorage:', error);
+  }
+}
+
+/**
+ * Load boundary sets saved by earlier sessions
+ */
+function loadBoundarySets(): void {
+  try {
+    const stored = localStorage.getItem(BOUNDARY_STORAGE_KEY);
+    if (!stored) return;
+
+    const parsed = JSON.parse(stored);
+    if (Array.isArray(parsed)) {
+      parsed.forEach((boundarySet: BoundarySet) => boundarySets.set(boundarySet.id, boundarySet));
+    }
+  } catch (error) {
+    console.warn('Failed to load boundary sets from localStorage:', error);
+  }
+}
+
+registerBoundarySet({
+  id: KYIV_BOUNDARY_SET_ID,
+  name: 'Kyiv districts',
+  builtIn: true,
+  features: kyivDistricts.map(district => createBoundaryFeature({
+    id: district.name,
+    name: district.name,
+    localName: getUkrainianName(district.name),
+    polygons: district.polygons,
+    population: district.population,
+    area: district.area,
+    properties: { population: district.population, area: district.area }
+  }))
+});
+
+loadBoundarySets();
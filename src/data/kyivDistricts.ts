@@ -3,7 +3,7 @@
 
 export interface District {
   name: string;
-  coordinates: [number, number][];
+  polygons: [number, number][][][]; // MultiPolygon: parts of outer ring followed by holes, as [lat, lng]
   population: number;
   area: number;
 }
@@ -11,1393 +11,1352 @@ export interface District {
 export const kyivDistricts: District[] = [
   {
     name: "Darnytskyi",
-    coordinates: [
-      [50.3743635, 30.5832688], [50.3697541, 30.5842227], [50.3609002, 30.5869397], [50.3562035, 30.5900015], [50.3527252, 30.5926341],
-      [50.3498978, 30.5985028], [50.3472072, 30.6021184], [50.3407898, 30.6071143], [50.3372747, 30.6128798], [50.3385081, 30.6149236],
-      [50.339248, 30.6153286], [50.3398961, 30.6162374], [50.3402059, 30.6159614], [50.3405168, 30.615879], [50.3406826, 30.6158095],
-      [50.3408721, 30.6157301], [50.3410672, 30.6156121], [50.341134, 30.6155719], [50.3412016, 30.6155156], [50.3412495, 30.6154606],
-      [50.3412486, 30.6153783], [50.341327, 30.6153732], [50.3413316, 30.6154519], [50.3415079, 30.6154842], [50.341405, 30.6151535],
-      [50.3414581, 30.6151119], [50.3415711, 30.6154457], [50.341611, 30.6154265], [50.3416376, 30.6153864], [50.3415266, 30.6150864],
-      [50.3415591, 30.6150569], [50.3416665, 30.6153489], [50.3418897, 30.6150703], [50.3421824, 30.6148235], [50.342268, 30.614794],
-      [50.3421766, 30.6144606], [50.3422128, 30.6144399], [50.3423151, 30.6148078], [50.3423711, 30.6148593], [50.3424503, 30.6149369],
-      [50.342448, 30.6148296], [50.3424154, 30.6145679], [50.3424362, 30.6145597], [50.3424702, 30.6148256], [50.3424812, 30.6149328],
-      [50.3425411, 30.6149271], [50.3425639, 30.6149097], [50.3425864, 30.6148705], [50.3426006, 30.6147978], [50.3426335, 30.6147404],
-      [50.3426798, 30.6146927], [50.3427668, 30.6146704], [50.3430703, 30.6145709], [50.3431249, 30.614514], [50.3430638, 30.6142965],
-      [50.3431055, 30.6142636], [50.3431639, 30.6144711], [50.3432373, 30.6143901], [50.3432011, 30.614322], [50.3432166, 30.6143009],
-      [50.3432577, 30.6143769], [50.3433381, 30.6143246], [50.3433033, 30.6142315], [50.343274, 30.6142583], [50.3432648, 30.6142337],
-      [50.343293, 30.6142078], [50.3432386, 30.614062], [50.3432641, 30.6140387], [50.3433624, 30.6143023], [50.3434235, 30.6142241],
-      [50.3435382, 30.6140658], [50.3436451, 30.6139154], [50.343836, 30.6137735], [50.3440637, 30.6136581], [50.344252, 30.6135535],
-      [50.3444103, 30.6134382], [50.3444788, 30.613343], [50.3445438, 30.6132263], [50.3446183, 30.6131029], [50.3446713, 30.6130265],
-      [50.3447834, 30.6129017], [50.3448956, 30.6128226], [50.3449512, 30.6127609], [50.3450539, 30.6126308], [50.3452576, 30.6124458],
-      [50.3454185, 30.6123251], [50.3455075, 30.6122379], [50.3457711, 30.6119697], [50.345944, 30.6118289], [50.3460184, 30.6117618],
-      [50.3460835, 30.6116666], [50.3461528, 30.6115848], [50.3462349, 30.6115083], [50.3462983, 30.6114574], [50.3463239, 30.6114131],
-      [50.3464106, 30.6113333], [50.3475931, 30.613881], [50.3480049, 30.6144077], [50.3482344, 30.615854], [50.3484574, 30.6165056],
-      [50.3484976, 30.6166724], [50.3477902, 30.6171078], [50.3485354, 30.6219511], [50.3487786, 30.62267], [50.348546, 30.6250866],
-      [50.3485124, 30.6254268], [50.3488079, 30.6254613], [50.3487124, 30.6264732], [50.3483007, 30.6269365], [50.3475432, 30.6266082],
-      [50.3470091, 30.6272318], [50.3461321, 30.627143], [50.345246, 30.6274719], [50.3445711, 30.6297314], [50.3437073, 30.6297362],
-      [50.3426917, 30.6299259], [50.3418785, 30.6305177], [50.3417516, 30.6312393], [50.3405042, 30.6335831], [50.3402836, 30.6337818],
-      [50.3398239, 30.6340402], [50.3383304, 30.635581], [50.3378189, 30.6420063], [50.3387091, 30.6408262], [50.3390652, 30.6401181],
-      [50.33912, 30.63941], [50.3393939, 30.6387877], [50.3402841, 30.6362342], [50.3410099, 30.6355047], [50.3412153, 30.6357193],
-      [50.3419274, 30.634818], [50.3452961, 30.63735], [50.3534841, 30.6383371], [50.354415, 30.6389165], [50.3561674, 30.6390238],
-      [50.3570299, 30.6382298], [50.3581936, 30.6385517], [50.3591655, 30.6391095], [50.3595077, 30.6386804], [50.3595625, 30.6382513],
-      [50.3600006, 30.6375217], [50.3605892, 30.6371784], [50.3609588, 30.636878], [50.3611286, 30.6359163], [50.3615072, 30.6384637],
-      [50.3621102, 30.6440258], [50.3624124, 30.6464619], [50.3625661, 30.6493276], [50.3627045, 30.6519063], [50.3650428, 30.6579281],
-      [50.3663902, 30.662022], [50.3665369, 30.6632807], [50.3670636, 30.6685495], [50.3699105, 30.6706095], [50.37028, 30.6730556],
-      [50.3702937, 30.6736564], [50.3701021, 30.6739139], [50.3699652, 30.6737637], [50.3696641, 30.6746435], [50.3696504, 30.6753087],
-      [50.3698147, 30.6761134], [50.370061, 30.6767893], [50.3704921, 30.6774008], [50.3707316, 30.6780338], [50.3711559, 30.6789136],
-      [50.3714023, 30.6791925], [50.3713338, 30.6797075], [50.37002, 30.6784415], [50.3685281, 30.6773686], [50.3666256, 30.6723475],
-      [50.3663382, 30.6723046], [50.3656949, 30.6729913], [50.365298, 30.6720686], [50.3648847, 30.6714034], [50.3598431, 30.6686032],
-      [50.35875, 30.669967], [50.3604636, 30.6739105], [50.3585892, 30.6749474], [50.3573174, 30.6758881], [50.3549934, 30.673835],
-      [50.3537319, 30.6761421], [50.353818, 30.6774074], [50.353017, 30.6777749], [50.353267, 30.679317], [50.3531941, 30.6825874],
-      [50.3526831, 30.6858122], [50.351711, 30.6881297], [50.3511839, 30.6899321], [50.3502484, 30.6925419], [50.3498521, 30.6933128],
-      [50.3498267, 30.6937864], [50.3496457, 30.6939908], [50.3497805, 30.6944382], [50.3497407, 30.6951906], [50.3491116, 30.6964611],
-      [50.34725, 30.69675], [50.347683, 30.698033], [50.348117, 30.69915], [50.348367, 30.69975], [50.3488, 30.701117],
-      [50.349483, 30.703183], [50.35095, 30.707383], [50.351283, 30.708417], [50.352317, 30.711417], [50.353433, 30.711683],
-      [50.3538405, 30.7117947], [50.3543024, 30.7120286], [50.354544, 30.7127413], [50.3546293, 30.7130866], [50.3562138, 30.7137102],
-      [50.3573648, 30.7137659], [50.3581179, 30.7135432], [50.3597236, 30.712307], [50.3606259, 30.7115497], [50.3614856, 30.710837],
-      [50.3625584, 30.7099238], [50.36356, 30.7079972], [50.3639295, 30.7073178], [50.3644623, 30.7079526], [50.3645399, 30.7085089],
-      [50.3647207, 30.7086664], [50.3650573, 30.7084695], [50.3652231, 30.7077687], [50.3653637, 30.7072725], [50.3654715, 30.7070939],
-      [50.3657095, 30.7070716], [50.3659652, 30.7071273], [50.3661925, 30.7072999], [50.3664269, 30.7074503], [50.3670237, 30.7077287],
-      [50.3669029, 30.7083468], [50.3668709, 30.708731], [50.3670805, 30.7093658], [50.3678938, 30.7095551], [50.3680182, 30.7098836],
-      [50.3680324, 30.7105518], [50.368011, 30.7122446], [50.367766, 30.7122334], [50.3676807, 30.7134028], [50.3681425, 30.7134974],
-      [50.3683236, 30.7143605], [50.3688031, 30.7148728], [50.3692153, 30.7149487], [50.369336, 30.7150476], [50.3696841, 30.7151145],
-      [50.3705258, 30.7149196], [50.3709271, 30.7144184], [50.3712042, 30.7138282], [50.371641, 30.7133772], [50.3720494, 30.7127646],
-      [50.3724401, 30.7122691], [50.3728803, 30.7116676], [50.3729999, 30.7118126], [50.3730716, 30.7118994], [50.3739574, 30.712905],
-      [50.3745076, 30.7129718], [50.3748341, 30.7121765], [50.375035, 30.712019], [50.3754066, 30.7122474], [50.3755472, 30.7124442],
-      [50.3758234, 30.712775], [50.3762955, 30.711956], [50.37618, 30.7115623], [50.3766018, 30.7114048], [50.3767977, 30.7117906],
-      [50.3785755, 30.7115859], [50.3790073, 30.7137278], [50.3797254, 30.7132947], [50.3800016, 30.7141373], [50.3804687, 30.7139641],
-      [50.3810662, 30.7154209], [50.381719, 30.7164525], [50.382171, 30.7168305], [50.3823618, 30.716862], [50.382549, 30.7182702],
-      [50.3824033, 30.7187116], [50.3816229, 30.7216267], [50.3812647, 30.7227444], [50.3806415, 30.7235841], [50.380033, 30.725333],
-      [50.3785, 30.727383], [50.3768346, 30.7288923], [50.3754525, 30.7269825], [50.374117, 30.73125], [50.372317, 30.738883],
-      [50.371988, 30.7407789], [50.3719664, 30.7422048], [50.3751442, 30.7510521], [50.3755639, 30.7526175], [50.3755472, 30.7533813],
-      [50.3751449, 30.7613164], [50.3750563, 30.7621264], [50.376151, 30.7628989], [50.377168, 30.7635129], [50.3786015, 30.7636892],
-      [50.3806048, 30.7642266], [50.3812931, 30.7673465], [50.382322, 30.7758854], [50.3825986, 30.7773979], [50.385229, 30.7803367],
-      [50.3854435, 30.7805763], [50.3883276, 30.7768118], [50.3888462, 30.7764348], [50.3889502, 30.7763638], [50.3893408, 30.7761277],
-      [50.3895407, 30.7759981], [50.3896299, 30.7759213], [50.3896782, 30.7758893], [50.3897466, 30.7758439], [50.3915055, 30.7753479],
-      [50.392674, 30.775274], [50.393993, 30.7752541], [50.3942149, 30.7752381], [50.394895, 30.7759894], [50.3951082, 30.7765635],
-      [50.3958115, 30.7797027], [50.3963019, 30.7823956], [50.3967016, 30.7845866], [50.3977838, 30.7900207], [50.3978699, 30.7904232],
-      [50.396441, 30.7930659], [50.3953321, 30.7951528], [50.3947694, 30.7960722], [50.3941143, 30.7971646], [50.3929962, 30.802298],
-      [50.3929769, 30.8024857], [50.3925401, 30.8067936], [50.3919617, 30.8120811], [50.3918722, 30.8130841], [50.3930876, 30.8163219],
-      [50.3943757, 30.8187002], [50.3949425, 30.8192223], [50.3958348, 30.819986], [50.3970656, 30.8209169], [50.3979921, 30.8215322],
-      [50.4006105, 30.8223419], [50.4010339, 30.8212611], [50.4011651, 30.821451], [50.4039441, 30.8262162], [50.4040635, 30.8263593],
-      [50.4046197, 30.8260356], [50.404816, 30.825966], [50.4050827, 30.8256024], [50.405327, 30.825399], [50.405441, 30.825281],
-      [50.4055665, 30.8251033], [50.406193, 30.824152], [50.406799, 30.823383], [50.407181, 30.822912], [50.4074498, 30.8225844],
-      [50.40778, 30.822182], [50.4080686, 30.8217802], [50.4082731, 30.8215047], [50.4082436, 30.8209194], [50.4082164, 30.8205023],
-      [50.4082276, 30.8202837], [50.4083765, 30.8195501], [50.4085734, 30.8185728], [50.4087736, 30.8174422], [50.4088649, 30.8170352],
-      [50.4089145, 30.8163417], [50.4090068, 30.8156568], [50.4091369, 30.8146918], [50.4091666, 30.8143059], [50.4092307, 30.8138398],
-      [50.4093128, 30.8135822], [50.4094692, 30.8132964], [50.4096444, 30.8129603], [50.4096988, 30.8127063], [50.4097018, 30.8124635],
-      [50.4097469, 30.8122689], [50.4098801, 30.8120068], [50.410083, 30.8116707], [50.410246, 30.8113652], [50.4104504, 30.8110506],
-      [50.4105893, 30.8108847], [50.4107237, 30.8105971], [50.4107786, 30.8101946], [50.4106977, 30.8099472], [50.4104784, 30.8097296],
-      [50.4101946, 30.8094209], [50.409943, 30.809011], [50.4098405, 30.8089712], [50.4097274, 30.8089563], [50.4096482, 30.8089198],
-      [50.4096059, 30.8088501], [50.4095985, 30.8087689], [50.4096191, 30.8086617], [50.4097169, 30.8083791], [50.4098914, 30.8079129],
-      [50.4099944, 30.8076641], [50.4103752, 30.8067439], [50.4111427, 30.8052612], [50.411591, 30.8045224], [50.4118584, 30.8041053],
-      [50.4119298, 30.8041526], [50.4120414, 30.8040915], [50.4123389, 30.8036336], [50.4126291, 30.8031968], [50.4134528, 30.8020226],
-      [50.4139143, 30.8013287], [50.4148855, 30.8000183], [50.4153159, 30.7988302], [50.4153223, 30.7981798], [50.4154271, 30.7980743],
-      [50.4157302, 30.7978213], [50.4167095, 30.7969421], [50.4169667, 30.796647], [50.4171348, 30.7963572], [50.417367, 30.7962003],
-      [50.4174863, 30.796175], [50.4176282, 30.7961902], [50.4177346, 30.7962307], [50.417841, 30.7963167], [50.4179893, 30.7964635],
-      [50.4181275, 30.796677], [50.4182795, 30.7969442], [50.4185117, 30.7973338], [50.4194499, 30.7988975], [50.4206171, 30.8008407],
-      [50.4207558, 30.801033], [50.4208235, 30.8010583], [50.4209009, 30.8010533], [50.4209911, 30.8009824], [50.4214264, 30.8003853],
-      [50.4215425, 30.8002993], [50.4216618, 30.800274], [50.4217972, 30.8002942], [50.4219197, 30.8003903], [50.4221131, 30.8006383],
-      [50.4230183, 30.8021656], [50.4234398, 30.8017126], [50.4237317, 30.8017063], [50.4240196, 30.8013925], [50.4243115, 30.800702],
-      [50.4245315, 30.8008401], [50.4246834, 30.8002878], [50.4249833, 30.7997731], [50.4253152, 30.7999551], [50.4252752, 30.8001434],
-      [50.425847, 30.8006518], [50.4268059, 30.8015562], [50.4270506, 30.8010854], [50.4273962, 30.8004008], [50.4278186, 30.7996431],
-      [50.4284, 30.7987433], [50.4289842, 30.7977875], [50.4294285, 30.7970772], [50.4298152, 30.7965132], [50.4301854, 30.7961946],
-      [50.4304569, 30.7960568], [50.4307285, 30.7959148], [50.4309095, 30.7957813], [50.4337452, 30.7921949], [50.4338555, 30.7920129],
-      [50.4338922, 30.7918175], [50.4338442, 30.7916399], [50.4337141, 30.7914535], [50.4335331, 30.7911], [50.4334397, 30.790773],
-      [50.4328796, 30.7899094], [50.4334412, 30.7887491], [50.4336679, 30.7882901], [50.4358255, 30.7835163], [50.4368439, 30.7811208],
-      [50.4367021, 30.781117], [50.4370605, 30.7802713], [50.4380742, 30.7778904], [50.4385929, 30.7768815], [50.4391392, 30.7761953],
-      [50.4398311, 30.77613], [50.4407572, 30.7763342], [50.4414788, 30.7764183], [50.4428746, 30.7765793], [50.4433177, 30.7768811],
-      [50.4456061, 30.7686116], [50.4457455, 30.7679316], [50.4476031, 30.7620022], [50.4478451, 30.7612296], [50.4487412, 30.7590214],
-      [50.4520659, 30.7536509], [50.4573854, 30.7444775], [50.4584656, 30.7425803], [50.4586055, 30.7433142], [50.4591532, 30.7461885],
-      [50.4598613, 30.7496347], [50.4602993, 30.7514344], [50.4616015, 30.7546732], [50.4629728, 30.7525994], [50.4638702, 30.7512524],
-      [50.464206, 30.7506646], [50.4645685, 30.7508239], [50.4664831, 30.7532713], [50.4676094, 30.7515727], [50.4690149, 30.7536858],
-      [50.4697877, 30.7524384], [50.4698991, 30.75172], [50.4696738, 30.7496402], [50.4694887, 30.7475656], [50.4694813, 30.7465961],
-      [50.4691703, 30.7453203], [50.4691999, 30.7443818], [50.4689944, 30.7435024], [50.4689734, 30.7430226], [50.4690999, 30.7426203],
-      [50.4685885, 30.7417699], [50.4686679, 30.7416431], [50.4687051, 30.7415836], [50.4666703, 30.7383931], [50.4636294, 30.7336253],
-      [50.4629234, 30.732526], [50.4585593, 30.7257308], [50.4580662, 30.7249563], [50.4558654, 30.7214998], [50.4548968, 30.7200123],
-      [50.4539821, 30.7185886], [50.4525245, 30.7163047], [50.4513618, 30.7144561], [50.4495296, 30.7116224], [50.4489013, 30.7105921],
-      [50.4485789, 30.7100101], [50.4483223, 30.7095191], [50.448022, 30.7089314], [50.4477626, 30.7084039], [50.4472454, 30.7072531],
-      [50.4467683, 30.7060694], [50.4463179, 30.7048437], [50.4459019, 30.703597], [50.4455241, 30.7024552], [50.4451004, 30.7011726],
-      [50.4448027, 30.7002736], [50.4443763, 30.6989909], [50.4442674, 30.6986634], [50.4435062, 30.6963372], [50.4434127, 30.6960371],
-      [50.4432543, 30.6954078], [50.4430997, 30.6947755], [50.4429299, 30.6938555], [50.4429222, 30.6938135], [50.4426913, 30.6925249],
-      [50.4423532, 30.6907073], [50.4422358, 30.6901307], [50.4420809, 30.6893701], [50.4417472, 30.6880329], [50.4413348, 30.6864455],
-      [50.4410694, 30.6854349], [50.4407299, 30.6841431], [50.4406296, 30.683763], [50.4391992, 30.6781785], [50.4384993, 30.6755078],
-      [50.4383619, 30.6749915], [50.438257, 30.6745787], [50.4381366, 30.6740861], [50.4380528, 30.6736669], [50.4379283, 30.6729883],
-      [50.4378143, 30.6723286], [50.4376045, 30.6708932], [50.4375014, 30.6702218], [50.4373878, 30.6695669], [50.4371584, 30.6685007],
-      [50.4369046, 30.6674619], [50.4366381, 30.6663903], [50.4363762, 30.6653332], [50.436119, 30.6643017], [50.4357945, 30.6629863],
-      [50.4354689, 30.6616709], [50.4345031, 30.6576949], [50.4338646, 30.6550638], [50.4335997, 30.6539905], [50.4335719, 30.6538747],
-      [50.433254, 30.6526266], [50.4331269, 30.6521274], [50.4331018, 30.652026], [50.4329433, 30.6513861], [50.4328527, 30.651002],
-      [50.43281, 30.650826], [50.4327395, 30.6505359], [50.4323784, 30.6490395], [50.4302581, 30.640466], [50.4299062, 30.6390431],
-      [50.4298546, 30.6388387], [50.4295278, 30.6375154], [50.4292153, 30.6363202], [50.4290672, 30.6357536], [50.428862, 30.6348972],
-      [50.4285237, 30.6335082], [50.4280594, 30.631646], [50.4279343, 30.6311386], [50.4279089, 30.6310404], [50.4277735, 30.6304931],
-      [50.427662, 30.6300421], [50.4268001, 30.6265544], [50.4260235, 30.6234207], [50.4257332, 30.6222068], [50.4255479, 30.6214353],
-      [50.4249629, 30.6190631], [50.4243661, 30.616818], [50.4239065, 30.6151181], [50.4234211, 30.6133192], [50.4233576, 30.6130931],
-      [50.421367, 30.6058508], [50.421199, 30.6052368], [50.4208465, 30.603941], [50.4199544, 30.6008232], [50.4189041, 30.5969313],
-      [50.4181194, 30.5938081], [50.4172389, 30.5902419], [50.415779, 30.5910773], [50.4115685, 30.5943283], [50.4088912, 30.5960851],
-      [50.4043454, 30.5960267], [50.4002099, 30.5957108], [50.3948847, 30.5934222], [50.3926409, 30.5913794], [50.3877003, 30.5867966],
-      [50.3802592, 30.5838169], [50.3743635, 30.5832688]
+    polygons: [
+      [
+        [
+          [50.3743635, 30.5832688], [50.3697541, 30.5842227], [50.3609002, 30.5869397], [50.3562035, 30.5900015], [50.3527252, 30.5926341],
+          [50.3498978, 30.5985028], [50.3472072, 30.6021184], [50.3407898, 30.6071143], [50.3372747, 30.6128798], [50.3385081, 30.6149236],
+          [50.339248, 30.6153286], [50.3398961, 30.6162374], [50.3402059, 30.6159614], [50.3405168, 30.615879], [50.3406826, 30.6158095],
+          [50.3408721, 30.6157301], [50.3410672, 30.6156121], [50.341134, 30.6155719], [50.3412016, 30.6155156], [50.3412495, 30.6154606],
+          [50.3412486, 30.6153783], [50.341327, 30.6153732], [50.3413316, 30.6154519], [50.3415079, 30.6154842], [50.341405, 30.6151535],
+          [50.3414581, 30.6151119], [50.3415711, 30.6154457], [50.341611, 30.6154265], [50.3416376, 30.6153864], [50.3415266, 30.6150864],
+          [50.3415591, 30.6150569], [50.3416665, 30.6153489], [50.3418897, 30.6150703], [50.3421824, 30.6148235], [50.342268, 30.614794],
+          [50.3421766, 30.6144606], [50.3422128, 30.6144399], [50.3423151, 30.6148078], [50.3423711, 30.6148593], [50.3424503, 30.6149369],
+          [50.342448, 30.6148296], [50.3424154, 30.6145679], [50.3424362, 30.6145597], [50.3424702, 30.6148256], [50.3424812, 30.6149328],
+          [50.3425411, 30.6149271], [50.3425639, 30.6149097], [50.3425864, 30.6148705], [50.3426006, 30.6147978], [50.3426335, 30.6147404],
+          [50.3426798, 30.6146927], [50.3427668, 30.6146704], [50.3430703, 30.6145709], [50.3431249, 30.614514], [50.3430638, 30.6142965],
+          [50.3431055, 30.6142636], [50.3431639, 30.6144711], [50.3432373, 30.6143901], [50.3432011, 30.614322], [50.3432166, 30.6143009],
+          [50.3432577, 30.6143769], [50.3433381, 30.6143246], [50.3433033, 30.6142315], [50.343274, 30.6142583], [50.3432648, 30.6142337],
+          [50.343293, 30.6142078], [50.3432386, 30.614062], [50.3432641, 30.6140387], [50.3433624, 30.6143023], [50.3434235, 30.6142241],
+          [50.3435382, 30.6140658], [50.3436451, 30.6139154], [50.343836, 30.6137735], [50.3440637, 30.6136581], [50.344252, 30.6135535],
+          [50.3444103, 30.6134382], [50.3444788, 30.613343], [50.3445438, 30.6132263], [50.3446183, 30.6131029], [50.3446713, 30.6130265],
+          [50.3447834, 30.6129017], [50.3448956, 30.6128226], [50.3449512, 30.6127609], [50.3450539, 30.6126308], [50.3452576, 30.6124458],
+          [50.3454185, 30.6123251], [50.3455075, 30.6122379], [50.3457711, 30.6119697], [50.345944, 30.6118289], [50.3460184, 30.6117618],
+          [50.3460835, 30.6116666], [50.3461528, 30.6115848], [50.3462349, 30.6115083], [50.3462983, 30.6114574], [50.3463239, 30.6114131],
+          [50.3464106, 30.6113333], [50.3475931, 30.613881], [50.3480049, 30.6144077], [50.3482344, 30.615854], [50.3484574, 30.6165056],
+          [50.3484976, 30.6166724], [50.3477902, 30.6171078], [50.3485354, 30.6219511], [50.3487786, 30.62267], [50.348546, 30.6250866],
+          [50.3485124, 30.6254268], [50.3488079, 30.6254613], [50.3487124, 30.6264732], [50.3483007, 30.6269365], [50.3475432, 30.6266082],
+          [50.3470091, 30.6272318], [50.3461321, 30.627143], [50.345246, 30.6274719], [50.3445711, 30.6297314], [50.3437073, 30.6297362],
+          [50.3426917, 30.6299259], [50.3418785, 30.6305177], [50.3417516, 30.6312393], [50.3405042, 30.6335831], [50.3402836, 30.6337818],
+          [50.3398239, 30.6340402], [50.3383304, 30.635581], [50.3378189, 30.6420063], [50.3387091, 30.6408262], [50.3390652, 30.6401181],
+          [50.33912, 30.63941], [50.3393939, 30.6387877], [50.3402841, 30.6362342], [50.3410099, 30.6355047], [50.3412153, 30.6357193],
+          [50.3419274, 30.634818], [50.3452961, 30.63735], [50.3534841, 30.6383371], [50.354415, 30.6389165], [50.3561674, 30.6390238],
+          [50.3570299, 30.6382298], [50.3581936, 30.6385517], [50.3591655, 30.6391095], [50.3595077, 30.6386804], [50.3595625, 30.6382513],
+          [50.3600006, 30.6375217], [50.3605892, 30.6371784], [50.3609588, 30.636878], [50.3611286, 30.6359163], [50.3615072, 30.6384637],
+          [50.3621102, 30.6440258], [50.3624124, 30.6464619], [50.3625661, 30.6493276], [50.3627045, 30.6519063], [50.3650428, 30.6579281],
+          [50.3663902, 30.662022], [50.3665369, 30.6632807], [50.3670636, 30.6685495], [50.3699105, 30.6706095], [50.37028, 30.6730556],
+          [50.3702937, 30.6736564], [50.3701021, 30.6739139], [50.3699652, 30.6737637], [50.3696641, 30.6746435], [50.3696504, 30.6753087],
+          [50.3698147, 30.6761134], [50.370061, 30.6767893], [50.3704921, 30.6774008], [50.3707316, 30.6780338], [50.3711559, 30.6789136],
+          [50.3714023, 30.6791925], [50.3713338, 30.6797075], [50.37002, 30.6784415], [50.3685281, 30.6773686], [50.3666256, 30.6723475],
+          [50.3663382, 30.6723046], [50.3656949, 30.6729913], [50.365298, 30.6720686], [50.3648847, 30.6714034], [50.3598431, 30.6686032],
+          [50.35875, 30.669967], [50.3604636, 30.6739105], [50.3585892, 30.6749474], [50.3573174, 30.6758881], [50.3549934, 30.673835],
+          [50.3537319, 30.6761421], [50.353818, 30.6774074], [50.353017, 30.6777749], [50.353267, 30.679317], [50.3531941, 30.6825874],
+          [50.3526831, 30.6858122], [50.351711, 30.6881297], [50.3511839, 30.6899321], [50.3502484, 30.6925419], [50.3498521, 30.6933128],
+          [50.3498267, 30.6937864], [50.3496457, 30.6939908], [50.3497805, 30.6944382], [50.3497407, 30.6951906], [50.3491116, 30.6964611],
+          [50.34725, 30.69675], [50.347683, 30.698033], [50.348117, 30.69915], [50.348367, 30.69975], [50.3488, 30.701117],
+          [50.349483, 30.703183], [50.35095, 30.707383], [50.351283, 30.708417], [50.352317, 30.711417], [50.353433, 30.711683],
+          [50.3538405, 30.7117947], [50.3543024, 30.7120286], [50.354544, 30.7127413], [50.3546293, 30.7130866], [50.3562138, 30.7137102],
+          [50.3573648, 30.7137659], [50.3581179, 30.7135432], [50.3597236, 30.712307], [50.3606259, 30.7115497], [50.3614856, 30.710837],
+          [50.3625584, 30.7099238], [50.36356, 30.7079972], [50.3639295, 30.7073178], [50.3644623, 30.7079526], [50.3645399, 30.7085089],
+          [50.3647207, 30.7086664], [50.3650573, 30.7084695], [50.3652231, 30.7077687], [50.3653637, 30.7072725], [50.3654715, 30.7070939],
+          [50.3657095, 30.7070716], [50.3659652, 30.7071273], [50.3661925, 30.7072999], [50.3664269, 30.7074503], [50.3670237, 30.7077287],
+          [50.3669029, 30.7083468], [50.3668709, 30.708731], [50.3670805, 30.7093658], [50.3678938, 30.7095551], [50.3680182, 30.7098836],
+          [50.3680324, 30.7105518], [50.368011, 30.7122446], [50.367766, 30.7122334], [50.3676807, 30.7134028], [50.3681425, 30.7134974],
+          [50.3683236, 30.7143605], [50.3688031, 30.7148728], [50.3692153, 30.7149487], [50.369336, 30.7150476], [50.3696841, 30.7151145],
+          [50.3705258, 30.7149196], [50.3709271, 30.7144184], [50.3712042, 30.7138282], [50.371641, 30.7133772], [50.3720494, 30.7127646],
+          [50.3724401, 30.7122691], [50.3728803, 30.7116676], [50.3729999, 30.7118126], [50.3730716, 30.7118994], [50.3739574, 30.712905],
+          [50.3745076, 30.7129718], [50.3748341, 30.7121765], [50.375035, 30.712019], [50.3754066, 30.7122474], [50.3755472, 30.7124442],
+          [50.3758234, 30.712775], [50.3762955, 30.711956], [50.37618, 30.7115623], [50.3766018, 30.7114048], [50.3767977, 30.7117906],
+          [50.3785755, 30.7115859], [50.3790073, 30.7137278], [50.3797254, 30.7132947], [50.3800016, 30.7141373], [50.3804687, 30.7139641],
+          [50.3810662, 30.7154209], [50.381719, 30.7164525], [50.382171, 30.7168305], [50.3823618, 30.716862], [50.382549, 30.7182702],
+          [50.3824033, 30.7187116], [50.3816229, 30.7216267], [50.3812647, 30.7227444], [50.3806415, 30.7235841], [50.380033, 30.725333],
+          [50.3785, 30.727383], [50.3768346, 30.7288923], [50.3754525, 30.7269825], [50.374117, 30.73125], [50.372317, 30.738883],
+          [50.371988, 30.7407789], [50.3719664, 30.7422048], [50.3751442, 30.7510521], [50.3755639, 30.7526175], [50.3755472, 30.7533813],
+          [50.3751449, 30.7613164], [50.3750563, 30.7621264], [50.376151, 30.7628989], [50.377168, 30.7635129], [50.3786015, 30.7636892],
+          [50.3806048, 30.7642266], [50.3812931, 30.7673465], [50.382322, 30.7758854], [50.3825986, 30.7773979], [50.385229, 30.7803367],
+          [50.3854435, 30.7805763], [50.3883276, 30.7768118], [50.3888462, 30.7764348], [50.3889502, 30.7763638], [50.3893408, 30.7761277],
+          [50.3895407, 30.7759981], [50.3896299, 30.7759213], [50.3896782, 30.7758893], [50.3897466, 30.7758439], [50.3915055, 30.7753479],
+          [50.392674, 30.775274], [50.393993, 30.7752541], [50.3942149, 30.7752381], [50.394895, 30.7759894], [50.3951082, 30.7765635],
+          [50.3958115, 30.7797027], [50.3963019, 30.7823956], [50.3967016, 30.7845866], [50.3977838, 30.7900207], [50.3978699, 30.7904232],
+          [50.396441, 30.7930659], [50.3953321, 30.7951528], [50.3947694, 30.7960722], [50.3941143, 30.7971646], [50.3929962, 30.802298],
+          [50.3929769, 30.8024857], [50.3925401, 30.8067936], [50.3919617, 30.8120811], [50.3918722, 30.8130841], [50.3930876, 30.8163219],
+          [50.3943757, 30.8187002], [50.3949425, 30.8192223], [50.3958348, 30.819986], [50.3970656, 30.8209169], [50.3979921, 30.8215322],
+          [50.4006105, 30.8223419], [50.4010339, 30.8212611], [50.4011651, 30.821451], [50.4039441, 30.8262162], [50.4040635, 30.8263593],
+          [50.4046197, 30.8260356], [50.404816, 30.825966], [50.4050827, 30.8256024], [50.405327, 30.825399], [50.405441, 30.825281],
+          [50.4055665, 30.8251033], [50.406193, 30.824152], [50.406799, 30.823383], [50.407181, 30.822912], [50.4074498, 30.8225844],
+          [50.40778, 30.822182], [50.4080686, 30.8217802], [50.4082731, 30.8215047], [50.4082436, 30.8209194], [50.4082164, 30.8205023],
+          [50.4082276, 30.8202837], [50.4083765, 30.8195501], [50.4085734, 30.8185728], [50.4087736, 30.8174422], [50.4088649, 30.8170352],
+          [50.4089145, 30.8163417], [50.4090068, 30.8156568], [50.4091369, 30.8146918], [50.4091666, 30.8143059], [50.4092307, 30.8138398],
+          [50.4093128, 30.8135822], [50.4094692, 30.8132964], [50.4096444, 30.8129603], [50.4096988, 30.8127063], [50.4097018, 30.8124635],
+          [50.4097469, 30.8122689], [50.4098801, 30.8120068], [50.410083, 30.8116707], [50.410246, 30.8113652], [50.4104504, 30.8110506],
+          [50.4105893, 30.8108847], [50.4107237, 30.8105971], [50.4107786, 30.8101946], [50.4106977, 30.8099472], [50.4104784, 30.8097296],
+          [50.4101946, 30.8094209], [50.409943, 30.809011], [50.4098405, 30.8089712], [50.4097274, 30.8089563], [50.4096482, 30.8089198],
+          [50.4096059, 30.8088501], [50.4095985, 30.8087689], [50.4096191, 30.8086617], [50.4097169, 30.8083791], [50.4098914, 30.8079129],
+          [50.4099944, 30.8076641], [50.4103752, 30.8067439], [50.4111427, 30.8052612], [50.411591, 30.8045224], [50.4118584, 30.8041053],
+          [50.4119298, 30.8041526], [50.4120414, 30.8040915], [50.4123389, 30.8036336], [50.4126291, 30.8031968], [50.4134528, 30.8020226],
+          [50.4139143, 30.8013287], [50.4148855, 30.8000183], [50.4153159, 30.7988302], [50.4153223, 30.7981798], [50.4154271, 30.7980743],
+          [50.4157302, 30.7978213], [50.4167095, 30.7969421], [50.4169667, 30.796647], [50.4171348, 30.7963572], [50.417367, 30.7962003],
+          [50.4174863, 30.796175], [50.4176282, 30.7961902], [50.4177346, 30.7962307], [50.417841, 30.7963167], [50.4179893, 30.7964635],
+          [50.4181275, 30.796677], [50.4182795, 30.7969442], [50.4185117, 30.7973338], [50.4194499, 30.7988975], [50.4206171, 30.8008407],
+          [50.4207558, 30.801033], [50.4208235, 30.8010583], [50.4209009, 30.8010533], [50.4209911, 30.8009824], [50.4214264, 30.8003853],
+          [50.4215425, 30.8002993], [50.4216618, 30.800274], [50.4217972, 30.8002942], [50.4219197, 30.8003903], [50.4221131, 30.8006383],
+          [50.4230183, 30.8021656], [50.4234398, 30.8017126], [50.4237317, 30.8017063], [50.4240196, 30.8013925], [50.4243115, 30.800702],
+          [50.4245315, 30.8008401], [50.4246834, 30.8002878], [50.4249833, 30.7997731], [50.4253152, 30.7999551], [50.4252752, 30.8001434],
+          [50.425847, 30.8006518], [50.4268059, 30.8015562], [50.4270506, 30.8010854], [50.4273962, 30.8004008], [50.4278186, 30.7996431],
+          [50.4284, 30.7987433], [50.4289842, 30.7977875], [50.4294285, 30.7970772], [50.4298152, 30.7965132], [50.4301854, 30.7961946],
+          [50.4304569, 30.7960568], [50.4307285, 30.7959148], [50.4309095, 30.7957813], [50.4337452, 30.7921949], [50.4338555, 30.7920129],
+          [50.4338922, 30.7918175], [50.4338442, 30.7916399], [50.4337141, 30.7914535], [50.4335331, 30.7911], [50.4334397, 30.790773],
+          [50.4328796, 30.7899094], [50.4334412, 30.7887491], [50.4336679, 30.7882901], [50.4358255, 30.7835163], [50.4368439, 30.7811208],
+          [50.4367021, 30.781117], [50.4370605, 30.7802713], [50.4380742, 30.7778904], [50.4385929, 30.7768815], [50.4391392, 30.7761953],
+          [50.4398311, 30.77613], [50.4407572, 30.7763342], [50.4414788, 30.7764183], [50.4428746, 30.7765793], [50.4433177, 30.7768811],
+          [50.4456061, 30.7686116], [50.4457455, 30.7679316], [50.4476031, 30.7620022], [50.4478451, 30.7612296], [50.4487412, 30.7590214],
+          [50.4520659, 30.7536509], [50.4573854, 30.7444775], [50.4584656, 30.7425803], [50.4586055, 30.7433142], [50.4591532, 30.7461885],
+          [50.4598613, 30.7496347], [50.4602993, 30.7514344], [50.4616015, 30.7546732], [50.4629728, 30.7525994], [50.4638702, 30.7512524],
+          [50.464206, 30.7506646], [50.4645685, 30.7508239], [50.4664831, 30.7532713], [50.4676094, 30.7515727], [50.4690149, 30.7536858],
+          [50.4697877, 30.7524384], [50.4698991, 30.75172], [50.4696738, 30.7496402], [50.4694887, 30.7475656], [50.4694813, 30.7465961],
+          [50.4691703, 30.7453203], [50.4691999, 30.7443818], [50.4689944, 30.7435024], [50.4689734, 30.7430226], [50.4690999, 30.7426203],
+          [50.4685885, 30.7417699], [50.4686679, 30.7416431], [50.4687051, 30.7415836], [50.4666703, 30.7383931], [50.4636294, 30.7336253],
+          [50.4629234, 30.732526], [50.4585593, 30.7257308], [50.4580662, 30.7249563], [50.4558654, 30.7214998], [50.4548968, 30.7200123],
+          [50.4539821, 30.7185886], [50.4525245, 30.7163047], [50.4513618, 30.7144561], [50.4495296, 30.7116224], [50.4489013, 30.7105921],
+          [50.4485789, 30.7100101], [50.4483223, 30.7095191], [50.448022, 30.7089314], [50.4477626, 30.7084039], [50.4472454, 30.7072531],
+          [50.4467683, 30.7060694], [50.4463179, 30.7048437], [50.4459019, 30.703597], [50.4455241, 30.7024552], [50.4451004, 30.7011726],
+          [50.4448027, 30.7002736], [50.4443763, 30.6989909], [50.4442674, 30.6986634], [50.4435062, 30.6963372], [50.4434127, 30.6960371],
+          [50.4432543, 30.6954078], [50.4430997, 30.6947755], [50.4429299, 30.6938555], [50.4429222, 30.6938135], [50.4426913, 30.6925249],
+          [50.4423532, 30.6907073], [50.4422358, 30.6901307], [50.4420809, 30.6893701], [50.4417472, 30.6880329], [50.4413348, 30.6864455],
+          [50.4410694, 30.6854349], [50.4407299, 30.6841431], [50.4406296, 30.683763], [50.4391992, 30.6781785], [50.4384993, 30.6755078],
+          [50.4383619, 30.6749915], [50.438257, 30.6745787], [50.4381366, 30.6740861], [50.4380528, 30.6736669], [50.4379283, 30.6729883],
+          [50.4378143, 30.6723286], [50.4376045, 30.6708932], [50.4375014, 30.6702218], [50.4373878, 30.6695669], [50.4371584, 30.6685007],
+          [50.4369046, 30.6674619], [50.4366381, 30.6663903], [50.4363762, 30.6653332], [50.436119, 30.6643017], [50.4357945, 30.6629863],
+          [50.4354689, 30.6616709], [50.4345031, 30.6576949], [50.4338646, 30.6550638], [50.4335997, 30.6539905], [50.4335719, 30.6538747],
+          [50.433254, 30.6526266], [50.4331269, 30.6521274], [50.4331018, 30.652026], [50.4329433, 30.6513861], [50.4328527, 30.651002],
+          [50.43281, 30.650826], [50.4327395, 30.6505359], [50.4323784, 30.6490395], [50.4302581, 30.640466], [50.4299062, 30.6390431],
+          [50.4298546, 30.6388387], [50.4295278, 30.6375154], [50.4292153, 30.6363202], [50.4290672, 30.6357536], [50.428862, 30.6348972],
+          [50.4285237, 30.6335082], [50.4280594, 30.631646], [50.4279343, 30.6311386], [50.4279089, 30.6310404], [50.4277735, 30.6304931],
+          [50.427662, 30.6300421], [50.4268001, 30.6265544], [50.4260235, 30.6234207], [50.4257332, 30.6222068], [50.4255479, 30.6214353],
+          [50.4249629, 30.6190631], [50.4243661, 30.616818], [50.4239065, 30.6151181], [50.4234211, 30.6133192], [50.4233576, 30.6130931],
+          [50.421367, 30.6058508], [50.421199, 30.6052368], [50.4208465, 30.603941], [50.4199544, 30.6008232], [50.4189041, 30.5969313],
+          [50.4181194, 30.5938081], [50.4172389, 30.5902419], [50.415779, 30.5910773], [50.4115685, 30.5943283], [50.4088912, 30.5960851],
+          [50.4043454, 30.5960267], [50.4002099, 30.5957108], [50.3948847, 30.5934222], [50.3926409, 30.5913794], [50.3877003, 30.5867966],
+          [50.3802592, 30.5838169], [50.3743635, 30.5832688]
+        ]
+      ]
     ],
     population: 350000,
     area: 134.5
   },
   {
     name: "Desnianskyi",
-    coordinates: [
-      [50.5040136, 30.5253982], [50.502551, 30.5254902], [50.5010884, 30.5258397], [50.4987111, 30.5283762], [50.4969072, 30.5312561],
-      [50.4928897, 30.5348271], [50.4909308, 30.5367007], [50.4922466, 30.5411223], [50.4924611, 30.5417362], [50.492911, 30.5432887],
-      [50.4933612, 30.5450311], [50.4935395, 30.5460271], [50.4936678, 30.546793], [50.4938233, 30.5481076], [50.4940502, 30.549942],
-      [50.4944153, 30.5528849], [50.4950295, 30.5574629], [50.49522, 30.5590789], [50.4953456, 30.5605526], [50.4954118, 30.5613086],
-      [50.4954537, 30.5620603], [50.4955226, 30.5638781], [50.4955496, 30.565664], [50.495528, 30.5682314], [50.4955293, 30.5689321],
-      [50.4955092, 30.5703428], [50.4954981, 30.5738458], [50.4954895, 30.5759198], [50.4954729, 30.5780912], [50.4954375, 30.5822386],
-      [50.4954169, 30.5836199], [50.4953791, 30.5882765], [50.4953706, 30.5913335], [50.4953441, 30.5934993], [50.4953441, 30.5961336],
-      [50.4953492, 30.6050613], [50.4953305, 30.6060756], [50.4953186, 30.6063656], [50.4952975, 30.6065396], [50.4952089, 30.6070315],
-      [50.4951712, 30.6073759], [50.4951606, 30.608021], [50.4945444, 30.6081162], [50.4942853, 30.6081734], [50.4932172, 30.6086779],
-      [50.491013, 30.6097215], [50.4890516, 30.6104849], [50.4875289, 30.6114781], [50.4868592, 30.6119119], [50.4867972, 30.611952],
-      [50.4859187, 30.612566], [50.4858313, 30.6124763], [50.4851472, 30.6128779], [50.485234, 30.612326], [50.4852869, 30.6120256],
-      [50.4851743, 30.6115455], [50.4851436, 30.6112288], [50.4851653, 30.61044], [50.4843875, 30.6101025], [50.4835134, 30.6096711],
-      [50.4822353, 30.6090403], [50.4801138, 30.6080261], [50.4790266, 30.6076912], [50.4788712, 30.6076697], [50.4786279, 30.6076847],
-      [50.4785193, 30.6076393], [50.4768185, 30.608934], [50.4733002, 30.6115973], [50.4724332, 30.6123168], [50.4723395, 30.6124307],
-      [50.4721385, 30.6127421], [50.4720455, 30.6129311], [50.4719587, 30.6131308], [50.4718173, 30.6135681], [50.4715706, 30.6142932],
-      [50.4714813, 30.6145777], [50.4714114, 30.6147887], [50.4713952, 30.6148375], [50.4713776, 30.6148907], [50.4706304, 30.6171464],
-      [50.4705254, 30.6174648], [50.4699805, 30.6191174], [50.469756, 30.6198058], [50.4695146, 30.6205101], [50.4694301, 30.6207471],
-      [50.4693981, 30.6208636], [50.4692968, 30.6211745], [50.4692694, 30.6212586], [50.4692315, 30.6213752], [50.4691793, 30.6215476],
-      [50.4690415, 30.6219533], [50.4688167, 30.6226292], [50.4686841, 30.6229683], [50.4685568, 30.6232465], [50.4683963, 30.6235668],
-      [50.4682223, 30.6238914], [50.4680026, 30.6242318], [50.4677814, 30.6245475], [50.4675991, 30.6247682], [50.4674018, 30.6249708],
-      [50.4671137, 30.6252404], [50.4668127, 30.6254768], [50.4656804, 30.6262424], [50.4645785, 30.627], [50.4639147, 30.6274595],
-      [50.4638198, 30.6275591], [50.4636965, 30.6277341], [50.4635726, 30.6278507], [50.4626671, 30.6284727], [50.4621758, 30.6287945],
-      [50.4619241, 30.6289487], [50.4616844, 30.629083], [50.4614253, 30.6292368], [50.4611778, 30.6293999], [50.4610765, 30.6294692],
-      [50.4605901, 30.6297965], [50.4599733, 30.6302174], [50.4596331, 30.6304574], [50.459152, 30.6307851], [50.4575249, 30.6318933],
-      [50.4568112, 30.6323552], [50.4556918, 30.6331452], [50.455642, 30.6331782], [50.4555732, 30.6332236], [50.4553721, 30.6330805],
-      [50.4550611, 30.6328966], [50.4549033, 30.6327983], [50.4526273, 30.6313809], [50.4524361, 30.6312289], [50.4523209, 30.631131],
-      [50.4521121, 30.6309628], [50.4515604, 30.6305627], [50.4515103, 30.6305264], [50.4514432, 30.6307673], [50.4513584, 30.6311063],
-      [50.4512555, 30.6315181], [50.4512433, 30.6315672], [50.4511763, 30.6318454], [50.4510789, 30.6322289], [50.4509545, 30.6327325],
-      [50.4509099, 30.6329128], [50.4508315, 30.6332297], [50.4507982, 30.633364], [50.4507613, 30.633515], [50.4504044, 30.6349758],
-      [50.4502886, 30.6354632], [50.4502385, 30.6356816], [50.4502238, 30.6357471], [50.4500672, 30.6364482], [50.4499928, 30.6367775],
-      [50.4499994, 30.6369155], [50.4500298, 30.6370331], [50.4500858, 30.637229], [50.4503433, 30.6381454], [50.4504596, 30.6385848],
-      [50.4505491, 30.6389055], [50.4507611, 30.6396604], [50.4513978, 30.6419615], [50.4514225, 30.642051], [50.4514353, 30.6420955],
-      [50.4515342, 30.6424671], [50.4516816, 30.6430191], [50.4517065, 30.6431065], [50.4517105, 30.6431968], [50.4517039, 30.6433124],
-      [50.4516793, 30.6433939], [50.4516306, 30.6434875], [50.4515557, 30.6435655], [50.4506336, 30.6441933], [50.4505609, 30.6442428],
-      [50.45021, 30.6444829], [50.4501194, 30.6445544], [50.4500245, 30.6446578], [50.4499536, 30.6448086], [50.4499182, 30.6449786],
-      [50.4499158, 30.645125], [50.4499374, 30.64527], [50.4499788, 30.6454339], [50.4503006, 30.6466059], [50.4504478, 30.6471376],
-      [50.4507282, 30.6481551], [50.4507492, 30.6482344], [50.4506789, 30.6482806], [50.4500715, 30.6486837], [50.4498434, 30.6488271],
-      [50.4491532, 30.6492838], [50.4483094, 30.6498508], [50.4475276, 30.6503571], [50.4473379, 30.650456], [50.449213, 30.6586743],
-      [50.4496821, 30.6594432], [50.4502712, 30.6598158], [50.4508497, 30.6597834], [50.4508849, 30.6598254], [50.4515413, 30.6598682],
-      [50.451832, 30.6598924], [50.4519637, 30.6598932], [50.4521374, 30.6599592], [50.4521695, 30.6601749], [50.4541889, 30.6596342],
-      [50.4542802, 30.6596503], [50.454872, 30.6597066], [50.4557967, 30.6597992], [50.45642, 30.6598609], [50.4570571, 30.6599352],
-      [50.4571445, 30.6599009], [50.4575161, 30.6598665], [50.457947, 30.6598293], [50.4583152, 30.6584924], [50.4596795, 30.6563573],
-      [50.4602873, 30.6561189], [50.460443, 30.6569887], [50.4634667, 30.6559801], [50.4634599, 30.6559204], [50.4633221, 30.654675],
-      [50.4631742, 30.6547327], [50.4631345, 30.6544921], [50.4635406, 30.6543626], [50.4639509, 30.6542622], [50.4641099, 30.6539143],
-      [50.4643477, 30.6537299], [50.4643849, 30.6534964], [50.4644484, 30.6533933], [50.4645072, 30.6530051], [50.4644249, 30.6528942],
-      [50.4643346, 30.6522595], [50.4645425, 30.6523088], [50.4645739, 30.6521855], [50.4645386, 30.651976], [50.4643699, 30.6517665],
-      [50.4644993, 30.6516517], [50.4647387, 30.6514029], [50.4648956, 30.6514214], [50.4649794, 30.6514906], [50.4650181, 30.6516237],
-      [50.4650315, 30.6517264], [50.465178, 30.6518528], [50.4656644, 30.6536275], [50.4657687, 30.6541688], [50.4658638, 30.6547432],
-      [50.4660174, 30.6555685], [50.4660997, 30.6560122], [50.4662527, 30.6563018], [50.4664292, 30.656462], [50.4666214, 30.6565236],
-      [50.467262, 30.656226], [50.4681584, 30.6572011], [50.4682324, 30.6571626], [50.4698356, 30.6629862], [50.4705199, 30.6654905],
-      [50.4712086, 30.6680016], [50.4748986, 30.6813492], [50.481398, 30.7049548], [50.4867811, 30.7247061], [50.4877331, 30.7281364],
-      [50.4887573, 30.7318272], [50.491135, 30.740128], [50.491174, 30.7401109], [50.491419, 30.7400036], [50.4918422, 30.7419348],
-      [50.4943267, 30.7403147], [50.494627, 30.7400143], [50.4979985, 30.73892], [50.4983875, 30.7385552], [50.4983602, 30.7380617],
-      [50.498925, 30.7376052], [50.4991928, 30.7378831], [50.4990495, 30.7400074], [50.499867, 30.740683], [50.500633, 30.7424],
-      [50.5014, 30.744117], [50.501667, 30.744717], [50.5019073, 30.745452], [50.5020851, 30.7456416], [50.5027257, 30.7453619],
-      [50.5028649, 30.7456119], [50.5030258, 30.7456185], [50.503106, 30.7458355], [50.5027428, 30.7461944], [50.5024096, 30.7461054],
-      [50.502082, 30.7462062], [50.5021407, 30.7464903], [50.5021123, 30.7481029], [50.5022489, 30.7498757], [50.5022519, 30.7499498],
-      [50.502331, 30.7507344], [50.5024553, 30.7505919], [50.5028216, 30.7502198], [50.5029212, 30.7501399], [50.5030344, 30.7500678],
-      [50.5031774, 30.7499998], [50.5033179, 30.7499388], [50.5036801, 30.749763], [50.5037564, 30.7497347], [50.5039457, 30.7496169],
-      [50.5046042, 30.7492742], [50.5052122, 30.7506393], [50.5053563, 30.7509149], [50.506817, 30.754167], [50.5078392, 30.7577289],
-      [50.5088074, 30.7572488], [50.508887, 30.7577027], [50.509037, 30.7585581], [50.5091683, 30.7593065], [50.5084069, 30.7598175],
-      [50.509033, 30.7619215], [50.5102787, 30.7611936], [50.5106773, 30.761784], [50.5107781, 30.7617513], [50.5112031, 30.7613458],
-      [50.5117769, 30.7616329], [50.5121451, 30.7611402], [50.5122938, 30.7612239], [50.5134977, 30.7592386], [50.5139699, 30.7582205],
-      [50.5144094, 30.7573846], [50.5151844, 30.7560676], [50.5158644, 30.7550402], [50.5166604, 30.7542509], [50.5166283, 30.754174],
-      [50.5173961, 30.753531], [50.5177127, 30.7533103], [50.5185383, 30.7524954], [50.5189624, 30.7548625], [50.5192594, 30.7565351],
-      [50.5192249, 30.7569156], [50.5195656, 30.7594361], [50.5197669, 30.7603374], [50.5205833, 30.7621188], [50.5209238, 30.7649122],
-      [50.5215394, 30.7670118], [50.5215929, 30.7672014], [50.522683, 30.77125], [50.5232332, 30.7720679], [50.5251395, 30.7774969],
-      [50.5262441, 30.781081], [50.5269326, 30.7830996], [50.5274841, 30.7853037], [50.528104, 30.7886593], [50.528417, 30.7903537],
-      [50.5288961, 30.792516], [50.5297759, 30.7952519], [50.5297544, 30.7955987], [50.5297202, 30.7961492], [50.5298178, 30.7969805],
-      [50.5299797, 30.7985371], [50.5310183, 30.802524], [50.5320378, 30.8046836], [50.5326782, 30.8058447], [50.5335426, 30.8079817],
-      [50.5339129, 30.8099276], [50.5344816, 30.8134213], [50.5347947, 30.8160281], [50.5349957, 30.8170176], [50.5356439, 30.8185797],
-      [50.5359579, 30.8195162], [50.5371286, 30.8233496], [50.5388441, 30.8213834], [50.5399268, 30.8212213], [50.542533, 30.8208312],
-      [50.5429432, 30.8207402], [50.5448002, 30.8203116], [50.546717, 30.819917], [50.5495614, 30.8193928], [50.5534516, 30.81852],
-      [50.5578574, 30.8175529], [50.5577243, 30.8163929], [50.5583377, 30.8139896], [50.5600421, 30.8151028], [50.5603512, 30.814167],
-      [50.5611695, 30.8144431], [50.5616558, 30.8140597], [50.5625706, 30.8143644], [50.562767, 30.814417], [50.5629839, 30.81477],
-      [50.563033, 30.81485], [50.5631904, 30.8160192], [50.5639723, 30.8158409], [50.564164, 30.8142036], [50.5655716, 30.8117874],
-      [50.5661052, 30.8122137], [50.5677498, 30.8060857], [50.569383, 30.8], [50.570067, 30.797417], [50.5707068, 30.7961522],
-      [50.5716819, 30.7947728], [50.57315, 30.7927], [50.573583, 30.792267], [50.573767, 30.791583], [50.57385, 30.791333],
-      [50.5741, 30.790983], [50.574783, 30.790383], [50.57565, 30.7897], [50.5759, 30.789617], [50.5771, 30.7885],
-      [50.577017, 30.787117], [50.578483, 30.785583], [50.579517, 30.784383], [50.580017, 30.783867], [50.579767, 30.783517],
-      [50.57865, 30.78215], [50.5775987, 30.783055], [50.57745, 30.783183], [50.5766961, 30.7781082], [50.5755955, 30.7709597],
-      [50.5774618, 30.7699621], [50.5815956, 30.7676909], [50.583909, 30.7663781], [50.583633, 30.762317], [50.5837695, 30.7596982],
-      [50.5832927, 30.7536029], [50.5838, 30.751333], [50.583967, 30.75065], [50.587067, 30.7376], [50.587317, 30.736483],
-      [50.5879843, 30.7336639], [50.58955, 30.72705], [50.5899, 30.7255], [50.59015, 30.7243], [50.590583, 30.722833],
-      [50.5907095, 30.7211889], [50.5908142, 30.719819], [50.5904615, 30.7197409], [50.5903474, 30.7194947], [50.5901643, 30.7182725],
-      [50.5897951, 30.7177803], [50.5894969, 30.7176822], [50.5888956, 30.718232], [50.58775, 30.718983], [50.587233, 30.719233],
-      [50.586883, 30.719833], [50.586717, 30.719917], [50.5863459, 30.720826], [50.585867, 30.721383], [50.5784942, 30.7135618],
-      [50.57419, 30.70936], [50.57281, 30.70833], [50.57247, 30.71022], [50.57178, 30.71091], [50.562617, 30.7126655],
-      [50.5601985, 30.7131288], [50.55769, 30.7136093], [50.55565, 30.714], [50.5549476, 30.7033987], [50.5549303, 30.7031372],
-      [50.5546532, 30.6989546], [50.5565043, 30.6981492], [50.5569349, 30.698143], [50.5600147, 30.6978353], [50.5606087, 30.6977822],
-      [50.5619823, 30.6976485], [50.5619257, 30.6975054], [50.561774, 30.6971216], [50.5617469, 30.6970531], [50.5616711, 30.6968483],
-      [50.5616478, 30.6967855], [50.5616086, 30.6966796], [50.5615586, 30.6965445], [50.5615425, 30.696501], [50.5612323, 30.6956632],
-      [50.5612003, 30.6955766], [50.5611393, 30.6954117], [50.5610491, 30.695168], [50.5607217, 30.6942837], [50.5604656, 30.6935921],
-      [50.5604228, 30.6934765], [50.5604138, 30.6934523], [50.5601785, 30.6928166], [50.559898, 30.6920589], [50.5586426, 30.6886551],
-      [50.5582331, 30.6875621], [50.5565787, 30.6833107], [50.55579, 30.6811289], [50.555111, 30.6786587], [50.5543587, 30.6756559],
-      [50.5540633, 30.6742042], [50.5539625, 30.6737085], [50.5538799, 30.6733025], [50.5537453, 30.6726409], [50.5536737, 30.6722892],
-      [50.5540404, 30.6709147], [50.5537407, 30.6700143], [50.5522481, 30.6661303], [50.5515026, 30.66407], [50.5506436, 30.6635123],
-      [50.5498295, 30.6629437], [50.5486238, 30.6627514], [50.5476116, 30.6626433], [50.546622, 30.6623343], [50.5465957, 30.6623169],
-      [50.5446791, 30.6610466], [50.5434182, 30.6600289], [50.5412812, 30.6574774], [50.5388537, 30.6557607], [50.5375582, 30.6555462],
-      [50.5358398, 30.6549024], [50.5341711, 30.6540359], [50.5344005, 30.6520009], [50.5345803, 30.6504053], [50.5348123, 30.6274646],
-      [50.5350195, 30.6237033], [50.5356189, 30.6119656], [50.5363179, 30.5940703], [50.536422, 30.592665], [50.5364534, 30.5922412],
-      [50.5376489, 30.5746497], [50.5378309, 30.5717861], [50.5385537, 30.5715608], [50.5390992, 30.5640292], [50.540275, 30.5569711],
-      [50.5396539, 30.5565457], [50.5393812, 30.556314], [50.5390212, 30.5560737], [50.5386557, 30.555902], [50.5382738, 30.5557303],
-      [50.5379738, 30.5554986], [50.5377447, 30.5551553], [50.5376738, 30.5549579], [50.5376356, 30.5547004], [50.5376029, 30.5544944],
-      [50.5374828, 30.5544257], [50.537401, 30.5545802], [50.5372755, 30.5544686], [50.5371555, 30.5540824], [50.536981, 30.5537562],
-      [50.5367628, 30.5533786], [50.5365827, 30.5531812], [50.5363809, 30.5529666], [50.5362554, 30.5530524], [50.5360645, 30.5531554],
-      [50.5358572, 30.5529838], [50.535628, 30.5530696], [50.5353809, 30.5529237], [50.5353159, 30.5528756], [50.5350536, 30.5528202],
-      [50.5344573, 30.5526546], [50.5342851, 30.5526161], [50.5340895, 30.5527947], [50.5339425, 30.5531774], [50.5337802, 30.5534085],
-      [50.53366, 30.5535316], [50.5335073, 30.5535554], [50.5333, 30.5534336], [50.5330322, 30.5534117], [50.5328089, 30.5534099],
-      [50.5326181, 30.5533329], [50.5324194, 30.5534055], [50.5322896, 30.5535131], [50.5320121, 30.5536681], [50.5318141, 30.5538293],
-      [50.531506, 30.55386], [50.5313631, 30.553952], [50.5312958, 30.5540661], [50.5311608, 30.5540821], [50.531036, 30.5540191],
-      [50.530952, 30.5540779], [50.5307, 30.5541066], [50.530634, 30.5541621], [50.5305959, 30.5543375], [50.530552, 30.5544692],
-      [50.5304206, 30.5546316], [50.5302924, 30.5547895], [50.5302026, 30.5549565], [50.5300808, 30.5551149], [50.5299043, 30.5552494],
-      [50.5298087, 30.5553166], [50.52974, 30.5555171], [50.5296532, 30.5558652], [50.5296147, 30.5561005], [50.5295967, 30.5563422],
-      [50.5295343, 30.5564508], [50.5294864, 30.5565081], [50.5294095, 30.5566737], [50.5294088, 30.5568336], [50.5293776, 30.5570175],
-      [50.5292772, 30.5573221], [50.5291998, 30.557557], [50.5291569, 30.5578098], [50.5291449, 30.5580998], [50.5291991, 30.5583749],
-      [50.5291768, 30.5585415], [50.5289667, 30.5587992], [50.5287312, 30.5591188], [50.5286164, 30.5593796], [50.5285498, 30.5597245],
-      [50.5285389, 30.5599058], [50.5279544, 30.5607532], [50.5279051, 30.5607019], [50.5278164, 30.5606889], [50.5277282, 30.5606949],
-      [50.527629, 30.5607709], [50.5275413, 30.560847], [50.5273515, 30.5611634], [50.527106, 30.5616183], [50.5268168, 30.5619359],
-      [50.5266149, 30.5620646], [50.5264676, 30.5622363], [50.5263257, 30.5624766], [50.5260692, 30.5626225], [50.5258783, 30.5628371],
-      [50.5257255, 30.5631569], [50.5254858, 30.5633667], [50.525371, 30.5634306], [50.525302, 30.5635586], [50.5252101, 30.5639559],
-      [50.5251416, 30.564116], [50.525049, 30.5642774], [50.5247597, 30.5647168], [50.5243777, 30.5650859], [50.5239957, 30.5652919],
-      [50.5235919, 30.5655751], [50.5230026, 30.5661502], [50.5224296, 30.566648], [50.5218021, 30.5672059], [50.5213382, 30.5676351],
-      [50.5209726, 30.5679784], [50.5207652, 30.5679526], [50.5204378, 30.5678668], [50.520285, 30.5678668], [50.5201213, 30.5680213],
-      [50.5199358, 30.5678925], [50.5195592, 30.5676179], [50.5192481, 30.5673175], [50.5190517, 30.567163], [50.518888, 30.566957],
-      [50.5187024, 30.566957], [50.5184132, 30.5669055], [50.5181021, 30.5667853], [50.5179493, 30.5667596], [50.5177583, 30.5666995],
-      [50.5176764, 30.5667596], [50.5174472, 30.5670772], [50.5170488, 30.5669312], [50.5168238, 30.5670399], [50.5166939, 30.5670013],
-      [50.5164648, 30.5668454], [50.5157585, 30.5656585], [50.5161537, 30.5623193], [50.5163703, 30.5615401], [50.5164812, 30.5595848],
-      [50.5172606, 30.5596411], [50.5180656, 30.5591074], [50.5190871, 30.5582651], [50.5196789, 30.5577475], [50.5199279, 30.5571064],
-      [50.5203099, 30.5566961], [50.5216127, 30.5553764], [50.5219765, 30.5549874], [50.5219663, 30.5508661], [50.5220228, 30.5501513],
-      [50.5221209, 30.5491751], [50.5221893, 30.5480938], [50.5222251, 30.5462531], [50.5222775, 30.5430369], [50.5221891, 30.5422014],
-      [50.5231983, 30.5409426], [50.5244931, 30.5379596], [50.5238578, 30.5375093], [50.5188431, 30.5341202], [50.5155731, 30.5313921],
-      [50.512602, 30.5292052], [50.5097158, 30.5271667], [50.506857, 30.5260295], [50.5040136, 30.5253982]
+    polygons: [
+      [
+        [
+          [50.5040136, 30.5253982], [50.502551, 30.5254902], [50.5010884, 30.5258397], [50.4987111, 30.5283762], [50.4969072, 30.5312561],
+          [50.4928897, 30.5348271], [50.4909308, 30.5367007], [50.4922466, 30.5411223], [50.4924611, 30.5417362], [50.492911, 30.5432887],
+          [50.4933612, 30.5450311], [50.4935395, 30.5460271], [50.4936678, 30.546793], [50.4938233, 30.5481076], [50.4940502, 30.549942],
+          [50.4944153, 30.5528849], [50.4950295, 30.5574629], [50.49522, 30.5590789], [50.4953456, 30.5605526], [50.4954118, 30.5613086],
+          [50.4954537, 30.5620603], [50.4955226, 30.5638781], [50.4955496, 30.565664], [50.495528, 30.5682314], [50.4955293, 30.5689321],
+          [50.4955092, 30.5703428], [50.4954981, 30.5738458], [50.4954895, 30.5759198], [50.4954729, 30.5780912], [50.4954375, 30.5822386],
+          [50.4954169, 30.5836199], [50.4953791, 30.5882765], [50.4953706, 30.5913335], [50.4953441, 30.5934993], [50.4953441, 30.5961336],
+          [50.4953492, 30.6050613], [50.4953305, 30.6060756], [50.4953186, 30.6063656], [50.4952975, 30.6065396], [50.4952089, 30.6070315],
+          [50.4951712, 30.6073759], [50.4951606, 30.608021], [50.4945444, 30.6081162], [50.4942853, 30.6081734], [50.4932172, 30.6086779],
+          [50.491013, 30.6097215], [50.4890516, 30.6104849], [50.4875289, 30.6114781], [50.4868592, 30.6119119], [50.4867972, 30.611952],
+          [50.4859187, 30.612566], [50.4858313, 30.6124763], [50.4851472, 30.6128779], [50.485234, 30.612326], [50.4852869, 30.6120256],
+          [50.4851743, 30.6115455], [50.4851436, 30.6112288], [50.4851653, 30.61044], [50.4843875, 30.6101025], [50.4835134, 30.6096711],
+          [50.4822353, 30.6090403], [50.4801138, 30.6080261], [50.4790266, 30.6076912], [50.4788712, 30.6076697], [50.4786279, 30.6076847],
+          [50.4785193, 30.6076393], [50.4768185, 30.608934], [50.4733002, 30.6115973], [50.4724332, 30.6123168], [50.4723395, 30.6124307],
+          [50.4721385, 30.6127421], [50.4720455, 30.6129311], [50.4719587, 30.6131308], [50.4718173, 30.6135681], [50.4715706, 30.6142932],
+          [50.4714813, 30.6145777], [50.4714114, 30.6147887], [50.4713952, 30.6148375], [50.4713776, 30.6148907], [50.4706304, 30.6171464],
+          [50.4705254, 30.6174648], [50.4699805, 30.6191174], [50.469756, 30.6198058], [50.4695146, 30.6205101], [50.4694301, 30.6207471],
+          [50.4693981, 30.6208636], [50.4692968, 30.6211745], [50.4692694, 30.6212586], [50.4692315, 30.6213752], [50.4691793, 30.6215476],
+          [50.4690415, 30.6219533], [50.4688167, 30.6226292], [50.4686841, 30.6229683], [50.4685568, 30.6232465], [50.4683963, 30.6235668],
+          [50.4682223, 30.6238914], [50.4680026, 30.6242318], [50.4677814, 30.6245475], [50.4675991, 30.6247682], [50.4674018, 30.6249708],
+          [50.4671137, 30.6252404], [50.4668127, 30.6254768], [50.4656804, 30.6262424], [50.4645785, 30.627], [50.4639147, 30.6274595],
+          [50.4638198, 30.6275591], [50.4636965, 30.6277341], [50.4635726, 30.6278507], [50.4626671, 30.6284727], [50.4621758, 30.6287945],
+          [50.4619241, 30.6289487], [50.4616844, 30.629083], [50.4614253, 30.6292368], [50.4611778, 30.6293999], [50.4610765, 30.6294692],
+          [50.4605901, 30.6297965], [50.4599733, 30.6302174], [50.4596331, 30.6304574], [50.459152, 30.6307851], [50.4575249, 30.6318933],
+          [50.4568112, 30.6323552], [50.4556918, 30.6331452], [50.455642, 30.6331782], [50.4555732, 30.6332236], [50.4553721, 30.6330805],
+          [50.4550611, 30.6328966], [50.4549033, 30.6327983], [50.4526273, 30.6313809], [50.4524361, 30.6312289], [50.4523209, 30.631131],
+          [50.4521121, 30.6309628], [50.4515604, 30.6305627], [50.4515103, 30.6305264], [50.4514432, 30.6307673], [50.4513584, 30.6311063],
+          [50.4512555, 30.6315181], [50.4512433, 30.6315672], [50.4511763, 30.6318454], [50.4510789, 30.6322289], [50.4509545, 30.6327325],
+          [50.4509099, 30.6329128], [50.4508315, 30.6332297], [50.4507982, 30.633364], [50.4507613, 30.633515], [50.4504044, 30.6349758],
+          [50.4502886, 30.6354632], [50.4502385, 30.6356816], [50.4502238, 30.6357471], [50.4500672, 30.6364482], [50.4499928, 30.6367775],
+          [50.4499994, 30.6369155], [50.4500298, 30.6370331], [50.4500858, 30.637229], [50.4503433, 30.6381454], [50.4504596, 30.6385848],
+          [50.4505491, 30.6389055], [50.4507611, 30.6396604], [50.4513978, 30.6419615], [50.4514225, 30.642051], [50.4514353, 30.6420955],
+          [50.4515342, 30.6424671], [50.4516816, 30.6430191], [50.4517065, 30.6431065], [50.4517105, 30.6431968], [50.4517039, 30.6433124],
+          [50.4516793, 30.6433939], [50.4516306, 30.6434875], [50.4515557, 30.6435655], [50.4506336, 30.6441933], [50.4505609, 30.6442428],
+          [50.45021, 30.6444829], [50.4501194, 30.6445544], [50.4500245, 30.6446578], [50.4499536, 30.6448086], [50.4499182, 30.6449786],
+          [50.4499158, 30.645125], [50.4499374, 30.64527], [50.4499788, 30.6454339], [50.4503006, 30.6466059], [50.4504478, 30.6471376],
+          [50.4507282, 30.6481551], [50.4507492, 30.6482344], [50.4506789, 30.6482806], [50.4500715, 30.6486837], [50.4498434, 30.6488271],
+          [50.4491532, 30.6492838], [50.4483094, 30.6498508], [50.4475276, 30.6503571], [50.4473379, 30.650456], [50.449213, 30.6586743],
+          [50.4496821, 30.6594432], [50.4502712, 30.6598158], [50.4508497, 30.6597834], [50.4508849, 30.6598254], [50.4515413, 30.6598682],
+          [50.451832, 30.6598924], [50.4519637, 30.6598932], [50.4521374, 30.6599592], [50.4521695, 30.6601749], [50.4541889, 30.6596342],
+          [50.4542802, 30.6596503], [50.454872, 30.6597066], [50.4557967, 30.6597992], [50.45642, 30.6598609], [50.4570571, 30.6599352],
+          [50.4571445, 30.6599009], [50.4575161, 30.6598665], [50.457947, 30.6598293], [50.4583152, 30.6584924], [50.4596795, 30.6563573],
+          [50.4602873, 30.6561189], [50.460443, 30.6569887], [50.4634667, 30.6559801], [50.4634599, 30.6559204], [50.4633221, 30.654675],
+          [50.4631742, 30.6547327], [50.4631345, 30.6544921], [50.4635406, 30.6543626], [50.4639509, 30.6542622], [50.4641099, 30.6539143],
+          [50.4643477, 30.6537299], [50.4643849, 30.6534964], [50.4644484, 30.6533933], [50.4645072, 30.6530051], [50.4644249, 30.6528942],
+          [50.4643346, 30.6522595], [50.4645425, 30.6523088], [50.4645739, 30.6521855], [50.4645386, 30.651976], [50.4643699, 30.6517665],
+          [50.4644993, 30.6516517], [50.4647387, 30.6514029], [50.4648956, 30.6514214], [50.4649794, 30.6514906], [50.4650181, 30.6516237],
+          [50.4650315, 30.6517264], [50.465178, 30.6518528], [50.4656644, 30.6536275], [50.4657687, 30.6541688], [50.4658638, 30.6547432],
+          [50.4660174, 30.6555685], [50.4660997, 30.6560122], [50.4662527, 30.6563018], [50.4664292, 30.656462], [50.4666214, 30.6565236],
+          [50.467262, 30.656226], [50.4681584, 30.6572011], [50.4682324, 30.6571626], [50.4698356, 30.6629862], [50.4705199, 30.6654905],
+          [50.4712086, 30.6680016], [50.4748986, 30.6813492], [50.481398, 30.7049548], [50.4867811, 30.7247061], [50.4877331, 30.7281364],
+          [50.4887573, 30.7318272], [50.491135, 30.740128], [50.491174, 30.7401109], [50.491419, 30.7400036], [50.4918422, 30.7419348],
+          [50.4943267, 30.7403147], [50.494627, 30.7400143], [50.4979985, 30.73892], [50.4983875, 30.7385552], [50.4983602, 30.7380617],
+          [50.498925, 30.7376052], [50.4991928, 30.7378831], [50.4990495, 30.7400074], [50.499867, 30.740683], [50.500633, 30.7424],
+          [50.5014, 30.744117], [50.501667, 30.744717], [50.5019073, 30.745452], [50.5020851, 30.7456416], [50.5027257, 30.7453619],
+          [50.5028649, 30.7456119], [50.5030258, 30.7456185], [50.503106, 30.7458355], [50.5027428, 30.7461944], [50.5024096, 30.7461054],
+          [50.502082, 30.7462062], [50.5021407, 30.7464903], [50.5021123, 30.7481029], [50.5022489, 30.7498757], [50.5022519, 30.7499498],
+          [50.502331, 30.7507344], [50.5024553, 30.7505919], [50.5028216, 30.7502198], [50.5029212, 30.7501399], [50.5030344, 30.7500678],
+          [50.5031774, 30.7499998], [50.5033179, 30.7499388], [50.5036801, 30.749763], [50.5037564, 30.7497347], [50.5039457, 30.7496169],
+          [50.5046042, 30.7492742], [50.5052122, 30.7506393], [50.5053563, 30.7509149], [50.506817, 30.754167], [50.5078392, 30.7577289],
+          [50.5088074, 30.7572488], [50.508887, 30.7577027], [50.509037, 30.7585581], [50.5091683, 30.7593065], [50.5084069, 30.7598175],
+          [50.509033, 30.7619215], [50.5102787, 30.7611936], [50.5106773, 30.761784], [50.5107781, 30.7617513], [50.5112031, 30.7613458],
+          [50.5117769, 30.7616329], [50.5121451, 30.7611402], [50.5122938, 30.7612239], [50.5134977, 30.7592386], [50.5139699, 30.7582205],
+          [50.5144094, 30.7573846], [50.5151844, 30.7560676], [50.5158644, 30.7550402], [50.5166604, 30.7542509], [50.5166283, 30.754174],
+          [50.5173961, 30.753531], [50.5177127, 30.7533103], [50.5185383, 30.7524954], [50.5189624, 30.7548625], [50.5192594, 30.7565351],
+          [50.5192249, 30.7569156], [50.5195656, 30.7594361], [50.5197669, 30.7603374], [50.5205833, 30.7621188], [50.5209238, 30.7649122],
+          [50.5215394, 30.7670118], [50.5215929, 30.7672014], [50.522683, 30.77125], [50.5232332, 30.7720679], [50.5251395, 30.7774969],
+          [50.5262441, 30.781081], [50.5269326, 30.7830996], [50.5274841, 30.7853037], [50.528104, 30.7886593], [50.528417, 30.7903537],
+          [50.5288961, 30.792516], [50.5297759, 30.7952519], [50.5297544, 30.7955987], [50.5297202, 30.7961492], [50.5298178, 30.7969805],
+          [50.5299797, 30.7985371], [50.5310183, 30.802524], [50.5320378, 30.8046836], [50.5326782, 30.8058447], [50.5335426, 30.8079817],
+          [50.5339129, 30.8099276], [50.5344816, 30.8134213], [50.5347947, 30.8160281], [50.5349957, 30.8170176], [50.5356439, 30.8185797],
+          [50.5359579, 30.8195162], [50.5371286, 30.8233496], [50.5388441, 30.8213834], [50.5399268, 30.8212213], [50.542533, 30.8208312],
+          [50.5429432, 30.8207402], [50.5448002, 30.8203116], [50.546717, 30.819917], [50.5495614, 30.8193928], [50.5534516, 30.81852],
+          [50.5578574, 30.8175529], [50.5577243, 30.8163929], [50.5583377, 30.8139896], [50.5600421, 30.8151028], [50.5603512, 30.814167],
+          [50.5611695, 30.8144431], [50.5616558, 30.8140597], [50.5625706, 30.8143644], [50.562767, 30.814417], [50.5629839, 30.81477],
+          [50.563033, 30.81485], [50.5631904, 30.8160192], [50.5639723, 30.8158409], [50.564164, 30.8142036], [50.5655716, 30.8117874],
+          [50.5661052, 30.8122137], [50.5677498, 30.8060857], [50.569383, 30.8], [50.570067, 30.797417], [50.5707068, 30.7961522],
+          [50.5716819, 30.7947728], [50.57315, 30.7927], [50.573583, 30.792267], [50.573767, 30.791583], [50.57385, 30.791333],
+          [50.5741, 30.790983], [50.574783, 30.790383], [50.57565, 30.7897], [50.5759, 30.789617], [50.5771, 30.7885],
+          [50.577017, 30.787117], [50.578483, 30.785583], [50.579517, 30.784383], [50.580017, 30.783867], [50.579767, 30.783517],
+          [50.57865, 30.78215], [50.5775987, 30.783055], [50.57745, 30.783183], [50.5766961, 30.7781082], [50.5755955, 30.7709597],
+          [50.5774618, 30.7699621], [50.5815956, 30.7676909], [50.583909, 30.7663781], [50.583633, 30.762317], [50.5837695, 30.7596982],
+          [50.5832927, 30.7536029], [50.5838, 30.751333], [50.583967, 30.75065], [50.587067, 30.7376], [50.587317, 30.736483],
+          [50.5879843, 30.7336639], [50.58955, 30.72705], [50.5899, 30.7255], [50.59015, 30.7243], [50.590583, 30.722833],
+          [50.5907095, 30.7211889], [50.5908142, 30.719819], [50.5904615, 30.7197409], [50.5903474, 30.7194947], [50.5901643, 30.7182725],
+          [50.5897951, 30.7177803], [50.5894969, 30.7176822], [50.5888956, 30.718232], [50.58775, 30.718983], [50.587233, 30.719233],
+          [50.586883, 30.719833], [50.586717, 30.719917], [50.5863459, 30.720826], [50.585867, 30.721383], [50.5784942, 30.7135618],
+          [50.57419, 30.70936], [50.57281, 30.70833], [50.57247, 30.71022], [50.57178, 30.71091], [50.562617, 30.7126655],
+          [50.5601985, 30.7131288], [50.55769, 30.7136093], [50.55565, 30.714], [50.5549476, 30.7033987], [50.5549303, 30.7031372],
+          [50.5546532, 30.6989546], [50.5565043, 30.6981492], [50.5569349, 30.698143], [50.5600147, 30.6978353], [50.5606087, 30.6977822],
+          [50.5619823, 30.6976485], [50.5619257, 30.6975054], [50.561774, 30.6971216], [50.5617469, 30.6970531], [50.5616711, 30.6968483],
+          [50.5616478, 30.6967855], [50.5616086, 30.6966796], [50.5615586, 30.6965445], [50.5615425, 30.696501], [50.5612323, 30.6956632],
+          [50.5612003, 30.6955766], [50.5611393, 30.6954117], [50.5610491, 30.695168], [50.5607217, 30.6942837], [50.5604656, 30.6935921],
+          [50.5604228, 30.6934765], [50.5604138, 30.6934523], [50.5601785, 30.6928166], [50.559898, 30.6920589], [50.5586426, 30.6886551],
+          [50.5582331, 30.6875621], [50.5565787, 30.6833107], [50.55579, 30.6811289], [50.555111, 30.6786587], [50.5543587, 30.6756559],
+          [50.5540633, 30.6742042], [50.5539625, 30.6737085], [50.5538799, 30.6733025], [50.5537453, 30.6726409], [50.5536737, 30.6722892],
+          [50.5540404, 30.6709147], [50.5537407, 30.6700143], [50.5522481, 30.6661303], [50.5515026, 30.66407], [50.5506436, 30.6635123],
+          [50.5498295, 30.6629437], [50.5486238, 30.6627514], [50.5476116, 30.6626433], [50.546622, 30.6623343], [50.5465957, 30.6623169],
+          [50.5446791, 30.6610466], [50.5434182, 30.6600289], [50.5412812, 30.6574774], [50.5388537, 30.6557607], [50.5375582, 30.6555462],
+          [50.5358398, 30.6549024], [50.5341711, 30.6540359], [50.5344005, 30.6520009], [50.5345803, 30.6504053], [50.5348123, 30.6274646],
+          [50.5350195, 30.6237033], [50.5356189, 30.6119656], [50.5363179, 30.5940703], [50.536422, 30.592665], [50.5364534, 30.5922412],
+          [50.5376489, 30.5746497], [50.5378309, 30.5717861], [50.5385537, 30.5715608], [50.5390992, 30.5640292], [50.540275, 30.5569711],
+          [50.5396539, 30.5565457], [50.5393812, 30.556314], [50.5390212, 30.5560737], [50.5386557, 30.555902], [50.5382738, 30.5557303],
+          [50.5379738, 30.5554986], [50.5377447, 30.5551553], [50.5376738, 30.5549579], [50.5376356, 30.5547004], [50.5376029, 30.5544944],
+          [50.5374828, 30.5544257], [50.537401, 30.5545802], [50.5372755, 30.5544686], [50.5371555, 30.5540824], [50.536981, 30.5537562],
+          [50.5367628, 30.5533786], [50.5365827, 30.5531812], [50.5363809, 30.5529666], [50.5362554, 30.5530524], [50.5360645, 30.5531554],
+          [50.5358572, 30.5529838], [50.535628, 30.5530696], [50.5353809, 30.5529237], [50.5353159, 30.5528756], [50.5350536, 30.5528202],
+          [50.5344573, 30.5526546], [50.5342851, 30.5526161], [50.5340895, 30.5527947], [50.5339425, 30.5531774], [50.5337802, 30.5534085],
+          [50.53366, 30.5535316], [50.5335073, 30.5535554], [50.5333, 30.5534336], [50.5330322, 30.5534117], [50.5328089, 30.5534099],
+          [50.5326181, 30.5533329], [50.5324194, 30.5534055], [50.5322896, 30.5535131], [50.5320121, 30.5536681], [50.5318141, 30.5538293],
+          [50.531506, 30.55386], [50.5313631, 30.553952], [50.5312958, 30.5540661], [50.5311608, 30.5540821], [50.531036, 30.5540191],
+          [50.530952, 30.5540779], [50.5307, 30.5541066], [50.530634, 30.5541621], [50.5305959, 30.5543375], [50.530552, 30.5544692],
+          [50.5304206, 30.5546316], [50.5302924, 30.5547895], [50.5302026, 30.5549565], [50.5300808, 30.5551149], [50.5299043, 30.5552494],
+          [50.5298087, 30.5553166], [50.52974, 30.5555171], [50.5296532, 30.5558652], [50.5296147, 30.5561005], [50.5295967, 30.5563422],
+          [50.5295343, 30.5564508], [50.5294864, 30.5565081], [50.5294095, 30.5566737], [50.5294088, 30.5568336], [50.5293776, 30.5570175],
+          [50.5292772, 30.5573221], [50.5291998, 30.557557], [50.5291569, 30.5578098], [50.5291449, 30.5580998], [50.5291991, 30.5583749],
+          [50.5291768, 30.5585415], [50.5289667, 30.5587992], [50.5287312, 30.5591188], [50.5286164, 30.5593796], [50.5285498, 30.5597245],
+          [50.5285389, 30.5599058], [50.5279544, 30.5607532], [50.5279051, 30.5607019], [50.5278164, 30.5606889], [50.5277282, 30.5606949],
+          [50.527629, 30.5607709], [50.5275413, 30.560847], [50.5273515, 30.5611634], [50.527106, 30.5616183], [50.5268168, 30.5619359],
+          [50.5266149, 30.5620646], [50.5264676, 30.5622363], [50.5263257, 30.5624766], [50.5260692, 30.5626225], [50.5258783, 30.5628371],
+          [50.5257255, 30.5631569], [50.5254858, 30.5633667], [50.525371, 30.5634306], [50.525302, 30.5635586], [50.5252101, 30.5639559],
+          [50.5251416, 30.564116], [50.525049, 30.5642774], [50.5247597, 30.5647168], [50.5243777, 30.5650859], [50.5239957, 30.5652919],
+          [50.5235919, 30.5655751], [50.5230026, 30.5661502], [50.5224296, 30.566648], [50.5218021, 30.5672059], [50.5213382, 30.5676351],
+          [50.5209726, 30.5679784], [50.5207652, 30.5679526], [50.5204378, 30.5678668], [50.520285, 30.5678668], [50.5201213, 30.5680213],
+          [50.5199358, 30.5678925], [50.5195592, 30.5676179], [50.5192481, 30.5673175], [50.5190517, 30.567163], [50.518888, 30.566957],
+          [50.5187024, 30.566957], [50.5184132, 30.5669055], [50.5181021, 30.5667853], [50.5179493, 30.5667596], [50.5177583, 30.5666995],
+          [50.5176764, 30.5667596], [50.5174472, 30.5670772], [50.5170488, 30.5669312], [50.5168238, 30.5670399], [50.5166939, 30.5670013],
+          [50.5164648, 30.5668454], [50.5157585, 30.5656585], [50.5161537, 30.5623193], [50.5163703, 30.5615401], [50.5164812, 30.5595848],
+          [50.5172606, 30.5596411], [50.5180656, 30.5591074], [50.5190871, 30.5582651], [50.5196789, 30.5577475], [50.5199279, 30.5571064],
+          [50.5203099, 30.5566961], [50.5216127, 30.5553764], [50.5219765, 30.5549874], [50.5219663, 30.5508661], [50.5220228, 30.5501513],
+          [50.5221209, 30.5491751], [50.5221893, 30.5480938], [50.5222251, 30.5462531], [50.5222775, 30.5430369], [50.5221891, 30.5422014],
+          [50.5231983, 30.5409426], [50.5244931, 30.5379596], [50.5238578, 30.5375093], [50.5188431, 30.5341202], [50.5155731, 30.5313921],
+          [50.512602, 30.5292052], [50.5097158, 30.5271667], [50.506857, 30.5260295], [50.5040136, 30.5253982]
+        ]
+      ]
     ],
     population: 360000,
     area: 148.9
   },
   {
     name: "Dniprovskyi",
-    coordinates: [
-      [50.4655451, 30.5289561], [50.4636042, 30.5291194], [50.4616128, 30.5296978], [50.4600586, 30.5305338], [50.4588799, 30.5314687],
-      [50.4577011, 30.5326611], [50.4563027, 30.5349003], [50.4550409, 30.5382982], [50.452941, 30.5442452], [50.4498211, 30.5517097],
-      [50.4478934, 30.5552334], [50.444928, 30.5614674], [50.4412286, 30.5653903], [50.4363098, 30.5697802], [50.432785, 30.5760155],
-      [50.4289873, 30.5814169], [50.4252785, 30.5865881], [50.4232237, 30.5880256], [50.4184925, 30.5897321], [50.4172389, 30.5902419],
-      [50.4181194, 30.5938081], [50.4189041, 30.5969313], [50.4199544, 30.6008232], [50.4208465, 30.603941], [50.421199, 30.6052368],
-      [50.421367, 30.6058508], [50.4233576, 30.6130931], [50.4234211, 30.6133192], [50.4239065, 30.6151181], [50.4243661, 30.616818],
-      [50.4249629, 30.6190631], [50.4255479, 30.6214353], [50.4257332, 30.6222068], [50.4260235, 30.6234207], [50.4268001, 30.6265544],
-      [50.427662, 30.6300421], [50.4277735, 30.6304931], [50.4279089, 30.6310404], [50.4279343, 30.6311386], [50.4280594, 30.631646],
-      [50.4285237, 30.6335082], [50.428862, 30.6348972], [50.4290672, 30.6357536], [50.4292153, 30.6363202], [50.4295278, 30.6375154],
-      [50.4298546, 30.6388387], [50.4299062, 30.6390431], [50.4302581, 30.640466], [50.4323784, 30.6490395], [50.4327395, 30.6505359],
-      [50.43281, 30.650826], [50.4328527, 30.651002], [50.4329433, 30.6513861], [50.4331018, 30.652026], [50.4331269, 30.6521274],
-      [50.433254, 30.6526266], [50.4335719, 30.6538747], [50.4335997, 30.6539905], [50.4338646, 30.6550638], [50.4345031, 30.6576949],
-      [50.4354689, 30.6616709], [50.4357945, 30.6629863], [50.436119, 30.6643017], [50.4363762, 30.6653332], [50.4366381, 30.6663903],
-      [50.4369046, 30.6674619], [50.4371584, 30.6685007], [50.4373878, 30.6695669], [50.4375014, 30.6702218], [50.4376045, 30.6708932],
-      [50.4378143, 30.6723286], [50.4379283, 30.6729883], [50.4380528, 30.6736669], [50.4381366, 30.6740861], [50.438257, 30.6745787],
-      [50.4383619, 30.6749915], [50.4384993, 30.6755078], [50.4391992, 30.6781785], [50.4406296, 30.683763], [50.4407299, 30.6841431],
-      [50.4410694, 30.6854349], [50.4413348, 30.6864455], [50.4417472, 30.6880329], [50.4420809, 30.6893701], [50.4422358, 30.6901307],
-      [50.4423532, 30.6907073], [50.4426913, 30.6925249], [50.4429222, 30.6938135], [50.4429299, 30.6938555], [50.4430997, 30.6947755],
-      [50.4432543, 30.6954078], [50.4434127, 30.6960371], [50.4435062, 30.6963372], [50.4442674, 30.6986634], [50.4443763, 30.6989909],
-      [50.4448027, 30.7002736], [50.4451004, 30.7011726], [50.4455241, 30.7024552], [50.4459019, 30.703597], [50.4463179, 30.7048437],
-      [50.4467683, 30.7060694], [50.4472454, 30.7072531], [50.4477626, 30.7084039], [50.448022, 30.7089314], [50.4483223, 30.7095191],
-      [50.4485789, 30.7100101], [50.4489013, 30.7105921], [50.4495296, 30.7116224], [50.4513618, 30.7144561], [50.4525245, 30.7163047],
-      [50.4539821, 30.7185886], [50.4548968, 30.7200123], [50.4558654, 30.7214998], [50.4580662, 30.7249563], [50.4585593, 30.7257308],
-      [50.4629234, 30.732526], [50.4636294, 30.7336253], [50.4666703, 30.7383931], [50.4687051, 30.7415836], [50.4687957, 30.7414507],
-      [50.4718, 30.7461], [50.473167, 30.748333], [50.474364, 30.7499086], [50.4750476, 30.7493837], [50.4775539, 30.7463289],
-      [50.4777591, 30.7462883], [50.479, 30.7467], [50.47995, 30.747217], [50.4829812, 30.7483831], [50.4838431, 30.7486933],
-      [50.483633, 30.749967], [50.483334, 30.751906], [50.483054, 30.7541405], [50.4828738, 30.75567], [50.4832535, 30.7561332],
-      [50.483283, 30.757083], [50.483383, 30.759233], [50.48355, 30.759833], [50.488867, 30.7558], [50.488967, 30.7552],
-      [50.489467, 30.755117], [50.4902307, 30.7543842], [50.4899412, 30.7540897], [50.4896886, 30.7536848], [50.489165, 30.7531516],
-      [50.4886265, 30.7522805], [50.4881984, 30.7516209], [50.487933, 30.751583], [50.487667, 30.750467], [50.48785, 30.750383],
-      [50.48775, 30.749967], [50.487583, 30.7491], [50.48775, 30.74885], [50.488967, 30.748333], [50.491617, 30.7473],
-      [50.491967, 30.74695], [50.491967, 30.746783], [50.491967, 30.7467], [50.491867, 30.7461], [50.491183, 30.7437],
-      [50.4910761, 30.7437805], [50.4908716, 30.7430805], [50.490583, 30.743267], [50.4905, 30.743183], [50.4903672, 30.7425382],
-      [50.4912449, 30.7418644], [50.4908905, 30.7402204], [50.4910921, 30.7401442], [50.491135, 30.740128], [50.4887573, 30.7318272],
-      [50.4877331, 30.7281364], [50.4867811, 30.7247061], [50.481398, 30.7049548], [50.4748986, 30.6813492], [50.4712086, 30.6680016],
-      [50.4705199, 30.6654905], [50.4698356, 30.6629862], [50.4682324, 30.6571626], [50.4681584, 30.6572011], [50.467262, 30.656226],
-      [50.4666214, 30.6565236], [50.4664292, 30.656462], [50.4662527, 30.6563018], [50.4660997, 30.6560122], [50.4660174, 30.6555685],
-      [50.4658638, 30.6547432], [50.4657687, 30.6541688], [50.4656644, 30.6536275], [50.465178, 30.6518528], [50.4650315, 30.6517264],
-      [50.4650181, 30.6516237], [50.4649794, 30.6514906], [50.4648956, 30.6514214], [50.4647387, 30.6514029], [50.4644993, 30.6516517],
-      [50.4643699, 30.6517665], [50.4645386, 30.651976], [50.4645739, 30.6521855], [50.4645425, 30.6523088], [50.4643346, 30.6522595],
-      [50.4644249, 30.6528942], [50.4645072, 30.6530051], [50.4644484, 30.6533933], [50.4643849, 30.6534964], [50.4643477, 30.6537299],
-      [50.4641099, 30.6539143], [50.4639509, 30.6542622], [50.4635406, 30.6543626], [50.4631345, 30.6544921], [50.4631742, 30.6547327],
-      [50.4633221, 30.654675], [50.4634599, 30.6559204], [50.4634667, 30.6559801], [50.460443, 30.6569887], [50.4602873, 30.6561189],
-      [50.4596795, 30.6563573], [50.4583152, 30.6584924], [50.457947, 30.6598293], [50.4575161, 30.6598665], [50.4571445, 30.6599009],
-      [50.4570571, 30.6599352], [50.45642, 30.6598609], [50.4557967, 30.6597992], [50.454872, 30.6597066], [50.4542802, 30.6596503],
-      [50.4541889, 30.6596342], [50.4521695, 30.6601749], [50.4521374, 30.6599592], [50.4519637, 30.6598932], [50.451832, 30.6598924],
-      [50.4515413, 30.6598682], [50.4508849, 30.6598254], [50.4508497, 30.6597834], [50.4502712, 30.6598158], [50.4496821, 30.6594432],
-      [50.449213, 30.6586743], [50.4473379, 30.650456], [50.4475276, 30.6503571], [50.4483094, 30.6498508], [50.4491532, 30.6492838],
-      [50.4498434, 30.6488271], [50.4500715, 30.6486837], [50.4506789, 30.6482806], [50.4507492, 30.6482344], [50.4507282, 30.6481551],
-      [50.4504478, 30.6471376], [50.4503006, 30.6466059], [50.4499788, 30.6454339], [50.4499374, 30.64527], [50.4499158, 30.645125],
-      [50.4499182, 30.6449786], [50.4499536, 30.6448086], [50.4500245, 30.6446578], [50.4501194, 30.6445544], [50.45021, 30.6444829],
-      [50.4505609, 30.6442428], [50.4506336, 30.6441933], [50.4515557, 30.6435655], [50.4516306, 30.6434875], [50.4516793, 30.6433939],
-      [50.4517039, 30.6433124], [50.4517105, 30.6431968], [50.4517065, 30.6431065], [50.4516816, 30.6430191], [50.4515342, 30.6424671],
-      [50.4514353, 30.6420955], [50.4514225, 30.642051], [50.4513978, 30.6419615], [50.4507611, 30.6396604], [50.4505491, 30.6389055],
-      [50.4504596, 30.6385848], [50.4503433, 30.6381454], [50.4500858, 30.637229], [50.4500298, 30.6370331], [50.4499994, 30.6369155],
-      [50.4499928, 30.6367775], [50.4500672, 30.6364482], [50.4502238, 30.6357471], [50.4502385, 30.6356816], [50.4502886, 30.6354632],
-      [50.4504044, 30.6349758], [50.4507613, 30.633515], [50.4507982, 30.633364], [50.4508315, 30.6332297], [50.4509099, 30.6329128],
-      [50.4509545, 30.6327325], [50.4510789, 30.6322289], [50.4511763, 30.6318454], [50.4512433, 30.6315672], [50.4512555, 30.6315181],
-      [50.4513584, 30.6311063], [50.4514432, 30.6307673], [50.4515103, 30.6305264], [50.4515604, 30.6305627], [50.4521121, 30.6309628],
-      [50.4523209, 30.631131], [50.4524361, 30.6312289], [50.4526273, 30.6313809], [50.4549033, 30.6327983], [50.4550611, 30.6328966],
-      [50.4553721, 30.6330805], [50.4555732, 30.6332236], [50.455642, 30.6331782], [50.4556918, 30.6331452], [50.4568112, 30.6323552],
-      [50.4575249, 30.6318933], [50.459152, 30.6307851], [50.4596331, 30.6304574], [50.4599733, 30.6302174], [50.4605901, 30.6297965],
-      [50.4610765, 30.6294692], [50.4611778, 30.6293999], [50.4614253, 30.6292368], [50.4616844, 30.629083], [50.4619241, 30.6289487],
-      [50.4621758, 30.6287945], [50.4626671, 30.6284727], [50.4635726, 30.6278507], [50.4636965, 30.6277341], [50.4638198, 30.6275591],
-      [50.4639147, 30.6274595], [50.4645785, 30.627], [50.4656804, 30.6262424], [50.4668127, 30.6254768], [50.4671137, 30.6252404],
-      [50.4674018, 30.6249708], [50.4675991, 30.6247682], [50.4677814, 30.6245475], [50.4680026, 30.6242318], [50.4682223, 30.6238914],
-      [50.4683963, 30.6235668], [50.4685568, 30.6232465], [50.4686841, 30.6229683], [50.4688167, 30.6226292], [50.4690415, 30.6219533],
-      [50.4691793, 30.6215476], [50.4692315, 30.6213752], [50.4692694, 30.6212586], [50.4692968, 30.6211745], [50.4693981, 30.6208636],
-      [50.4694301, 30.6207471], [50.4695146, 30.6205101], [50.469756, 30.6198058], [50.4699805, 30.6191174], [50.4705254, 30.6174648],
-      [50.4706304, 30.6171464], [50.4713776, 30.6148907], [50.4713952, 30.6148375], [50.4714114, 30.6147887], [50.4714813, 30.6145777],
-      [50.4715706, 30.6142932], [50.4718173, 30.6135681], [50.4719587, 30.6131308], [50.4720455, 30.6129311], [50.4721385, 30.6127421],
-      [50.4723395, 30.6124307], [50.4724332, 30.6123168], [50.4733002, 30.6115973], [50.4768185, 30.608934], [50.4785193, 30.6076393],
-      [50.4786279, 30.6076847], [50.4788712, 30.6076697], [50.4790266, 30.6076912], [50.4801138, 30.6080261], [50.4822353, 30.6090403],
-      [50.4835134, 30.6096711], [50.4843875, 30.6101025], [50.4851653, 30.61044], [50.4851436, 30.6112288], [50.4851743, 30.6115455],
-      [50.4852869, 30.6120256], [50.485234, 30.612326], [50.4851472, 30.6128779], [50.4858313, 30.6124763], [50.4859187, 30.612566],
-      [50.4867972, 30.611952], [50.4868592, 30.6119119], [50.4875289, 30.6114781], [50.4890516, 30.6104849], [50.491013, 30.6097215],
-      [50.4932172, 30.6086779], [50.4942853, 30.6081734], [50.4945444, 30.6081162], [50.4951606, 30.608021], [50.4951712, 30.6073759],
-      [50.4952089, 30.6070315], [50.4952975, 30.6065396], [50.4953186, 30.6063656], [50.4953305, 30.6060756], [50.4953492, 30.6050613],
-      [50.4953441, 30.5961336], [50.4953441, 30.5934993], [50.4953706, 30.5913335], [50.4953791, 30.5882765], [50.4954169, 30.5836199],
-      [50.4954375, 30.5822386], [50.4954729, 30.5780912], [50.4954895, 30.5759198], [50.4954981, 30.5738458], [50.4955092, 30.5703428],
-      [50.4955293, 30.5689321], [50.495528, 30.5682314], [50.4955496, 30.565664], [50.4955226, 30.5638781], [50.4954537, 30.5620603],
-      [50.4954118, 30.5613086], [50.4953456, 30.5605526], [50.49522, 30.5590789], [50.4950295, 30.5574629], [50.4944153, 30.5528849],
-      [50.4940502, 30.549942], [50.4938233, 30.5481076], [50.4936678, 30.546793], [50.4935395, 30.5460271], [50.4933612, 30.5450311],
-      [50.492911, 30.5432887], [50.4924611, 30.5417362], [50.4922466, 30.5411223], [50.4909308, 30.5367007], [50.4896527, 30.5377898],
-      [50.4881436, 30.5390757], [50.4861366, 30.5413503], [50.4848381, 30.5421318], [50.483758, 30.5422695], [50.4825969, 30.5424008],
-      [50.4790506, 30.5414574], [50.4764249, 30.5391357], [50.4738265, 30.5364063], [50.4688547, 30.5301829], [50.4672675, 30.5291791],
-      [50.4655451, 30.5289561]
+    polygons: [
+      [
+        [
+          [50.4655451, 30.5289561], [50.4636042, 30.5291194], [50.4616128, 30.5296978], [50.4600586, 30.5305338], [50.4588799, 30.5314687],
+          [50.4577011, 30.5326611], [50.4563027, 30.5349003], [50.4550409, 30.5382982], [50.452941, 30.5442452], [50.4498211, 30.5517097],
+          [50.4478934, 30.5552334], [50.444928, 30.5614674], [50.4412286, 30.5653903], [50.4363098, 30.5697802], [50.432785, 30.5760155],
+          [50.4289873, 30.5814169], [50.4252785, 30.5865881], [50.4232237, 30.5880256], [50.4184925, 30.5897321], [50.4172389, 30.5902419],
+          [50.4181194, 30.5938081], [50.4189041, 30.5969313], [50.4199544, 30.6008232], [50.4208465, 30.603941], [50.421199, 30.6052368],
+          [50.421367, 30.6058508], [50.4233576, 30.6130931], [50.4234211, 30.6133192], [50.4239065, 30.6151181], [50.4243661, 30.616818],
+          [50.4249629, 30.6190631], [50.4255479, 30.6214353], [50.4257332, 30.6222068], [50.4260235, 30.6234207], [50.4268001, 30.6265544],
+          [50.427662, 30.6300421], [50.4277735, 30.6304931], [50.4279089, 30.6310404], [50.4279343, 30.6311386], [50.4280594, 30.631646],
+          [50.4285237, 30.6335082], [50.428862, 30.6348972], [50.4290672, 30.6357536], [50.4292153, 30.6363202], [50.4295278, 30.6375154],
+          [50.4298546, 30.6388387], [50.4299062, 30.6390431], [50.4302581, 30.640466], [50.4323784, 30.6490395], [50.4327395, 30.6505359],
+          [50.43281, 30.650826], [50.4328527, 30.651002], [50.4329433, 30.6513861], [50.4331018, 30.652026], [50.4331269, 30.6521274],
+          [50.433254, 30.6526266], [50.4335719, 30.6538747], [50.4335997, 30.6539905], [50.4338646, 30.6550638], [50.4345031, 30.6576949],
+          [50.4354689, 30.6616709], [50.4357945, 30.6629863], [50.436119, 30.6643017], [50.4363762, 30.6653332], [50.4366381, 30.6663903],
+          [50.4369046, 30.6674619], [50.4371584, 30.6685007], [50.4373878, 30.6695669], [50.4375014, 30.6702218], [50.4376045, 30.6708932],
+          [50.4378143, 30.6723286], [50.4379283, 30.6729883], [50.4380528, 30.6736669], [50.4381366, 30.6740861], [50.438257, 30.6745787],
+          [50.4383619, 30.6749915], [50.4384993, 30.6755078], [50.4391992, 30.6781785], [50.4406296, 30.683763], [50.4407299, 30.6841431],
+          [50.4410694, 30.6854349], [50.4413348, 30.6864455], [50.4417472, 30.6880329], [50.4420809, 30.6893701], [50.4422358, 30.6901307],
+          [50.4423532, 30.6907073], [50.4426913, 30.6925249], [50.4429222, 30.6938135], [50.4429299, 30.6938555], [50.4430997, 30.6947755],
+          [50.4432543, 30.6954078], [50.4434127, 30.6960371], [50.4435062, 30.6963372], [50.4442674, 30.6986634], [50.4443763, 30.6989909],
+          [50.4448027, 30.7002736], [50.4451004, 30.7011726], [50.4455241, 30.7024552], [50.4459019, 30.703597], [50.4463179, 30.7048437],
+          [50.4467683, 30.7060694], [50.4472454, 30.7072531], [50.4477626, 30.7084039], [50.448022, 30.7089314], [50.4483223, 30.7095191],
+          [50.4485789, 30.7100101], [50.4489013, 30.7105921], [50.4495296, 30.7116224], [50.4513618, 30.7144561], [50.4525245, 30.7163047],
+          [50.4539821, 30.7185886], [50.4548968, 30.7200123], [50.4558654, 30.7214998], [50.4580662, 30.7249563], [50.4585593, 30.7257308],
+          [50.4629234, 30.732526], [50.4636294, 30.7336253], [50.4666703, 30.7383931], [50.4687051, 30.7415836], [50.4687957, 30.7414507],
+          [50.4718, 30.7461], [50.473167, 30.748333], [50.474364, 30.7499086], [50.4750476, 30.7493837], [50.4775539, 30.7463289],
+          [50.4777591, 30.7462883], [50.479, 30.7467], [50.47995, 30.747217], [50.4829812, 30.7483831], [50.4838431, 30.7486933],
+          [50.483633, 30.749967], [50.483334, 30.751906], [50.483054, 30.7541405], [50.4828738, 30.75567], [50.4832535, 30.7561332],
+          [50.483283, 30.757083], [50.483383, 30.759233], [50.48355, 30.759833], [50.488867, 30.7558], [50.488967, 30.7552],
+          [50.489467, 30.755117], [50.4902307, 30.7543842], [50.4899412, 30.7540897], [50.4896886, 30.7536848], [50.489165, 30.7531516],
+          [50.4886265, 30.7522805], [50.4881984, 30.7516209], [50.487933, 30.751583], [50.487667, 30.750467], [50.48785, 30.750383],
+          [50.48775, 30.749967], [50.487583, 30.7491], [50.48775, 30.74885], [50.488967, 30.748333], [50.491617, 30.7473],
+          [50.491967, 30.74695], [50.491967, 30.746783], [50.491967, 30.7467], [50.491867, 30.7461], [50.491183, 30.7437],
+          [50.4910761, 30.7437805], [50.4908716, 30.7430805], [50.490583, 30.743267], [50.4905, 30.743183], [50.4903672, 30.7425382],
+          [50.4912449, 30.7418644], [50.4908905, 30.7402204], [50.4910921, 30.7401442], [50.491135, 30.740128], [50.4887573, 30.7318272],
+          [50.4877331, 30.7281364], [50.4867811, 30.7247061], [50.481398, 30.7049548], [50.4748986, 30.6813492], [50.4712086, 30.6680016],
+          [50.4705199, 30.6654905], [50.4698356, 30.6629862], [50.4682324, 30.6571626], [50.4681584, 30.6572011], [50.467262, 30.656226],
+          [50.4666214, 30.6565236], [50.4664292, 30.656462], [50.4662527, 30.6563018], [50.4660997, 30.6560122], [50.4660174, 30.6555685],
+          [50.4658638, 30.6547432], [50.4657687, 30.6541688], [50.4656644, 30.6536275], [50.465178, 30.6518528], [50.4650315, 30.6517264],
+          [50.4650181, 30.6516237], [50.4649794, 30.6514906], [50.4648956, 30.6514214], [50.4647387, 30.6514029], [50.4644993, 30.6516517],
+          [50.4643699, 30.6517665], [50.4645386, 30.651976], [50.4645739, 30.6521855], [50.4645425, 30.6523088], [50.4643346, 30.6522595],
+          [50.4644249, 30.6528942], [50.4645072, 30.6530051], [50.4644484, 30.6533933], [50.4643849, 30.6534964], [50.4643477, 30.6537299],
+          [50.4641099, 30.6539143], [50.4639509, 30.6542622], [50.4635406, 30.6543626], [50.4631345, 30.6544921], [50.4631742, 30.6547327],
+          [50.4633221, 30.654675], [50.4634599, 30.6559204], [50.4634667, 30.6559801], [50.460443, 30.6569887], [50.4602873, 30.6561189],
+          [50.4596795, 30.6563573], [50.4583152, 30.6584924], [50.457947, 30.6598293], [50.4575161, 30.6598665], [50.4571445, 30.6599009],
+          [50.4570571, 30.6599352], [50.45642, 30.6598609], [50.4557967, 30.6597992], [50.454872, 30.6597066], [50.4542802, 30.6596503],
+          [50.4541889, 30.6596342], [50.4521695, 30.6601749], [50.4521374, 30.6599592], [50.4519637, 30.6598932], [50.451832, 30.6598924],
+          [50.4515413, 30.6598682], [50.4508849, 30.6598254], [50.4508497, 30.6597834], [50.4502712, 30.6598158], [50.4496821, 30.6594432],
+          [50.449213, 30.6586743], [50.4473379, 30.650456], [50.4475276, 30.6503571], [50.4483094, 30.6498508], [50.4491532, 30.6492838],
+          [50.4498434, 30.6488271], [50.4500715, 30.6486837], [50.4506789, 30.6482806], [50.4507492, 30.6482344], [50.4507282, 30.6481551],
+          [50.4504478, 30.6471376], [50.4503006, 30.6466059], [50.4499788, 30.6454339], [50.4499374, 30.64527], [50.4499158, 30.645125],
+          [50.4499182, 30.6449786], [50.4499536, 30.6448086], [50.4500245, 30.6446578], [50.4501194, 30.6445544], [50.45021, 30.6444829],
+          [50.4505609, 30.6442428], [50.4506336, 30.6441933], [50.4515557, 30.6435655], [50.4516306, 30.6434875], [50.4516793, 30.6433939],
+          [50.4517039, 30.6433124], [50.4517105, 30.6431968], [50.4517065, 30.6431065], [50.4516816, 30.6430191], [50.4515342, 30.6424671],
+          [50.4514353, 30.6420955], [50.4514225, 30.642051], [50.4513978, 30.6419615], [50.4507611, 30.6396604], [50.4505491, 30.6389055],
+          [50.4504596, 30.6385848], [50.4503433, 30.6381454], [50.4500858, 30.637229], [50.4500298, 30.6370331], [50.4499994, 30.6369155],
+          [50.4499928, 30.6367775], [50.4500672, 30.6364482], [50.4502238, 30.6357471], [50.4502385, 30.6356816], [50.4502886, 30.6354632],
+          [50.4504044, 30.6349758], [50.4507613, 30.633515], [50.4507982, 30.633364], [50.4508315, 30.6332297], [50.4509099, 30.6329128],
+          [50.4509545, 30.6327325], [50.4510789, 30.6322289], [50.4511763, 30.6318454], [50.4512433, 30.6315672], [50.4512555, 30.6315181],
+          [50.4513584, 30.6311063], [50.4514432, 30.6307673], [50.4515103, 30.6305264], [50.4515604, 30.6305627], [50.4521121, 30.6309628],
+          [50.4523209, 30.631131], [50.4524361, 30.6312289], [50.4526273, 30.6313809], [50.4549033, 30.6327983], [50.4550611, 30.6328966],
+          [50.4553721, 30.6330805], [50.4555732, 30.6332236], [50.455642, 30.6331782], [50.4556918, 30.6331452], [50.4568112, 30.6323552],
+          [50.4575249, 30.6318933], [50.459152, 30.6307851], [50.4596331, 30.6304574], [50.4599733, 30.6302174], [50.4605901, 30.6297965],
+          [50.4610765, 30.6294692], [50.4611778, 30.6293999], [50.4614253, 30.6292368], [50.4616844, 30.629083], [50.4619241, 30.6289487],
+          [50.4621758, 30.6287945], [50.4626671, 30.6284727], [50.4635726, 30.6278507], [50.4636965, 30.6277341], [50.4638198, 30.6275591],
+          [50.4639147, 30.6274595], [50.4645785, 30.627], [50.4656804, 30.6262424], [50.4668127, 30.6254768], [50.4671137, 30.6252404],
+          [50.4674018, 30.6249708], [50.4675991, 30.6247682], [50.4677814, 30.6245475], [50.4680026, 30.6242318], [50.4682223, 30.6238914],
+          [50.4683963, 30.6235668], [50.4685568, 30.6232465], [50.4686841, 30.6229683], [50.4688167, 30.6226292], [50.4690415, 30.6219533],
+          [50.4691793, 30.6215476], [50.4692315, 30.6213752], [50.4692694, 30.6212586], [50.4692968, 30.6211745], [50.4693981, 30.6208636],
+          [50.4694301, 30.6207471], [50.4695146, 30.6205101], [50.469756, 30.6198058], [50.4699805, 30.6191174], [50.4705254, 30.6174648],
+          [50.4706304, 30.6171464], [50.4713776, 30.6148907], [50.4713952, 30.6148375], [50.4714114, 30.6147887], [50.4714813, 30.6145777],
+          [50.4715706, 30.6142932], [50.4718173, 30.6135681], [50.4719587, 30.6131308], [50.4720455, 30.6129311], [50.4721385, 30.6127421],
+          [50.4723395, 30.6124307], [50.4724332, 30.6123168], [50.4733002, 30.6115973], [50.4768185, 30.608934], [50.4785193, 30.6076393],
+          [50.4786279, 30.6076847], [50.4788712, 30.6076697], [50.4790266, 30.6076912], [50.4801138, 30.6080261], [50.4822353, 30.6090403],
+          [50.4835134, 30.6096711], [50.4843875, 30.6101025], [50.4851653, 30.61044], [50.4851436, 30.6112288], [50.4851743, 30.6115455],
+          [50.4852869, 30.6120256], [50.485234, 30.612326], [50.4851472, 30.6128779], [50.4858313, 30.6124763], [50.4859187, 30.612566],
+          [50.4867972, 30.611952], [50.4868592, 30.6119119], [50.4875289, 30.6114781], [50.4890516, 30.6104849], [50.491013, 30.6097215],
+          [50.4932172, 30.6086779], [50.4942853, 30.6081734], [50.4945444, 30.6081162], [50.4951606, 30.608021], [50.4951712, 30.6073759],
+          [50.4952089, 30.6070315], [50.4952975, 30.6065396], [50.4953186, 30.6063656], [50.4953305, 30.6060756], [50.4953492, 30.6050613],
+          [50.4953441, 30.5961336], [50.4953441, 30.5934993], [50.4953706, 30.5913335], [50.4953791, 30.5882765], [50.4954169, 30.5836199],
+          [50.4954375, 30.5822386], [50.4954729, 30.5780912], [50.4954895, 30.5759198], [50.4954981, 30.5738458], [50.4955092, 30.5703428],
+          [50.4955293, 30.5689321], [50.495528, 30.5682314], [50.4955496, 30.565664], [50.4955226, 30.5638781], [50.4954537, 30.5620603],
+          [50.4954118, 30.5613086], [50.4953456, 30.5605526], [50.49522, 30.5590789], [50.4950295, 30.5574629], [50.4944153, 30.5528849],
+          [50.4940502, 30.549942], [50.4938233, 30.5481076], [50.4936678, 30.546793], [50.4935395, 30.5460271], [50.4933612, 30.5450311],
+          [50.492911, 30.5432887], [50.4924611, 30.5417362], [50.4922466, 30.5411223], [50.4909308, 30.5367007], [50.4896527, 30.5377898],
+          [50.4881436, 30.5390757], [50.4861366, 30.5413503], [50.4848381, 30.5421318], [50.483758, 30.5422695], [50.4825969, 30.5424008],
+          [50.4790506, 30.5414574], [50.4764249, 30.5391357], [50.4738265, 30.5364063], [50.4688547, 30.5301829], [50.4672675, 30.5291791],
+          [50.4655451, 30.5289561]
+        ]
+      ]
     ],
     population: 350000,
     area: 67.8
   },
   {
     name: "Holosiivskyi",
-    coordinates: [
-      [50.3718645, 30.4302718], [50.3705637, 30.4320833], [50.3678385, 30.4367268], [50.367828, 30.4369128], [50.3675918, 30.4373578],
-      [50.3669597, 30.4373009], [50.3669399, 30.4376808], [50.3634634, 30.4365873], [50.3632826, 30.4365169], [50.3609747, 30.4357352],
-      [50.3609069, 30.4357558], [50.3601295, 30.4374992], [50.3601667, 30.4377344], [50.3600211, 30.4377765], [50.3598443, 30.4376556],
-      [50.3597938, 30.4378147], [50.3591794, 30.4377784], [50.3591773, 30.4376987], [50.3589618, 30.4377006], [50.3586292, 30.4377416],
-      [50.3578588, 30.4376269], [50.3569636, 30.4374998], [50.3568386, 30.4379972], [50.3567365, 30.4384051], [50.3567144, 30.4385088],
-      [50.3565937, 30.4390907], [50.3560713, 30.4418179], [50.355322, 30.4470373], [50.355243, 30.447586], [50.3552055, 30.4478902],
-      [50.3548392, 30.4505269], [50.3546283, 30.4521089], [50.354803, 30.4523046], [50.355607, 30.4531907], [50.3556915, 30.4532121],
-      [50.3558583, 30.4532544], [50.3562008, 30.4534066], [50.3563013, 30.4534534], [50.3565421, 30.4535583], [50.3580762, 30.4541753],
-      [50.35825, 30.4542404], [50.3597533, 30.4548551], [50.360338, 30.4560061], [50.3609777, 30.4577141], [50.3609059, 30.4595332],
-      [50.3608583, 30.4606544], [50.3606811, 30.4616457], [50.3604683, 30.463276], [50.3602236, 30.4649693], [50.3602502, 30.4657603],
-      [50.360266, 30.4664186], [50.360196, 30.4670804], [50.3601008, 30.4683024], [50.3594555, 30.4679369], [50.358839, 30.4674874],
-      [50.3584986, 30.4672434], [50.3577899, 30.46955], [50.3565064, 30.4700389], [50.3554633, 30.4701815], [50.3539407, 30.4685438],
-      [50.3525663, 30.4681609], [50.3520343, 30.4703303], [50.351403, 30.4728341], [50.3484729, 30.473038], [50.3469804, 30.4732525],
-      [50.3434064, 30.4739231], [50.3427627, 30.4732686], [50.3425334, 30.4743308], [50.3408164, 30.4745829], [50.3403816, 30.4740947],
-      [50.3396643, 30.4745454], [50.3396592, 30.4762325], [50.3395411, 30.4762298], [50.33954, 30.4763687], [50.3395257, 30.478102],
-      [50.3380038, 30.4781046], [50.3373892, 30.4776701], [50.3374029, 30.4766214], [50.3367044, 30.4765999], [50.3367438, 30.4749531],
-      [50.3360521, 30.4746661], [50.3350009, 30.4743791], [50.3342083, 30.474717], [50.3333488, 30.475114], [50.3333657, 30.4797845],
-      [50.3338571, 30.4813189], [50.3345441, 30.4821877], [50.3342251, 30.483221], [50.3336394, 30.4846619], [50.3338907, 30.4850791],
-      [50.3356721, 30.4847619], [50.336059, 30.485183], [50.3360812, 30.4859394], [50.3358056, 30.4862317], [50.3354187, 30.4912582],
-      [50.3343367, 30.4920495], [50.3336827, 30.4929051], [50.3335177, 30.4946039], [50.3334977, 30.4948094], [50.3325372, 30.497387],
-      [50.3315921, 30.4947236], [50.3302549, 30.4956248], [50.3294279, 30.4932725], [50.3287636, 30.4912233], [50.3283012, 30.4899171],
-      [50.3278749, 30.4886538], [50.3267619, 30.4883265], [50.3256129, 30.4903087], [50.3247207, 30.4917142], [50.3234706, 30.4937366],
-      [50.321866, 30.4961613], [50.3224174, 30.4975238], [50.3230391, 30.4996321], [50.3238833, 30.5021989], [50.3244553, 30.5040818],
-      [50.3257207, 30.5074829], [50.326166, 30.509119], [50.3251248, 30.5101892], [50.3222239, 30.5147999], [50.321044, 30.5162579],
-      [50.3203521, 30.518775], [50.3198092, 30.5218273], [50.3193982, 30.525164], [50.3184818, 30.5285335], [50.3171084, 30.5335835],
-      [50.3164781, 30.5333796], [50.3159249, 30.5327386], [50.3137189, 30.5328727], [50.3124582, 30.532878], [50.3106186, 30.5325186],
-      [50.3087275, 30.5320787], [50.3065074, 30.5317676], [50.3022605, 30.5316576], [50.3016197, 30.5334333], [50.2992728, 30.5334904],
-      [50.2972613, 30.5334365], [50.2967864, 30.5332428], [50.2958491, 30.5332535], [50.2956212, 30.5329156], [50.2937535, 30.5308315],
-      [50.2925269, 30.5295249], [50.290668, 30.5275318], [50.2906553, 30.5276942], [50.2902098, 30.5333582], [50.2902222, 30.5335438],
-      [50.2902331, 30.5337075], [50.2902456, 30.5338917], [50.2910255, 30.5463749], [50.2883693, 30.5466431], [50.2845167, 30.5472976],
-      [50.2826245, 30.547877], [50.2775133, 30.5437571], [50.2759191, 30.542585], [50.2730152, 30.5476919], [50.2722815, 30.5490008],
-      [50.2697443, 30.5536222], [50.269638, 30.5540246], [50.2703803, 30.5539709], [50.277174, 30.5538393], [50.2772768, 30.563785],
-      [50.2694615, 30.5639406], [50.2691683, 30.5643081], [50.2685922, 30.5648017], [50.2680162, 30.5652952], [50.2679887, 30.5657244],
-      [50.2656433, 30.5679345], [50.2640933, 30.5685353], [50.2638876, 30.568943], [50.262461, 30.5698228], [50.2622552, 30.5696511],
-      [50.2592907, 30.5699106], [50.2594387, 30.5742209], [50.25945, 30.574517], [50.2594895, 30.5749643], [50.2595356, 30.575486],
-      [50.2586077, 30.5762693], [50.2472383, 30.5850455], [50.2466413, 30.5854867], [50.2453938, 30.5862081], [50.2445618, 30.5864974],
-      [50.2436319, 30.5867914], [50.2391472, 30.5881093], [50.2386091, 30.5882622], [50.2301386, 30.5906333], [50.2291906, 30.5908027],
-      [50.2288017, 30.5908376], [50.2280072, 30.590909], [50.2222016, 30.5910271], [50.2210391, 30.5911896], [50.2132422, 30.5926614],
-      [50.213303, 30.593225], [50.2133337, 30.5936587], [50.2260905, 30.6435516], [50.2275605, 30.6425296], [50.2302006, 30.6406214],
-      [50.2338539, 30.6380164], [50.2353595, 30.6369175], [50.2354333, 30.6372154], [50.2362722, 30.6406015], [50.2368389, 30.6428958],
-      [50.2370104, 30.6436847], [50.2373818, 30.6454327], [50.2393047, 30.6448635], [50.2397833, 30.6453645], [50.2404255, 30.6443741],
-      [50.2406232, 30.6440378], [50.2407413, 30.6438308], [50.2412247, 30.6431039], [50.24172, 30.6420401], [50.2421233, 30.6412747],
-      [50.2422467, 30.6410396], [50.2423379, 30.640851], [50.2426335, 30.6402571], [50.2428316, 30.6401858], [50.2433847, 30.6391183],
-      [50.2439602, 30.6378048], [50.2451411, 30.6356555], [50.2455282, 30.6351512], [50.2465961, 30.6339021], [50.2488475, 30.6328845],
-      [50.2491812, 30.6328586], [50.2511841, 30.6327034], [50.2527682, 30.6309277], [50.254577, 30.6288951], [50.2547442, 30.6287682],
-      [50.2548119, 30.6286802], [50.2548191, 30.628209], [50.2546323, 30.627791], [50.2555933, 30.6261519], [50.2557853, 30.62583],
-      [50.2562055, 30.6253445], [50.2568331, 30.6250817], [50.2572197, 30.6251603], [50.2595703, 30.6255447], [50.2597346, 30.625364],
-      [50.2601218, 30.6251593], [50.2603942, 30.6250967], [50.2604057, 30.6249061], [50.2608834, 30.6248925], [50.2611686, 30.6249797],
-      [50.2616632, 30.6253814], [50.2627548, 30.6264114], [50.2628773, 30.6264023], [50.2631239, 30.6261674], [50.2644972, 30.6208886],
-      [50.2644873, 30.6200405], [50.2646082, 30.6192327], [50.2648315, 30.6184468], [50.2655377, 30.617502], [50.2667126, 30.6163581],
-      [50.2692347, 30.6160753], [50.2711633, 30.6161541], [50.2718455, 30.6159299], [50.271799, 30.6153813], [50.2719632, 30.6149634],
-      [50.2722911, 30.6144753], [50.2727605, 30.613996], [50.2745041, 30.6128377], [50.2744278, 30.6125559], [50.2744236, 30.6121644],
-      [50.2745175, 30.6118209], [50.2746619, 30.6115598], [50.2749779, 30.6111818], [50.2750186, 30.6111694], [50.2753532, 30.6108565],
-      [50.2756156, 30.6107648], [50.2757364, 30.6108081], [50.2761488, 30.6111561], [50.2764692, 30.6112923], [50.2768055, 30.6113112],
-      [50.277228, 30.6106681], [50.2773141, 30.6108001], [50.2775133, 30.6107111], [50.2780999, 30.6104958], [50.278675, 30.6095931],
-      [50.2807286, 30.6102996], [50.280817, 30.612467], [50.28065, 30.615033], [50.280733, 30.619067], [50.2806654, 30.6232594],
-      [50.2818224, 30.6248348], [50.2825765, 30.6258488], [50.2827863, 30.6258908], [50.2904575, 30.6292584], [50.2971035, 30.6309106],
-      [50.2969572, 30.6333363], [50.2966778, 30.6346201], [50.2955356, 30.6370497], [50.2936576, 30.6395602], [50.2919303, 30.6408047],
-      [50.2914162, 30.6412661], [50.290861, 30.6420493], [50.2895997, 30.642339], [50.2892981, 30.6425857], [50.2878449, 30.6422746],
-      [50.2902447, 30.6518983], [50.2915876, 30.649302], [50.2950078, 30.6469631], [50.2961, 30.6468094], [50.2983593, 30.6462336],
-      [50.3013509, 30.6436267], [50.3045345, 30.641921], [50.3096257, 30.6370722], [50.3137439, 30.6311506], [50.316145, 30.628581],
-      [50.317448, 30.6274146], [50.3197064, 30.6258109], [50.3231839, 30.6243699], [50.325757, 30.6235914], [50.3278233, 30.6224052],
-      [50.3320121, 30.6180374], [50.3346982, 30.6155873], [50.3372747, 30.6128798], [50.3407898, 30.6071143], [50.3472072, 30.6021184],
-      [50.3498978, 30.5985028], [50.3527252, 30.5926341], [50.3562035, 30.5900015], [50.3609002, 30.5869397], [50.3697541, 30.5842227],
-      [50.3743635, 30.5832688], [50.3802592, 30.5838169], [50.3877003, 30.5867966], [50.3926409, 30.5913794], [50.3948847, 30.5934222],
-      [50.4002099, 30.5957108], [50.4043454, 30.5960267], [50.4088912, 30.5960851], [50.4115685, 30.5943283], [50.415779, 30.5910773],
-      [50.4172389, 30.5902419], [50.4144693, 30.5790699], [50.4137234, 30.5760892], [50.4135295, 30.5753467], [50.4133611, 30.5747978],
-      [50.4131566, 30.5742085], [50.4128374, 30.5733497], [50.4126926, 30.5730132], [50.4125052, 30.5726404], [50.4118231, 30.5715482],
-      [50.4113504, 30.5709401], [50.4109277, 30.5704495], [50.4105977, 30.5701136], [50.4103128, 30.569835], [50.4099189, 30.5695288],
-      [50.4094951, 30.5692469], [50.4084915, 30.5686551], [50.4082181, 30.5685038], [50.4078196, 30.5682498], [50.407548, 30.5680459],
-      [50.4072949, 30.5678082], [50.4071016, 30.5675886], [50.4067573, 30.5671723], [50.4065828, 30.5669349], [50.4057691, 30.5658276],
-      [50.4056522, 30.5656713], [50.4052377, 30.5650473], [50.4049773, 30.5646925], [50.404712, 30.5643427], [50.4042452, 30.5637208],
-      [50.4040248, 30.5634106], [50.4038395, 30.5630903], [50.4035928, 30.5625943], [50.4033308, 30.5619911], [50.4031583, 30.5615101],
-      [50.4029247, 30.5606374], [50.4028539, 30.5603402], [50.4027846, 30.5600054], [50.4027198, 30.5596485], [50.4026257, 30.5589242],
-      [50.4025864, 30.5584702], [50.4025596, 30.5579391], [50.4025498, 30.5572573], [50.4025702, 30.5565421], [50.4026342, 30.5555222],
-      [50.4027468, 30.5544717], [50.4028238, 30.5539232], [50.4029533, 30.5532116], [50.4032162, 30.5518617], [50.403341, 30.5513212],
-      [50.403759, 30.5494437], [50.4039745, 30.5484673], [50.4040289, 30.5482224], [50.4042627, 30.5471715], [50.404297, 30.5470171],
-      [50.4044737, 30.5462158], [50.4045387, 30.5459055], [50.4046096, 30.5454908], [50.4046818, 30.5450152], [50.4047027, 30.5448667],
-      [50.4048084, 30.5441139], [50.4048799, 30.5435152], [50.404949, 30.54285], [50.4049797, 30.5423725], [50.4049903, 30.5416816],
-      [50.4049994, 30.5406568], [50.4050022, 30.5403376], [50.4050057, 30.5401394], [50.4050442, 30.5379415], [50.4050787, 30.5366674],
-      [50.4051362, 30.5343458], [50.4051418, 30.5342252], [50.4051604, 30.5338241], [50.405209, 30.5332739], [50.4052544, 30.5328683],
-      [50.4053309, 30.532383], [50.4054289, 30.5319105], [50.405534, 30.5313972], [50.4057153, 30.5306245], [50.4058654, 30.5299867],
-      [50.4061794, 30.5285421], [50.4062516, 30.5281883], [50.4063742, 30.5276528], [50.406531, 30.5270926], [50.4067491, 30.5264708],
-      [50.4069548, 30.5259734], [50.407156, 30.5255043], [50.4074149, 30.5249922], [50.4076471, 30.5245769], [50.40803, 30.5239535],
-      [50.4083832, 30.5234757], [50.4086161, 30.5231689], [50.4087626, 30.5229997], [50.4089583, 30.5227882], [50.4090696, 30.5230667],
-      [50.4093677, 30.5237039], [50.4094772, 30.5239743], [50.4096926, 30.5244069], [50.4103399, 30.5257579], [50.410865, 30.5269192],
-      [50.4113022, 30.5266078], [50.4114441, 30.5265068], [50.4115927, 30.5264165], [50.4123829, 30.525936], [50.4125369, 30.5258418],
-      [50.4126486, 30.5257659], [50.4128924, 30.5256116], [50.4130583, 30.5255066], [50.4132468, 30.5253873], [50.4133276, 30.5253362],
-      [50.4135253, 30.5252144], [50.4140873, 30.5248717], [50.4144356, 30.5246701], [50.4148789, 30.5244047], [50.4150853, 30.5242787],
-      [50.4151858, 30.5242213], [50.4153633, 30.5241132], [50.4154697, 30.5240482], [50.4154873, 30.5240368], [50.4155318, 30.5240096],
-      [50.4161103, 30.52364], [50.4163729, 30.5234814], [50.4166245, 30.523324], [50.4170042, 30.5230982], [50.4171204, 30.5230311],
-      [50.4171956, 30.5229802], [50.4184594, 30.5221551], [50.4190531, 30.5217677], [50.4191437, 30.5217134], [50.419253, 30.5216447],
-      [50.4197377, 30.5213381], [50.4197392, 30.5213372], [50.4200392, 30.5211476], [50.4205117, 30.5208502], [50.4207035, 30.5207288],
-      [50.4210336, 30.5205199], [50.4211276, 30.5204638], [50.4230967, 30.5191955], [50.4235664, 30.5189051], [50.4239364, 30.5186773],
-      [50.4243082, 30.5184394], [50.4246303, 30.5182351], [50.4250706, 30.5179557], [50.4251802, 30.5178925], [50.425274, 30.5178292],
-      [50.4256135, 30.5176176], [50.425895, 30.5174456], [50.4269391, 30.5168008], [50.4270755, 30.516714], [50.4275852, 30.5163982],
-      [50.427984, 30.5161529], [50.4280657, 30.5161125], [50.4282072, 30.5160904], [50.4283621, 30.5160916], [50.4284612, 30.5160898],
-      [50.4288709, 30.5160852], [50.428976, 30.516084], [50.4291086, 30.5160815], [50.4292523, 30.5160773], [50.4297685, 30.5160687],
-      [50.4299194, 30.5160628], [50.4300889, 30.516056], [50.4303948, 30.5160569], [50.4306338, 30.5160615], [50.431139, 30.5160607],
-      [50.4317456, 30.5160685], [50.4319563, 30.5160703], [50.4319939, 30.516071], [50.4322892, 30.5160666], [50.432532, 30.5160673],
-      [50.4333904, 30.5160615], [50.4338189, 30.5160559], [50.4339459, 30.5160519], [50.4341538, 30.5160506], [50.4343399, 30.5160475],
-      [50.4345384, 30.5160442], [50.4358165, 30.5159948], [50.4359472, 30.5159876], [50.4361313, 30.5160394], [50.4365835, 30.5160289],
-      [50.4386519, 30.5160215], [50.4387322, 30.5160215], [50.4388436, 30.5160438], [50.4389135, 30.5160703], [50.4389717, 30.5161089],
-      [50.439023, 30.5161623], [50.4393247, 30.5162079], [50.4393574, 30.5161676], [50.43943, 30.5160835], [50.439543, 30.5159316],
-      [50.4395998, 30.5158574], [50.4397245, 30.5151131], [50.4399169, 30.5139642], [50.4399501, 30.5137946], [50.4399645, 30.5137066],
-      [50.4399504, 30.5136011], [50.4399843, 30.5134281], [50.4401139, 30.5127205], [50.4402315, 30.5120272], [50.4403434, 30.5113095],
-      [50.4403704, 30.5111417], [50.4404104, 30.5109013], [50.440503, 30.5103713], [50.4405717, 30.5099324], [50.4408341, 30.5083331],
-      [50.4408419, 30.5081349], [50.4418727, 30.5017991], [50.441933, 30.5015041], [50.4418941, 30.5014137], [50.441819, 30.501239],
-      [50.4414478, 30.5003799], [50.4414042, 30.5002835], [50.4412631, 30.4999608], [50.4411651, 30.4997485], [50.441069, 30.4995141],
-      [50.4408756, 30.4990635], [50.4408346, 30.4989688], [50.4407067, 30.4986739], [50.4403925, 30.4979492], [50.4403035, 30.4977297],
-      [50.4402184, 30.4975373], [50.4399651, 30.4969815], [50.4399115, 30.4968605], [50.439333, 30.4955532], [50.4392236, 30.495298],
-      [50.4391835, 30.4952164], [50.4386345, 30.4941262], [50.4386004, 30.4940673], [50.4367877, 30.4965444], [50.4361084, 30.497511],
-      [50.4350624, 30.4991485], [50.4345365, 30.4999742], [50.4338725, 30.5011873], [50.4340407, 30.5013264], [50.4334589, 30.5028027],
-      [50.4327106, 30.5052373], [50.4325276, 30.5056811], [50.4323672, 30.5058521], [50.4319593, 30.5062744], [50.4313908, 30.5068637],
-      [50.4310927, 30.507167], [50.4307255, 30.5075713], [50.4304799, 30.5078287], [50.4301075, 30.5081794], [50.4289297, 30.5094546],
-      [50.4288515, 30.5095064], [50.4287732, 30.5095476], [50.4284344, 30.5097023], [50.4282615, 30.5097501], [50.4280745, 30.5097481],
-      [50.4275252, 30.5096838], [50.42727, 30.5096691], [50.426975, 30.509652], [50.4267029, 30.5096615], [50.4264384, 30.5097415],
-      [50.4257429, 30.510242], [50.4249122, 30.5109759], [50.4246898, 30.5111398], [50.4241042, 30.5113891], [50.4226244, 30.5120375],
-      [50.4224156, 30.5121729], [50.4218708, 30.5125932], [50.4212168, 30.5131454], [50.4201804, 30.5139992], [50.4197531, 30.5142947],
-      [50.4195431, 30.5144027], [50.4193439, 30.514397], [50.4191339, 30.5144822], [50.4189456, 30.5145959], [50.4184056, 30.5150754],
-      [50.4181385, 30.5153737], [50.4179105, 30.5147909], [50.421608, 30.5110849], [50.4214155, 30.5104752], [50.4213438, 30.5102966],
-      [50.4215715, 30.5100286], [50.4214296, 30.5091747], [50.4215206, 30.5091534], [50.4219851, 30.5089933], [50.4221848, 30.5086666],
-      [50.422195, 30.5084976], [50.422236, 30.5083354], [50.4223688, 30.507875], [50.4223871, 30.5077166], [50.4222837, 30.507206],
-      [50.4223518, 30.5069932], [50.4221865, 30.5066222], [50.4221342, 30.5064603], [50.4220221, 30.5060186], [50.4219595, 30.5058123],
-      [50.4219257, 30.5057006], [50.4218093, 30.5054844], [50.4215611, 30.5049658], [50.4215143, 30.504883], [50.4220429, 30.5039712],
-      [50.4221006, 30.5036456], [50.4221178, 30.5035486], [50.4217782, 30.5033981], [50.4214539, 30.5032014], [50.4210283, 30.5028227],
-      [50.4207421, 30.5025354], [50.4199749, 30.501713], [50.4184745, 30.5001594], [50.4179476, 30.4996088], [50.4178322, 30.4994666],
-      [50.4174154, 30.499049], [50.4167449, 30.498543], [50.4165509, 30.4984915], [50.4159678, 30.4985705], [50.4159637, 30.4986926],
-      [50.4155465, 30.4991296], [50.4148747, 30.5000431], [50.4146312, 30.5002752], [50.414513, 30.5004195], [50.414132, 30.5009934],
-      [50.4138276, 30.5013053], [50.4129029, 30.5030155], [50.4126663, 30.5035711], [50.4120098, 30.5050349], [50.4117025, 30.5056603],
-      [50.4113519, 30.5068725], [50.4106515, 30.5074052], [50.4106203, 30.5072846], [50.410562, 30.5069819], [50.4105342, 30.5067996],
-      [50.410511, 30.5066297], [50.4104952, 30.5064523], [50.4104773, 30.5063027], [50.4104558, 30.5060012], [50.4104271, 30.5056298],
-      [50.4103978, 30.5051812], [50.4103716, 30.5045856], [50.4103763, 30.5044008], [50.4103905, 30.5041436], [50.4104478, 30.5034912],
-      [50.4106541, 30.5013068], [50.4106891, 30.5008724], [50.4107102, 30.5004683], [50.4107219, 30.4997398], [50.410714, 30.4990286],
-      [50.4107119, 30.4988339], [50.4106785, 30.4979577], [50.4106488, 30.4976048], [50.4106419, 30.4975232], [50.4105796, 30.4970819],
-      [50.4104786, 30.4966051], [50.4103607, 30.4961219], [50.4097444, 30.494013], [50.4097211, 30.4939369], [50.409597, 30.4934926],
-      [50.4093856, 30.492992], [50.4091423, 30.4925941], [50.4090107, 30.4924107], [50.4088225, 30.4922008], [50.4086891, 30.4920825],
-      [50.4086372, 30.4920365], [50.4085327, 30.4919578], [50.4084582, 30.4919058], [50.4083115, 30.4917915], [50.4082484, 30.4917441],
-      [50.4081506, 30.4916705], [50.407748, 30.4913825], [50.4074396, 30.4911637], [50.4071949, 30.4910255], [50.4068969, 30.4908572],
-      [50.406696, 30.4907782], [50.4065667, 30.4907274], [50.4064461, 30.4907006], [50.4062771, 30.4906857], [50.4061031, 30.4906611],
-      [50.4054064, 30.4905732], [50.4049194, 30.4904544], [50.404512, 30.4903243], [50.4040506, 30.490155], [50.4034859, 30.4899013],
-      [50.4029785, 30.4896682], [50.4027356, 30.4895628], [50.4022523, 30.4892876], [50.4017842, 30.4890019], [50.4013219, 30.4886855],
-      [50.4010418, 30.4884151], [50.4007037, 30.4880265], [50.4004882, 30.487746], [50.4001996, 30.4873371], [50.3998932, 30.486885],
-      [50.3998715, 30.4868516], [50.3997369, 30.4866443], [50.399624, 30.4864474], [50.3993172, 30.4860044], [50.3992489, 30.4858804],
-      [50.3991119, 30.4856315], [50.3989696, 30.4853731], [50.3985785, 30.4844012], [50.3984836, 30.4841297], [50.3984252, 30.4839457],
-      [50.3982408, 30.4833641], [50.3979108, 30.4818698], [50.397585, 30.4803392], [50.3975417, 30.4801359], [50.3975013, 30.4799416],
-      [50.3974889, 30.4798709], [50.3974522, 30.4795893], [50.3973924, 30.4789526], [50.3973403, 30.4788131], [50.3974093, 30.478714],
-      [50.3974771, 30.4786459], [50.397541, 30.4786049], [50.3976015, 30.478566], [50.3976911, 30.478534], [50.3978247, 30.4785507],
-      [50.3978946, 30.4785834], [50.3979871, 30.4786656], [50.3982056, 30.4788596], [50.398473, 30.4750207], [50.3983672, 30.4734801],
-      [50.3987318, 30.4730372], [50.3989435, 30.4727051], [50.3990434, 30.4721239], [50.3990199, 30.4716811], [50.3988376, 30.4716718],
-      [50.3986788, 30.4721423], [50.3985671, 30.4724745], [50.3982319, 30.4727974], [50.3981496, 30.4731941], [50.3971224, 30.4729226],
-      [50.3967323, 30.4713397], [50.3966578, 30.4710678], [50.3965238, 30.4705404], [50.3958354, 30.47045], [50.3920632, 30.4714536],
-      [50.3920283, 30.4711163], [50.3920209, 30.4710449], [50.3919886, 30.4707649], [50.3918997, 30.469948], [50.3918752, 30.4697248],
-      [50.3918275, 30.4693318], [50.3918094, 30.4691886], [50.3917929, 30.4690817], [50.3917497, 30.4687968], [50.3916977, 30.4685222],
-      [50.3916308, 30.4681933], [50.3915831, 30.4680074], [50.3915551, 30.4678982], [50.3915065, 30.4677237], [50.3914288, 30.4674603],
-      [50.3913337, 30.4671652], [50.3912062, 30.4668324], [50.3910483, 30.4664806], [50.3908044, 30.4659815], [50.3906017, 30.4655873],
-      [50.3904893, 30.4653737], [50.3905561, 30.4652851], [50.3910334, 30.4645973], [50.3911086, 30.464489], [50.391174, 30.4643947],
-      [50.3911885, 30.4643722], [50.3912116, 30.4643267], [50.3912397, 30.4642676], [50.3912674, 30.4642028], [50.3912781, 30.4641734],
-      [50.391282, 30.4641614], [50.3912847, 30.464152], [50.3912863, 30.4641453], [50.3912872, 30.4641411], [50.3912887, 30.4641338],
-      [50.39129, 30.4641256], [50.3912911, 30.4641178], [50.3912919, 30.4641104], [50.3912924, 30.4641027], [50.3912929, 30.4640954],
-      [50.3912933, 30.4640879], [50.391317, 30.4633979], [50.3913514, 30.4621681], [50.3913555, 30.4620344], [50.3913573, 30.4619767],
-      [50.3913703, 30.4615589], [50.3913738, 30.4614471], [50.3913779, 30.4613204], [50.391389, 30.4609727], [50.3913948, 30.4608015],
-      [50.3913998, 30.460653], [50.3913555, 30.4606485], [50.3911219, 30.4606224], [50.3907051, 30.4605759], [50.3903337, 30.4605334],
-      [50.3897652, 30.4605126], [50.3893603, 30.460479], [50.3890946, 30.4604197], [50.3891028, 30.4603755], [50.3893004, 30.4593045],
-      [50.3881715, 30.4586189], [50.3883154, 30.4579841], [50.3886542, 30.4566732], [50.3879101, 30.4560995], [50.3877425, 30.4559528],
-      [50.3873641, 30.4556348], [50.3870886, 30.4555422], [50.3869749, 30.4555163], [50.3867651, 30.4554491], [50.3865309, 30.4553328],
-      [50.385965, 30.4550035], [50.3854445, 30.4546963], [50.3849407, 30.4544581], [50.3846948, 30.4543286], [50.3846576, 30.4543367],
-      [50.3845994, 30.4544192], [50.3845217, 30.4545191], [50.3843125, 30.4541453], [50.3842851, 30.4540919], [50.3842121, 30.4539417],
-      [50.3842733, 30.4538108], [50.3843099, 30.4537162], [50.3845856, 30.4531037], [50.3848759, 30.4524341], [50.3852149, 30.4517165],
-      [50.3854837, 30.45123], [50.3861902, 30.4499357], [50.3863322, 30.4497586], [50.3863625, 30.449699], [50.3870401, 30.4485041],
-      [50.3869148, 30.4483205], [50.3864401, 30.4475633], [50.385743, 30.4464683], [50.3857016, 30.4462804], [50.3859068, 30.4458457],
-      [50.3858881, 30.4457165], [50.385614, 30.4453821], [50.3845945, 30.4441385], [50.3842871, 30.443746], [50.3834757, 30.442481],
-      [50.3830471, 30.4418368], [50.382897, 30.4415274], [50.382035, 30.4427075], [50.3817247, 30.4421617], [50.3814158, 30.4425788],
-      [50.3812554, 30.4424254], [50.3794668, 30.4394405], [50.3789998, 30.438696], [50.3766977, 30.4362095], [50.3743016, 30.433393],
-      [50.3726522, 30.4312663], [50.3718645, 30.4302718]
+    polygons: [
+      [
+        [
+          [50.3718645, 30.4302718], [50.3705637, 30.4320833], [50.3678385, 30.4367268], [50.367828, 30.4369128], [50.3675918, 30.4373578],
+          [50.3669597, 30.4373009], [50.3669399, 30.4376808], [50.3634634, 30.4365873], [50.3632826, 30.4365169], [50.3609747, 30.4357352],
+          [50.3609069, 30.4357558], [50.3601295, 30.4374992], [50.3601667, 30.4377344], [50.3600211, 30.4377765], [50.3598443, 30.4376556],
+          [50.3597938, 30.4378147], [50.3591794, 30.4377784], [50.3591773, 30.4376987], [50.3589618, 30.4377006], [50.3586292, 30.4377416],
+          [50.3578588, 30.4376269], [50.3569636, 30.4374998], [50.3568386, 30.4379972], [50.3567365, 30.4384051], [50.3567144, 30.4385088],
+          [50.3565937, 30.4390907], [50.3560713, 30.4418179], [50.355322, 30.4470373], [50.355243, 30.447586], [50.3552055, 30.4478902],
+          [50.3548392, 30.4505269], [50.3546283, 30.4521089], [50.354803, 30.4523046], [50.355607, 30.4531907], [50.3556915, 30.4532121],
+          [50.3558583, 30.4532544], [50.3562008, 30.4534066], [50.3563013, 30.4534534], [50.3565421, 30.4535583], [50.3580762, 30.4541753],
+          [50.35825, 30.4542404], [50.3597533, 30.4548551], [50.360338, 30.4560061], [50.3609777, 30.4577141], [50.3609059, 30.4595332],
+          [50.3608583, 30.4606544], [50.3606811, 30.4616457], [50.3604683, 30.463276], [50.3602236, 30.4649693], [50.3602502, 30.4657603],
+          [50.360266, 30.4664186], [50.360196, 30.4670804], [50.3601008, 30.4683024], [50.3594555, 30.4679369], [50.358839, 30.4674874],
+          [50.3584986, 30.4672434], [50.3577899, 30.46955], [50.3565064, 30.4700389], [50.3554633, 30.4701815], [50.3539407, 30.4685438],
+          [50.3525663, 30.4681609], [50.3520343, 30.4703303], [50.351403, 30.4728341], [50.3484729, 30.473038], [50.3469804, 30.4732525],
+          [50.3434064, 30.4739231], [50.3427627, 30.4732686], [50.3425334, 30.4743308], [50.3408164, 30.4745829], [50.3403816, 30.4740947],
+          [50.3396643, 30.4745454], [50.3396592, 30.4762325], [50.3395411, 30.4762298], [50.33954, 30.4763687], [50.3395257, 30.478102],
+          [50.3380038, 30.4781046], [50.3373892, 30.4776701], [50.3374029, 30.4766214], [50.3367044, 30.4765999], [50.3367438, 30.4749531],
+          [50.3360521, 30.4746661], [50.3350009, 30.4743791], [50.3342083, 30.474717], [50.3333488, 30.475114], [50.3333657, 30.4797845],
+          [50.3338571, 30.4813189], [50.3345441, 30.4821877], [50.3342251, 30.483221], [50.3336394, 30.4846619], [50.3338907, 30.4850791],
+          [50.3356721, 30.4847619], [50.336059, 30.485183], [50.3360812, 30.4859394], [50.3358056, 30.4862317], [50.3354187, 30.4912582],
+          [50.3343367, 30.4920495], [50.3336827, 30.4929051], [50.3335177, 30.4946039], [50.3334977, 30.4948094], [50.3325372, 30.497387],
+          [50.3315921, 30.4947236], [50.3302549, 30.4956248], [50.3294279, 30.4932725], [50.3287636, 30.4912233], [50.3283012, 30.4899171],
+          [50.3278749, 30.4886538], [50.3267619, 30.4883265], [50.3256129, 30.4903087], [50.3247207, 30.4917142], [50.3234706, 30.4937366],
+          [50.321866, 30.4961613], [50.3224174, 30.4975238], [50.3230391, 30.4996321], [50.3238833, 30.5021989], [50.3244553, 30.5040818],
+          [50.3257207, 30.5074829], [50.326166, 30.509119], [50.3251248, 30.5101892], [50.3222239, 30.5147999], [50.321044, 30.5162579],
+          [50.3203521, 30.518775], [50.3198092, 30.5218273], [50.3193982, 30.525164], [50.3184818, 30.5285335], [50.3171084, 30.5335835],
+          [50.3164781, 30.5333796], [50.3159249, 30.5327386], [50.3137189, 30.5328727], [50.3124582, 30.532878], [50.3106186, 30.5325186],
+          [50.3087275, 30.5320787], [50.3065074, 30.5317676], [50.3022605, 30.5316576], [50.3016197, 30.5334333], [50.2992728, 30.5334904],
+          [50.2972613, 30.5334365], [50.2967864, 30.5332428], [50.2958491, 30.5332535], [50.2956212, 30.5329156], [50.2937535, 30.5308315],
+          [50.2925269, 30.5295249], [50.290668, 30.5275318], [50.2906553, 30.5276942], [50.2902098, 30.5333582], [50.2902222, 30.5335438],
+          [50.2902331, 30.5337075], [50.2902456, 30.5338917], [50.2910255, 30.5463749], [50.2883693, 30.5466431], [50.2845167, 30.5472976],
+          [50.2826245, 30.547877], [50.2775133, 30.5437571], [50.2759191, 30.542585], [50.2730152, 30.5476919], [50.2722815, 30.5490008],
+          [50.2697443, 30.5536222], [50.269638, 30.5540246], [50.2703803, 30.5539709], [50.277174, 30.5538393], [50.2772768, 30.563785],
+          [50.2694615, 30.5639406], [50.2691683, 30.5643081], [50.2685922, 30.5648017], [50.2680162, 30.5652952], [50.2679887, 30.5657244],
+          [50.2656433, 30.5679345], [50.2640933, 30.5685353], [50.2638876, 30.568943], [50.262461, 30.5698228], [50.2622552, 30.5696511],
+          [50.2592907, 30.5699106], [50.2594387, 30.5742209], [50.25945, 30.574517], [50.2594895, 30.5749643], [50.2595356, 30.575486],
+          [50.2586077, 30.5762693], [50.2472383, 30.5850455], [50.2466413, 30.5854867], [50.2453938, 30.5862081], [50.2445618, 30.5864974],
+          [50.2436319, 30.5867914], [50.2391472, 30.5881093], [50.2386091, 30.5882622], [50.2301386, 30.5906333], [50.2291906, 30.5908027],
+          [50.2288017, 30.5908376], [50.2280072, 30.590909], [50.2222016, 30.5910271], [50.2210391, 30.5911896], [50.2132422, 30.5926614],
+          [50.213303, 30.593225], [50.2133337, 30.5936587], [50.2260905, 30.6435516], [50.2275605, 30.6425296], [50.2302006, 30.6406214],
+          [50.2338539, 30.6380164], [50.2353595, 30.6369175], [50.2354333, 30.6372154], [50.2362722, 30.6406015], [50.2368389, 30.6428958],
+          [50.2370104, 30.6436847], [50.2373818, 30.6454327], [50.2393047, 30.6448635], [50.2397833, 30.6453645], [50.2404255, 30.6443741],
+          [50.2406232, 30.6440378], [50.2407413, 30.6438308], [50.2412247, 30.6431039], [50.24172, 30.6420401], [50.2421233, 30.6412747],
+          [50.2422467, 30.6410396], [50.2423379, 30.640851], [50.2426335, 30.6402571], [50.2428316, 30.6401858], [50.2433847, 30.6391183],
+          [50.2439602, 30.6378048], [50.2451411, 30.6356555], [50.2455282, 30.6351512], [50.2465961, 30.6339021], [50.2488475, 30.6328845],
+          [50.2491812, 30.6328586], [50.2511841, 30.6327034], [50.2527682, 30.6309277], [50.254577, 30.6288951], [50.2547442, 30.6287682],
+          [50.2548119, 30.6286802], [50.2548191, 30.628209], [50.2546323, 30.627791], [50.2555933, 30.6261519], [50.2557853, 30.62583],
+          [50.2562055, 30.6253445], [50.2568331, 30.6250817], [50.2572197, 30.6251603], [50.2595703, 30.6255447], [50.2597346, 30.625364],
+          [50.2601218, 30.6251593], [50.2603942, 30.6250967], [50.2604057, 30.6249061], [50.2608834, 30.6248925], [50.2611686, 30.6249797],
+          [50.2616632, 30.6253814], [50.2627548, 30.6264114], [50.2628773, 30.6264023], [50.2631239, 30.6261674], [50.2644972, 30.6208886],
+          [50.2644873, 30.6200405], [50.2646082, 30.6192327], [50.2648315, 30.6184468], [50.2655377, 30.617502], [50.2667126, 30.6163581],
+          [50.2692347, 30.6160753], [50.2711633, 30.6161541], [50.2718455, 30.6159299], [50.271799, 30.6153813], [50.2719632, 30.6149634],
+          [50.2722911, 30.6144753], [50.2727605, 30.613996], [50.2745041, 30.6128377], [50.2744278, 30.6125559], [50.2744236, 30.6121644],
+          [50.2745175, 30.6118209], [50.2746619, 30.6115598], [50.2749779, 30.6111818], [50.2750186, 30.6111694], [50.2753532, 30.6108565],
+          [50.2756156, 30.6107648], [50.2757364, 30.6108081], [50.2761488, 30.6111561], [50.2764692, 30.6112923], [50.2768055, 30.6113112],
+          [50.277228, 30.6106681], [50.2773141, 30.6108001], [50.2775133, 30.6107111], [50.2780999, 30.6104958], [50.278675, 30.6095931],
+          [50.2807286, 30.6102996], [50.280817, 30.612467], [50.28065, 30.615033], [50.280733, 30.619067], [50.2806654, 30.6232594],
+          [50.2818224, 30.6248348], [50.2825765, 30.6258488], [50.2827863, 30.6258908], [50.2904575, 30.6292584], [50.2971035, 30.6309106],
+          [50.2969572, 30.6333363], [50.2966778, 30.6346201], [50.2955356, 30.6370497], [50.2936576, 30.6395602], [50.2919303, 30.6408047],
+          [50.2914162, 30.6412661], [50.290861, 30.6420493], [50.2895997, 30.642339], [50.2892981, 30.6425857], [50.2878449, 30.6422746],
+          [50.2902447, 30.6518983], [50.2915876, 30.649302], [50.2950078, 30.6469631], [50.2961, 30.6468094], [50.2983593, 30.6462336],
+          [50.3013509, 30.6436267], [50.3045345, 30.641921], [50.3096257, 30.6370722], [50.3137439, 30.6311506], [50.316145, 30.628581],
+          [50.317448, 30.6274146], [50.3197064, 30.6258109], [50.3231839, 30.6243699], [50.325757, 30.6235914], [50.3278233, 30.6224052],
+          [50.3320121, 30.6180374], [50.3346982, 30.6155873], [50.3372747, 30.6128798], [50.3407898, 30.6071143], [50.3472072, 30.6021184],
+          [50.3498978, 30.5985028], [50.3527252, 30.5926341], [50.3562035, 30.5900015], [50.3609002, 30.5869397], [50.3697541, 30.5842227],
+          [50.3743635, 30.5832688], [50.3802592, 30.5838169], [50.3877003, 30.5867966], [50.3926409, 30.5913794], [50.3948847, 30.5934222],
+          [50.4002099, 30.5957108], [50.4043454, 30.5960267], [50.4088912, 30.5960851], [50.4115685, 30.5943283], [50.415779, 30.5910773],
+          [50.4172389, 30.5902419], [50.4144693, 30.5790699], [50.4137234, 30.5760892], [50.4135295, 30.5753467], [50.4133611, 30.5747978],
+          [50.4131566, 30.5742085], [50.4128374, 30.5733497], [50.4126926, 30.5730132], [50.4125052, 30.5726404], [50.4118231, 30.5715482],
+          [50.4113504, 30.5709401], [50.4109277, 30.5704495], [50.4105977, 30.5701136], [50.4103128, 30.569835], [50.4099189, 30.5695288],
+          [50.4094951, 30.5692469], [50.4084915, 30.5686551], [50.4082181, 30.5685038], [50.4078196, 30.5682498], [50.407548, 30.5680459],
+          [50.4072949, 30.5678082], [50.4071016, 30.5675886], [50.4067573, 30.5671723], [50.4065828, 30.5669349], [50.4057691, 30.5658276],
+          [50.4056522, 30.5656713], [50.4052377, 30.5650473], [50.4049773, 30.5646925], [50.404712, 30.5643427], [50.4042452, 30.5637208],
+          [50.4040248, 30.5634106], [50.4038395, 30.5630903], [50.4035928, 30.5625943], [50.4033308, 30.5619911], [50.4031583, 30.5615101],
+          [50.4029247, 30.5606374], [50.4028539, 30.5603402], [50.4027846, 30.5600054], [50.4027198, 30.5596485], [50.4026257, 30.5589242],
+          [50.4025864, 30.5584702], [50.4025596, 30.5579391], [50.4025498, 30.5572573], [50.4025702, 30.5565421], [50.4026342, 30.5555222],
+          [50.4027468, 30.5544717], [50.4028238, 30.5539232], [50.4029533, 30.5532116], [50.4032162, 30.5518617], [50.403341, 30.5513212],
+          [50.403759, 30.5494437], [50.4039745, 30.5484673], [50.4040289, 30.5482224], [50.4042627, 30.5471715], [50.404297, 30.5470171],
+          [50.4044737, 30.5462158], [50.4045387, 30.5459055], [50.4046096, 30.5454908], [50.4046818, 30.5450152], [50.4047027, 30.5448667],
+          [50.4048084, 30.5441139], [50.4048799, 30.5435152], [50.404949, 30.54285], [50.4049797, 30.5423725], [50.4049903, 30.5416816],
+          [50.4049994, 30.5406568], [50.4050022, 30.5403376], [50.4050057, 30.5401394], [50.4050442, 30.5379415], [50.4050787, 30.5366674],
+          [50.4051362, 30.5343458], [50.4051418, 30.5342252], [50.4051604, 30.5338241], [50.405209, 30.5332739], [50.4052544, 30.5328683],
+          [50.4053309, 30.532383], [50.4054289, 30.5319105], [50.405534, 30.5313972], [50.4057153, 30.5306245], [50.4058654, 30.5299867],
+          [50.4061794, 30.5285421], [50.4062516, 30.5281883], [50.4063742, 30.5276528], [50.406531, 30.5270926], [50.4067491, 30.5264708],
+          [50.4069548, 30.5259734], [50.407156, 30.5255043], [50.4074149, 30.5249922], [50.4076471, 30.5245769], [50.40803, 30.5239535],
+          [50.4083832, 30.5234757], [50.4086161, 30.5231689], [50.4087626, 30.5229997], [50.4089583, 30.5227882], [50.4090696, 30.5230667],
+          [50.4093677, 30.5237039], [50.4094772, 30.5239743], [50.4096926, 30.5244069], [50.4103399, 30.5257579], [50.410865, 30.5269192],
+          [50.4113022, 30.5266078], [50.4114441, 30.5265068], [50.4115927, 30.5264165], [50.4123829, 30.525936], [50.4125369, 30.5258418],
+          [50.4126486, 30.5257659], [50.4128924, 30.5256116], [50.4130583, 30.5255066], [50.4132468, 30.5253873], [50.4133276, 30.5253362],
+          [50.4135253, 30.5252144], [50.4140873, 30.5248717], [50.4144356, 30.5246701], [50.4148789, 30.5244047], [50.4150853, 30.5242787],
+          [50.4151858, 30.5242213], [50.4153633, 30.5241132], [50.4154697, 30.5240482], [50.4154873, 30.5240368], [50.4155318, 30.5240096],
+          [50.4161103, 30.52364], [50.4163729, 30.5234814], [50.4166245, 30.523324], [50.4170042, 30.5230982], [50.4171204, 30.5230311],
+          [50.4171956, 30.5229802], [50.4184594, 30.5221551], [50.4190531, 30.5217677], [50.4191437, 30.5217134], [50.419253, 30.5216447],
+          [50.4197377, 30.5213381], [50.4197392, 30.5213372], [50.4200392, 30.5211476], [50.4205117, 30.5208502], [50.4207035, 30.5207288],
+          [50.4210336, 30.5205199], [50.4211276, 30.5204638], [50.4230967, 30.5191955], [50.4235664, 30.5189051], [50.4239364, 30.5186773],
+          [50.4243082, 30.5184394], [50.4246303, 30.5182351], [50.4250706, 30.5179557], [50.4251802, 30.5178925], [50.425274, 30.5178292],
+          [50.4256135, 30.5176176], [50.425895, 30.5174456], [50.4269391, 30.5168008], [50.4270755, 30.516714], [50.4275852, 30.5163982],
+          [50.427984, 30.5161529], [50.4280657, 30.5161125], [50.4282072, 30.5160904], [50.4283621, 30.5160916], [50.4284612, 30.5160898],
+          [50.4288709, 30.5160852], [50.428976, 30.516084], [50.4291086, 30.5160815], [50.4292523, 30.5160773], [50.4297685, 30.5160687],
+          [50.4299194, 30.5160628], [50.4300889, 30.516056], [50.4303948, 30.5160569], [50.4306338, 30.5160615], [50.431139, 30.5160607],
+          [50.4317456, 30.5160685], [50.4319563, 30.5160703], [50.4319939, 30.516071], [50.4322892, 30.5160666], [50.432532, 30.5160673],
+          [50.4333904, 30.5160615], [50.4338189, 30.5160559], [50.4339459, 30.5160519], [50.4341538, 30.5160506], [50.4343399, 30.5160475],
+          [50.4345384, 30.5160442], [50.4358165, 30.5159948], [50.4359472, 30.5159876], [50.4361313, 30.5160394], [50.4365835, 30.5160289],
+          [50.4386519, 30.5160215], [50.4387322, 30.5160215], [50.4388436, 30.5160438], [50.4389135, 30.5160703], [50.4389717, 30.5161089],
+          [50.439023, 30.5161623], [50.4393247, 30.5162079], [50.4393574, 30.5161676], [50.43943, 30.5160835], [50.439543, 30.5159316],
+          [50.4395998, 30.5158574], [50.4397245, 30.5151131], [50.4399169, 30.5139642], [50.4399501, 30.5137946], [50.4399645, 30.5137066],
+          [50.4399504, 30.5136011], [50.4399843, 30.5134281], [50.4401139, 30.5127205], [50.4402315, 30.5120272], [50.4403434, 30.5113095],
+          [50.4403704, 30.5111417], [50.4404104, 30.5109013], [50.440503, 30.5103713], [50.4405717, 30.5099324], [50.4408341, 30.5083331],
+          [50.4408419, 30.5081349], [50.4418727, 30.5017991], [50.441933, 30.5015041], [50.4418941, 30.5014137], [50.441819, 30.501239],
+          [50.4414478, 30.5003799], [50.4414042, 30.5002835], [50.4412631, 30.4999608], [50.4411651, 30.4997485], [50.441069, 30.4995141],
+          [50.4408756, 30.4990635], [50.4408346, 30.4989688], [50.4407067, 30.4986739], [50.4403925, 30.4979492], [50.4403035, 30.4977297],
+          [50.4402184, 30.4975373], [50.4399651, 30.4969815], [50.4399115, 30.4968605], [50.439333, 30.4955532], [50.4392236, 30.495298],
+          [50.4391835, 30.4952164], [50.4386345, 30.4941262], [50.4386004, 30.4940673], [50.4367877, 30.4965444], [50.4361084, 30.497511],
+          [50.4350624, 30.4991485], [50.4345365, 30.4999742], [50.4338725, 30.5011873], [50.4340407, 30.5013264], [50.4334589, 30.5028027],
+          [50.4327106, 30.5052373], [50.4325276, 30.5056811], [50.4323672, 30.5058521], [50.4319593, 30.5062744], [50.4313908, 30.5068637],
+          [50.4310927, 30.507167], [50.4307255, 30.5075713], [50.4304799, 30.5078287], [50.4301075, 30.5081794], [50.4289297, 30.5094546],
+          [50.4288515, 30.5095064], [50.4287732, 30.5095476], [50.4284344, 30.5097023], [50.4282615, 30.5097501], [50.4280745, 30.5097481],
+          [50.4275252, 30.5096838], [50.42727, 30.5096691], [50.426975, 30.509652], [50.4267029, 30.5096615], [50.4264384, 30.5097415],
+          [50.4257429, 30.510242], [50.4249122, 30.5109759], [50.4246898, 30.5111398], [50.4241042, 30.5113891], [50.4226244, 30.5120375],
+          [50.4224156, 30.5121729], [50.4218708, 30.5125932], [50.4212168, 30.5131454], [50.4201804, 30.5139992], [50.4197531, 30.5142947],
+          [50.4195431, 30.5144027], [50.4193439, 30.514397], [50.4191339, 30.5144822], [50.4189456, 30.5145959], [50.4184056, 30.5150754],
+          [50.4181385, 30.5153737], [50.4179105, 30.5147909], [50.421608, 30.5110849], [50.4214155, 30.5104752], [50.4213438, 30.5102966],
+          [50.4215715, 30.5100286], [50.4214296, 30.5091747], [50.4215206, 30.5091534], [50.4219851, 30.5089933], [50.4221848, 30.5086666],
+          [50.422195, 30.5084976], [50.422236, 30.5083354], [50.4223688, 30.507875], [50.4223871, 30.5077166], [50.4222837, 30.507206],
+          [50.4223518, 30.5069932], [50.4221865, 30.5066222], [50.4221342, 30.5064603], [50.4220221, 30.5060186], [50.4219595, 30.5058123],
+          [50.4219257, 30.5057006], [50.4218093, 30.5054844], [50.4215611, 30.5049658], [50.4215143, 30.504883], [50.4220429, 30.5039712],
+          [50.4221006, 30.5036456], [50.4221178, 30.5035486], [50.4217782, 30.5033981], [50.4214539, 30.5032014], [50.4210283, 30.5028227],
+          [50.4207421, 30.5025354], [50.4199749, 30.501713], [50.4184745, 30.5001594], [50.4179476, 30.4996088], [50.4178322, 30.4994666],
+          [50.4174154, 30.499049], [50.4167449, 30.498543], [50.4165509, 30.4984915], [50.4159678, 30.4985705], [50.4159637, 30.4986926],
+          [50.4155465, 30.4991296], [50.4148747, 30.5000431], [50.4146312, 30.5002752], [50.414513, 30.5004195], [50.414132, 30.5009934],
+          [50.4138276, 30.5013053], [50.4129029, 30.5030155], [50.4126663, 30.5035711], [50.4120098, 30.5050349], [50.4117025, 30.5056603],
+          [50.4113519, 30.5068725], [50.4106515, 30.5074052], [50.4106203, 30.5072846], [50.410562, 30.5069819], [50.4105342, 30.5067996],
+          [50.410511, 30.5066297], [50.4104952, 30.5064523], [50.4104773, 30.5063027], [50.4104558, 30.5060012], [50.4104271, 30.5056298],
+          [50.4103978, 30.5051812], [50.4103716, 30.5045856], [50.4103763, 30.5044008], [50.4103905, 30.5041436], [50.4104478, 30.5034912],
+          [50.4106541, 30.5013068], [50.4106891, 30.5008724], [50.4107102, 30.5004683], [50.4107219, 30.4997398], [50.410714, 30.4990286],
+          [50.4107119, 30.4988339], [50.4106785, 30.4979577], [50.4106488, 30.4976048], [50.4106419, 30.4975232], [50.4105796, 30.4970819],
+          [50.4104786, 30.4966051], [50.4103607, 30.4961219], [50.4097444, 30.494013], [50.4097211, 30.4939369], [50.409597, 30.4934926],
+          [50.4093856, 30.492992], [50.4091423, 30.4925941], [50.4090107, 30.4924107], [50.4088225, 30.4922008], [50.4086891, 30.4920825],
+          [50.4086372, 30.4920365], [50.4085327, 30.4919578], [50.4084582, 30.4919058], [50.4083115, 30.4917915], [50.4082484, 30.4917441],
+          [50.4081506, 30.4916705], [50.407748, 30.4913825], [50.4074396, 30.4911637], [50.4071949, 30.4910255], [50.4068969, 30.4908572],
+          [50.406696, 30.4907782], [50.4065667, 30.4907274], [50.4064461, 30.4907006], [50.4062771, 30.4906857], [50.4061031, 30.4906611],
+          [50.4054064, 30.4905732], [50.4049194, 30.4904544], [50.404512, 30.4903243], [50.4040506, 30.490155], [50.4034859, 30.4899013],
+          [50.4029785, 30.4896682], [50.4027356, 30.4895628], [50.4022523, 30.4892876], [50.4017842, 30.4890019], [50.4013219, 30.4886855],
+          [50.4010418, 30.4884151], [50.4007037, 30.4880265], [50.4004882, 30.487746], [50.4001996, 30.4873371], [50.3998932, 30.486885],
+          [50.3998715, 30.4868516], [50.3997369, 30.4866443], [50.399624, 30.4864474], [50.3993172, 30.4860044], [50.3992489, 30.4858804],
+          [50.3991119, 30.4856315], [50.3989696, 30.4853731], [50.3985785, 30.4844012], [50.3984836, 30.4841297], [50.3984252, 30.4839457],
+          [50.3982408, 30.4833641], [50.3979108, 30.4818698], [50.397585, 30.4803392], [50.3975417, 30.4801359], [50.3975013, 30.4799416],
+          [50.3974889, 30.4798709], [50.3974522, 30.4795893], [50.3973924, 30.4789526], [50.3973403, 30.4788131], [50.3974093, 30.478714],
+          [50.3974771, 30.4786459], [50.397541, 30.4786049], [50.3976015, 30.478566], [50.3976911, 30.478534], [50.3978247, 30.4785507],
+          [50.3978946, 30.4785834], [50.3979871, 30.4786656], [50.3982056, 30.4788596], [50.398473, 30.4750207], [50.3983672, 30.4734801],
+          [50.3987318, 30.4730372], [50.3989435, 30.4727051], [50.3990434, 30.4721239], [50.3990199, 30.4716811], [50.3988376, 30.4716718],
+          [50.3986788, 30.4721423], [50.3985671, 30.4724745], [50.3982319, 30.4727974], [50.3981496, 30.4731941], [50.3971224, 30.4729226],
+          [50.3967323, 30.4713397], [50.3966578, 30.4710678], [50.3965238, 30.4705404], [50.3958354, 30.47045], [50.3920632, 30.4714536],
+          [50.3920283, 30.4711163], [50.3920209, 30.4710449], [50.3919886, 30.4707649], [50.3918997, 30.469948], [50.3918752, 30.4697248],
+          [50.3918275, 30.4693318], [50.3918094, 30.4691886], [50.3917929, 30.4690817], [50.3917497, 30.4687968], [50.3916977, 30.4685222],
+          [50.3916308, 30.4681933], [50.3915831, 30.4680074], [50.3915551, 30.4678982], [50.3915065, 30.4677237], [50.3914288, 30.4674603],
+          [50.3913337, 30.4671652], [50.3912062, 30.4668324], [50.3910483, 30.4664806], [50.3908044, 30.4659815], [50.3906017, 30.4655873],
+          [50.3904893, 30.4653737], [50.3905561, 30.4652851], [50.3910334, 30.4645973], [50.3911086, 30.464489], [50.391174, 30.4643947],
+          [50.3911885, 30.4643722], [50.3912116, 30.4643267], [50.3912397, 30.4642676], [50.3912674, 30.4642028], [50.3912781, 30.4641734],
+          [50.391282, 30.4641614], [50.3912847, 30.464152], [50.3912863, 30.4641453], [50.3912872, 30.4641411], [50.3912887, 30.4641338],
+          [50.39129, 30.4641256], [50.3912911, 30.4641178], [50.3912919, 30.4641104], [50.3912924, 30.4641027], [50.3912929, 30.4640954],
+          [50.3912933, 30.4640879], [50.391317, 30.4633979], [50.3913514, 30.4621681], [50.3913555, 30.4620344], [50.3913573, 30.4619767],
+          [50.3913703, 30.4615589], [50.3913738, 30.4614471], [50.3913779, 30.4613204], [50.391389, 30.4609727], [50.3913948, 30.4608015],
+          [50.3913998, 30.460653], [50.3913555, 30.4606485], [50.3911219, 30.4606224], [50.3907051, 30.4605759], [50.3903337, 30.4605334],
+          [50.3897652, 30.4605126], [50.3893603, 30.460479], [50.3890946, 30.4604197], [50.3891028, 30.4603755], [50.3893004, 30.4593045],
+          [50.3881715, 30.4586189], [50.3883154, 30.4579841], [50.3886542, 30.4566732], [50.3879101, 30.4560995], [50.3877425, 30.4559528],
+          [50.3873641, 30.4556348], [50.3870886, 30.4555422], [50.3869749, 30.4555163], [50.3867651, 30.4554491], [50.3865309, 30.4553328],
+          [50.385965, 30.4550035], [50.3854445, 30.4546963], [50.3849407, 30.4544581], [50.3846948, 30.4543286], [50.3846576, 30.4543367],
+          [50.3845994, 30.4544192], [50.3845217, 30.4545191], [50.3843125, 30.4541453], [50.3842851, 30.4540919], [50.3842121, 30.4539417],
+          [50.3842733, 30.4538108], [50.3843099, 30.4537162], [50.3845856, 30.4531037], [50.3848759, 30.4524341], [50.3852149, 30.4517165],
+          [50.3854837, 30.45123], [50.3861902, 30.4499357], [50.3863322, 30.4497586], [50.3863625, 30.449699], [50.3870401, 30.4485041],
+          [50.3869148, 30.4483205], [50.3864401, 30.4475633], [50.385743, 30.4464683], [50.3857016, 30.4462804], [50.3859068, 30.4458457],
+          [50.3858881, 30.4457165], [50.385614, 30.4453821], [50.3845945, 30.4441385], [50.3842871, 30.443746], [50.3834757, 30.442481],
+          [50.3830471, 30.4418368], [50.382897, 30.4415274], [50.382035, 30.4427075], [50.3817247, 30.4421617], [50.3814158, 30.4425788],
+          [50.3812554, 30.4424254], [50.3794668, 30.4394405], [50.3789998, 30.438696], [50.3766977, 30.4362095], [50.3743016, 30.433393],
+          [50.3726522, 30.4312663], [50.3718645, 30.4302718]
+        ]
+      ]
     ],
     population: 250000,
     area: 156.3
   },
   {
     name: "Obolonskyi",
-    coordinates: [
-      [50.5515922, 30.2974856], [50.5501958, 30.2993199], [50.5494098, 30.3003524], [50.5491887, 30.3007348], [50.5486666, 30.3016341],
-      [50.5483002, 30.3022473], [50.5477488, 30.303206], [50.5476842, 30.3030347], [50.5475554, 30.3032594], [50.5469556, 30.3043055],
-      [50.5463205, 30.3054131], [50.5457313, 30.3064405], [50.544526, 30.3085231], [50.5430575, 30.3110689], [50.542523, 30.3119953],
-      [50.5381429, 30.3195737], [50.5361563, 30.3230843], [50.5359674, 30.3234195], [50.5332056, 30.3281346], [50.5330853, 30.3283552],
-      [50.5319445, 30.3303313], [50.5276216, 30.337817], [50.5264066, 30.3399286], [50.5234352, 30.3450776], [50.5233152, 30.3452855],
-      [50.5232588, 30.3453833], [50.5222304, 30.3471652], [50.5215533, 30.3483249], [50.5209364, 30.3493883], [50.5203585, 30.3503531],
-      [50.5198702, 30.3511473], [50.5193895, 30.3518911], [50.5191256, 30.3522926], [50.5188655, 30.3527273], [50.5185495, 30.3534304],
-      [50.5182823, 30.3539954], [50.5175993, 30.3557782], [50.5172489, 30.3568492], [50.5169062, 30.3579971], [50.5165537, 30.3592191],
-      [50.5160885, 30.3607658], [50.516055, 30.3608811], [50.5159629, 30.3611815], [50.5159202, 30.3613359], [50.5159034, 30.3613964],
-      [50.5158229, 30.361698], [50.5157435, 30.3619914], [50.5156125, 30.362758], [50.5155585, 30.3632301], [50.5155332, 30.3637162],
-      [50.5155142, 30.3641823], [50.515524, 30.3647947], [50.5155807, 30.3654935], [50.5156362, 30.3659496], [50.5157107, 30.3663235],
-      [50.5157836, 30.36669], [50.5158504, 30.3669833], [50.5165154, 30.3691203], [50.516714, 30.3697274], [50.5168746, 30.3702818],
-      [50.5169884, 30.3707205], [50.5170821, 30.3712293], [50.5171915, 30.3720048], [50.5172517, 30.3728225], [50.5173789, 30.3744647],
-      [50.5177314, 30.3792161], [50.5178564, 30.3808865], [50.5180773, 30.3838271], [50.5183405, 30.3873784], [50.5185547, 30.3901365],
-      [50.5187578, 30.3929088], [50.5189088, 30.3949221], [50.5189622, 30.3956332], [50.519028, 30.3965107], [50.5190665, 30.3970216],
-      [50.5191181, 30.3977077], [50.5191713, 30.398413], [50.5192247, 30.3991224], [50.5192774, 30.3998224], [50.5193294, 30.4005127],
-      [50.5193824, 30.4012176], [50.5194352, 30.4019185], [50.5194875, 30.4026124], [50.5195402, 30.4033132], [50.5195936, 30.4040224],
-      [50.5196463, 30.4047218], [50.5196989, 30.4054199], [50.5197521, 30.4061263], [50.5198051, 30.4068303], [50.5198573, 30.4075235],
-      [50.5199099, 30.4082218], [50.5199629, 30.4089266], [50.5200138, 30.409619], [50.5200653, 30.4103202], [50.5201169, 30.411021],
-      [50.520169, 30.4117307], [50.5202209, 30.4124368], [50.5202711, 30.4131203], [50.520323, 30.4138266], [50.5203743, 30.414524],
-      [50.5204255, 30.4152215], [50.5204776, 30.4159297], [50.5205287, 30.4166259], [50.5205804, 30.4173288], [50.5206331, 30.4180463],
-      [50.5206842, 30.4187411], [50.5207357, 30.4194414], [50.520787, 30.4201395], [50.5208377, 30.4208295], [50.5208911, 30.4215421],
-      [50.5209456, 30.422241], [50.5209977, 30.4229482], [50.521064, 30.4237754], [50.5211214, 30.4244603], [50.5212, 30.4251671],
-      [50.5213129, 30.4258384], [50.5214627, 30.4264934], [50.5216388, 30.4271334], [50.5218529, 30.4277686], [50.5220957, 30.4283522],
-      [50.5223648, 30.4289273], [50.5226729, 30.4294442], [50.5230067, 30.4299183], [50.5233428, 30.4303829], [50.5236829, 30.430852],
-      [50.5240141, 30.4313148], [50.5243306, 30.431816], [50.5246165, 30.4323592], [50.5248801, 30.4329231], [50.5251089, 30.4335272],
-      [50.5253067, 30.434163], [50.5253993, 30.4345015], [50.525467, 30.4348363], [50.5255929, 30.4354984], [50.5256895, 30.4362057],
-      [50.5257475, 30.4368873], [50.525801, 30.4375755], [50.5258523, 30.4382904], [50.525901, 30.4389994], [50.5259502, 30.439689],
-      [50.5261171, 30.441538], [50.5262654, 30.4431631], [50.5265906, 30.4462976], [50.5266351, 30.4467267], [50.5264972, 30.4467723],
-      [50.5253749, 30.4471502], [50.5252157, 30.4472037], [50.523644, 30.4477965], [50.5209239, 30.4488156], [50.5207876, 30.4488561],
-      [50.52071, 30.4491679], [50.5204733, 30.449381], [50.5202234, 30.4493933], [50.519448, 30.4494977], [50.5184888, 30.4496313],
-      [50.5174724, 30.4497528], [50.5168919, 30.4496785], [50.516861, 30.4496836], [50.5168031, 30.4496954], [50.5163221, 30.4497496],
-      [50.5161364, 30.449762], [50.5160306, 30.4497754], [50.5146981, 30.4499353], [50.5145914, 30.4499522], [50.5144546, 30.4499635],
-      [50.514129, 30.4499918], [50.5133567, 30.450071], [50.5132366, 30.4500884], [50.5126518, 30.4501708], [50.512518, 30.4501857],
-      [50.5120262, 30.4502571], [50.5119617, 30.4502631], [50.5118778, 30.4502723], [50.5116014, 30.4503098], [50.5112783, 30.4503458],
-      [50.5101537, 30.4505101], [50.5100082, 30.4505276], [50.5093505, 30.4506015], [50.5092102, 30.4506193], [50.5084527, 30.4507032],
-      [50.5083731, 30.4507137], [50.5082554, 30.4507214], [50.5080095, 30.4507378], [50.5072872, 30.4507796], [50.5067578, 30.4508058],
-      [50.5065124, 30.4508152], [50.506377, 30.4508228], [50.5060514, 30.4508457], [50.5059034, 30.4508734], [50.5055604, 30.4509274],
-      [50.5053635, 30.4509592], [50.5050828, 30.4510121], [50.5046922, 30.4510903], [50.5043031, 30.4511594], [50.5039383, 30.4512211],
-      [50.5035455, 30.451288], [50.5035074, 30.451296], [50.5031072, 30.4513519], [50.5022537, 30.4514765], [50.5022143, 30.4514837],
-      [50.5016272, 30.4515797], [50.5011997, 30.4516449], [50.5011134, 30.451656], [50.5009648, 30.4516774], [50.5008427, 30.4516922],
-      [50.5005776, 30.4517201], [50.5004676, 30.4517326], [50.5004249, 30.4517478], [50.5003584, 30.4517807], [50.5002879, 30.4518436],
-      [50.5000497, 30.4521215], [50.4997653, 30.4524473], [50.4994548, 30.4528346], [50.4991687, 30.4531773], [50.4983759, 30.4542064],
-      [50.4981636, 30.4544773], [50.4972417, 30.4557128], [50.4971257, 30.4558798], [50.4969482, 30.4561595], [50.4968251, 30.4563599],
-      [50.4967733, 30.4564455], [50.4964235, 30.4571101], [50.4963939, 30.4571604], [50.4960841, 30.4577796], [50.495749, 30.4584292],
-      [50.4956618, 30.4585951], [50.4955035, 30.4589002], [50.495355, 30.4591832], [50.4953064, 30.4592832], [50.4952811, 30.4593363],
-      [50.4952293, 30.4594308], [50.4950781, 30.4596712], [50.4947653, 30.4601544], [50.4944004, 30.4606671], [50.4942249, 30.4609],
-      [50.4938727, 30.4613314], [50.4938343, 30.4613813], [50.4937847, 30.4614388], [50.4929997, 30.4623762], [50.4928653, 30.4625482],
-      [50.4927458, 30.4626915], [50.4926695, 30.4627697], [50.4922141, 30.4632677], [50.4920411, 30.4634455], [50.4918937, 30.4636048],
-      [50.4911549, 30.4643926], [50.4908346, 30.4647723], [50.4906649, 30.464993], [50.4906005, 30.4650787], [50.4905156, 30.4651935],
-      [50.4900805, 30.4659006], [50.4899457, 30.4661219], [50.4898436, 30.4662883], [50.489687, 30.4665508], [50.4897308, 30.4667355],
-      [50.4897379, 30.4667862], [50.489739, 30.4669043], [50.4897238, 30.4670571], [50.48958, 30.468129], [50.4893397, 30.4699203],
-      [50.4892446, 30.4705748], [50.4890528, 30.4719474], [50.4890443, 30.4720143], [50.4888778, 30.4728419], [50.4888903, 30.4729948],
-      [50.4887953, 30.4732893], [50.4887003, 30.4736944], [50.4886344, 30.4741118], [50.488427, 30.4754887], [50.4882351, 30.4767864],
-      [50.4880135, 30.4784211], [50.4879422, 30.4789365], [50.4878068, 30.4798693], [50.4877002, 30.4803689], [50.4875761, 30.4808228],
-      [50.4874056, 30.4812463], [50.4871866, 30.4816423], [50.4869617, 30.4819561], [50.4866264, 30.4823917], [50.4860981, 30.483005],
-      [50.4857197, 30.483444], [50.4854757, 30.4837271], [50.4853135, 30.4839153], [50.4850957, 30.484168], [50.4845983, 30.4847256],
-      [50.4843468, 30.48504], [50.4839774, 30.4854993], [50.4814341, 30.4884974], [50.4811593, 30.4889646], [50.4811066, 30.4890602],
-      [50.4809646, 30.4892911], [50.4807474, 30.4896314], [50.4805396, 30.4899564], [50.4804038, 30.4901688], [50.4801813, 30.4905181],
-      [50.480034, 30.4907507], [50.4799268, 30.490925], [50.4797715, 30.4911665], [50.4794827, 30.4916429], [50.4794261, 30.4917345],
-      [50.4793777, 30.4918171], [50.4790441, 30.4923568], [50.4789687, 30.4924816], [50.4786, 30.4930845], [50.4785873, 30.4931024],
-      [50.4781886, 30.4937436], [50.4779598, 30.4941179], [50.4776693, 30.4946173], [50.4773654, 30.4951296], [50.4772023, 30.4954665],
-      [50.4771645, 30.4956394], [50.4771515, 30.4958229], [50.4771498, 30.4959964], [50.4771604, 30.4961522], [50.4771708, 30.4962306],
-      [50.4771829, 30.4962998], [50.477228, 30.4964845], [50.4774531, 30.4966744], [50.4776845, 30.4968669], [50.4780886, 30.4972404],
-      [50.4781691, 30.4973202], [50.4782315, 30.497382], [50.478347, 30.4974953], [50.4784368, 30.497583], [50.4785462, 30.4977589],
-      [50.4786929, 30.4978941], [50.4787963, 30.4980009], [50.4790188, 30.4981834], [50.479128, 30.4982539], [50.4791925, 30.4982805],
-      [50.4792752, 30.4982923], [50.4794363, 30.498271], [50.479609, 30.4982644], [50.4797705, 30.4982559], [50.4802491, 30.4982308],
-      [50.4807822, 30.4982149], [50.4810784, 30.4982374], [50.4813257, 30.4983055], [50.4814727, 30.4983748], [50.4816245, 30.4984548],
-      [50.4818924, 30.498632], [50.4819679, 30.4986887], [50.4821112, 30.4987963], [50.4822859, 30.4989814], [50.4823677, 30.4990681],
-      [50.4825635, 30.4993415], [50.4827171, 30.4995787], [50.4827425, 30.4996221], [50.4829317, 30.4999449], [50.4830743, 30.500238],
-      [50.4831998, 30.5005646], [50.4833007, 30.5009106], [50.4833975, 30.5013461], [50.483462, 30.5017499], [50.4835049, 30.5021698],
-      [50.4835148, 30.5022671], [50.4835326, 30.5025875], [50.4835708, 30.5033177], [50.4835912, 30.5043978], [50.4835937, 30.5049403],
-      [50.4835962, 30.5054914], [50.4835972, 30.5061218], [50.4835903, 30.5066358], [50.4835747, 30.5073866], [50.4835403, 30.5081522],
-      [50.4834547, 30.5093207], [50.483447, 30.5094256], [50.4834329, 30.509615], [50.4833913, 30.5100724], [50.4832826, 30.5111639],
-      [50.4830491, 30.5135089], [50.4829744, 30.5144202], [50.4829135, 30.5153329], [50.4828679, 30.5162258], [50.482829, 30.5169883],
-      [50.4827929, 30.517797], [50.482771, 30.5185264], [50.4827523, 30.5196005], [50.4827488, 30.5201573], [50.4827463, 30.5205564],
-      [50.4827455, 30.5206773], [50.482743, 30.5208561], [50.4827405, 30.5210433], [50.4827346, 30.5214837], [50.4827217, 30.5224366],
-      [50.4827073, 30.5240173], [50.4827033, 30.5245762], [50.4826961, 30.5255693], [50.4826914, 30.5260713], [50.4830076, 30.526067],
-      [50.4830483, 30.5260732], [50.4830524, 30.5264993], [50.4830601, 30.526927], [50.4830661, 30.52709], [50.4830684, 30.5271457],
-      [50.4830691, 30.5271618], [50.4830729, 30.5272396], [50.4830823, 30.5273985], [50.4830883, 30.5274836], [50.4830929, 30.5275561],
-      [50.4831032, 30.5276949], [50.48311, 30.5277706], [50.4831184, 30.5278577], [50.4831292, 30.5279618], [50.4831416, 30.5280697],
-      [50.4831553, 30.5281797], [50.4831762, 30.5283413], [50.4831864, 30.5284211], [50.4831976, 30.5284971], [50.483224, 30.5286645],
-      [50.4832475, 30.5288133], [50.483282, 30.5290058], [50.4833136, 30.5291855], [50.4833764, 30.5295404], [50.4834506, 30.5299504],
-      [50.4835032, 30.5302487], [50.4835282, 30.5304066], [50.483549, 30.5305487], [50.4835708, 30.5306916], [50.4835877, 30.5308178],
-      [50.4836153, 30.5310445], [50.4836261, 30.5311605], [50.4836354, 30.5312659], [50.4836483, 30.5314193], [50.4836551, 30.5315299],
-      [50.4836624, 30.5316754], [50.4836657, 30.5317677], [50.48367, 30.5318934], [50.483673, 30.5320436], [50.4836756, 30.5322166],
-      [50.4836782, 30.5324238], [50.4836922, 30.5333545], [50.483696, 30.5347231], [50.4836881, 30.5364861], [50.4836902, 30.5374006],
-      [50.483758, 30.5422695], [50.4848381, 30.5421318], [50.4861366, 30.5413503], [50.4881436, 30.5390757], [50.4896527, 30.5377898],
-      [50.4909308, 30.5367007], [50.4928897, 30.5348271], [50.4969072, 30.5312561], [50.4987111, 30.5283762], [50.5010884, 30.5258397],
-      [50.502551, 30.5254902], [50.5040136, 30.5253982], [50.506857, 30.5260295], [50.5097158, 30.5271667], [50.512602, 30.5292052],
-      [50.5155731, 30.5313921], [50.5188431, 30.5341202], [50.5238578, 30.5375093], [50.5244931, 30.5379596], [50.5231983, 30.5409426],
-      [50.5248493, 30.5429792], [50.5271172, 30.5443901], [50.529327, 30.5445135], [50.5320311, 30.5436766], [50.5344486, 30.5414611],
-      [50.5363887, 30.5385268], [50.5375888, 30.5363327], [50.5383491, 30.5344176], [50.539447, 30.5333072], [50.5403368, 30.5321431],
-      [50.5409148, 30.5272967], [50.5412334, 30.5268216], [50.5428015, 30.5239423], [50.5453013, 30.5176759], [50.5468174, 30.5127668],
-      [50.5486445, 30.5081749], [50.5516168, 30.502038], [50.5545343, 30.4983902], [50.5568791, 30.4963302], [50.5599327, 30.4951286],
-      [50.566794, 30.4938307], [50.5670784, 30.4906279], [50.5671226, 30.4904079], [50.5676305, 30.4903091], [50.5687743, 30.4877274],
-      [50.568899, 30.487446], [50.5677784, 30.4841861], [50.5677462, 30.4840923], [50.5680952, 30.4840975], [50.5684501, 30.4834787],
-      [50.5686542, 30.4837668], [50.5688876, 30.4841839], [50.5693173, 30.4849941], [50.5722659, 30.4816591], [50.5722336, 30.4806157],
-      [50.5722012, 30.4795087], [50.572133, 30.477183], [50.5721209, 30.4727996], [50.5721207, 30.4727105], [50.5721202, 30.4725204],
-      [50.5721197, 30.4723357], [50.5721093, 30.4719631], [50.5720047, 30.4698389], [50.5719936, 30.469614], [50.5717474, 30.4646125],
-      [50.575335, 30.4640173], [50.5764629, 30.4638262], [50.5813016, 30.4634149], [50.5829669, 30.4632733], [50.5843452, 30.4631088],
-      [50.5839894, 30.462212], [50.5846436, 30.4568505], [50.5847949, 30.4556322], [50.5849765, 30.4541343], [50.5856997, 30.4482157],
-      [50.585792, 30.4474608], [50.5857992, 30.4472495], [50.5858052, 30.4470757], [50.5858014, 30.4468006], [50.5858587, 30.4442256],
-      [50.5858693, 30.4428583], [50.5858876, 30.4404922], [50.5859015, 30.4387057], [50.5859453, 30.4310477], [50.5860182, 30.4237627],
-      [50.5860782, 30.4161418], [50.5861371, 30.4085739], [50.5862388, 30.4010732], [50.586288, 30.3936537], [50.5863636, 30.3859229],
-      [50.5864191, 30.3784573], [50.5864327, 30.3770415], [50.5864925, 30.3708094], [50.5857995, 30.3707921], [50.5822791, 30.3707044],
-      [50.5807911, 30.3706818], [50.5779542, 30.3706682], [50.5756376, 30.3706489], [50.573564, 30.3706473], [50.5736356, 30.3632017],
-      [50.573641, 30.3626403], [50.5736529, 30.3614982], [50.5736724, 30.3594091], [50.5736835, 30.3582205], [50.5737036, 30.3561364],
-      [50.5737104, 30.3554312], [50.573858, 30.3478418], [50.5738421, 30.3392026], [50.5730426, 30.3315724], [50.5722595, 30.3240975],
-      [50.5714801, 30.3166577], [50.5706815, 30.3090346], [50.5704924, 30.3072295], [50.5696067, 30.3104113], [50.5676333, 30.3174852],
-      [50.5675308, 30.3178528], [50.5667905, 30.3203663], [50.5659907, 30.3226526], [50.5649312, 30.3257908], [50.5645512, 30.3269164],
-      [50.5639959, 30.3263873], [50.5637504, 30.3266789], [50.5628646, 30.3256438], [50.5622946, 30.3266025], [50.5593042, 30.331632],
-      [50.5590067, 30.3341632], [50.5589246, 30.3350819], [50.5586642, 30.3379966], [50.5573201, 30.3415751], [50.5564009, 30.3412187],
-      [50.5563302, 30.3403825], [50.5564615, 30.3371212], [50.5561509, 30.3370672], [50.5564231, 30.3359065], [50.5565509, 30.3357381],
-      [50.5569011, 30.3352767], [50.5570641, 30.3333927], [50.5567211, 30.331472], [50.5559331, 30.3316257], [50.5557929, 30.331653],
-      [50.5557885, 30.330677], [50.555509, 30.3308058], [50.5550234, 30.3312537], [50.5550966, 30.331589], [50.5545908, 30.3317498],
-      [50.5542679, 30.3308032], [50.5532371, 30.3319539], [50.5532329, 30.3319119], [50.5531226, 30.3308046], [50.5529176, 30.3297466],
-      [50.5528367, 30.3297488], [50.5516494, 30.3320239], [50.5513942, 30.3324985], [50.5513323, 30.3326022], [50.5513003, 30.3326558],
-      [50.5511676, 30.3324043], [50.5507195, 30.3316337], [50.5499927, 30.3305225], [50.5497922, 30.3300909], [50.5495996, 30.3296376],
-      [50.5495417, 30.3294311], [50.5495093, 30.3292004], [50.5494931, 30.3288142], [50.5495127, 30.3285406], [50.549557, 30.3282348],
-      [50.5496646, 30.3277605], [50.5500908, 30.3259993], [50.5489085, 30.3261668], [50.5482312, 30.3262541], [50.5477887, 30.3263111],
-      [50.5462477, 30.3264556], [50.5480723, 30.3229484], [50.5490198, 30.3214832], [50.5500123, 30.3198437], [50.5508119, 30.3183625],
-      [50.5515954, 30.3170618], [50.5524198, 30.315532], [50.5544386, 30.3121686], [50.5549459, 30.3113926], [50.5552494, 30.3111361],
-      [50.5552066, 30.3108522], [50.5550841, 30.3108878], [50.5550368, 30.3106428], [50.555137, 30.3104832], [50.5550075, 30.309187],
-      [50.5547819, 30.3073539], [50.5545896, 30.3064923], [50.55445, 30.305867], [50.5542358, 30.3049859], [50.5542051, 30.3048595],
-      [50.553425, 30.3017901], [50.5533136, 30.3011418], [50.5537891, 30.2998944], [50.5544188, 30.298026], [50.5529373, 30.2978685],
-      [50.5521284, 30.2977307], [50.5515922, 30.2974856]
+    polygons: [
+      [
+        [
+          [50.5515922, 30.2974856], [50.5501958, 30.2993199], [50.5494098, 30.3003524], [50.5491887, 30.3007348], [50.5486666, 30.3016341],
+          [50.5483002, 30.3022473], [50.5477488, 30.303206], [50.5476842, 30.3030347], [50.5475554, 30.3032594], [50.5469556, 30.3043055],
+          [50.5463205, 30.3054131], [50.5457313, 30.3064405], [50.544526, 30.3085231], [50.5430575, 30.3110689], [50.542523, 30.3119953],
+          [50.5381429, 30.3195737], [50.5361563, 30.3230843], [50.5359674, 30.3234195], [50.5332056, 30.3281346], [50.5330853, 30.3283552],
+          [50.5319445, 30.3303313], [50.5276216, 30.337817], [50.5264066, 30.3399286], [50.5234352, 30.3450776], [50.5233152, 30.3452855],
+          [50.5232588, 30.3453833], [50.5222304, 30.3471652], [50.5215533, 30.3483249], [50.5209364, 30.3493883], [50.5203585, 30.3503531],
+          [50.5198702, 30.3511473], [50.5193895, 30.3518911], [50.5191256, 30.3522926], [50.5188655, 30.3527273], [50.5185495, 30.3534304],
+          [50.5182823, 30.3539954], [50.5175993, 30.3557782], [50.5172489, 30.3568492], [50.5169062, 30.3579971], [50.5165537, 30.3592191],
+          [50.5160885, 30.3607658], [50.516055, 30.3608811], [50.5159629, 30.3611815], [50.5159202, 30.3613359], [50.5159034, 30.3613964],
+          [50.5158229, 30.361698], [50.5157435, 30.3619914], [50.5156125, 30.362758], [50.5155585, 30.3632301], [50.5155332, 30.3637162],
+          [50.5155142, 30.3641823], [50.515524, 30.3647947], [50.5155807, 30.3654935], [50.5156362, 30.3659496], [50.5157107, 30.3663235],
+          [50.5157836, 30.36669], [50.5158504, 30.3669833], [50.5165154, 30.3691203], [50.516714, 30.3697274], [50.5168746, 30.3702818],
+          [50.5169884, 30.3707205], [50.5170821, 30.3712293], [50.5171915, 30.3720048], [50.5172517, 30.3728225], [50.5173789, 30.3744647],
+          [50.5177314, 30.3792161], [50.5178564, 30.3808865], [50.5180773, 30.3838271], [50.5183405, 30.3873784], [50.5185547, 30.3901365],
+          [50.5187578, 30.3929088], [50.5189088, 30.3949221], [50.5189622, 30.3956332], [50.519028, 30.3965107], [50.5190665, 30.3970216],
+          [50.5191181, 30.3977077], [50.5191713, 30.398413], [50.5192247, 30.3991224], [50.5192774, 30.3998224], [50.5193294, 30.4005127],
+          [50.5193824, 30.4012176], [50.5194352, 30.4019185], [50.5194875, 30.4026124], [50.5195402, 30.4033132], [50.5195936, 30.4040224],
+          [50.5196463, 30.4047218], [50.5196989, 30.4054199], [50.5197521, 30.4061263], [50.5198051, 30.4068303], [50.5198573, 30.4075235],
+          [50.5199099, 30.4082218], [50.5199629, 30.4089266], [50.5200138, 30.409619], [50.5200653, 30.4103202], [50.5201169, 30.411021],
+          [50.520169, 30.4117307], [50.5202209, 30.4124368], [50.5202711, 30.4131203], [50.520323, 30.4138266], [50.5203743, 30.414524],
+          [50.5204255, 30.4152215], [50.5204776, 30.4159297], [50.5205287, 30.4166259], [50.5205804, 30.4173288], [50.5206331, 30.4180463],
+          [50.5206842, 30.4187411], [50.5207357, 30.4194414], [50.520787, 30.4201395], [50.5208377, 30.4208295], [50.5208911, 30.4215421],
+          [50.5209456, 30.422241], [50.5209977, 30.4229482], [50.521064, 30.4237754], [50.5211214, 30.4244603], [50.5212, 30.4251671],
+          [50.5213129, 30.4258384], [50.5214627, 30.4264934], [50.5216388, 30.4271334], [50.5218529, 30.4277686], [50.5220957, 30.4283522],
+          [50.5223648, 30.4289273], [50.5226729, 30.4294442], [50.5230067, 30.4299183], [50.5233428, 30.4303829], [50.5236829, 30.430852],
+          [50.5240141, 30.4313148], [50.5243306, 30.431816], [50.5246165, 30.4323592], [50.5248801, 30.4329231], [50.5251089, 30.4335272],
+          [50.5253067, 30.434163], [50.5253993, 30.4345015], [50.525467, 30.4348363], [50.5255929, 30.4354984], [50.5256895, 30.4362057],
+          [50.5257475, 30.4368873], [50.525801, 30.4375755], [50.5258523, 30.4382904], [50.525901, 30.4389994], [50.5259502, 30.439689],
+          [50.5261171, 30.441538], [50.5262654, 30.4431631], [50.5265906, 30.4462976], [50.5266351, 30.4467267], [50.5264972, 30.4467723],
+          [50.5253749, 30.4471502], [50.5252157, 30.4472037], [50.523644, 30.4477965], [50.5209239, 30.4488156], [50.5207876, 30.4488561],
+          [50.52071, 30.4491679], [50.5204733, 30.449381], [50.5202234, 30.4493933], [50.519448, 30.4494977], [50.5184888, 30.4496313],
+          [50.5174724, 30.4497528], [50.5168919, 30.4496785], [50.516861, 30.4496836], [50.5168031, 30.4496954], [50.5163221, 30.4497496],
+          [50.5161364, 30.449762], [50.5160306, 30.4497754], [50.5146981, 30.4499353], [50.5145914, 30.4499522], [50.5144546, 30.4499635],
+          [50.514129, 30.4499918], [50.5133567, 30.450071], [50.5132366, 30.4500884], [50.5126518, 30.4501708], [50.512518, 30.4501857],
+          [50.5120262, 30.4502571], [50.5119617, 30.4502631], [50.5118778, 30.4502723], [50.5116014, 30.4503098], [50.5112783, 30.4503458],
+          [50.5101537, 30.4505101], [50.5100082, 30.4505276], [50.5093505, 30.4506015], [50.5092102, 30.4506193], [50.5084527, 30.4507032],
+          [50.5083731, 30.4507137], [50.5082554, 30.4507214], [50.5080095, 30.4507378], [50.5072872, 30.4507796], [50.5067578, 30.4508058],
+          [50.5065124, 30.4508152], [50.506377, 30.4508228], [50.5060514, 30.4508457], [50.5059034, 30.4508734], [50.5055604, 30.4509274],
+          [50.5053635, 30.4509592], [50.5050828, 30.4510121], [50.5046922, 30.4510903], [50.5043031, 30.4511594], [50.5039383, 30.4512211],
+          [50.5035455, 30.451288], [50.5035074, 30.451296], [50.5031072, 30.4513519], [50.5022537, 30.4514765], [50.5022143, 30.4514837],
+          [50.5016272, 30.4515797], [50.5011997, 30.4516449], [50.5011134, 30.451656], [50.5009648, 30.4516774], [50.5008427, 30.4516922],
+          [50.5005776, 30.4517201], [50.5004676, 30.4517326], [50.5004249, 30.4517478], [50.5003584, 30.4517807], [50.5002879, 30.4518436],
+          [50.5000497, 30.4521215], [50.4997653, 30.4524473], [50.4994548, 30.4528346], [50.4991687, 30.4531773], [50.4983759, 30.4542064],
+          [50.4981636, 30.4544773], [50.4972417, 30.4557128], [50.4971257, 30.4558798], [50.4969482, 30.4561595], [50.4968251, 30.4563599],
+          [50.4967733, 30.4564455], [50.4964235, 30.4571101], [50.4963939, 30.4571604], [50.4960841, 30.4577796], [50.495749, 30.4584292],
+          [50.4956618, 30.4585951], [50.4955035, 30.4589002], [50.495355, 30.4591832], [50.4953064, 30.4592832], [50.4952811, 30.4593363],
+          [50.4952293, 30.4594308], [50.4950781, 30.4596712], [50.4947653, 30.4601544], [50.4944004, 30.4606671], [50.4942249, 30.4609],
+          [50.4938727, 30.4613314], [50.4938343, 30.4613813], [50.4937847, 30.4614388], [50.4929997, 30.4623762], [50.4928653, 30.4625482],
+          [50.4927458, 30.4626915], [50.4926695, 30.4627697], [50.4922141, 30.4632677], [50.4920411, 30.4634455], [50.4918937, 30.4636048],
+          [50.4911549, 30.4643926], [50.4908346, 30.4647723], [50.4906649, 30.464993], [50.4906005, 30.4650787], [50.4905156, 30.4651935],
+          [50.4900805, 30.4659006], [50.4899457, 30.4661219], [50.4898436, 30.4662883], [50.489687, 30.4665508], [50.4897308, 30.4667355],
+          [50.4897379, 30.4667862], [50.489739, 30.4669043], [50.4897238, 30.4670571], [50.48958, 30.468129], [50.4893397, 30.4699203],
+          [50.4892446, 30.4705748], [50.4890528, 30.4719474], [50.4890443, 30.4720143], [50.4888778, 30.4728419], [50.4888903, 30.4729948],
+          [50.4887953, 30.4732893], [50.4887003, 30.4736944], [50.4886344, 30.4741118], [50.488427, 30.4754887], [50.4882351, 30.4767864],
+          [50.4880135, 30.4784211], [50.4879422, 30.4789365], [50.4878068, 30.4798693], [50.4877002, 30.4803689], [50.4875761, 30.4808228],
+          [50.4874056, 30.4812463], [50.4871866, 30.4816423], [50.4869617, 30.4819561], [50.4866264, 30.4823917], [50.4860981, 30.483005],
+          [50.4857197, 30.483444], [50.4854757, 30.4837271], [50.4853135, 30.4839153], [50.4850957, 30.484168], [50.4845983, 30.4847256],
+          [50.4843468, 30.48504], [50.4839774, 30.4854993], [50.4814341, 30.4884974], [50.4811593, 30.4889646], [50.4811066, 30.4890602],
+          [50.4809646, 30.4892911], [50.4807474, 30.4896314], [50.4805396, 30.4899564], [50.4804038, 30.4901688], [50.4801813, 30.4905181],
+          [50.480034, 30.4907507], [50.4799268, 30.490925], [50.4797715, 30.4911665], [50.4794827, 30.4916429], [50.4794261, 30.4917345],
+          [50.4793777, 30.4918171], [50.4790441, 30.4923568], [50.4789687, 30.4924816], [50.4786, 30.4930845], [50.4785873, 30.4931024],
+          [50.4781886, 30.4937436], [50.4779598, 30.4941179], [50.4776693, 30.4946173], [50.4773654, 30.4951296], [50.4772023, 30.4954665],
+          [50.4771645, 30.4956394], [50.4771515, 30.4958229], [50.4771498, 30.4959964], [50.4771604, 30.4961522], [50.4771708, 30.4962306],
+          [50.4771829, 30.4962998], [50.477228, 30.4964845], [50.4774531, 30.4966744], [50.4776845, 30.4968669], [50.4780886, 30.4972404],
+          [50.4781691, 30.4973202], [50.4782315, 30.497382], [50.478347, 30.4974953], [50.4784368, 30.497583], [50.4785462, 30.4977589],
+          [50.4786929, 30.4978941], [50.4787963, 30.4980009], [50.4790188, 30.4981834], [50.479128, 30.4982539], [50.4791925, 30.4982805],
+          [50.4792752, 30.4982923], [50.4794363, 30.498271], [50.479609, 30.4982644], [50.4797705, 30.4982559], [50.4802491, 30.4982308],
+          [50.4807822, 30.4982149], [50.4810784, 30.4982374], [50.4813257, 30.4983055], [50.4814727, 30.4983748], [50.4816245, 30.4984548],
+          [50.4818924, 30.498632], [50.4819679, 30.4986887], [50.4821112, 30.4987963], [50.4822859, 30.4989814], [50.4823677, 30.4990681],
+          [50.4825635, 30.4993415], [50.4827171, 30.4995787], [50.4827425, 30.4996221], [50.4829317, 30.4999449], [50.4830743, 30.500238],
+          [50.4831998, 30.5005646], [50.4833007, 30.5009106], [50.4833975, 30.5013461], [50.483462, 30.5017499], [50.4835049, 30.5021698],
+          [50.4835148, 30.5022671], [50.4835326, 30.5025875], [50.4835708, 30.5033177], [50.4835912, 30.5043978], [50.4835937, 30.5049403],
+          [50.4835962, 30.5054914], [50.4835972, 30.5061218], [50.4835903, 30.5066358], [50.4835747, 30.5073866], [50.4835403, 30.5081522],
+          [50.4834547, 30.5093207], [50.483447, 30.5094256], [50.4834329, 30.509615], [50.4833913, 30.5100724], [50.4832826, 30.5111639],
+          [50.4830491, 30.5135089], [50.4829744, 30.5144202], [50.4829135, 30.5153329], [50.4828679, 30.5162258], [50.482829, 30.5169883],
+          [50.4827929, 30.517797], [50.482771, 30.5185264], [50.4827523, 30.5196005], [50.4827488, 30.5201573], [50.4827463, 30.5205564],
+          [50.4827455, 30.5206773], [50.482743, 30.5208561], [50.4827405, 30.5210433], [50.4827346, 30.5214837], [50.4827217, 30.5224366],
+          [50.4827073, 30.5240173], [50.4827033, 30.5245762], [50.4826961, 30.5255693], [50.4826914, 30.5260713], [50.4830076, 30.526067],
+          [50.4830483, 30.5260732], [50.4830524, 30.5264993], [50.4830601, 30.526927], [50.4830661, 30.52709], [50.4830684, 30.5271457],
+          [50.4830691, 30.5271618], [50.4830729, 30.5272396], [50.4830823, 30.5273985], [50.4830883, 30.5274836], [50.4830929, 30.5275561],
+          [50.4831032, 30.5276949], [50.48311, 30.5277706], [50.4831184, 30.5278577], [50.4831292, 30.5279618], [50.4831416, 30.5280697],
+          [50.4831553, 30.5281797], [50.4831762, 30.5283413], [50.4831864, 30.5284211], [50.4831976, 30.5284971], [50.483224, 30.5286645],
+          [50.4832475, 30.5288133], [50.483282, 30.5290058], [50.4833136, 30.5291855], [50.4833764, 30.5295404], [50.4834506, 30.5299504],
+          [50.4835032, 30.5302487], [50.4835282, 30.5304066], [50.483549, 30.5305487], [50.4835708, 30.5306916], [50.4835877, 30.5308178],
+          [50.4836153, 30.5310445], [50.4836261, 30.5311605], [50.4836354, 30.5312659], [50.4836483, 30.5314193], [50.4836551, 30.5315299],
+          [50.4836624, 30.5316754], [50.4836657, 30.5317677], [50.48367, 30.5318934], [50.483673, 30.5320436], [50.4836756, 30.5322166],
+          [50.4836782, 30.5324238], [50.4836922, 30.5333545], [50.483696, 30.5347231], [50.4836881, 30.5364861], [50.4836902, 30.5374006],
+          [50.483758, 30.5422695], [50.4848381, 30.5421318], [50.4861366, 30.5413503], [50.4881436, 30.5390757], [50.4896527, 30.5377898],
+          [50.4909308, 30.5367007], [50.4928897, 30.5348271], [50.4969072, 30.5312561], [50.4987111, 30.5283762], [50.5010884, 30.5258397],
+          [50.502551, 30.5254902], [50.5040136, 30.5253982], [50.506857, 30.5260295], [50.5097158, 30.5271667], [50.512602, 30.5292052],
+          [50.5155731, 30.5313921], [50.5188431, 30.5341202], [50.5238578, 30.5375093], [50.5244931, 30.5379596], [50.5231983, 30.5409426],
+          [50.5248493, 30.5429792], [50.5271172, 30.5443901], [50.529327, 30.5445135], [50.5320311, 30.5436766], [50.5344486, 30.5414611],
+          [50.5363887, 30.5385268], [50.5375888, 30.5363327], [50.5383491, 30.5344176], [50.539447, 30.5333072], [50.5403368, 30.5321431],
+          [50.5409148, 30.5272967], [50.5412334, 30.5268216], [50.5428015, 30.5239423], [50.5453013, 30.5176759], [50.5468174, 30.5127668],
+          [50.5486445, 30.5081749], [50.5516168, 30.502038], [50.5545343, 30.4983902], [50.5568791, 30.4963302], [50.5599327, 30.4951286],
+          [50.566794, 30.4938307], [50.5670784, 30.4906279], [50.5671226, 30.4904079], [50.5676305, 30.4903091], [50.5687743, 30.4877274],
+          [50.568899, 30.487446], [50.5677784, 30.4841861], [50.5677462, 30.4840923], [50.5680952, 30.4840975], [50.5684501, 30.4834787],
+          [50.5686542, 30.4837668], [50.5688876, 30.4841839], [50.5693173, 30.4849941], [50.5722659, 30.4816591], [50.5722336, 30.4806157],
+          [50.5722012, 30.4795087], [50.572133, 30.477183], [50.5721209, 30.4727996], [50.5721207, 30.4727105], [50.5721202, 30.4725204],
+          [50.5721197, 30.4723357], [50.5721093, 30.4719631], [50.5720047, 30.4698389], [50.5719936, 30.469614], [50.5717474, 30.4646125],
+          [50.575335, 30.4640173], [50.5764629, 30.4638262], [50.5813016, 30.4634149], [50.5829669, 30.4632733], [50.5843452, 30.4631088],
+          [50.5839894, 30.462212], [50.5846436, 30.4568505], [50.5847949, 30.4556322], [50.5849765, 30.4541343], [50.5856997, 30.4482157],
+          [50.585792, 30.4474608], [50.5857992, 30.4472495], [50.5858052, 30.4470757], [50.5858014, 30.4468006], [50.5858587, 30.4442256],
+          [50.5858693, 30.4428583], [50.5858876, 30.4404922], [50.5859015, 30.4387057], [50.5859453, 30.4310477], [50.5860182, 30.4237627],
+          [50.5860782, 30.4161418], [50.5861371, 30.4085739], [50.5862388, 30.4010732], [50.586288, 30.3936537], [50.5863636, 30.3859229],
+          [50.5864191, 30.3784573], [50.5864327, 30.3770415], [50.5864925, 30.3708094], [50.5857995, 30.3707921], [50.5822791, 30.3707044],
+          [50.5807911, 30.3706818], [50.5779542, 30.3706682], [50.5756376, 30.3706489], [50.573564, 30.3706473], [50.5736356, 30.3632017],
+          [50.573641, 30.3626403], [50.5736529, 30.3614982], [50.5736724, 30.3594091], [50.5736835, 30.3582205], [50.5737036, 30.3561364],
+          [50.5737104, 30.3554312], [50.573858, 30.3478418], [50.5738421, 30.3392026], [50.5730426, 30.3315724], [50.5722595, 30.3240975],
+          [50.5714801, 30.3166577], [50.5706815, 30.3090346], [50.5704924, 30.3072295], [50.5696067, 30.3104113], [50.5676333, 30.3174852],
+          [50.5675308, 30.3178528], [50.5667905, 30.3203663], [50.5659907, 30.3226526], [50.5649312, 30.3257908], [50.5645512, 30.3269164],
+          [50.5639959, 30.3263873], [50.5637504, 30.3266789], [50.5628646, 30.3256438], [50.5622946, 30.3266025], [50.5593042, 30.331632],
+          [50.5590067, 30.3341632], [50.5589246, 30.3350819], [50.5586642, 30.3379966], [50.5573201, 30.3415751], [50.5564009, 30.3412187],
+          [50.5563302, 30.3403825], [50.5564615, 30.3371212], [50.5561509, 30.3370672], [50.5564231, 30.3359065], [50.5565509, 30.3357381],
+          [50.5569011, 30.3352767], [50.5570641, 30.3333927], [50.5567211, 30.331472], [50.5559331, 30.3316257], [50.5557929, 30.331653],
+          [50.5557885, 30.330677], [50.555509, 30.3308058], [50.5550234, 30.3312537], [50.5550966, 30.331589], [50.5545908, 30.3317498],
+          [50.5542679, 30.3308032], [50.5532371, 30.3319539], [50.5532329, 30.3319119], [50.5531226, 30.3308046], [50.5529176, 30.3297466],
+          [50.5528367, 30.3297488], [50.5516494, 30.3320239], [50.5513942, 30.3324985], [50.5513323, 30.3326022], [50.5513003, 30.3326558],
+          [50.5511676, 30.3324043], [50.5507195, 30.3316337], [50.5499927, 30.3305225], [50.5497922, 30.3300909], [50.5495996, 30.3296376],
+          [50.5495417, 30.3294311], [50.5495093, 30.3292004], [50.5494931, 30.3288142], [50.5495127, 30.3285406], [50.549557, 30.3282348],
+          [50.5496646, 30.3277605], [50.5500908, 30.3259993], [50.5489085, 30.3261668], [50.5482312, 30.3262541], [50.5477887, 30.3263111],
+          [50.5462477, 30.3264556], [50.5480723, 30.3229484], [50.5490198, 30.3214832], [50.5500123, 30.3198437], [50.5508119, 30.3183625],
+          [50.5515954, 30.3170618], [50.5524198, 30.315532], [50.5544386, 30.3121686], [50.5549459, 30.3113926], [50.5552494, 30.3111361],
+          [50.5552066, 30.3108522], [50.5550841, 30.3108878], [50.5550368, 30.3106428], [50.555137, 30.3104832], [50.5550075, 30.309187],
+          [50.5547819, 30.3073539], [50.5545896, 30.3064923], [50.55445, 30.305867], [50.5542358, 30.3049859], [50.5542051, 30.3048595],
+          [50.553425, 30.3017901], [50.5533136, 30.3011418], [50.5537891, 30.2998944], [50.5544188, 30.298026], [50.5529373, 30.2978685],
+          [50.5521284, 30.2977307], [50.5515922, 30.2974856]
+        ]
+      ]
     ],
     population: 320000,
     area: 110.5
   },
   {
     name: "Podilskyi",
-    coordinates: [
-      [50.5157435, 30.3619914], [50.5153933, 30.3620395], [50.5106432, 30.3629581], [50.505521, 30.3639494], [50.5044659, 30.3641628],
-      [50.5034107, 30.3643556], [50.5017163, 30.364686], [50.5013134, 30.3647617], [50.5005297, 30.3649063], [50.5002188, 30.3649751],
-      [50.4991995, 30.3650643], [50.4987011, 30.3651116], [50.4984605, 30.3655168], [50.4981767, 30.3663488], [50.4980249, 30.3668134],
-      [50.4979495, 30.3670217], [50.4978448, 30.3672947], [50.4978075, 30.3673919], [50.4977348, 30.3675918], [50.497617, 30.3679159],
-      [50.4970173, 30.3696182], [50.4969953, 30.3696805], [50.4969051, 30.369915], [50.4967428, 30.370219], [50.496731, 30.3702461],
-      [50.4967195, 30.370277], [50.4966536, 30.3704546], [50.4963875, 30.3711713], [50.4962891, 30.3714408], [50.4960495, 30.3721103],
-      [50.4957826, 30.3727978], [50.4955205, 30.3734543], [50.4953355, 30.3739263], [50.4945541, 30.3759188], [50.4944247, 30.3762489],
-      [50.4935901, 30.378377], [50.4934317, 30.378781], [50.493348, 30.3789976], [50.4932762, 30.3791836], [50.4930919, 30.3796606],
-      [50.4929668, 30.3799759], [50.4927889, 30.380424], [50.4924382, 30.3813242], [50.4921503, 30.382068], [50.491818, 30.3829249],
-      [50.4915144, 30.3837031], [50.4914791, 30.3837934], [50.4913037, 30.3842428], [50.4907013, 30.3857916], [50.4905738, 30.3861195],
-      [50.490483, 30.3863644], [50.4901876, 30.3871134], [50.4901653, 30.3871699], [50.4894351, 30.3890471], [50.489199, 30.389654],
-      [50.4890103, 30.3901391], [50.4886244, 30.3911313], [50.4882594, 30.3920695], [50.4879076, 30.3929739], [50.4876064, 30.3937484],
-      [50.4875824, 30.39381], [50.4873359, 30.3943269], [50.4873228, 30.3943721], [50.4873038, 30.3944233], [50.4872363, 30.3945832],
-      [50.4871759, 30.3947847], [50.4870678, 30.3950644], [50.4868554, 30.3955838], [50.4866921, 30.3959173], [50.486565, 30.3961679],
-      [50.4864399, 30.3964075], [50.4863459, 30.3965858], [50.4862198, 30.3968019], [50.4861468, 30.3968943], [50.4860945, 30.3969605],
-      [50.4855243, 30.3979792], [50.4854063, 30.3982122], [50.4850165, 30.3989247], [50.4849435, 30.3990618], [50.4849019, 30.3991392],
-      [50.4844905, 30.3999044], [50.4843791, 30.4001119], [50.4838043, 30.4011823], [50.483244, 30.4022257], [50.4831473, 30.4024056],
-      [50.4827123, 30.4032116], [50.4824792, 30.4036156], [50.482297, 30.404061], [50.4821836, 30.4044595], [50.4820021, 30.4048875],
-      [50.4806942, 30.4071927], [50.4799272, 30.4083475], [50.4798945, 30.408408], [50.4798621, 30.4084598], [50.4798409, 30.4085033],
-      [50.4797573, 30.4086665], [50.4794997, 30.4091325], [50.4791633, 30.4097724], [50.4791042, 30.4098927], [50.4785218, 30.410972],
-      [50.4778583, 30.4121521], [50.4777338, 30.4124298], [50.4776857, 30.4125622], [50.4776329, 30.4127127], [50.477561, 30.4129539],
-      [50.4775251, 30.4130804], [50.4774546, 30.4134286], [50.4774338, 30.4135526], [50.4774175, 30.4137036], [50.4773934, 30.4143071],
-      [50.4773944, 30.4157472], [50.4773552, 30.4170351], [50.4773082, 30.4179202], [50.4772067, 30.4195897], [50.4769429, 30.4244347],
-      [50.4768845, 30.4249836], [50.4765944, 30.426997], [50.4765583, 30.4274188], [50.4765586, 30.4276011], [50.4765531, 30.4279942],
-      [50.4765508, 30.4283609], [50.4765695, 30.4286944], [50.4765933, 30.4289974], [50.4766205, 30.4292226], [50.4766633, 30.4295026],
-      [50.4768738, 30.4293129], [50.4771718, 30.4292305], [50.4775041, 30.4291501], [50.4779746, 30.4290892], [50.4782628, 30.4290865],
-      [50.4786409, 30.4291366], [50.4794601, 30.4293747], [50.4800809, 30.4297148], [50.4805043, 30.4300249], [50.4809432, 30.4304174],
-      [50.4826005, 30.4319741], [50.4839479, 30.4332562], [50.4840227, 30.4333309], [50.4861933, 30.4354826], [50.4861926, 30.4357013],
-      [50.4861016, 30.4361037], [50.486051, 30.4364461], [50.4858278, 30.4379572], [50.4858209, 30.4382598], [50.4858913, 30.4384754],
-      [50.4864956, 30.4398997], [50.4866698, 30.4404541], [50.4867658, 30.4407526], [50.48678, 30.4409902], [50.4867404, 30.4410073],
-      [50.4866453, 30.4410674], [50.486614, 30.4410939], [50.4863998, 30.4412546], [50.4862611, 30.4413666], [50.4860919, 30.441498],
-      [50.4860172, 30.4415632], [50.485785, 30.4417365], [50.4856871, 30.4417948], [50.485559, 30.4418564], [50.4852032, 30.4420147],
-      [50.4851235, 30.4420328], [50.4848029, 30.442197], [50.4847729, 30.442219], [50.4847061, 30.4422784], [50.4846339, 30.442347],
-      [50.4846005, 30.4423909], [50.4847051, 30.4428036], [50.4848682, 30.4431401], [50.4848037, 30.4433965], [50.4841409, 30.444155],
-      [50.4847391, 30.4459444], [50.4839642, 30.4472661], [50.4836719, 30.4470447], [50.4832437, 30.4477979], [50.4835495, 30.4482145],
-      [50.4837807, 30.4486685], [50.4840526, 30.4494804], [50.4838282, 30.4498329], [50.4842116, 30.4512064], [50.4844908, 30.4523245],
-      [50.4841182, 30.4527969], [50.4840249, 30.4530096], [50.4838082, 30.4534709], [50.4839953, 30.4545514], [50.4831273, 30.4552394],
-      [50.4830846, 30.4552715], [50.4830114, 30.4553271], [50.4827399, 30.4555335], [50.4824718, 30.4557373], [50.4824229, 30.4558034],
-      [50.4822801, 30.4559352], [50.4819161, 30.4561875], [50.4814617, 30.4564516], [50.480938, 30.4568947], [50.4762147, 30.4634133],
-      [50.4780422, 30.4696664], [50.4781528, 30.4713062], [50.4783026, 30.4715203], [50.4784184, 30.4716857], [50.4787143, 30.4720855],
-      [50.4789546, 30.4723418], [50.4790997, 30.4724781], [50.4792145, 30.4725275], [50.4793317, 30.4725383], [50.4794448, 30.4724849],
-      [50.4797409, 30.4722781], [50.4800332, 30.4721143], [50.4800879, 30.4721085], [50.4801646, 30.4721237], [50.4804143, 30.4722314],
-      [50.4805634, 30.47236], [50.4806071, 30.4723976], [50.4807984, 30.4727074], [50.4809777, 30.4730115], [50.4811828, 30.4734705],
-      [50.4813316, 30.4738103], [50.4813997, 30.474052], [50.4814611, 30.4744028], [50.4815271, 30.4747682], [50.4815761, 30.4750544],
-      [50.481637, 30.4752224], [50.4818182, 30.4755732], [50.4819185, 30.4757673], [50.481908, 30.4759816], [50.4818764, 30.4759279],
-      [50.4815677, 30.4754031], [50.4814734, 30.4752648], [50.4813694, 30.475168], [50.4812368, 30.4750928], [50.4811, 30.4750786],
-      [50.4809696, 30.4751093], [50.480858, 30.4751752], [50.4807463, 30.4752812], [50.4794284, 30.4765128], [50.4793564, 30.4765689],
-      [50.4795632, 30.4772319], [50.4794055, 30.4777208], [50.4794524, 30.4780275], [50.4794291, 30.4780977], [50.4792774, 30.4783199],
-      [50.4792238, 30.4783318], [50.4791488, 30.4784331], [50.4790947, 30.4785717], [50.4789896, 30.4795103], [50.4788717, 30.4796532],
-      [50.4788438, 30.47973], [50.4792679, 30.4802776], [50.4790369, 30.4808197], [50.4791539, 30.4809541], [50.4787184, 30.4819816],
-      [50.4785507, 30.4818767], [50.4784146, 30.4820984], [50.4782893, 30.4825891], [50.4784034, 30.4826995], [50.4776069, 30.4845243],
-      [50.4774322, 30.4840704], [50.477092, 30.4837748], [50.4770313, 30.4835583], [50.4766411, 30.4838077], [50.4765925, 30.4840336],
-      [50.4764367, 30.4842314], [50.4761939, 30.4837604], [50.4755364, 30.4855422], [50.4753834, 30.4861], [50.4750224, 30.4867441],
-      [50.4748744, 30.486444], [50.4746367, 30.4863741], [50.473813, 30.486229], [50.4736641, 30.4862292], [50.4731956, 30.4861561],
-      [50.4729424, 30.4874377], [50.4728644, 30.4873974], [50.4728309, 30.4875428], [50.4729862, 30.4877851], [50.4732486, 30.4882559],
-      [50.4733206, 30.4882369], [50.4733496, 30.4882483], [50.4733585, 30.4884412], [50.4734233, 30.4885973], [50.473599, 30.4887257],
-      [50.4735891, 30.488974], [50.4734897, 30.4889047], [50.4733117, 30.4889742], [50.4733593, 30.4893434], [50.4733788, 30.4893468],
-      [50.473374, 30.4894498], [50.4735619, 30.4896783], [50.4737072, 30.4899133], [50.4737642, 30.4899526], [50.4737762, 30.4899975],
-      [50.4737657, 30.4900332], [50.473948, 30.4902189], [50.474143, 30.4903415], [50.474063, 30.4905951], [50.4739277, 30.4907778],
-      [50.4738036, 30.4911201], [50.4736537, 30.4916978], [50.4733882, 30.4921946], [50.4731512, 30.4922613], [50.4728926, 30.4922067],
-      [50.4726725, 30.4928244], [50.4727007, 30.4930183], [50.4728747, 30.493466], [50.4728544, 30.4936328], [50.4727915, 30.4937288],
-      [50.472675, 30.4940785], [50.4724502, 30.4944498], [50.472278, 30.4947965], [50.4721813, 30.4947917], [50.4720763, 30.4947702],
-      [50.4719833, 30.494712], [50.4718923, 30.494792], [50.4716687, 30.4945995], [50.4713897, 30.4943593], [50.4711424, 30.4944447],
-      [50.4710987, 30.4943848], [50.4710929, 30.4942705], [50.4711352, 30.4940232], [50.4711082, 30.4938767], [50.4710352, 30.4937035],
-      [50.470806, 30.4934162], [50.4707082, 30.4933516], [50.4704748, 30.4933718], [50.4703982, 30.4933287], [50.4703364, 30.4933234],
-      [50.4700709, 30.4934411], [50.4698321, 30.4935709], [50.4694586, 30.4941652], [50.4692266, 30.4944212], [50.4690092, 30.4944615],
-      [50.4679032, 30.4946666], [50.4673804, 30.4943604], [50.4672045, 30.4937993], [50.46673, 30.4935481], [50.4662503, 30.4934308],
-      [50.466069, 30.4941845], [50.4658407, 30.4946812], [50.4656583, 30.4951053], [50.4657103, 30.4954127], [50.46581, 30.4959392],
-      [50.466299, 30.4958934], [50.4663836, 30.496117], [50.4667114, 30.4969324], [50.4670665, 30.4977907], [50.4673368, 30.4983682],
-      [50.4673636, 30.4987785], [50.4673123, 30.499076], [50.4672931, 30.4996069], [50.4672968, 30.4998356], [50.4671711, 30.4999773],
-      [50.4659738, 30.4995052], [50.4657828, 30.5008359], [50.4663058, 30.5010944], [50.4669845, 30.5013076], [50.4676674, 30.5013505],
-      [50.4684323, 30.5024234], [50.4687372, 30.5027709], [50.4683777, 30.5037538], [50.4674844, 30.5051216], [50.4674489, 30.5060283],
-      [50.466684, 30.5068008], [50.4659192, 30.5078307], [50.4650723, 30.5093757], [50.4645611, 30.5102585], [50.4645429, 30.5102311],
-      [50.4643832, 30.5099612], [50.4643332, 30.5098768], [50.4642971, 30.5098223], [50.464169, 30.5096129], [50.4637504, 30.5089717],
-      [50.4634134, 30.5084724], [50.4628223, 30.5075411], [50.4627671, 30.5074522], [50.4625216, 30.5070563], [50.4625052, 30.50699],
-      [50.4624007, 30.506573], [50.4623587, 30.5064249], [50.4622639, 30.5063084], [50.4621486, 30.5061466], [50.4619089, 30.5059124],
-      [50.4617996, 30.5058802], [50.461612, 30.5058971], [50.461454, 30.5059907], [50.4615692, 30.5062428], [50.4611865, 30.5067422],
-      [50.4611431, 30.5067988], [50.4608575, 30.5079781], [50.4605084, 30.5085947], [50.4598344, 30.5088434], [50.4594546, 30.5090322],
-      [50.4593774, 30.5092454], [50.4591949, 30.5092954], [50.4587318, 30.5091804], [50.4586076, 30.5092495], [50.4584214, 30.5092979],
-      [50.4583186, 30.5089641], [50.4578468, 30.5084595], [50.4576585, 30.5083122], [50.4574169, 30.5086634], [50.457543, 30.5087989],
-      [50.457493, 30.5090842], [50.4573952, 30.5090546], [50.4572701, 30.509225], [50.4577019, 30.5097007], [50.4578264, 30.5100748],
-      [50.4579801, 30.5104759], [50.4577455, 30.5106635], [50.4578242, 30.5108892], [50.4579326, 30.5111688], [50.4579742, 30.511179],
-      [50.4582952, 30.5108156], [50.4586448, 30.5108601], [50.4589173, 30.5108682], [50.4593525, 30.5109855], [50.4594777, 30.5111366],
-      [50.4595012, 30.5112574], [50.4595052, 30.5115341], [50.459488, 30.5116823], [50.4594416, 30.5118527], [50.4593796, 30.5120068],
-      [50.4591136, 30.5124471], [50.4584182, 30.5126953], [50.4578599, 30.5128939], [50.4572602, 30.5129016], [50.4570472, 30.513442],
-      [50.4568416, 30.513778], [50.4566366, 30.5141874], [50.4569196, 30.5145798], [50.4571357, 30.514196], [50.4573255, 30.513843],
-      [50.4574588, 30.5140179], [50.4579982, 30.5139525], [50.4582116, 30.5137644], [50.458496, 30.5136965], [50.4587982, 30.5135076],
-      [50.4588832, 30.5136569], [50.4589272, 30.5137457], [50.4587857, 30.5144268], [50.4589361, 30.5147467], [50.4590482, 30.5152593],
-      [50.4591298, 30.5152885], [50.4591445, 30.5154024], [50.4590442, 30.5156594], [50.4590482, 30.5158915], [50.4591597, 30.5163144],
-      [50.4589977, 30.5163549], [50.4588155, 30.5165299], [50.4587525, 30.5168029], [50.4583662, 30.5174018], [50.458265, 30.5177423],
-      [50.4583365, 30.5182477], [50.4584137, 30.51817], [50.4584397, 30.5181291], [50.4584532, 30.5181092], [50.4586021, 30.5178891],
-      [50.4589371, 30.517507], [50.4590051, 30.5174587], [50.4593309, 30.517402], [50.4594196, 30.5173286], [50.4594183, 30.5174105],
-      [50.4594207, 30.5176243], [50.4594236, 30.51789], [50.4594746, 30.5182432], [50.4594516, 30.518315], [50.4593965, 30.5183581],
-      [50.4591614, 30.5184636], [50.4589829, 30.5186066], [50.458861, 30.5189051], [50.4588591, 30.5189862], [50.4588713, 30.5191654],
-      [50.4588675, 30.519375], [50.4588344, 30.5195874], [50.4588127, 30.5196651], [50.458796, 30.5196949], [50.4587437, 30.5197887],
-      [50.4585818, 30.5200523], [50.4585279, 30.5202314], [50.4585122, 30.5203717], [50.458504, 30.5205409], [50.4585325, 30.5210586],
-      [50.458496, 30.5211544], [50.4583776, 30.5212515], [50.4578764, 30.5220388], [50.4575194, 30.5225704], [50.4574628, 30.5227208],
-      [50.4573167, 30.5231088], [50.4572911, 30.5231738], [50.4573186, 30.5231988], [50.4581387, 30.5238406], [50.4585128, 30.52413],
-      [50.4587452, 30.5243255], [50.4588959, 30.5250849], [50.4588555, 30.5251461], [50.4585872, 30.5255564], [50.4583802, 30.525873],
-      [50.4582585, 30.5260502], [50.4580807, 30.526298], [50.4577507, 30.5267025], [50.4575408, 30.5269494], [50.4572974, 30.5272239],
-      [50.4570257, 30.5275287], [50.4568612, 30.5276823], [50.4567124, 30.5278113], [50.456567, 30.5279231], [50.4564198, 30.5280048],
-      [50.4562887, 30.528057], [50.4562101, 30.5280694], [50.4561168, 30.5280726], [50.4560231, 30.5280567], [50.4559175, 30.5280144],
-      [50.4557999, 30.5279456], [50.4556555, 30.5278342], [50.4555163, 30.5277284], [50.4553737, 30.5276563], [50.4552013, 30.5275959],
-      [50.4550666, 30.5275691], [50.4549237, 30.52755], [50.4546299, 30.5275522], [50.4545184, 30.5275578], [50.4546316, 30.5304045],
-      [50.4544011, 30.5304965], [50.454262, 30.5306514], [50.4541976, 30.5306679], [50.4541044, 30.5306406], [50.4540958, 30.5306365],
-      [50.454092, 30.5306374], [50.4539525, 30.5306719], [50.4539217, 30.5306719], [50.4538344, 30.5307181], [50.4537984, 30.5307592],
-      [50.4536495, 30.5308645], [50.4535982, 30.5309313], [50.4535256, 30.5309584], [50.4534714, 30.5309801], [50.4534142, 30.5310106],
-      [50.453387, 30.5310519], [50.453367, 30.5311091], [50.4532476, 30.531515], [50.4531781, 30.5317846], [50.4530451, 30.5321644],
-      [50.4529295, 30.5324896], [50.4527992, 30.5328894], [50.4527615, 30.5330213], [50.4527203, 30.5332209], [50.452723, 30.5333541],
-      [50.4527432, 30.5334863], [50.4527501, 30.5335574], [50.4527554, 30.533617], [50.4527434, 30.5336864], [50.452724, 30.5337482],
-      [50.4526825, 30.5338327], [50.4525088, 30.5340575], [50.4523928, 30.5342052], [50.4523275, 30.5342798], [50.4523721, 30.5344028],
-      [50.4524307, 30.5346568], [50.4550409, 30.5382982], [50.4563027, 30.5349003], [50.4577011, 30.5326611], [50.4588799, 30.5314687],
-      [50.4600586, 30.5305338], [50.4616128, 30.5296978], [50.4636042, 30.5291194], [50.4655451, 30.5289561], [50.4672675, 30.5291791],
-      [50.4688547, 30.5301829], [50.4738265, 30.5364063], [50.4764249, 30.5391357], [50.4790506, 30.5414574], [50.4825969, 30.5424008],
-      [50.483758, 30.5422695], [50.4836902, 30.5374006], [50.4836881, 30.5364861], [50.483696, 30.5347231], [50.4836922, 30.5333545],
-      [50.4836782, 30.5324238], [50.4836756, 30.5322166], [50.483673, 30.5320436], [50.48367, 30.5318934], [50.4836657, 30.5317677],
-      [50.4836624, 30.5316754], [50.4836551, 30.5315299], [50.4836483, 30.5314193], [50.4836354, 30.5312659], [50.4836261, 30.5311605],
-      [50.4836153, 30.5310445], [50.4835877, 30.5308178], [50.4835708, 30.5306916], [50.483549, 30.5305487], [50.4835282, 30.5304066],
-      [50.4835032, 30.5302487], [50.4834506, 30.5299504], [50.4833764, 30.5295404], [50.4833136, 30.5291855], [50.483282, 30.5290058],
-      [50.4832475, 30.5288133], [50.483224, 30.5286645], [50.4831976, 30.5284971], [50.4831864, 30.5284211], [50.4831762, 30.5283413],
-      [50.4831553, 30.5281797], [50.4831416, 30.5280697], [50.4831292, 30.5279618], [50.4831184, 30.5278577], [50.48311, 30.5277706],
-      [50.4831032, 30.5276949], [50.4830929, 30.5275561], [50.4830883, 30.5274836], [50.4830823, 30.5273985], [50.4830729, 30.5272396],
-      [50.4830691, 30.5271618], [50.4830684, 30.5271457], [50.4830661, 30.52709], [50.4830601, 30.526927], [50.4830524, 30.5264993],
-      [50.4830483, 30.5260732], [50.4830076, 30.526067], [50.4826914, 30.5260713], [50.4826961, 30.5255693], [50.4827033, 30.5245762],
-      [50.4827073, 30.5240173], [50.4827217, 30.5224366], [50.4827346, 30.5214837], [50.4827405, 30.5210433], [50.482743, 30.5208561],
-      [50.4827455, 30.5206773], [50.4827463, 30.5205564], [50.4827488, 30.5201573], [50.4827523, 30.5196005], [50.482771, 30.5185264],
-      [50.4827929, 30.517797], [50.482829, 30.5169883], [50.4828679, 30.5162258], [50.4829135, 30.5153329], [50.4829744, 30.5144202],
-      [50.4830491, 30.5135089], [50.4832826, 30.5111639], [50.4833913, 30.5100724], [50.4834329, 30.509615], [50.483447, 30.5094256],
-      [50.4834547, 30.5093207], [50.4835403, 30.5081522], [50.4835747, 30.5073866], [50.4835903, 30.5066358], [50.4835972, 30.5061218],
-      [50.4835962, 30.5054914], [50.4835937, 30.5049403], [50.4835912, 30.5043978], [50.4835708, 30.5033177], [50.4835326, 30.5025875],
-      [50.4835148, 30.5022671], [50.4835049, 30.5021698], [50.483462, 30.5017499], [50.4833975, 30.5013461], [50.4833007, 30.5009106],
-      [50.4831998, 30.5005646], [50.4830743, 30.500238], [50.4829317, 30.4999449], [50.4827425, 30.4996221], [50.4827171, 30.4995787],
-      [50.4825635, 30.4993415], [50.4823677, 30.4990681], [50.4822859, 30.4989814], [50.4821112, 30.4987963], [50.4819679, 30.4986887],
-      [50.4818924, 30.498632], [50.4816245, 30.4984548], [50.4814727, 30.4983748], [50.4813257, 30.4983055], [50.4810784, 30.4982374],
-      [50.4807822, 30.4982149], [50.4802491, 30.4982308], [50.4797705, 30.4982559], [50.479609, 30.4982644], [50.4794363, 30.498271],
-      [50.4792752, 30.4982923], [50.4791925, 30.4982805], [50.479128, 30.4982539], [50.4790188, 30.4981834], [50.4787963, 30.4980009],
-      [50.4786929, 30.4978941], [50.4785462, 30.4977589], [50.4784368, 30.497583], [50.478347, 30.4974953], [50.4782315, 30.497382],
-      [50.4781691, 30.4973202], [50.4780886, 30.4972404], [50.4776845, 30.4968669], [50.4774531, 30.4966744], [50.477228, 30.4964845],
-      [50.4771829, 30.4962998], [50.4771708, 30.4962306], [50.4771604, 30.4961522], [50.4771498, 30.4959964], [50.4771515, 30.4958229],
-      [50.4771645, 30.4956394], [50.4772023, 30.4954665], [50.4773654, 30.4951296], [50.4776693, 30.4946173], [50.4779598, 30.4941179],
-      [50.4781886, 30.4937436], [50.4785873, 30.4931024], [50.4786, 30.4930845], [50.4789687, 30.4924816], [50.4790441, 30.4923568],
-      [50.4793777, 30.4918171], [50.4794261, 30.4917345], [50.4794827, 30.4916429], [50.4797715, 30.4911665], [50.4799268, 30.490925],
-      [50.480034, 30.4907507], [50.4801813, 30.4905181], [50.4804038, 30.4901688], [50.4805396, 30.4899564], [50.4807474, 30.4896314],
-      [50.4809646, 30.4892911], [50.4811066, 30.4890602], [50.4811593, 30.4889646], [50.4814341, 30.4884974], [50.4839774, 30.4854993],
-      [50.4843468, 30.48504], [50.4845983, 30.4847256], [50.4850957, 30.484168], [50.4853135, 30.4839153], [50.4854757, 30.4837271],
-      [50.4857197, 30.483444], [50.4860981, 30.483005], [50.4866264, 30.4823917], [50.4869617, 30.4819561], [50.4871866, 30.4816423],
-      [50.4874056, 30.4812463], [50.4875761, 30.4808228], [50.4877002, 30.4803689], [50.4878068, 30.4798693], [50.4879422, 30.4789365],
-      [50.4880135, 30.4784211], [50.4882351, 30.4767864], [50.488427, 30.4754887], [50.4886344, 30.4741118], [50.4887003, 30.4736944],
-      [50.4887953, 30.4732893], [50.4888903, 30.4729948], [50.4888778, 30.4728419], [50.4890443, 30.4720143], [50.4890528, 30.4719474],
-      [50.4892446, 30.4705748], [50.4893397, 30.4699203], [50.48958, 30.468129], [50.4897238, 30.4670571], [50.489739, 30.4669043],
-      [50.4897379, 30.4667862], [50.4897308, 30.4667355], [50.489687, 30.4665508], [50.4898436, 30.4662883], [50.4899457, 30.4661219],
-      [50.4900805, 30.4659006], [50.4905156, 30.4651935], [50.4906005, 30.4650787], [50.4906649, 30.464993], [50.4908346, 30.4647723],
-      [50.4911549, 30.4643926], [50.4918937, 30.4636048], [50.4920411, 30.4634455], [50.4922141, 30.4632677], [50.4926695, 30.4627697],
-      [50.4927458, 30.4626915], [50.4928653, 30.4625482], [50.4929997, 30.4623762], [50.4937847, 30.4614388], [50.4938343, 30.4613813],
-      [50.4938727, 30.4613314], [50.4942249, 30.4609], [50.4944004, 30.4606671], [50.4947653, 30.4601544], [50.4950781, 30.4596712],
-      [50.4952293, 30.4594308], [50.4952811, 30.4593363], [50.4953064, 30.4592832], [50.495355, 30.4591832], [50.4955035, 30.4589002],
-      [50.4956618, 30.4585951], [50.495749, 30.4584292], [50.4960841, 30.4577796], [50.4963939, 30.4571604], [50.4964235, 30.4571101],
-      [50.4967733, 30.4564455], [50.4968251, 30.4563599], [50.4969482, 30.4561595], [50.4971257, 30.4558798], [50.4972417, 30.4557128],
-      [50.4981636, 30.4544773], [50.4983759, 30.4542064], [50.4991687, 30.4531773], [50.4994548, 30.4528346], [50.4997653, 30.4524473],
-      [50.5000497, 30.4521215], [50.5002879, 30.4518436], [50.5003584, 30.4517807], [50.5004249, 30.4517478], [50.5004676, 30.4517326],
-      [50.5005776, 30.4517201], [50.5008427, 30.4516922], [50.5009648, 30.4516774], [50.5011134, 30.451656], [50.5011997, 30.4516449],
-      [50.5016272, 30.4515797], [50.5022143, 30.4514837], [50.5022537, 30.4514765], [50.5031072, 30.4513519], [50.5035074, 30.451296],
-      [50.5035455, 30.451288], [50.5039383, 30.4512211], [50.5043031, 30.4511594], [50.5046922, 30.4510903], [50.5050828, 30.4510121],
-      [50.5053635, 30.4509592], [50.5055604, 30.4509274], [50.5059034, 30.4508734], [50.5060514, 30.4508457], [50.506377, 30.4508228],
-      [50.5065124, 30.4508152], [50.5067578, 30.4508058], [50.5072872, 30.4507796], [50.5080095, 30.4507378], [50.5082554, 30.4507214],
-      [50.5083731, 30.4507137], [50.5084527, 30.4507032], [50.5092102, 30.4506193], [50.5093505, 30.4506015], [50.5100082, 30.4505276],
-      [50.5101537, 30.4505101], [50.5112783, 30.4503458], [50.5116014, 30.4503098], [50.5118778, 30.4502723], [50.5119617, 30.4502631],
-      [50.5120262, 30.4502571], [50.512518, 30.4501857], [50.5126518, 30.4501708], [50.5132366, 30.4500884], [50.5133567, 30.450071],
-      [50.514129, 30.4499918], [50.5144546, 30.4499635], [50.5145914, 30.4499522], [50.5146981, 30.4499353], [50.5160306, 30.4497754],
-      [50.5161364, 30.449762], [50.5163221, 30.4497496], [50.5168031, 30.4496954], [50.516861, 30.4496836], [50.5168919, 30.4496785],
-      [50.5174724, 30.4497528], [50.5184888, 30.4496313], [50.519448, 30.4494977], [50.5202234, 30.4493933], [50.5204733, 30.449381],
-      [50.52071, 30.4491679], [50.5207876, 30.4488561], [50.5209239, 30.4488156], [50.523644, 30.4477965], [50.5252157, 30.4472037],
-      [50.5253749, 30.4471502], [50.5264972, 30.4467723], [50.5266351, 30.4467267], [50.5265906, 30.4462976], [50.5262654, 30.4431631],
-      [50.5261171, 30.441538], [50.5259502, 30.439689], [50.525901, 30.4389994], [50.5258523, 30.4382904], [50.525801, 30.4375755],
-      [50.5257475, 30.4368873], [50.5256895, 30.4362057], [50.5255929, 30.4354984], [50.525467, 30.4348363], [50.5253993, 30.4345015],
-      [50.5253067, 30.434163], [50.5251089, 30.4335272], [50.5248801, 30.4329231], [50.5246165, 30.4323592], [50.5243306, 30.431816],
-      [50.5240141, 30.4313148], [50.5236829, 30.430852], [50.5233428, 30.4303829], [50.5230067, 30.4299183], [50.5226729, 30.4294442],
-      [50.5223648, 30.4289273], [50.5220957, 30.4283522], [50.5218529, 30.4277686], [50.5216388, 30.4271334], [50.5214627, 30.4264934],
-      [50.5213129, 30.4258384], [50.5212, 30.4251671], [50.5211214, 30.4244603], [50.521064, 30.4237754], [50.5209977, 30.4229482],
-      [50.5209456, 30.422241], [50.5208911, 30.4215421], [50.5208377, 30.4208295], [50.520787, 30.4201395], [50.5207357, 30.4194414],
-      [50.5206842, 30.4187411], [50.5206331, 30.4180463], [50.5205804, 30.4173288], [50.5205287, 30.4166259], [50.5204776, 30.4159297],
-      [50.5204255, 30.4152215], [50.5203743, 30.414524], [50.520323, 30.4138266], [50.5202711, 30.4131203], [50.5202209, 30.4124368],
-      [50.520169, 30.4117307], [50.5201169, 30.411021], [50.5200653, 30.4103202], [50.5200138, 30.409619], [50.5199629, 30.4089266],
-      [50.5199099, 30.4082218], [50.5198573, 30.4075235], [50.5198051, 30.4068303], [50.5197521, 30.4061263], [50.5196989, 30.4054199],
-      [50.5196463, 30.4047218], [50.5195936, 30.4040224], [50.5195402, 30.4033132], [50.5194875, 30.4026124], [50.5194352, 30.4019185],
-      [50.5193824, 30.4012176], [50.5193294, 30.4005127], [50.5192774, 30.3998224], [50.5192247, 30.3991224], [50.5191713, 30.398413],
-      [50.5191181, 30.3977077], [50.5190665, 30.3970216], [50.519028, 30.3965107], [50.5189622, 30.3956332], [50.5189088, 30.3949221],
-      [50.5187578, 30.3929088], [50.5185547, 30.3901365], [50.5183405, 30.3873784], [50.5180773, 30.3838271], [50.5178564, 30.3808865],
-      [50.5177314, 30.3792161], [50.5173789, 30.3744647], [50.5172517, 30.3728225], [50.5171915, 30.3720048], [50.5170821, 30.3712293],
-      [50.5169884, 30.3707205], [50.5168746, 30.3702818], [50.516714, 30.3697274], [50.5165154, 30.3691203], [50.5158504, 30.3669833],
-      [50.5157836, 30.36669], [50.5157107, 30.3663235], [50.5156362, 30.3659496], [50.5155807, 30.3654935], [50.515524, 30.3647947],
-      [50.5155142, 30.3641823], [50.5155332, 30.3637162], [50.5155585, 30.3632301], [50.5156125, 30.362758], [50.5157435, 30.3619914]
+    polygons: [
+      [
+        [
+          [50.5157435, 30.3619914], [50.5153933, 30.3620395], [50.5106432, 30.3629581], [50.505521, 30.3639494], [50.5044659, 30.3641628],
+          [50.5034107, 30.3643556], [50.5017163, 30.364686], [50.5013134, 30.3647617], [50.5005297, 30.3649063], [50.5002188, 30.3649751],
+          [50.4991995, 30.3650643], [50.4987011, 30.3651116], [50.4984605, 30.3655168], [50.4981767, 30.3663488], [50.4980249, 30.3668134],
+          [50.4979495, 30.3670217], [50.4978448, 30.3672947], [50.4978075, 30.3673919], [50.4977348, 30.3675918], [50.497617, 30.3679159],
+          [50.4970173, 30.3696182], [50.4969953, 30.3696805], [50.4969051, 30.369915], [50.4967428, 30.370219], [50.496731, 30.3702461],
+          [50.4967195, 30.370277], [50.4966536, 30.3704546], [50.4963875, 30.3711713], [50.4962891, 30.3714408], [50.4960495, 30.3721103],
+          [50.4957826, 30.3727978], [50.4955205, 30.3734543], [50.4953355, 30.3739263], [50.4945541, 30.3759188], [50.4944247, 30.3762489],
+          [50.4935901, 30.378377], [50.4934317, 30.378781], [50.493348, 30.3789976], [50.4932762, 30.3791836], [50.4930919, 30.3796606],
+          [50.4929668, 30.3799759], [50.4927889, 30.380424], [50.4924382, 30.3813242], [50.4921503, 30.382068], [50.491818, 30.3829249],
+          [50.4915144, 30.3837031], [50.4914791, 30.3837934], [50.4913037, 30.3842428], [50.4907013, 30.3857916], [50.4905738, 30.3861195],
+          [50.490483, 30.3863644], [50.4901876, 30.3871134], [50.4901653, 30.3871699], [50.4894351, 30.3890471], [50.489199, 30.389654],
+          [50.4890103, 30.3901391], [50.4886244, 30.3911313], [50.4882594, 30.3920695], [50.4879076, 30.3929739], [50.4876064, 30.3937484],
+          [50.4875824, 30.39381], [50.4873359, 30.3943269], [50.4873228, 30.3943721], [50.4873038, 30.3944233], [50.4872363, 30.3945832],
+          [50.4871759, 30.3947847], [50.4870678, 30.3950644], [50.4868554, 30.3955838], [50.4866921, 30.3959173], [50.486565, 30.3961679],
+          [50.4864399, 30.3964075], [50.4863459, 30.3965858], [50.4862198, 30.3968019], [50.4861468, 30.3968943], [50.4860945, 30.3969605],
+          [50.4855243, 30.3979792], [50.4854063, 30.3982122], [50.4850165, 30.3989247], [50.4849435, 30.3990618], [50.4849019, 30.3991392],
+          [50.4844905, 30.3999044], [50.4843791, 30.4001119], [50.4838043, 30.4011823], [50.483244, 30.4022257], [50.4831473, 30.4024056],
+          [50.4827123, 30.4032116], [50.4824792, 30.4036156], [50.482297, 30.404061], [50.4821836, 30.4044595], [50.4820021, 30.4048875],
+          [50.4806942, 30.4071927], [50.4799272, 30.4083475], [50.4798945, 30.408408], [50.4798621, 30.4084598], [50.4798409, 30.4085033],
+          [50.4797573, 30.4086665], [50.4794997, 30.4091325], [50.4791633, 30.4097724], [50.4791042, 30.4098927], [50.4785218, 30.410972],
+          [50.4778583, 30.4121521], [50.4777338, 30.4124298], [50.4776857, 30.4125622], [50.4776329, 30.4127127], [50.477561, 30.4129539],
+          [50.4775251, 30.4130804], [50.4774546, 30.4134286], [50.4774338, 30.4135526], [50.4774175, 30.4137036], [50.4773934, 30.4143071],
+          [50.4773944, 30.4157472], [50.4773552, 30.4170351], [50.4773082, 30.4179202], [50.4772067, 30.4195897], [50.4769429, 30.4244347],
+          [50.4768845, 30.4249836], [50.4765944, 30.426997], [50.4765583, 30.4274188], [50.4765586, 30.4276011], [50.4765531, 30.4279942],
+          [50.4765508, 30.4283609], [50.4765695, 30.4286944], [50.4765933, 30.4289974], [50.4766205, 30.4292226], [50.4766633, 30.4295026],
+          [50.4768738, 30.4293129], [50.4771718, 30.4292305], [50.4775041, 30.4291501], [50.4779746, 30.4290892], [50.4782628, 30.4290865],
+          [50.4786409, 30.4291366], [50.4794601, 30.4293747], [50.4800809, 30.4297148], [50.4805043, 30.4300249], [50.4809432, 30.4304174],
+          [50.4826005, 30.4319741], [50.4839479, 30.4332562], [50.4840227, 30.4333309], [50.4861933, 30.4354826], [50.4861926, 30.4357013],
+          [50.4861016, 30.4361037], [50.486051, 30.4364461], [50.4858278, 30.4379572], [50.4858209, 30.4382598], [50.4858913, 30.4384754],
+          [50.4864956, 30.4398997], [50.4866698, 30.4404541], [50.4867658, 30.4407526], [50.48678, 30.4409902], [50.4867404, 30.4410073],
+          [50.4866453, 30.4410674], [50.486614, 30.4410939], [50.4863998, 30.4412546], [50.4862611, 30.4413666], [50.4860919, 30.441498],
+          [50.4860172, 30.4415632], [50.485785, 30.4417365], [50.4856871, 30.4417948], [50.485559, 30.4418564], [50.4852032, 30.4420147],
+          [50.4851235, 30.4420328], [50.4848029, 30.442197], [50.4847729, 30.442219], [50.4847061, 30.4422784], [50.4846339, 30.442347],
+          [50.4846005, 30.4423909], [50.4847051, 30.4428036], [50.4848682, 30.4431401], [50.4848037, 30.4433965], [50.4841409, 30.444155],
+          [50.4847391, 30.4459444], [50.4839642, 30.4472661], [50.4836719, 30.4470447], [50.4832437, 30.4477979], [50.4835495, 30.4482145],
+          [50.4837807, 30.4486685], [50.4840526, 30.4494804], [50.4838282, 30.4498329], [50.4842116, 30.4512064], [50.4844908, 30.4523245],
+          [50.4841182, 30.4527969], [50.4840249, 30.4530096], [50.4838082, 30.4534709], [50.4839953, 30.4545514], [50.4831273, 30.4552394],
+          [50.4830846, 30.4552715], [50.4830114, 30.4553271], [50.4827399, 30.4555335], [50.4824718, 30.4557373], [50.4824229, 30.4558034],
+          [50.4822801, 30.4559352], [50.4819161, 30.4561875], [50.4814617, 30.4564516], [50.480938, 30.4568947], [50.4762147, 30.4634133],
+          [50.4780422, 30.4696664], [50.4781528, 30.4713062], [50.4783026, 30.4715203], [50.4784184, 30.4716857], [50.4787143, 30.4720855],
+          [50.4789546, 30.4723418], [50.4790997, 30.4724781], [50.4792145, 30.4725275], [50.4793317, 30.4725383], [50.4794448, 30.4724849],
+          [50.4797409, 30.4722781], [50.4800332, 30.4721143], [50.4800879, 30.4721085], [50.4801646, 30.4721237], [50.4804143, 30.4722314],
+          [50.4805634, 30.47236], [50.4806071, 30.4723976], [50.4807984, 30.4727074], [50.4809777, 30.4730115], [50.4811828, 30.4734705],
+          [50.4813316, 30.4738103], [50.4813997, 30.474052], [50.4814611, 30.4744028], [50.4815271, 30.4747682], [50.4815761, 30.4750544],
+          [50.481637, 30.4752224], [50.4818182, 30.4755732], [50.4819185, 30.4757673], [50.481908, 30.4759816], [50.4818764, 30.4759279],
+          [50.4815677, 30.4754031], [50.4814734, 30.4752648], [50.4813694, 30.475168], [50.4812368, 30.4750928], [50.4811, 30.4750786],
+          [50.4809696, 30.4751093], [50.480858, 30.4751752], [50.4807463, 30.4752812], [50.4794284, 30.4765128], [50.4793564, 30.4765689],
+          [50.4795632, 30.4772319], [50.4794055, 30.4777208], [50.4794524, 30.4780275], [50.4794291, 30.4780977], [50.4792774, 30.4783199],
+          [50.4792238, 30.4783318], [50.4791488, 30.4784331], [50.4790947, 30.4785717], [50.4789896, 30.4795103], [50.4788717, 30.4796532],
+          [50.4788438, 30.47973], [50.4792679, 30.4802776], [50.4790369, 30.4808197], [50.4791539, 30.4809541], [50.4787184, 30.4819816],
+          [50.4785507, 30.4818767], [50.4784146, 30.4820984], [50.4782893, 30.4825891], [50.4784034, 30.4826995], [50.4776069, 30.4845243],
+          [50.4774322, 30.4840704], [50.477092, 30.4837748], [50.4770313, 30.4835583], [50.4766411, 30.4838077], [50.4765925, 30.4840336],
+          [50.4764367, 30.4842314], [50.4761939, 30.4837604], [50.4755364, 30.4855422], [50.4753834, 30.4861], [50.4750224, 30.4867441],
+          [50.4748744, 30.486444], [50.4746367, 30.4863741], [50.473813, 30.486229], [50.4736641, 30.4862292], [50.4731956, 30.4861561],
+          [50.4729424, 30.4874377], [50.4728644, 30.4873974], [50.4728309, 30.4875428], [50.4729862, 30.4877851], [50.4732486, 30.4882559],
+          [50.4733206, 30.4882369], [50.4733496, 30.4882483], [50.4733585, 30.4884412], [50.4734233, 30.4885973], [50.473599, 30.4887257],
+          [50.4735891, 30.488974], [50.4734897, 30.4889047], [50.4733117, 30.4889742], [50.4733593, 30.4893434], [50.4733788, 30.4893468],
+          [50.473374, 30.4894498], [50.4735619, 30.4896783], [50.4737072, 30.4899133], [50.4737642, 30.4899526], [50.4737762, 30.4899975],
+          [50.4737657, 30.4900332], [50.473948, 30.4902189], [50.474143, 30.4903415], [50.474063, 30.4905951], [50.4739277, 30.4907778],
+          [50.4738036, 30.4911201], [50.4736537, 30.4916978], [50.4733882, 30.4921946], [50.4731512, 30.4922613], [50.4728926, 30.4922067],
+          [50.4726725, 30.4928244], [50.4727007, 30.4930183], [50.4728747, 30.493466], [50.4728544, 30.4936328], [50.4727915, 30.4937288],
+          [50.472675, 30.4940785], [50.4724502, 30.4944498], [50.472278, 30.4947965], [50.4721813, 30.4947917], [50.4720763, 30.4947702],
+          [50.4719833, 30.494712], [50.4718923, 30.494792], [50.4716687, 30.4945995], [50.4713897, 30.4943593], [50.4711424, 30.4944447],
+          [50.4710987, 30.4943848], [50.4710929, 30.4942705], [50.4711352, 30.4940232], [50.4711082, 30.4938767], [50.4710352, 30.4937035],
+          [50.470806, 30.4934162], [50.4707082, 30.4933516], [50.4704748, 30.4933718], [50.4703982, 30.4933287], [50.4703364, 30.4933234],
+          [50.4700709, 30.4934411], [50.4698321, 30.4935709], [50.4694586, 30.4941652], [50.4692266, 30.4944212], [50.4690092, 30.4944615],
+          [50.4679032, 30.4946666], [50.4673804, 30.4943604], [50.4672045, 30.4937993], [50.46673, 30.4935481], [50.4662503, 30.4934308],
+          [50.466069, 30.4941845], [50.4658407, 30.4946812], [50.4656583, 30.4951053], [50.4657103, 30.4954127], [50.46581, 30.4959392],
+          [50.466299, 30.4958934], [50.4663836, 30.496117], [50.4667114, 30.4969324], [50.4670665, 30.4977907], [50.4673368, 30.4983682],
+          [50.4673636, 30.4987785], [50.4673123, 30.499076], [50.4672931, 30.4996069], [50.4672968, 30.4998356], [50.4671711, 30.4999773],
+          [50.4659738, 30.4995052], [50.4657828, 30.5008359], [50.4663058, 30.5010944], [50.4669845, 30.5013076], [50.4676674, 30.5013505],
+          [50.4684323, 30.5024234], [50.4687372, 30.5027709], [50.4683777, 30.5037538], [50.4674844, 30.5051216], [50.4674489, 30.5060283],
+          [50.466684, 30.5068008], [50.4659192, 30.5078307], [50.4650723, 30.5093757], [50.4645611, 30.5102585], [50.4645429, 30.5102311],
+          [50.4643832, 30.5099612], [50.4643332, 30.5098768], [50.4642971, 30.5098223], [50.464169, 30.5096129], [50.4637504, 30.5089717],
+          [50.4634134, 30.5084724], [50.4628223, 30.5075411], [50.4627671, 30.5074522], [50.4625216, 30.5070563], [50.4625052, 30.50699],
+          [50.4624007, 30.506573], [50.4623587, 30.5064249], [50.4622639, 30.5063084], [50.4621486, 30.5061466], [50.4619089, 30.5059124],
+          [50.4617996, 30.5058802], [50.461612, 30.5058971], [50.461454, 30.5059907], [50.4615692, 30.5062428], [50.4611865, 30.5067422],
+          [50.4611431, 30.5067988], [50.4608575, 30.5079781], [50.4605084, 30.5085947], [50.4598344, 30.5088434], [50.4594546, 30.5090322],
+          [50.4593774, 30.5092454], [50.4591949, 30.5092954], [50.4587318, 30.5091804], [50.4586076, 30.5092495], [50.4584214, 30.5092979],
+          [50.4583186, 30.5089641], [50.4578468, 30.5084595], [50.4576585, 30.5083122], [50.4574169, 30.5086634], [50.457543, 30.5087989],
+          [50.457493, 30.5090842], [50.4573952, 30.5090546], [50.4572701, 30.509225], [50.4577019, 30.5097007], [50.4578264, 30.5100748],
+          [50.4579801, 30.5104759], [50.4577455, 30.5106635], [50.4578242, 30.5108892], [50.4579326, 30.5111688], [50.4579742, 30.511179],
+          [50.4582952, 30.5108156], [50.4586448, 30.5108601], [50.4589173, 30.5108682], [50.4593525, 30.5109855], [50.4594777, 30.5111366],
+          [50.4595012, 30.5112574], [50.4595052, 30.5115341], [50.459488, 30.5116823], [50.4594416, 30.5118527], [50.4593796, 30.5120068],
+          [50.4591136, 30.5124471], [50.4584182, 30.5126953], [50.4578599, 30.5128939], [50.4572602, 30.5129016], [50.4570472, 30.513442],
+          [50.4568416, 30.513778], [50.4566366, 30.5141874], [50.4569196, 30.5145798], [50.4571357, 30.514196], [50.4573255, 30.513843],
+          [50.4574588, 30.5140179], [50.4579982, 30.5139525], [50.4582116, 30.5137644], [50.458496, 30.5136965], [50.4587982, 30.5135076],
+          [50.4588832, 30.5136569], [50.4589272, 30.5137457], [50.4587857, 30.5144268], [50.4589361, 30.5147467], [50.4590482, 30.5152593],
+          [50.4591298, 30.5152885], [50.4591445, 30.5154024], [50.4590442, 30.5156594], [50.4590482, 30.5158915], [50.4591597, 30.5163144],
+          [50.4589977, 30.5163549], [50.4588155, 30.5165299], [50.4587525, 30.5168029], [50.4583662, 30.5174018], [50.458265, 30.5177423],
+          [50.4583365, 30.5182477], [50.4584137, 30.51817], [50.4584397, 30.5181291], [50.4584532, 30.5181092], [50.4586021, 30.5178891],
+          [50.4589371, 30.517507], [50.4590051, 30.5174587], [50.4593309, 30.517402], [50.4594196, 30.5173286], [50.4594183, 30.5174105],
+          [50.4594207, 30.5176243], [50.4594236, 30.51789], [50.4594746, 30.5182432], [50.4594516, 30.518315], [50.4593965, 30.5183581],
+          [50.4591614, 30.5184636], [50.4589829, 30.5186066], [50.458861, 30.5189051], [50.4588591, 30.5189862], [50.4588713, 30.5191654],
+          [50.4588675, 30.519375], [50.4588344, 30.5195874], [50.4588127, 30.5196651], [50.458796, 30.5196949], [50.4587437, 30.5197887],
+          [50.4585818, 30.5200523], [50.4585279, 30.5202314], [50.4585122, 30.5203717], [50.458504, 30.5205409], [50.4585325, 30.5210586],
+          [50.458496, 30.5211544], [50.4583776, 30.5212515], [50.4578764, 30.5220388], [50.4575194, 30.5225704], [50.4574628, 30.5227208],
+          [50.4573167, 30.5231088], [50.4572911, 30.5231738], [50.4573186, 30.5231988], [50.4581387, 30.5238406], [50.4585128, 30.52413],
+          [50.4587452, 30.5243255], [50.4588959, 30.5250849], [50.4588555, 30.5251461], [50.4585872, 30.5255564], [50.4583802, 30.525873],
+          [50.4582585, 30.5260502], [50.4580807, 30.526298], [50.4577507, 30.5267025], [50.4575408, 30.5269494], [50.4572974, 30.5272239],
+          [50.4570257, 30.5275287], [50.4568612, 30.5276823], [50.4567124, 30.5278113], [50.456567, 30.5279231], [50.4564198, 30.5280048],
+          [50.4562887, 30.528057], [50.4562101, 30.5280694], [50.4561168, 30.5280726], [50.4560231, 30.5280567], [50.4559175, 30.5280144],
+          [50.4557999, 30.5279456], [50.4556555, 30.5278342], [50.4555163, 30.5277284], [50.4553737, 30.5276563], [50.4552013, 30.5275959],
+          [50.4550666, 30.5275691], [50.4549237, 30.52755], [50.4546299, 30.5275522], [50.4545184, 30.5275578], [50.4546316, 30.5304045],
+          [50.4544011, 30.5304965], [50.454262, 30.5306514], [50.4541976, 30.5306679], [50.4541044, 30.5306406], [50.4540958, 30.5306365],
+          [50.454092, 30.5306374], [50.4539525, 30.5306719], [50.4539217, 30.5306719], [50.4538344, 30.5307181], [50.4537984, 30.5307592],
+          [50.4536495, 30.5308645], [50.4535982, 30.5309313], [50.4535256, 30.5309584], [50.4534714, 30.5309801], [50.4534142, 30.5310106],
+          [50.453387, 30.5310519], [50.453367, 30.5311091], [50.4532476, 30.531515], [50.4531781, 30.5317846], [50.4530451, 30.5321644],
+          [50.4529295, 30.5324896], [50.4527992, 30.5328894], [50.4527615, 30.5330213], [50.4527203, 30.5332209], [50.452723, 30.5333541],
+          [50.4527432, 30.5334863], [50.4527501, 30.5335574], [50.4527554, 30.533617], [50.4527434, 30.5336864], [50.452724, 30.5337482],
+          [50.4526825, 30.5338327], [50.4525088, 30.5340575], [50.4523928, 30.5342052], [50.4523275, 30.5342798], [50.4523721, 30.5344028],
+          [50.4524307, 30.5346568], [50.4550409, 30.5382982], [50.4563027, 30.5349003], [50.4577011, 30.5326611], [50.4588799, 30.5314687],
+          [50.4600586, 30.5305338], [50.4616128, 30.5296978], [50.4636042, 30.5291194], [50.4655451, 30.5289561], [50.4672675, 30.5291791],
+          [50.4688547, 30.5301829], [50.4738265, 30.5364063], [50.4764249, 30.5391357], [50.4790506, 30.5414574], [50.4825969, 30.5424008],
+          [50.483758, 30.5422695], [50.4836902, 30.5374006], [50.4836881, 30.5364861], [50.483696, 30.5347231], [50.4836922, 30.5333545],
+          [50.4836782, 30.5324238], [50.4836756, 30.5322166], [50.483673, 30.5320436], [50.48367, 30.5318934], [50.4836657, 30.5317677],
+          [50.4836624, 30.5316754], [50.4836551, 30.5315299], [50.4836483, 30.5314193], [50.4836354, 30.5312659], [50.4836261, 30.5311605],
+          [50.4836153, 30.5310445], [50.4835877, 30.5308178], [50.4835708, 30.5306916], [50.483549, 30.5305487], [50.4835282, 30.5304066],
+          [50.4835032, 30.5302487], [50.4834506, 30.5299504], [50.4833764, 30.5295404], [50.4833136, 30.5291855], [50.483282, 30.5290058],
+          [50.4832475, 30.5288133], [50.483224, 30.5286645], [50.4831976, 30.5284971], [50.4831864, 30.5284211], [50.4831762, 30.5283413],
+          [50.4831553, 30.5281797], [50.4831416, 30.5280697], [50.4831292, 30.5279618], [50.4831184, 30.5278577], [50.48311, 30.5277706],
+          [50.4831032, 30.5276949], [50.4830929, 30.5275561], [50.4830883, 30.5274836], [50.4830823, 30.5273985], [50.4830729, 30.5272396],
+          [50.4830691, 30.5271618], [50.4830684, 30.5271457], [50.4830661, 30.52709], [50.4830601, 30.526927], [50.4830524, 30.5264993],
+          [50.4830483, 30.5260732], [50.4830076, 30.526067], [50.4826914, 30.5260713], [50.4826961, 30.5255693], [50.4827033, 30.5245762],
+          [50.4827073, 30.5240173], [50.4827217, 30.5224366], [50.4827346, 30.5214837], [50.4827405, 30.5210433], [50.482743, 30.5208561],
+          [50.4827455, 30.5206773], [50.4827463, 30.5205564], [50.4827488, 30.5201573], [50.4827523, 30.5196005], [50.482771, 30.5185264],
+          [50.4827929, 30.517797], [50.482829, 30.5169883], [50.4828679, 30.5162258], [50.4829135, 30.5153329], [50.4829744, 30.5144202],
+          [50.4830491, 30.5135089], [50.4832826, 30.5111639], [50.4833913, 30.5100724], [50.4834329, 30.509615], [50.483447, 30.5094256],
+          [50.4834547, 30.5093207], [50.4835403, 30.5081522], [50.4835747, 30.5073866], [50.4835903, 30.5066358], [50.4835972, 30.5061218],
+          [50.4835962, 30.5054914], [50.4835937, 30.5049403], [50.4835912, 30.5043978], [50.4835708, 30.5033177], [50.4835326, 30.5025875],
+          [50.4835148, 30.5022671], [50.4835049, 30.5021698], [50.483462, 30.5017499], [50.4833975, 30.5013461], [50.4833007, 30.5009106],
+          [50.4831998, 30.5005646], [50.4830743, 30.500238], [50.4829317, 30.4999449], [50.4827425, 30.4996221], [50.4827171, 30.4995787],
+          [50.4825635, 30.4993415], [50.4823677, 30.4990681], [50.4822859, 30.4989814], [50.4821112, 30.4987963], [50.4819679, 30.4986887],
+          [50.4818924, 30.498632], [50.4816245, 30.4984548], [50.4814727, 30.4983748], [50.4813257, 30.4983055], [50.4810784, 30.4982374],
+          [50.4807822, 30.4982149], [50.4802491, 30.4982308], [50.4797705, 30.4982559], [50.479609, 30.4982644], [50.4794363, 30.498271],
+          [50.4792752, 30.4982923], [50.4791925, 30.4982805], [50.479128, 30.4982539], [50.4790188, 30.4981834], [50.4787963, 30.4980009],
+          [50.4786929, 30.4978941], [50.4785462, 30.4977589], [50.4784368, 30.497583], [50.478347, 30.4974953], [50.4782315, 30.497382],
+          [50.4781691, 30.4973202], [50.4780886, 30.4972404], [50.4776845, 30.4968669], [50.4774531, 30.4966744], [50.477228, 30.4964845],
+          [50.4771829, 30.4962998], [50.4771708, 30.4962306], [50.4771604, 30.4961522], [50.4771498, 30.4959964], [50.4771515, 30.4958229],
+          [50.4771645, 30.4956394], [50.4772023, 30.4954665], [50.4773654, 30.4951296], [50.4776693, 30.4946173], [50.4779598, 30.4941179],
+          [50.4781886, 30.4937436], [50.4785873, 30.4931024], [50.4786, 30.4930845], [50.4789687, 30.4924816], [50.4790441, 30.4923568],
+          [50.4793777, 30.4918171], [50.4794261, 30.4917345], [50.4794827, 30.4916429], [50.4797715, 30.4911665], [50.4799268, 30.490925],
+          [50.480034, 30.4907507], [50.4801813, 30.4905181], [50.4804038, 30.4901688], [50.4805396, 30.4899564], [50.4807474, 30.4896314],
+          [50.4809646, 30.4892911], [50.4811066, 30.4890602], [50.4811593, 30.4889646], [50.4814341, 30.4884974], [50.4839774, 30.4854993],
+          [50.4843468, 30.48504], [50.4845983, 30.4847256], [50.4850957, 30.484168], [50.4853135, 30.4839153], [50.4854757, 30.4837271],
+          [50.4857197, 30.483444], [50.4860981, 30.483005], [50.4866264, 30.4823917], [50.4869617, 30.4819561], [50.4871866, 30.4816423],
+          [50.4874056, 30.4812463], [50.4875761, 30.4808228], [50.4877002, 30.4803689], [50.4878068, 30.4798693], [50.4879422, 30.4789365],
+          [50.4880135, 30.4784211], [50.4882351, 30.4767864], [50.488427, 30.4754887], [50.4886344, 30.4741118], [50.4887003, 30.4736944],
+          [50.4887953, 30.4732893], [50.4888903, 30.4729948], [50.4888778, 30.4728419], [50.4890443, 30.4720143], [50.4890528, 30.4719474],
+          [50.4892446, 30.4705748], [50.4893397, 30.4699203], [50.48958, 30.468129], [50.4897238, 30.4670571], [50.489739, 30.4669043],
+          [50.4897379, 30.4667862], [50.4897308, 30.4667355], [50.489687, 30.4665508], [50.4898436, 30.4662883], [50.4899457, 30.4661219],
+          [50.4900805, 30.4659006], [50.4905156, 30.4651935], [50.4906005, 30.4650787], [50.4906649, 30.464993], [50.4908346, 30.4647723],
+          [50.4911549, 30.4643926], [50.4918937, 30.4636048], [50.4920411, 30.4634455], [50.4922141, 30.4632677], [50.4926695, 30.4627697],
+          [50.4927458, 30.4626915], [50.4928653, 30.4625482], [50.4929997, 30.4623762], [50.4937847, 30.4614388], [50.4938343, 30.4613813],
+          [50.4938727, 30.4613314], [50.4942249, 30.4609], [50.4944004, 30.4606671], [50.4947653, 30.4601544], [50.4950781, 30.4596712],
+          [50.4952293, 30.4594308], [50.4952811, 30.4593363], [50.4953064, 30.4592832], [50.495355, 30.4591832], [50.4955035, 30.4589002],
+          [50.4956618, 30.4585951], [50.495749, 30.4584292], [50.4960841, 30.4577796], [50.4963939, 30.4571604], [50.4964235, 30.4571101],
+          [50.4967733, 30.4564455], [50.4968251, 30.4563599], [50.4969482, 30.4561595], [50.4971257, 30.4558798], [50.4972417, 30.4557128],
+          [50.4981636, 30.4544773], [50.4983759, 30.4542064], [50.4991687, 30.4531773], [50.4994548, 30.4528346], [50.4997653, 30.4524473],
+          [50.5000497, 30.4521215], [50.5002879, 30.4518436], [50.5003584, 30.4517807], [50.5004249, 30.4517478], [50.5004676, 30.4517326],
+          [50.5005776, 30.4517201], [50.5008427, 30.4516922], [50.5009648, 30.4516774], [50.5011134, 30.451656], [50.5011997, 30.4516449],
+          [50.5016272, 30.4515797], [50.5022143, 30.4514837], [50.5022537, 30.4514765], [50.5031072, 30.4513519], [50.5035074, 30.451296],
+          [50.5035455, 30.451288], [50.5039383, 30.4512211], [50.5043031, 30.4511594], [50.5046922, 30.4510903], [50.5050828, 30.4510121],
+          [50.5053635, 30.4509592], [50.5055604, 30.4509274], [50.5059034, 30.4508734], [50.5060514, 30.4508457], [50.506377, 30.4508228],
+          [50.5065124, 30.4508152], [50.5067578, 30.4508058], [50.5072872, 30.4507796], [50.5080095, 30.4507378], [50.5082554, 30.4507214],
+          [50.5083731, 30.4507137], [50.5084527, 30.4507032], [50.5092102, 30.4506193], [50.5093505, 30.4506015], [50.5100082, 30.4505276],
+          [50.5101537, 30.4505101], [50.5112783, 30.4503458], [50.5116014, 30.4503098], [50.5118778, 30.4502723], [50.5119617, 30.4502631],
+          [50.5120262, 30.4502571], [50.512518, 30.4501857], [50.5126518, 30.4501708], [50.5132366, 30.4500884], [50.5133567, 30.450071],
+          [50.514129, 30.4499918], [50.5144546, 30.4499635], [50.5145914, 30.4499522], [50.5146981, 30.4499353], [50.5160306, 30.4497754],
+          [50.5161364, 30.449762], [50.5163221, 30.4497496], [50.5168031, 30.4496954], [50.516861, 30.4496836], [50.5168919, 30.4496785],
+          [50.5174724, 30.4497528], [50.5184888, 30.4496313], [50.519448, 30.4494977], [50.5202234, 30.4493933], [50.5204733, 30.449381],
+          [50.52071, 30.4491679], [50.5207876, 30.4488561], [50.5209239, 30.4488156], [50.523644, 30.4477965], [50.5252157, 30.4472037],
+          [50.5253749, 30.4471502], [50.5264972, 30.4467723], [50.5266351, 30.4467267], [50.5265906, 30.4462976], [50.5262654, 30.4431631],
+          [50.5261171, 30.441538], [50.5259502, 30.439689], [50.525901, 30.4389994], [50.5258523, 30.4382904], [50.525801, 30.4375755],
+          [50.5257475, 30.4368873], [50.5256895, 30.4362057], [50.5255929, 30.4354984], [50.525467, 30.4348363], [50.5253993, 30.4345015],
+          [50.5253067, 30.434163], [50.5251089, 30.4335272], [50.5248801, 30.4329231], [50.5246165, 30.4323592], [50.5243306, 30.431816],
+          [50.5240141, 30.4313148], [50.5236829, 30.430852], [50.5233428, 30.4303829], [50.5230067, 30.4299183], [50.5226729, 30.4294442],
+          [50.5223648, 30.4289273], [50.5220957, 30.4283522], [50.5218529, 30.4277686], [50.5216388, 30.4271334], [50.5214627, 30.4264934],
+          [50.5213129, 30.4258384], [50.5212, 30.4251671], [50.5211214, 30.4244603], [50.521064, 30.4237754], [50.5209977, 30.4229482],
+          [50.5209456, 30.422241], [50.5208911, 30.4215421], [50.5208377, 30.4208295], [50.520787, 30.4201395], [50.5207357, 30.4194414],
+          [50.5206842, 30.4187411], [50.5206331, 30.4180463], [50.5205804, 30.4173288], [50.5205287, 30.4166259], [50.5204776, 30.4159297],
+          [50.5204255, 30.4152215], [50.5203743, 30.414524], [50.520323, 30.4138266], [50.5202711, 30.4131203], [50.5202209, 30.4124368],
+          [50.520169, 30.4117307], [50.5201169, 30.411021], [50.5200653, 30.4103202], [50.5200138, 30.409619], [50.5199629, 30.4089266],
+          [50.5199099, 30.4082218], [50.5198573, 30.4075235], [50.5198051, 30.4068303], [50.5197521, 30.4061263], [50.5196989, 30.4054199],
+          [50.5196463, 30.4047218], [50.5195936, 30.4040224], [50.5195402, 30.4033132], [50.5194875, 30.4026124], [50.5194352, 30.4019185],
+          [50.5193824, 30.4012176], [50.5193294, 30.4005127], [50.5192774, 30.3998224], [50.5192247, 30.3991224], [50.5191713, 30.398413],
+          [50.5191181, 30.3977077], [50.5190665, 30.3970216], [50.519028, 30.3965107], [50.5189622, 30.3956332], [50.5189088, 30.3949221],
+          [50.5187578, 30.3929088], [50.5185547, 30.3901365], [50.5183405, 30.3873784], [50.5180773, 30.3838271], [50.5178564, 30.3808865],
+          [50.5177314, 30.3792161], [50.5173789, 30.3744647], [50.5172517, 30.3728225], [50.5171915, 30.3720048], [50.5170821, 30.3712293],
+          [50.5169884, 30.3707205], [50.5168746, 30.3702818], [50.516714, 30.3697274], [50.5165154, 30.3691203], [50.5158504, 30.3669833],
+          [50.5157836, 30.36669], [50.5157107, 30.3663235], [50.5156362, 30.3659496], [50.5155807, 30.3654935], [50.515524, 30.3647947],
+          [50.5155142, 30.3641823], [50.5155332, 30.3637162], [50.5155585, 30.3632301], [50.5156125, 30.362758], [50.5157435, 30.3619914]
+        ]
+      ]
     ],
     population: 200000,
     area: 34.1
   },
   {
     name: "Shevchenkivskyi",
-    coordinates: [
-      [50.4859692, 30.3956789], [50.4858042, 30.395709], [50.4857816, 30.3957093], [50.4854138, 30.3957142], [50.4853677, 30.3957148],
-      [50.4851537, 30.395723], [50.4847772, 30.3957302], [50.4842811, 30.3957538], [50.4841838, 30.395759], [50.4837051, 30.3957704],
-      [50.4836017, 30.3957742], [50.4832215, 30.3957835], [50.4830056, 30.3957863], [50.4829111, 30.3957875], [50.4824487, 30.3957914],
-      [50.4818132, 30.3957879], [50.4815332, 30.3957867], [50.4814533, 30.3957899], [50.4813913, 30.3957918], [50.4813213, 30.3957935],
-      [50.4809915, 30.3958024], [50.4799506, 30.3958205], [50.4798595, 30.3958239], [50.4798034, 30.3958252], [50.4789965, 30.3958407],
-      [50.4785833, 30.3958487], [50.4784211, 30.395852], [50.4783409, 30.3958537], [50.4775951, 30.3958687], [50.4771642, 30.3958774],
-      [50.4768163, 30.3958849], [50.4763581, 30.3958943], [50.4756124, 30.3959095], [50.4754495, 30.3959128], [50.4753939, 30.395914],
-      [50.4752564, 30.3959168], [50.4748995, 30.395924], [50.4748603, 30.3959245], [50.4747207, 30.3959263], [50.4746503, 30.3959272],
-      [50.4743869, 30.3959307], [50.4736716, 30.3959401], [50.4719417, 30.395963], [50.4718104, 30.3959648], [50.4717273, 30.3959659],
-      [50.4716603, 30.3959668], [50.4711432, 30.3959739], [50.4707594, 30.3959792], [50.4701972, 30.3959868], [50.4697081, 30.3959935],
-      [50.4678597, 30.3960188], [50.4673756, 30.3960254], [50.4672763, 30.3960261], [50.4670647, 30.3960278], [50.4668097, 30.3960298],
-      [50.4644971, 30.3960476], [50.4644366, 30.3960477], [50.4640453, 30.396048], [50.4636094, 30.3960484], [50.4631064, 30.3960488],
-      [50.4617771, 30.39605], [50.4614515, 30.3960503], [50.4601657, 30.3960514], [50.4595194, 30.3960519], [50.4594346, 30.3960503],
-      [50.4591725, 30.3960525], [50.4586994, 30.3960631], [50.4585794, 30.3960648], [50.4582277, 30.3960699], [50.4580727, 30.3960721],
-      [50.4580079, 30.3960725], [50.4582431, 30.3995659], [50.4583172, 30.4007946], [50.4583709, 30.4015802], [50.4584186, 30.402912],
-      [50.458889, 30.4098451], [50.458964, 30.4107285], [50.4589874, 30.4109211], [50.4593832, 30.4143624], [50.4594215, 30.414846],
-      [50.4594207, 30.4157666], [50.4594049, 30.4162793], [50.4591735, 30.4175796], [50.4589042, 30.419049], [50.4586908, 30.4203525],
-      [50.4585392, 30.4212423], [50.4583153, 30.4226032], [50.4580203, 30.4243952], [50.4576863, 30.4263979], [50.457434, 30.4279296],
-      [50.4571609, 30.4296412], [50.4568891, 30.4312916], [50.4553833, 30.440609], [50.4551815, 30.4418637], [50.4547232, 30.4446773],
-      [50.4544841, 30.4461731], [50.4544209, 30.4465271], [50.454264, 30.4474067], [50.4537336, 30.4507576], [50.4536258, 30.451357],
-      [50.4535368, 30.4518523], [50.4532963, 30.4532246], [50.453131, 30.454188], [50.4523562, 30.458905], [50.4517203, 30.4627841],
-      [50.4511118, 30.4665859], [50.4510843, 30.4667588], [50.4510492, 30.4667523], [50.4508846, 30.4666773], [50.4508677, 30.4666696],
-      [50.4505942, 30.4665683], [50.4504537, 30.4665132], [50.449876, 30.4662939], [50.4498456, 30.4662842], [50.4497898, 30.466268],
-      [50.4494006, 30.4661325], [50.4492987, 30.466097], [50.4491908, 30.4660651], [50.4490678, 30.4660519], [50.4484736, 30.466071],
-      [50.4481653, 30.4661722], [50.448096, 30.4661925], [50.4479564, 30.4662466], [50.4469526, 30.466884], [50.4467309, 30.4670248],
-      [50.446715, 30.4670342], [50.4466449, 30.4670762], [50.4460465, 30.467541], [50.4468777, 30.471757], [50.4470105, 30.4726131],
-      [50.4471173, 30.4735512], [50.4471843, 30.4750541], [50.4471042, 30.4765711], [50.4468919, 30.4778725], [50.4466568, 30.4788606],
-      [50.4460437, 30.48094], [50.4459679, 30.4810211], [50.4457847, 30.4814865], [50.4457616, 30.4815459], [50.4457058, 30.4817048],
-      [50.4456901, 30.4817581], [50.4454086, 30.4826808], [50.4454014, 30.4827068], [50.4454361, 30.4827382], [50.4454583, 30.4827582],
-      [50.4453251, 30.4831852], [50.4452355, 30.4833724], [50.4449428, 30.4844392], [50.444837, 30.4847557], [50.4446894, 30.4851971],
-      [50.4444668, 30.4857058], [50.4441825, 30.4862318], [50.4435843, 30.487142], [50.4433574, 30.4874863], [50.4424927, 30.4886537],
-      [50.4425159, 30.4886987], [50.4423969, 30.4888821], [50.4415573, 30.4900203], [50.4415663, 30.490132], [50.4415678, 30.4901735],
-      [50.4416608, 30.4917091], [50.4414631, 30.4921349], [50.4406493, 30.4912677], [50.4400673, 30.4920485], [50.4394436, 30.492885],
-      [50.4394181, 30.4928405], [50.4389281, 30.4934845], [50.4387282, 30.4937472], [50.4386004, 30.4940673], [50.4386345, 30.4941262],
-      [50.4391835, 30.4952164], [50.4392236, 30.495298], [50.439333, 30.4955532], [50.4399115, 30.4968605], [50.4399651, 30.4969815],
-      [50.4402184, 30.4975373], [50.4403035, 30.4977297], [50.4403925, 30.4979492], [50.4407067, 30.4986739], [50.4408346, 30.4989688],
-      [50.4408756, 30.4990635], [50.441069, 30.4995141], [50.4411651, 30.4997485], [50.4412631, 30.4999608], [50.4414042, 30.5002835],
-      [50.4414478, 30.5003799], [50.441819, 30.501239], [50.4418941, 30.5014137], [50.441933, 30.5015041], [50.4418727, 30.5017991],
-      [50.4408419, 30.5081349], [50.4408341, 30.5083331], [50.4405717, 30.5099324], [50.440503, 30.5103713], [50.4404104, 30.5109013],
-      [50.4403704, 30.5111417], [50.4403434, 30.5113095], [50.4402315, 30.5120272], [50.4401139, 30.5127205], [50.4399843, 30.5134281],
-      [50.4399504, 30.5136011], [50.4399645, 30.5137066], [50.4399501, 30.5137946], [50.4399169, 30.5139642], [50.4397245, 30.5151131],
-      [50.4395998, 30.5158574], [50.439543, 30.5159316], [50.43943, 30.5160835], [50.4393574, 30.5161676], [50.4393247, 30.5162079],
-      [50.4393031, 30.5167723], [50.439348, 30.5168968], [50.4394098, 30.517054], [50.4394504, 30.5171451], [50.4398911, 30.5181342],
-      [50.4403207, 30.5190882], [50.4405763, 30.5196496], [50.440662, 30.5197485], [50.4407243, 30.5198024], [50.4408232, 30.5198529],
-      [50.4410363, 30.5199063], [50.4412649, 30.519971], [50.4420402, 30.5202279], [50.4422001, 30.5202862], [50.4421881, 30.5203596],
-      [50.4421799, 30.5204095], [50.4421062, 30.5209069], [50.4420526, 30.5212341], [50.4419224, 30.5220768], [50.4418874, 30.5221519],
-      [50.4418817, 30.5223513], [50.4419592, 30.5223342], [50.442038, 30.5223181], [50.4420971, 30.5223065], [50.4422029, 30.5222857],
-      [50.4422859, 30.5222686], [50.4424562, 30.5222423], [50.4425, 30.5222309], [50.4425516, 30.5221912], [50.442604, 30.5221409],
-      [50.4426641, 30.5220443], [50.4427054, 30.5219343], [50.4427272, 30.5218065], [50.4427756, 30.5214824], [50.4428105, 30.5212491],
-      [50.4428259, 30.5211315], [50.4428923, 30.5208213], [50.4429067, 30.5207658], [50.4429258, 30.5207104], [50.4429511, 30.5206556],
-      [50.4429803, 30.5206024], [50.4432342, 30.5206881], [50.4436734, 30.5208344], [50.4445466, 30.5211233], [50.4446189, 30.5211689],
-      [50.444698, 30.5212144], [50.4448866, 30.5212773], [50.4449571, 30.5213009], [50.4451056, 30.5213323], [50.4453526, 30.5213896],
-      [50.4471461, 30.5219847], [50.4476737, 30.5221598], [50.447734, 30.5221798], [50.4479172, 30.5222543], [50.4480169, 30.5222967],
-      [50.4481176, 30.5223439], [50.4483151, 30.5224481], [50.4485093, 30.5225665], [50.4486089, 30.5226327], [50.4487985, 30.522768],
-      [50.4490023, 30.5229324], [50.449178, 30.5230959], [50.4493564, 30.5233], [50.4489287, 30.5243742], [50.4492855, 30.5247153],
-      [50.4490813, 30.5252421], [50.4490947, 30.5252549], [50.4489746, 30.5255646], [50.4489935, 30.5255837], [50.4488962, 30.5258347],
-      [50.4487467, 30.5260573], [50.4494566, 30.5269825], [50.4496171, 30.52657], [50.4502296, 30.5249759], [50.4503209, 30.5246934],
-      [50.4503348, 30.5246593], [50.4503494, 30.524626], [50.4503578, 30.5246071], [50.4509647, 30.5254489], [50.4510969, 30.5256323],
-      [50.4512295, 30.5258163], [50.4514491, 30.526121], [50.4518606, 30.5266918], [50.4518802, 30.5267702], [50.4518856, 30.5268105],
-      [50.4518881, 30.5268509], [50.4517977, 30.5279556], [50.4517708, 30.5282084], [50.4519134, 30.528246], [50.4520662, 30.5281903],
-      [50.4522085, 30.5281487], [50.4526692, 30.5280172], [50.4527853, 30.5279836], [50.452922, 30.5279403], [50.4535442, 30.527757],
-      [50.4541531, 30.5276245], [50.4543685, 30.5275855], [50.4545184, 30.5275578], [50.4546299, 30.5275522], [50.4549237, 30.52755],
-      [50.4550666, 30.5275691], [50.4552013, 30.5275959], [50.4553737, 30.5276563], [50.4555163, 30.5277284], [50.4556555, 30.5278342],
-      [50.4557999, 30.5279456], [50.4559175, 30.5280144], [50.4560231, 30.5280567], [50.4561168, 30.5280726], [50.4562101, 30.5280694],
-      [50.4562887, 30.528057], [50.4564198, 30.5280048], [50.456567, 30.5279231], [50.4567124, 30.5278113], [50.4568612, 30.5276823],
-      [50.4570257, 30.5275287], [50.4572974, 30.5272239], [50.4575408, 30.5269494], [50.4577507, 30.5267025], [50.4580807, 30.526298],
-      [50.4582585, 30.5260502], [50.4583802, 30.525873], [50.4585872, 30.5255564], [50.4588555, 30.5251461], [50.4588959, 30.5250849],
-      [50.4587452, 30.5243255], [50.4585128, 30.52413], [50.4581387, 30.5238406], [50.4573186, 30.5231988], [50.4572911, 30.5231738],
-      [50.4573167, 30.5231088], [50.4574628, 30.5227208], [50.4575194, 30.5225704], [50.4578764, 30.5220388], [50.4583776, 30.5212515],
-      [50.458496, 30.5211544], [50.4585325, 30.5210586], [50.458504, 30.5205409], [50.4585122, 30.5203717], [50.4585279, 30.5202314],
-      [50.4585818, 30.5200523], [50.4587437, 30.5197887], [50.458796, 30.5196949], [50.4588127, 30.5196651], [50.4588344, 30.5195874],
-      [50.4588675, 30.519375], [50.4588713, 30.5191654], [50.4588591, 30.5189862], [50.458861, 30.5189051], [50.4589829, 30.5186066],
-      [50.4591614, 30.5184636], [50.4593965, 30.5183581], [50.4594516, 30.518315], [50.4594746, 30.5182432], [50.4594236, 30.51789],
-      [50.4594207, 30.5176243], [50.4594183, 30.5174105], [50.4594196, 30.5173286], [50.4593309, 30.517402], [50.4590051, 30.5174587],
-      [50.4589371, 30.517507], [50.4586021, 30.5178891], [50.4584532, 30.5181092], [50.4584397, 30.5181291], [50.4584137, 30.51817],
-      [50.4583365, 30.5182477], [50.458265, 30.5177423], [50.4583662, 30.5174018], [50.4587525, 30.5168029], [50.4588155, 30.5165299],
-      [50.4589977, 30.5163549], [50.4591597, 30.5163144], [50.4590482, 30.5158915], [50.4590442, 30.5156594], [50.4591445, 30.5154024],
-      [50.4591298, 30.5152885], [50.4590482, 30.5152593], [50.4589361, 30.5147467], [50.4587857, 30.5144268], [50.4589272, 30.5137457],
-      [50.4588832, 30.5136569], [50.4587982, 30.5135076], [50.458496, 30.5136965], [50.4582116, 30.5137644], [50.4579982, 30.5139525],
-      [50.4574588, 30.5140179], [50.4573255, 30.513843], [50.4571357, 30.514196], [50.4569196, 30.5145798], [50.4566366, 30.5141874],
-      [50.4568416, 30.513778], [50.4570472, 30.513442], [50.4572602, 30.5129016], [50.4578599, 30.5128939], [50.4584182, 30.5126953],
-      [50.4591136, 30.5124471], [50.4593796, 30.5120068], [50.4594416, 30.5118527], [50.459488, 30.5116823], [50.4595052, 30.5115341],
-      [50.4595012, 30.5112574], [50.4594777, 30.5111366], [50.4593525, 30.5109855], [50.4589173, 30.5108682], [50.4586448, 30.5108601],
-      [50.4582952, 30.5108156], [50.4579742, 30.511179], [50.4579326, 30.5111688], [50.4578242, 30.5108892], [50.4577455, 30.5106635],
-      [50.4579801, 30.5104759], [50.4578264, 30.5100748], [50.4577019, 30.5097007], [50.4572701, 30.509225], [50.4573952, 30.5090546],
-      [50.457493, 30.5090842], [50.457543, 30.5087989], [50.4574169, 30.5086634], [50.4576585, 30.5083122], [50.4578468, 30.5084595],
-      [50.4583186, 30.5089641], [50.4584214, 30.5092979], [50.4586076, 30.5092495], [50.4587318, 30.5091804], [50.4591949, 30.5092954],
-      [50.4593774, 30.5092454], [50.4594546, 30.5090322], [50.4598344, 30.5088434], [50.4605084, 30.5085947], [50.4608575, 30.5079781],
-      [50.4611431, 30.5067988], [50.4611865, 30.5067422], [50.4615692, 30.5062428], [50.461454, 30.5059907], [50.461612, 30.5058971],
-      [50.4617996, 30.5058802], [50.4619089, 30.5059124], [50.4621486, 30.5061466], [50.4622639, 30.5063084], [50.4623587, 30.5064249],
-      [50.4624007, 30.506573], [50.4625052, 30.50699], [50.4625216, 30.5070563], [50.4627671, 30.5074522], [50.4628223, 30.5075411],
-      [50.4634134, 30.5084724], [50.4637504, 30.5089717], [50.464169, 30.5096129], [50.4642971, 30.5098223], [50.4643332, 30.5098768],
-      [50.4643832, 30.5099612], [50.4645429, 30.5102311], [50.4645611, 30.5102585], [50.4650723, 30.5093757], [50.4659192, 30.5078307],
-      [50.466684, 30.5068008], [50.4674489, 30.5060283], [50.4674844, 30.5051216], [50.4683777, 30.5037538], [50.4687372, 30.5027709],
-      [50.4684323, 30.5024234], [50.4676674, 30.5013505], [50.4669845, 30.5013076], [50.4663058, 30.5010944], [50.4657828, 30.5008359],
-      [50.4659738, 30.4995052], [50.4671711, 30.4999773], [50.4672968, 30.4998356], [50.4672931, 30.4996069], [50.4673123, 30.499076],
-      [50.4673636, 30.4987785], [50.4673368, 30.4983682], [50.4670665, 30.4977907], [50.4667114, 30.4969324], [50.4663836, 30.496117],
-      [50.466299, 30.4958934], [50.46581, 30.4959392], [50.4657103, 30.4954127], [50.4656583, 30.4951053], [50.4658407, 30.4946812],
-      [50.466069, 30.4941845], [50.4662503, 30.4934308], [50.46673, 30.4935481], [50.4672045, 30.4937993], [50.4673804, 30.4943604],
-      [50.4679032, 30.4946666], [50.4690092, 30.4944615], [50.4692266, 30.4944212], [50.4694586, 30.4941652], [50.4698321, 30.4935709],
-      [50.4700709, 30.4934411], [50.4703364, 30.4933234], [50.4703982, 30.4933287], [50.4704748, 30.4933718], [50.4707082, 30.4933516],
-      [50.470806, 30.4934162], [50.4710352, 30.4937035], [50.4711082, 30.4938767], [50.4711352, 30.4940232], [50.4710929, 30.4942705],
-      [50.4710987, 30.4943848], [50.4711424, 30.4944447], [50.4713897, 30.4943593], [50.4716687, 30.4945995], [50.4718923, 30.494792],
-      [50.4719833, 30.494712], [50.4720763, 30.4947702], [50.4721813, 30.4947917], [50.472278, 30.4947965], [50.4724502, 30.4944498],
-      [50.472675, 30.4940785], [50.4727915, 30.4937288], [50.4728544, 30.4936328], [50.4728747, 30.493466], [50.4727007, 30.4930183],
-      [50.4726725, 30.4928244], [50.4728926, 30.4922067], [50.4731512, 30.4922613], [50.4733882, 30.4921946], [50.4736537, 30.4916978],
-      [50.4738036, 30.4911201], [50.4739277, 30.4907778], [50.474063, 30.4905951], [50.474143, 30.4903415], [50.473948, 30.4902189],
-      [50.4737657, 30.4900332], [50.4737762, 30.4899975], [50.4737642, 30.4899526], [50.4737072, 30.4899133], [50.4735619, 30.4896783],
-      [50.473374, 30.4894498], [50.4733788, 30.4893468], [50.4733593, 30.4893434], [50.4733117, 30.4889742], [50.4734897, 30.4889047],
-      [50.4735891, 30.488974], [50.473599, 30.4887257], [50.4734233, 30.4885973], [50.4733585, 30.4884412], [50.4733496, 30.4882483],
-      [50.4733206, 30.4882369], [50.4732486, 30.4882559], [50.4729862, 30.4877851], [50.4728309, 30.4875428], [50.4728644, 30.4873974],
-      [50.4729424, 30.4874377], [50.4731956, 30.4861561], [50.4736641, 30.4862292], [50.473813, 30.486229], [50.4746367, 30.4863741],
-      [50.4748744, 30.486444], [50.4750224, 30.4867441], [50.4753834, 30.4861], [50.4755364, 30.4855422], [50.4761939, 30.4837604],
-      [50.4764367, 30.4842314], [50.4765925, 30.4840336], [50.4766411, 30.4838077], [50.4770313, 30.4835583], [50.477092, 30.4837748],
-      [50.4774322, 30.4840704], [50.4776069, 30.4845243], [50.4784034, 30.4826995], [50.4782893, 30.4825891], [50.4784146, 30.4820984],
-      [50.4785507, 30.4818767], [50.4787184, 30.4819816], [50.4791539, 30.4809541], [50.4790369, 30.4808197], [50.4792679, 30.4802776],
-      [50.4788438, 30.47973], [50.4788717, 30.4796532], [50.4789896, 30.4795103], [50.4790947, 30.4785717], [50.4791488, 30.4784331],
-      [50.4792238, 30.4783318], [50.4792774, 30.4783199], [50.4794291, 30.4780977], [50.4794524, 30.4780275], [50.4794055, 30.4777208],
-      [50.4795632, 30.4772319], [50.4793564, 30.4765689], [50.4794284, 30.4765128], [50.4807463, 30.4752812], [50.480858, 30.4751752],
-      [50.4809696, 30.4751093], [50.4811, 30.4750786], [50.4812368, 30.4750928], [50.4813694, 30.475168], [50.4814734, 30.4752648],
-      [50.4815677, 30.4754031], [50.4818764, 30.4759279], [50.481908, 30.4759816], [50.4819185, 30.4757673], [50.4818182, 30.4755732],
-      [50.481637, 30.4752224], [50.4815761, 30.4750544], [50.4815271, 30.4747682], [50.4814611, 30.4744028], [50.4813997, 30.474052],
-      [50.4813316, 30.4738103], [50.4811828, 30.4734705], [50.4809777, 30.4730115], [50.4807984, 30.4727074], [50.4806071, 30.4723976],
-      [50.4805634, 30.47236], [50.4804143, 30.4722314], [50.4801646, 30.4721237], [50.4800879, 30.4721085], [50.4800332, 30.4721143],
-      [50.4797409, 30.4722781], [50.4794448, 30.4724849], [50.4793317, 30.4725383], [50.4792145, 30.4725275], [50.4790997, 30.4724781],
-      [50.4789546, 30.4723418], [50.4787143, 30.4720855], [50.4784184, 30.4716857], [50.4783026, 30.4715203], [50.4781528, 30.4713062],
-      [50.4780422, 30.4696664], [50.4762147, 30.4634133], [50.480938, 30.4568947], [50.4814617, 30.4564516], [50.4819161, 30.4561875],
-      [50.4822801, 30.4559352], [50.4824229, 30.4558034], [50.4824718, 30.4557373], [50.4827399, 30.4555335], [50.4830114, 30.4553271],
-      [50.4830846, 30.4552715], [50.4831273, 30.4552394], [50.4839953, 30.4545514], [50.4838082, 30.4534709], [50.4840249, 30.4530096],
-      [50.4841182, 30.4527969], [50.4844908, 30.4523245], [50.4842116, 30.4512064], [50.4838282, 30.4498329], [50.4840526, 30.4494804],
-      [50.4837807, 30.4486685], [50.4835495, 30.4482145], [50.4832437, 30.4477979], [50.4836719, 30.4470447], [50.4839642, 30.4472661],
-      [50.4847391, 30.4459444], [50.4841409, 30.444155], [50.4848037, 30.4433965], [50.4848682, 30.4431401], [50.4847051, 30.4428036],
-      [50.4846005, 30.4423909], [50.4846339, 30.442347], [50.4847061, 30.4422784], [50.4847729, 30.442219], [50.4848029, 30.442197],
-      [50.4851235, 30.4420328], [50.4852032, 30.4420147], [50.485559, 30.4418564], [50.4856871, 30.4417948], [50.485785, 30.4417365],
-      [50.4860172, 30.4415632], [50.4860919, 30.441498], [50.4862611, 30.4413666], [50.4863998, 30.4412546], [50.486614, 30.4410939],
-      [50.4866453, 30.4410674], [50.4867404, 30.4410073], [50.48678, 30.4409902], [50.4867658, 30.4407526], [50.4866698, 30.4404541],
-      [50.4864956, 30.4398997], [50.4858913, 30.4384754], [50.4858209, 30.4382598], [50.4858278, 30.4379572], [50.486051, 30.4364461],
-      [50.4861016, 30.4361037], [50.4861926, 30.4357013], [50.4861933, 30.4354826], [50.4840227, 30.4333309], [50.4839479, 30.4332562],
-      [50.4826005, 30.4319741], [50.4809432, 30.4304174], [50.4805043, 30.4300249], [50.4800809, 30.4297148], [50.4794601, 30.4293747],
-      [50.4786409, 30.4291366], [50.4782628, 30.4290865], [50.4779746, 30.4290892], [50.4775041, 30.4291501], [50.4771718, 30.4292305],
-      [50.4768738, 30.4293129], [50.4766633, 30.4295026], [50.4766205, 30.4292226], [50.4765933, 30.4289974], [50.4765695, 30.4286944],
-      [50.4765508, 30.4283609], [50.4765531, 30.4279942], [50.4765586, 30.4276011], [50.4765583, 30.4274188], [50.4765944, 30.426997],
-      [50.4768845, 30.4249836], [50.4769429, 30.4244347], [50.4772067, 30.4195897], [50.4773082, 30.4179202], [50.4773552, 30.4170351],
-      [50.4773944, 30.4157472], [50.4773934, 30.4143071], [50.4774175, 30.4137036], [50.4774338, 30.4135526], [50.4774546, 30.4134286],
-      [50.4775251, 30.4130804], [50.477561, 30.4129539], [50.4776329, 30.4127127], [50.4776857, 30.4125622], [50.4777338, 30.4124298],
-      [50.4778583, 30.4121521], [50.4785218, 30.410972], [50.4791042, 30.4098927], [50.4791633, 30.4097724], [50.4794997, 30.4091325],
-      [50.4797573, 30.4086665], [50.4798409, 30.4085033], [50.4798621, 30.4084598], [50.4798945, 30.408408], [50.4799272, 30.4083475],
-      [50.4806942, 30.4071927], [50.4820021, 30.4048875], [50.4821836, 30.4044595], [50.482297, 30.404061], [50.4824792, 30.4036156],
-      [50.4827123, 30.4032116], [50.4831473, 30.4024056], [50.483244, 30.4022257], [50.4838043, 30.4011823], [50.4843791, 30.4001119],
-      [50.4844905, 30.3999044], [50.4849019, 30.3991392], [50.4849435, 30.3990618], [50.4850165, 30.3989247], [50.4854063, 30.3982122],
-      [50.4855243, 30.3979792], [50.4860945, 30.3969605], [50.4861468, 30.3968943], [50.4862198, 30.3968019], [50.4863459, 30.3965858],
-      [50.4864399, 30.3964075], [50.486565, 30.3961679], [50.4866921, 30.3959173], [50.4861725, 30.3957082], [50.4859692, 30.3956789]
+    polygons: [
+      [
+        [
+          [50.4859692, 30.3956789], [50.4858042, 30.395709], [50.4857816, 30.3957093], [50.4854138, 30.3957142], [50.4853677, 30.3957148],
+          [50.4851537, 30.395723], [50.4847772, 30.3957302], [50.4842811, 30.3957538], [50.4841838, 30.395759], [50.4837051, 30.3957704],
+          [50.4836017, 30.3957742], [50.4832215, 30.3957835], [50.4830056, 30.3957863], [50.4829111, 30.3957875], [50.4824487, 30.3957914],
+          [50.4818132, 30.3957879], [50.4815332, 30.3957867], [50.4814533, 30.3957899], [50.4813913, 30.3957918], [50.4813213, 30.3957935],
+          [50.4809915, 30.3958024], [50.4799506, 30.3958205], [50.4798595, 30.3958239], [50.4798034, 30.3958252], [50.4789965, 30.3958407],
+          [50.4785833, 30.3958487], [50.4784211, 30.395852], [50.4783409, 30.3958537], [50.4775951, 30.3958687], [50.4771642, 30.3958774],
+          [50.4768163, 30.3958849], [50.4763581, 30.3958943], [50.4756124, 30.3959095], [50.4754495, 30.3959128], [50.4753939, 30.395914],
+          [50.4752564, 30.3959168], [50.4748995, 30.395924], [50.4748603, 30.3959245], [50.4747207, 30.3959263], [50.4746503, 30.3959272],
+          [50.4743869, 30.3959307], [50.4736716, 30.3959401], [50.4719417, 30.395963], [50.4718104, 30.3959648], [50.4717273, 30.3959659],
+          [50.4716603, 30.3959668], [50.4711432, 30.3959739], [50.4707594, 30.3959792], [50.4701972, 30.3959868], [50.4697081, 30.3959935],
+          [50.4678597, 30.3960188], [50.4673756, 30.3960254], [50.4672763, 30.3960261], [50.4670647, 30.3960278], [50.4668097, 30.3960298],
+          [50.4644971, 30.3960476], [50.4644366, 30.3960477], [50.4640453, 30.396048], [50.4636094, 30.3960484], [50.4631064, 30.3960488],
+          [50.4617771, 30.39605], [50.4614515, 30.3960503], [50.4601657, 30.3960514], [50.4595194, 30.3960519], [50.4594346, 30.3960503],
+          [50.4591725, 30.3960525], [50.4586994, 30.3960631], [50.4585794, 30.3960648], [50.4582277, 30.3960699], [50.4580727, 30.3960721],
+          [50.4580079, 30.3960725], [50.4582431, 30.3995659], [50.4583172, 30.4007946], [50.4583709, 30.4015802], [50.4584186, 30.402912],
+          [50.458889, 30.4098451], [50.458964, 30.4107285], [50.4589874, 30.4109211], [50.4593832, 30.4143624], [50.4594215, 30.414846],
+          [50.4594207, 30.4157666], [50.4594049, 30.4162793], [50.4591735, 30.4175796], [50.4589042, 30.419049], [50.4586908, 30.4203525],
+          [50.4585392, 30.4212423], [50.4583153, 30.4226032], [50.4580203, 30.4243952], [50.4576863, 30.4263979], [50.457434, 30.4279296],
+          [50.4571609, 30.4296412], [50.4568891, 30.4312916], [50.4553833, 30.440609], [50.4551815, 30.4418637], [50.4547232, 30.4446773],
+          [50.4544841, 30.4461731], [50.4544209, 30.4465271], [50.454264, 30.4474067], [50.4537336, 30.4507576], [50.4536258, 30.451357],
+          [50.4535368, 30.4518523], [50.4532963, 30.4532246], [50.453131, 30.454188], [50.4523562, 30.458905], [50.4517203, 30.4627841],
+          [50.4511118, 30.4665859], [50.4510843, 30.4667588], [50.4510492, 30.4667523], [50.4508846, 30.4666773], [50.4508677, 30.4666696],
+          [50.4505942, 30.4665683], [50.4504537, 30.4665132], [50.449876, 30.4662939], [50.4498456, 30.4662842], [50.4497898, 30.466268],
+          [50.4494006, 30.4661325], [50.4492987, 30.466097], [50.4491908, 30.4660651], [50.4490678, 30.4660519], [50.4484736, 30.466071],
+          [50.4481653, 30.4661722], [50.448096, 30.4661925], [50.4479564, 30.4662466], [50.4469526, 30.466884], [50.4467309, 30.4670248],
+          [50.446715, 30.4670342], [50.4466449, 30.4670762], [50.4460465, 30.467541], [50.4468777, 30.471757], [50.4470105, 30.4726131],
+          [50.4471173, 30.4735512], [50.4471843, 30.4750541], [50.4471042, 30.4765711], [50.4468919, 30.4778725], [50.4466568, 30.4788606],
+          [50.4460437, 30.48094], [50.4459679, 30.4810211], [50.4457847, 30.4814865], [50.4457616, 30.4815459], [50.4457058, 30.4817048],
+          [50.4456901, 30.4817581], [50.4454086, 30.4826808], [50.4454014, 30.4827068], [50.4454361, 30.4827382], [50.4454583, 30.4827582],
+          [50.4453251, 30.4831852], [50.4452355, 30.4833724], [50.4449428, 30.4844392], [50.444837, 30.4847557], [50.4446894, 30.4851971],
+          [50.4444668, 30.4857058], [50.4441825, 30.4862318], [50.4435843, 30.487142], [50.4433574, 30.4874863], [50.4424927, 30.4886537],
+          [50.4425159, 30.4886987], [50.4423969, 30.4888821], [50.4415573, 30.4900203], [50.4415663, 30.490132], [50.4415678, 30.4901735],
+          [50.4416608, 30.4917091], [50.4414631, 30.4921349], [50.4406493, 30.4912677], [50.4400673, 30.4920485], [50.4394436, 30.492885],
+          [50.4394181, 30.4928405], [50.4389281, 30.4934845], [50.4387282, 30.4937472], [50.4386004, 30.4940673], [50.4386345, 30.4941262],
+          [50.4391835, 30.4952164], [50.4392236, 30.495298], [50.439333, 30.4955532], [50.4399115, 30.4968605], [50.4399651, 30.4969815],
+          [50.4402184, 30.4975373], [50.4403035, 30.4977297], [50.4403925, 30.4979492], [50.4407067, 30.4986739], [50.4408346, 30.4989688],
+          [50.4408756, 30.4990635], [50.441069, 30.4995141], [50.4411651, 30.4997485], [50.4412631, 30.4999608], [50.4414042, 30.5002835],
+          [50.4414478, 30.5003799], [50.441819, 30.501239], [50.4418941, 30.5014137], [50.441933, 30.5015041], [50.4418727, 30.5017991],
+          [50.4408419, 30.5081349], [50.4408341, 30.5083331], [50.4405717, 30.5099324], [50.440503, 30.5103713], [50.4404104, 30.5109013],
+          [50.4403704, 30.5111417], [50.4403434, 30.5113095], [50.4402315, 30.5120272], [50.4401139, 30.5127205], [50.4399843, 30.5134281],
+          [50.4399504, 30.5136011], [50.4399645, 30.5137066], [50.4399501, 30.5137946], [50.4399169, 30.5139642], [50.4397245, 30.5151131],
+          [50.4395998, 30.5158574], [50.439543, 30.5159316], [50.43943, 30.5160835], [50.4393574, 30.5161676], [50.4393247, 30.5162079],
+          [50.4393031, 30.5167723], [50.439348, 30.5168968], [50.4394098, 30.517054], [50.4394504, 30.5171451], [50.4398911, 30.5181342],
+          [50.4403207, 30.5190882], [50.4405763, 30.5196496], [50.440662, 30.5197485], [50.4407243, 30.5198024], [50.4408232, 30.5198529],
+          [50.4410363, 30.5199063], [50.4412649, 30.519971], [50.4420402, 30.5202279], [50.4422001, 30.5202862], [50.4421881, 30.5203596],
+          [50.4421799, 30.5204095], [50.4421062, 30.5209069], [50.4420526, 30.5212341], [50.4419224, 30.5220768], [50.4418874, 30.5221519],
+          [50.4418817, 30.5223513], [50.4419592, 30.5223342], [50.442038, 30.5223181], [50.4420971, 30.5223065], [50.4422029, 30.5222857],
+          [50.4422859, 30.5222686], [50.4424562, 30.5222423], [50.4425, 30.5222309], [50.4425516, 30.5221912], [50.442604, 30.5221409],
+          [50.4426641, 30.5220443], [50.4427054, 30.5219343], [50.4427272, 30.5218065], [50.4427756, 30.5214824], [50.4428105, 30.5212491],
+          [50.4428259, 30.5211315], [50.4428923, 30.5208213], [50.4429067, 30.5207658], [50.4429258, 30.5207104], [50.4429511, 30.5206556],
+          [50.4429803, 30.5206024], [50.4432342, 30.5206881], [50.4436734, 30.5208344], [50.4445466, 30.5211233], [50.4446189, 30.5211689],
+          [50.444698, 30.5212144], [50.4448866, 30.5212773], [50.4449571, 30.5213009], [50.4451056, 30.5213323], [50.4453526, 30.5213896],
+          [50.4471461, 30.5219847], [50.4476737, 30.5221598], [50.447734, 30.5221798], [50.4479172, 30.5222543], [50.4480169, 30.5222967],
+          [50.4481176, 30.5223439], [50.4483151, 30.5224481], [50.4485093, 30.5225665], [50.4486089, 30.5226327], [50.4487985, 30.522768],
+          [50.4490023, 30.5229324], [50.449178, 30.5230959], [50.4493564, 30.5233], [50.4489287, 30.5243742], [50.4492855, 30.5247153],
+          [50.4490813, 30.5252421], [50.4490947, 30.5252549], [50.4489746, 30.5255646], [50.4489935, 30.5255837], [50.4488962, 30.5258347],
+          [50.4487467, 30.5260573], [50.4494566, 30.5269825], [50.4496171, 30.52657], [50.4502296, 30.5249759], [50.4503209, 30.5246934],
+          [50.4503348, 30.5246593], [50.4503494, 30.524626], [50.4503578, 30.5246071], [50.4509647, 30.5254489], [50.4510969, 30.5256323],
+          [50.4512295, 30.5258163], [50.4514491, 30.526121], [50.4518606, 30.5266918], [50.4518802, 30.5267702], [50.4518856, 30.5268105],
+          [50.4518881, 30.5268509], [50.4517977, 30.5279556], [50.4517708, 30.5282084], [50.4519134, 30.528246], [50.4520662, 30.5281903],
+          [50.4522085, 30.5281487], [50.4526692, 30.5280172], [50.4527853, 30.5279836], [50.452922, 30.5279403], [50.4535442, 30.527757],
+          [50.4541531, 30.5276245], [50.4543685, 30.5275855], [50.4545184, 30.5275578], [50.4546299, 30.5275522], [50.4549237, 30.52755],
+          [50.4550666, 30.5275691], [50.4552013, 30.5275959], [50.4553737, 30.5276563], [50.4555163, 30.5277284], [50.4556555, 30.5278342],
+          [50.4557999, 30.5279456], [50.4559175, 30.5280144], [50.4560231, 30.5280567], [50.4561168, 30.5280726], [50.4562101, 30.5280694],
+          [50.4562887, 30.528057], [50.4564198, 30.5280048], [50.456567, 30.5279231], [50.4567124, 30.5278113], [50.4568612, 30.5276823],
+          [50.4570257, 30.5275287], [50.4572974, 30.5272239], [50.4575408, 30.5269494], [50.4577507, 30.5267025], [50.4580807, 30.526298],
+          [50.4582585, 30.5260502], [50.4583802, 30.525873], [50.4585872, 30.5255564], [50.4588555, 30.5251461], [50.4588959, 30.5250849],
+          [50.4587452, 30.5243255], [50.4585128, 30.52413], [50.4581387, 30.5238406], [50.4573186, 30.5231988], [50.4572911, 30.5231738],
+          [50.4573167, 30.5231088], [50.4574628, 30.5227208], [50.4575194, 30.5225704], [50.4578764, 30.5220388], [50.4583776, 30.5212515],
+          [50.458496, 30.5211544], [50.4585325, 30.5210586], [50.458504, 30.5205409], [50.4585122, 30.5203717], [50.4585279, 30.5202314],
+          [50.4585818, 30.5200523], [50.4587437, 30.5197887], [50.458796, 30.5196949], [50.4588127, 30.5196651], [50.4588344, 30.5195874],
+          [50.4588675, 30.519375], [50.4588713, 30.5191654], [50.4588591, 30.5189862], [50.458861, 30.5189051], [50.4589829, 30.5186066],
+          [50.4591614, 30.5184636], [50.4593965, 30.5183581], [50.4594516, 30.518315], [50.4594746, 30.5182432], [50.4594236, 30.51789],
+          [50.4594207, 30.5176243], [50.4594183, 30.5174105], [50.4594196, 30.5173286], [50.4593309, 30.517402], [50.4590051, 30.5174587],
+          [50.4589371, 30.517507], [50.4586021, 30.5178891], [50.4584532, 30.5181092], [50.4584397, 30.5181291], [50.4584137, 30.51817],
+          [50.4583365, 30.5182477], [50.458265, 30.5177423], [50.4583662, 30.5174018], [50.4587525, 30.5168029], [50.4588155, 30.5165299],
+          [50.4589977, 30.5163549], [50.4591597, 30.5163144], [50.4590482, 30.5158915], [50.4590442, 30.5156594], [50.4591445, 30.5154024],
+          [50.4591298, 30.5152885], [50.4590482, 30.5152593], [50.4589361, 30.5147467], [50.4587857, 30.5144268], [50.4589272, 30.5137457],
+          [50.4588832, 30.5136569], [50.4587982, 30.5135076], [50.458496, 30.5136965], [50.4582116, 30.5137644], [50.4579982, 30.5139525],
+          [50.4574588, 30.5140179], [50.4573255, 30.513843], [50.4571357, 30.514196], [50.4569196, 30.5145798], [50.4566366, 30.5141874],
+          [50.4568416, 30.513778], [50.4570472, 30.513442], [50.4572602, 30.5129016], [50.4578599, 30.5128939], [50.4584182, 30.5126953],
+          [50.4591136, 30.5124471], [50.4593796, 30.5120068], [50.4594416, 30.5118527], [50.459488, 30.5116823], [50.4595052, 30.5115341],
+          [50.4595012, 30.5112574], [50.4594777, 30.5111366], [50.4593525, 30.5109855], [50.4589173, 30.5108682], [50.4586448, 30.5108601],
+          [50.4582952, 30.5108156], [50.4579742, 30.511179], [50.4579326, 30.5111688], [50.4578242, 30.5108892], [50.4577455, 30.5106635],
+          [50.4579801, 30.5104759], [50.4578264, 30.5100748], [50.4577019, 30.5097007], [50.4572701, 30.509225], [50.4573952, 30.5090546],
+          [50.457493, 30.5090842], [50.457543, 30.5087989], [50.4574169, 30.5086634], [50.4576585, 30.5083122], [50.4578468, 30.5084595],
+          [50.4583186, 30.5089641], [50.4584214, 30.5092979], [50.4586076, 30.5092495], [50.4587318, 30.5091804], [50.4591949, 30.5092954],
+          [50.4593774, 30.5092454], [50.4594546, 30.5090322], [50.4598344, 30.5088434], [50.4605084, 30.5085947], [50.4608575, 30.5079781],
+          [50.4611431, 30.5067988], [50.4611865, 30.5067422], [50.4615692, 30.5062428], [50.461454, 30.5059907], [50.461612, 30.5058971],
+          [50.4617996, 30.5058802], [50.4619089, 30.5059124], [50.4621486, 30.5061466], [50.4622639, 30.5063084], [50.4623587, 30.5064249],
+          [50.4624007, 30.506573], [50.4625052, 30.50699], [50.4625216, 30.5070563], [50.4627671, 30.5074522], [50.4628223, 30.5075411],
+          [50.4634134, 30.5084724], [50.4637504, 30.5089717], [50.464169, 30.5096129], [50.4642971, 30.5098223], [50.4643332, 30.5098768],
+          [50.4643832, 30.5099612], [50.4645429, 30.5102311], [50.4645611, 30.5102585], [50.4650723, 30.5093757], [50.4659192, 30.5078307],
+          [50.466684, 30.5068008], [50.4674489, 30.5060283], [50.4674844, 30.5051216], [50.4683777, 30.5037538], [50.4687372, 30.5027709],
+          [50.4684323, 30.5024234], [50.4676674, 30.5013505], [50.4669845, 30.5013076], [50.4663058, 30.5010944], [50.4657828, 30.5008359],
+          [50.4659738, 30.4995052], [50.4671711, 30.4999773], [50.4672968, 30.4998356], [50.4672931, 30.4996069], [50.4673123, 30.499076],
+          [50.4673636, 30.4987785], [50.4673368, 30.4983682], [50.4670665, 30.4977907], [50.4667114, 30.4969324], [50.4663836, 30.496117],
+          [50.466299, 30.4958934], [50.46581, 30.4959392], [50.4657103, 30.4954127], [50.4656583, 30.4951053], [50.4658407, 30.4946812],
+          [50.466069, 30.4941845], [50.4662503, 30.4934308], [50.46673, 30.4935481], [50.4672045, 30.4937993], [50.4673804, 30.4943604],
+          [50.4679032, 30.4946666], [50.4690092, 30.4944615], [50.4692266, 30.4944212], [50.4694586, 30.4941652], [50.4698321, 30.4935709],
+          [50.4700709, 30.4934411], [50.4703364, 30.4933234], [50.4703982, 30.4933287], [50.4704748, 30.4933718], [50.4707082, 30.4933516],
+          [50.470806, 30.4934162], [50.4710352, 30.4937035], [50.4711082, 30.4938767], [50.4711352, 30.4940232], [50.4710929, 30.4942705],
+          [50.4710987, 30.4943848], [50.4711424, 30.4944447], [50.4713897, 30.4943593], [50.4716687, 30.4945995], [50.4718923, 30.494792],
+          [50.4719833, 30.494712], [50.4720763, 30.4947702], [50.4721813, 30.4947917], [50.472278, 30.4947965], [50.4724502, 30.4944498],
+          [50.472675, 30.4940785], [50.4727915, 30.4937288], [50.4728544, 30.4936328], [50.4728747, 30.493466], [50.4727007, 30.4930183],
+          [50.4726725, 30.4928244], [50.4728926, 30.4922067], [50.4731512, 30.4922613], [50.4733882, 30.4921946], [50.4736537, 30.4916978],
+          [50.4738036, 30.4911201], [50.4739277, 30.4907778], [50.474063, 30.4905951], [50.474143, 30.4903415], [50.473948, 30.4902189],
+          [50.4737657, 30.4900332], [50.4737762, 30.4899975], [50.4737642, 30.4899526], [50.4737072, 30.4899133], [50.4735619, 30.4896783],
+          [50.473374, 30.4894498], [50.4733788, 30.4893468], [50.4733593, 30.4893434], [50.4733117, 30.4889742], [50.4734897, 30.4889047],
+          [50.4735891, 30.488974], [50.473599, 30.4887257], [50.4734233, 30.4885973], [50.4733585, 30.4884412], [50.4733496, 30.4882483],
+          [50.4733206, 30.4882369], [50.4732486, 30.4882559], [50.4729862, 30.4877851], [50.4728309, 30.4875428], [50.4728644, 30.4873974],
+          [50.4729424, 30.4874377], [50.4731956, 30.4861561], [50.4736641, 30.4862292], [50.473813, 30.486229], [50.4746367, 30.4863741],
+          [50.4748744, 30.486444], [50.4750224, 30.4867441], [50.4753834, 30.4861], [50.4755364, 30.4855422], [50.4761939, 30.4837604],
+          [50.4764367, 30.4842314], [50.4765925, 30.4840336], [50.4766411, 30.4838077], [50.4770313, 30.4835583], [50.477092, 30.4837748],
+          [50.4774322, 30.4840704], [50.4776069, 30.4845243], [50.4784034, 30.4826995], [50.4782893, 30.4825891], [50.4784146, 30.4820984],
+          [50.4785507, 30.4818767], [50.4787184, 30.4819816], [50.4791539, 30.4809541], [50.4790369, 30.4808197], [50.4792679, 30.4802776],
+          [50.4788438, 30.47973], [50.4788717, 30.4796532], [50.4789896, 30.4795103], [50.4790947, 30.4785717], [50.4791488, 30.4784331],
+          [50.4792238, 30.4783318], [50.4792774, 30.4783199], [50.4794291, 30.4780977], [50.4794524, 30.4780275], [50.4794055, 30.4777208],
+          [50.4795632, 30.4772319], [50.4793564, 30.4765689], [50.4794284, 30.4765128], [50.4807463, 30.4752812], [50.480858, 30.4751752],
+          [50.4809696, 30.4751093], [50.4811, 30.4750786], [50.4812368, 30.4750928], [50.4813694, 30.475168], [50.4814734, 30.4752648],
+          [50.4815677, 30.4754031], [50.4818764, 30.4759279], [50.481908, 30.4759816], [50.4819185, 30.4757673], [50.4818182, 30.4755732],
+          [50.481637, 30.4752224], [50.4815761, 30.4750544], [50.4815271, 30.4747682], [50.4814611, 30.4744028], [50.4813997, 30.474052],
+          [50.4813316, 30.4738103], [50.4811828, 30.4734705], [50.4809777, 30.4730115], [50.4807984, 30.4727074], [50.4806071, 30.4723976],
+          [50.4805634, 30.47236], [50.4804143, 30.4722314], [50.4801646, 30.4721237], [50.4800879, 30.4721085], [50.4800332, 30.4721143],
+          [50.4797409, 30.4722781], [50.4794448, 30.4724849], [50.4793317, 30.4725383], [50.4792145, 30.4725275], [50.4790997, 30.4724781],
+          [50.4789546, 30.4723418], [50.4787143, 30.4720855], [50.4784184, 30.4716857], [50.4783026, 30.4715203], [50.4781528, 30.4713062],
+          [50.4780422, 30.4696664], [50.4762147, 30.4634133], [50.480938, 30.4568947], [50.4814617, 30.4564516], [50.4819161, 30.4561875],
+          [50.4822801, 30.4559352], [50.4824229, 30.4558034], [50.4824718, 30.4557373], [50.4827399, 30.4555335], [50.4830114, 30.4553271],
+          [50.4830846, 30.4552715], [50.4831273, 30.4552394], [50.4839953, 30.4545514], [50.4838082, 30.4534709], [50.4840249, 30.4530096],
+          [50.4841182, 30.4527969], [50.4844908, 30.4523245], [50.4842116, 30.4512064], [50.4838282, 30.4498329], [50.4840526, 30.4494804],
+          [50.4837807, 30.4486685], [50.4835495, 30.4482145], [50.4832437, 30.4477979], [50.4836719, 30.4470447], [50.4839642, 30.4472661],
+          [50.4847391, 30.4459444], [50.4841409, 30.444155], [50.4848037, 30.4433965], [50.4848682, 30.4431401], [50.4847051, 30.4428036],
+          [50.4846005, 30.4423909], [50.4846339, 30.442347], [50.4847061, 30.4422784], [50.4847729, 30.442219], [50.4848029, 30.442197],
+          [50.4851235, 30.4420328], [50.4852032, 30.4420147], [50.485559, 30.4418564], [50.4856871, 30.4417948], [50.485785, 30.4417365],
+          [50.4860172, 30.4415632], [50.4860919, 30.441498], [50.4862611, 30.4413666], [50.4863998, 30.4412546], [50.486614, 30.4410939],
+          [50.4866453, 30.4410674], [50.4867404, 30.4410073], [50.48678, 30.4409902], [50.4867658, 30.4407526], [50.4866698, 30.4404541],
+          [50.4864956, 30.4398997], [50.4858913, 30.4384754], [50.4858209, 30.4382598], [50.4858278, 30.4379572], [50.486051, 30.4364461],
+          [50.4861016, 30.4361037], [50.4861926, 30.4357013], [50.4861933, 30.4354826], [50.4840227, 30.4333309], [50.4839479, 30.4332562],
+          [50.4826005, 30.4319741], [50.4809432, 30.4304174], [50.4805043, 30.4300249], [50.4800809, 30.4297148], [50.4794601, 30.4293747],
+          [50.4786409, 30.4291366], [50.4782628, 30.4290865], [50.4779746, 30.4290892], [50.4775041, 30.4291501], [50.4771718, 30.4292305],
+          [50.4768738, 30.4293129], [50.4766633, 30.4295026], [50.4766205, 30.4292226], [50.4765933, 30.4289974], [50.4765695, 30.4286944],
+          [50.4765508, 30.4283609], [50.4765531, 30.4279942], [50.4765586, 30.4276011], [50.4765583, 30.4274188], [50.4765944, 30.426997],
+          [50.4768845, 30.4249836], [50.4769429, 30.4244347], [50.4772067, 30.4195897], [50.4773082, 30.4179202], [50.4773552, 30.4170351],
+          [50.4773944, 30.4157472], [50.4773934, 30.4143071], [50.4774175, 30.4137036], [50.4774338, 30.4135526], [50.4774546, 30.4134286],
+          [50.4775251, 30.4130804], [50.477561, 30.4129539], [50.4776329, 30.4127127], [50.4776857, 30.4125622], [50.4777338, 30.4124298],
+          [50.4778583, 30.4121521], [50.4785218, 30.410972], [50.4791042, 30.4098927], [50.4791633, 30.4097724], [50.4794997, 30.4091325],
+          [50.4797573, 30.4086665], [50.4798409, 30.4085033], [50.4798621, 30.4084598], [50.4798945, 30.408408], [50.4799272, 30.4083475],
+          [50.4806942, 30.4071927], [50.4820021, 30.4048875], [50.4821836, 30.4044595], [50.482297, 30.404061], [50.4824792, 30.4036156],
+          [50.4827123, 30.4032116], [50.4831473, 30.4024056], [50.483244, 30.4022257], [50.4838043, 30.4011823], [50.4843791, 30.4001119],
+          [50.4844905, 30.3999044], [50.4849019, 30.3991392], [50.4849435, 30.3990618], [50.4850165, 30.3989247], [50.4854063, 30.3982122],
+          [50.4855243, 30.3979792], [50.4860945, 30.3969605], [50.4861468, 30.3968943], [50.4862198, 30.3968019], [50.4863459, 30.3965858],
+          [50.4864399, 30.3964075], [50.486565, 30.3961679], [50.4866921, 30.3959173], [50.4861725, 30.3957082], [50.4859692, 30.3956789]
+        ]
+      ]
     ],
     population: 230000,
     area: 27
   },
   {
     name: "Solomianskyi",
-    coordinates: [
-      [50.4414487, 30.397512], [50.4411162, 30.3975474], [50.4408067, 30.3976225], [50.4405767, 30.3977121], [50.4403046, 30.3978527],
-      [50.4400127, 30.3980637], [50.4396257, 30.3983473], [50.439068, 30.3986942], [50.4390195, 30.3987316], [50.4373881, 30.399928],
-      [50.4351048, 30.4016751], [50.4334034, 30.4029619], [50.4328265, 30.4033947], [50.4324698, 30.4036553], [50.4306739, 30.4049675],
-      [50.429589, 30.4057862], [50.4284131, 30.4066808], [50.4278383, 30.4071525], [50.4258435, 30.4091058], [50.4248052, 30.4101589],
-      [50.4218029, 30.4132475], [50.4214284, 30.413615], [50.4210539, 30.4140072], [50.4207043, 30.4144281], [50.4203546, 30.414886],
-      [50.4200287, 30.4153275], [50.4190036, 30.4167383], [50.4183241, 30.4176754], [50.4179831, 30.4181412], [50.4176479, 30.4185824],
-      [50.41728, 30.4190145], [50.41691, 30.419403], [50.4164619, 30.4198396], [50.4161423, 30.4201313], [50.415733, 30.4205164],
-      [50.4144098, 30.4217798], [50.4139987, 30.4221689], [50.4136274, 30.422517], [50.4133464, 30.4227789], [50.4130768, 30.4230834],
-      [50.4127588, 30.4234868], [50.4125832, 30.423746], [50.4124324, 30.4240222], [50.4096771, 30.4261929], [50.4093632, 30.4266111],
-      [50.4088885, 30.4270902], [50.4083866, 30.4274152], [50.408045, 30.4275723], [50.4076503, 30.4276721], [50.4072984, 30.4277046],
-      [50.406791, 30.4276575], [50.4063419, 30.4275013], [50.4060023, 30.4273151], [50.405391, 30.4269191], [50.4045525, 30.4263984],
-      [50.4041826, 30.4261592], [50.4039586, 30.4260088], [50.4038969, 30.4259674], [50.4030278, 30.4254425], [50.4022404, 30.4246119],
-      [50.401726, 30.4240263], [50.4010904, 30.4231944], [50.4003899, 30.4222101], [50.3999546, 30.421558], [50.3996094, 30.4209941],
-      [50.399332, 30.4205339], [50.3988809, 30.4197102], [50.3982365, 30.4184166], [50.3980357, 30.417983], [50.397977, 30.4171999],
-      [50.3977048, 30.4179007], [50.3976297, 30.4180934], [50.3974568, 30.4185367], [50.3970595, 30.4191457], [50.3966927, 30.4179832],
-      [50.3964037, 30.4170412], [50.3962897, 30.4171902], [50.3963194, 30.4182726], [50.3962476, 30.4185435], [50.3961689, 30.4188225],
-      [50.3959877, 30.4194769], [50.395901, 30.4197974], [50.3958783, 30.4201019], [50.3958398, 30.4207537], [50.3959484, 30.4219606],
-      [50.39599, 30.422311], [50.3956416, 30.4230592], [50.3949802, 30.4224281], [50.3948431, 30.4222385], [50.3946447, 30.4221282],
-      [50.3937785, 30.4217944], [50.3934385, 30.4220072], [50.3928173, 30.4232634], [50.3923593, 30.4240111], [50.3911978, 30.4259077],
-      [50.391072, 30.4263684], [50.391033, 30.4267843], [50.3910669, 30.4271314], [50.3912036, 30.4274669], [50.3915281, 30.4278481],
-      [50.3917317, 30.4284564], [50.3917893, 30.4285705], [50.3817247, 30.4421617], [50.382035, 30.4427075], [50.382897, 30.4415274],
-      [50.3830471, 30.4418368], [50.3834757, 30.442481], [50.3842871, 30.443746], [50.3845945, 30.4441385], [50.385614, 30.4453821],
-      [50.3858881, 30.4457165], [50.3859068, 30.4458457], [50.3857016, 30.4462804], [50.385743, 30.4464683], [50.3864401, 30.4475633],
-      [50.3869148, 30.4483205], [50.3870401, 30.4485041], [50.3863625, 30.449699], [50.3863322, 30.4497586], [50.3861902, 30.4499357],
-      [50.3854837, 30.45123], [50.3852149, 30.4517165], [50.3848759, 30.4524341], [50.3845856, 30.4531037], [50.3843099, 30.4537162],
-      [50.3842733, 30.4538108], [50.3842121, 30.4539417], [50.3842851, 30.4540919], [50.3843125, 30.4541453], [50.3845217, 30.4545191],
-      [50.3845994, 30.4544192], [50.3846576, 30.4543367], [50.3846948, 30.4543286], [50.3849407, 30.4544581], [50.3854445, 30.4546963],
-      [50.385965, 30.4550035], [50.3865309, 30.4553328], [50.3867651, 30.4554491], [50.3869749, 30.4555163], [50.3870886, 30.4555422],
-      [50.3873641, 30.4556348], [50.3877425, 30.4559528], [50.3879101, 30.4560995], [50.3886542, 30.4566732], [50.3883154, 30.4579841],
-      [50.3881715, 30.4586189], [50.3893004, 30.4593045], [50.3891028, 30.4603755], [50.3890946, 30.4604197], [50.3893603, 30.460479],
-      [50.3897652, 30.4605126], [50.3903337, 30.4605334], [50.3907051, 30.4605759], [50.3911219, 30.4606224], [50.3913555, 30.4606485],
-      [50.3913998, 30.460653], [50.3913948, 30.4608015], [50.391389, 30.4609727], [50.3913779, 30.4613204], [50.3913738, 30.4614471],
-      [50.3913703, 30.4615589], [50.3913573, 30.4619767], [50.3913555, 30.4620344], [50.3913514, 30.4621681], [50.391317, 30.4633979],
-      [50.3912933, 30.4640879], [50.3912929, 30.4640954], [50.3912924, 30.4641027], [50.3912919, 30.4641104], [50.3912911, 30.4641178],
-      [50.39129, 30.4641256], [50.3912887, 30.4641338], [50.3912872, 30.4641411], [50.3912863, 30.4641453], [50.3912847, 30.464152],
-      [50.391282, 30.4641614], [50.3912781, 30.4641734], [50.3912674, 30.4642028], [50.3912397, 30.4642676], [50.3912116, 30.4643267],
-      [50.3911885, 30.4643722], [50.391174, 30.4643947], [50.3911086, 30.464489], [50.3910334, 30.4645973], [50.3905561, 30.4652851],
-      [50.3904893, 30.4653737], [50.3906017, 30.4655873], [50.3908044, 30.4659815], [50.3910483, 30.4664806], [50.3912062, 30.4668324],
-      [50.3913337, 30.4671652], [50.3914288, 30.4674603], [50.3915065, 30.4677237], [50.3915551, 30.4678982], [50.3915831, 30.4680074],
-      [50.3916308, 30.4681933], [50.3916977, 30.4685222], [50.3917497, 30.4687968], [50.3917929, 30.4690817], [50.3918094, 30.4691886],
-      [50.3918275, 30.4693318], [50.3918752, 30.4697248], [50.3918997, 30.469948], [50.3919886, 30.4707649], [50.3920209, 30.4710449],
-      [50.3920283, 30.4711163], [50.3920632, 30.4714536], [50.3958354, 30.47045], [50.3965238, 30.4705404], [50.3966578, 30.4710678],
-      [50.3967323, 30.4713397], [50.3971224, 30.4729226], [50.3981496, 30.4731941], [50.3982319, 30.4727974], [50.3985671, 30.4724745],
-      [50.3986788, 30.4721423], [50.3988376, 30.4716718], [50.3990199, 30.4716811], [50.3990434, 30.4721239], [50.3989435, 30.4727051],
-      [50.3987318, 30.4730372], [50.3983672, 30.4734801], [50.398473, 30.4750207], [50.3982056, 30.4788596], [50.3979871, 30.4786656],
-      [50.3978946, 30.4785834], [50.3978247, 30.4785507], [50.3976911, 30.478534], [50.3976015, 30.478566], [50.397541, 30.4786049],
-      [50.3974771, 30.4786459], [50.3974093, 30.478714], [50.3973403, 30.4788131], [50.3973924, 30.4789526], [50.3974522, 30.4795893],
-      [50.3974889, 30.4798709], [50.3975013, 30.4799416], [50.3975417, 30.4801359], [50.397585, 30.4803392], [50.3979108, 30.4818698],
-      [50.3982408, 30.4833641], [50.3984252, 30.4839457], [50.3984836, 30.4841297], [50.3985785, 30.4844012], [50.3989696, 30.4853731],
-      [50.3991119, 30.4856315], [50.3992489, 30.4858804], [50.3993172, 30.4860044], [50.399624, 30.4864474], [50.3997369, 30.4866443],
-      [50.3998715, 30.4868516], [50.3998932, 30.486885], [50.4001996, 30.4873371], [50.4004882, 30.487746], [50.4007037, 30.4880265],
-      [50.4010418, 30.4884151], [50.4013219, 30.4886855], [50.4017842, 30.4890019], [50.4022523, 30.4892876], [50.4027356, 30.4895628],
-      [50.4029785, 30.4896682], [50.4034859, 30.4899013], [50.4040506, 30.490155], [50.404512, 30.4903243], [50.4049194, 30.4904544],
-      [50.4054064, 30.4905732], [50.4061031, 30.4906611], [50.4062771, 30.4906857], [50.4064461, 30.4907006], [50.4065667, 30.4907274],
-      [50.406696, 30.4907782], [50.4068969, 30.4908572], [50.4071949, 30.4910255], [50.4074396, 30.4911637], [50.407748, 30.4913825],
-      [50.4081506, 30.4916705], [50.4082484, 30.4917441], [50.4083115, 30.4917915], [50.4084582, 30.4919058], [50.4085327, 30.4919578],
-      [50.4086372, 30.4920365], [50.4086891, 30.4920825], [50.4088225, 30.4922008], [50.4090107, 30.4924107], [50.4091423, 30.4925941],
-      [50.4093856, 30.492992], [50.409597, 30.4934926], [50.4097211, 30.4939369], [50.4097444, 30.494013], [50.4103607, 30.4961219],
-      [50.4104786, 30.4966051], [50.4105796, 30.4970819], [50.4106419, 30.4975232], [50.4106488, 30.4976048], [50.4106785, 30.4979577],
-      [50.4107119, 30.4988339], [50.410714, 30.4990286], [50.4107219, 30.4997398], [50.4107102, 30.5004683], [50.4106891, 30.5008724],
-      [50.4106541, 30.5013068], [50.4104478, 30.5034912], [50.4103905, 30.5041436], [50.4103763, 30.5044008], [50.4103716, 30.5045856],
-      [50.4103978, 30.5051812], [50.4104271, 30.5056298], [50.4104558, 30.5060012], [50.4104773, 30.5063027], [50.4104952, 30.5064523],
-      [50.410511, 30.5066297], [50.4105342, 30.5067996], [50.410562, 30.5069819], [50.4106203, 30.5072846], [50.4106515, 30.5074052],
-      [50.4113519, 30.5068725], [50.4117025, 30.5056603], [50.4120098, 30.5050349], [50.4126663, 30.5035711], [50.4129029, 30.5030155],
-      [50.4138276, 30.5013053], [50.414132, 30.5009934], [50.414513, 30.5004195], [50.4146312, 30.5002752], [50.4148747, 30.5000431],
-      [50.4155465, 30.4991296], [50.4159637, 30.4986926], [50.4159678, 30.4985705], [50.4165509, 30.4984915], [50.4167449, 30.498543],
-      [50.4174154, 30.499049], [50.4178322, 30.4994666], [50.4179476, 30.4996088], [50.4184745, 30.5001594], [50.4199749, 30.501713],
-      [50.4207421, 30.5025354], [50.4210283, 30.5028227], [50.4214539, 30.5032014], [50.4217782, 30.5033981], [50.4221178, 30.5035486],
-      [50.4221006, 30.5036456], [50.4220429, 30.5039712], [50.4215143, 30.504883], [50.4215611, 30.5049658], [50.4218093, 30.5054844],
-      [50.4219257, 30.5057006], [50.4219595, 30.5058123], [50.4220221, 30.5060186], [50.4221342, 30.5064603], [50.4221865, 30.5066222],
-      [50.4223518, 30.5069932], [50.4222837, 30.507206], [50.4223871, 30.5077166], [50.4223688, 30.507875], [50.422236, 30.5083354],
-      [50.422195, 30.5084976], [50.4221848, 30.5086666], [50.4219851, 30.5089933], [50.4215206, 30.5091534], [50.4214296, 30.5091747],
-      [50.4215715, 30.5100286], [50.4213438, 30.5102966], [50.4214155, 30.5104752], [50.421608, 30.5110849], [50.4179105, 30.5147909],
-      [50.4181385, 30.5153737], [50.4184056, 30.5150754], [50.4189456, 30.5145959], [50.4191339, 30.5144822], [50.4193439, 30.514397],
-      [50.4195431, 30.5144027], [50.4197531, 30.5142947], [50.4201804, 30.5139992], [50.4212168, 30.5131454], [50.4218708, 30.5125932],
-      [50.4224156, 30.5121729], [50.4226244, 30.5120375], [50.4241042, 30.5113891], [50.4246898, 30.5111398], [50.4249122, 30.5109759],
-      [50.4257429, 30.510242], [50.4264384, 30.5097415], [50.4267029, 30.5096615], [50.426975, 30.509652], [50.42727, 30.5096691],
-      [50.4275252, 30.5096838], [50.4280745, 30.5097481], [50.4282615, 30.5097501], [50.4284344, 30.5097023], [50.4287732, 30.5095476],
-      [50.4288515, 30.5095064], [50.4289297, 30.5094546], [50.4301075, 30.5081794], [50.4304799, 30.5078287], [50.4307255, 30.5075713],
-      [50.4310927, 30.507167], [50.4313908, 30.5068637], [50.4319593, 30.5062744], [50.4323672, 30.5058521], [50.4325276, 30.5056811],
-      [50.4327106, 30.5052373], [50.4334589, 30.5028027], [50.4340407, 30.5013264], [50.4338725, 30.5011873], [50.4345365, 30.4999742],
-      [50.4350624, 30.4991485], [50.4361084, 30.497511], [50.4367877, 30.4965444], [50.4386004, 30.4940673], [50.4387282, 30.4937472],
-      [50.4389281, 30.4934845], [50.4394181, 30.4928405], [50.4394436, 30.492885], [50.4400673, 30.4920485], [50.4406493, 30.4912677],
-      [50.4414631, 30.4921349], [50.4416608, 30.4917091], [50.4415678, 30.4901735], [50.4415663, 30.490132], [50.4415573, 30.4900203],
-      [50.4423969, 30.4888821], [50.4425159, 30.4886987], [50.4424927, 30.4886537], [50.4433574, 30.4874863], [50.4435843, 30.487142],
-      [50.4441825, 30.4862318], [50.4444668, 30.4857058], [50.4446894, 30.4851971], [50.444837, 30.4847557], [50.4449428, 30.4844392],
-      [50.4452355, 30.4833724], [50.4453251, 30.4831852], [50.4454583, 30.4827582], [50.4454361, 30.4827382], [50.4454014, 30.4827068],
-      [50.4454086, 30.4826808], [50.4456901, 30.4817581], [50.4457058, 30.4817048], [50.4457616, 30.4815459], [50.4457847, 30.4814865],
-      [50.4459679, 30.4810211], [50.4460437, 30.48094], [50.4466568, 30.4788606], [50.4468919, 30.4778725], [50.4471042, 30.4765711],
-      [50.4471843, 30.4750541], [50.4471173, 30.4735512], [50.4470105, 30.4726131], [50.4468777, 30.471757], [50.4460465, 30.467541],
-      [50.4466449, 30.4670762], [50.446715, 30.4670342], [50.4467309, 30.4670248], [50.4469526, 30.466884], [50.4479564, 30.4662466],
-      [50.448096, 30.4661925], [50.4481653, 30.4661722], [50.4484736, 30.466071], [50.4490678, 30.4660519], [50.4491908, 30.4660651],
-      [50.4492987, 30.466097], [50.4494006, 30.4661325], [50.4497898, 30.466268], [50.4498456, 30.4662842], [50.449876, 30.4662939],
-      [50.4504537, 30.4665132], [50.4505942, 30.4665683], [50.4508677, 30.4666696], [50.4508846, 30.4666773], [50.4510492, 30.4667523],
-      [50.4510843, 30.4667588], [50.4511118, 30.4665859], [50.4517203, 30.4627841], [50.4523562, 30.458905], [50.453131, 30.454188],
-      [50.4532963, 30.4532246], [50.4535368, 30.4518523], [50.4536258, 30.451357], [50.4537336, 30.4507576], [50.454264, 30.4474067],
-      [50.4544209, 30.4465271], [50.4544841, 30.4461731], [50.4547232, 30.4446773], [50.4551815, 30.4418637], [50.4553833, 30.440609],
-      [50.4568891, 30.4312916], [50.4571609, 30.4296412], [50.457434, 30.4279296], [50.4576863, 30.4263979], [50.4580203, 30.4243952],
-      [50.4583153, 30.4226032], [50.4585392, 30.4212423], [50.4586908, 30.4203525], [50.4589042, 30.419049], [50.4591735, 30.4175796],
-      [50.4594049, 30.4162793], [50.4594207, 30.4157666], [50.4590482, 30.4157268], [50.4581214, 30.4156519], [50.4574738, 30.4155589],
-      [50.4570286, 30.415438], [50.4566248, 30.4152632], [50.4562589, 30.4150698], [50.4557347, 30.4147551], [50.4553087, 30.4143857],
-      [50.4549269, 30.4139682], [50.4547068, 30.4136454], [50.4543106, 30.4130607], [50.4538939, 30.4123472], [50.4535079, 30.4116284],
-      [50.4515447, 30.4079778], [50.450986, 30.4069343], [50.4506016, 30.4061996], [50.449497, 30.4041756], [50.4492406, 30.4037739],
-      [50.4483591, 30.4019706], [50.4481197, 30.401537], [50.4478901, 30.4011452], [50.4478189, 30.4010238], [50.4476932, 30.400802],
-      [50.4475827, 30.4006346], [50.4473808, 30.4003394], [50.4468887, 30.3997292], [50.446469, 30.3993694], [50.4460743, 30.3990899],
-      [50.4452315, 30.3986549], [50.4442871, 30.3983549], [50.4424407, 30.3977425], [50.4420375, 30.3976244], [50.4418266, 30.397573],
-      [50.4414487, 30.397512]
+    polygons: [
+      [
+        [
+          [50.4414487, 30.397512], [50.4411162, 30.3975474], [50.4408067, 30.3976225], [50.4405767, 30.3977121], [50.4403046, 30.3978527],
+          [50.4400127, 30.3980637], [50.4396257, 30.3983473], [50.439068, 30.3986942], [50.4390195, 30.3987316], [50.4373881, 30.399928],
+          [50.4351048, 30.4016751], [50.4334034, 30.4029619], [50.4328265, 30.4033947], [50.4324698, 30.4036553], [50.4306739, 30.4049675],
+          [50.429589, 30.4057862], [50.4284131, 30.4066808], [50.4278383, 30.4071525], [50.4258435, 30.4091058], [50.4248052, 30.4101589],
+          [50.4218029, 30.4132475], [50.4214284, 30.413615], [50.4210539, 30.4140072], [50.4207043, 30.4144281], [50.4203546, 30.414886],
+          [50.4200287, 30.4153275], [50.4190036, 30.4167383], [50.4183241, 30.4176754], [50.4179831, 30.4181412], [50.4176479, 30.4185824],
+          [50.41728, 30.4190145], [50.41691, 30.419403], [50.4164619, 30.4198396], [50.4161423, 30.4201313], [50.415733, 30.4205164],
+          [50.4144098, 30.4217798], [50.4139987, 30.4221689], [50.4136274, 30.422517], [50.4133464, 30.4227789], [50.4130768, 30.4230834],
+          [50.4127588, 30.4234868], [50.4125832, 30.423746], [50.4124324, 30.4240222], [50.4096771, 30.4261929], [50.4093632, 30.4266111],
+          [50.4088885, 30.4270902], [50.4083866, 30.4274152], [50.408045, 30.4275723], [50.4076503, 30.4276721], [50.4072984, 30.4277046],
+          [50.406791, 30.4276575], [50.4063419, 30.4275013], [50.4060023, 30.4273151], [50.405391, 30.4269191], [50.4045525, 30.4263984],
+          [50.4041826, 30.4261592], [50.4039586, 30.4260088], [50.4038969, 30.4259674], [50.4030278, 30.4254425], [50.4022404, 30.4246119],
+          [50.401726, 30.4240263], [50.4010904, 30.4231944], [50.4003899, 30.4222101], [50.3999546, 30.421558], [50.3996094, 30.4209941],
+          [50.399332, 30.4205339], [50.3988809, 30.4197102], [50.3982365, 30.4184166], [50.3980357, 30.417983], [50.397977, 30.4171999],
+          [50.3977048, 30.4179007], [50.3976297, 30.4180934], [50.3974568, 30.4185367], [50.3970595, 30.4191457], [50.3966927, 30.4179832],
+          [50.3964037, 30.4170412], [50.3962897, 30.4171902], [50.3963194, 30.4182726], [50.3962476, 30.4185435], [50.3961689, 30.4188225],
+          [50.3959877, 30.4194769], [50.395901, 30.4197974], [50.3958783, 30.4201019], [50.3958398, 30.4207537], [50.3959484, 30.4219606],
+          [50.39599, 30.422311], [50.3956416, 30.4230592], [50.3949802, 30.4224281], [50.3948431, 30.4222385], [50.3946447, 30.4221282],
+          [50.3937785, 30.4217944], [50.3934385, 30.4220072], [50.3928173, 30.4232634], [50.3923593, 30.4240111], [50.3911978, 30.4259077],
+          [50.391072, 30.4263684], [50.391033, 30.4267843], [50.3910669, 30.4271314], [50.3912036, 30.4274669], [50.3915281, 30.4278481],
+          [50.3917317, 30.4284564], [50.3917893, 30.4285705], [50.3817247, 30.4421617], [50.382035, 30.4427075], [50.382897, 30.4415274],
+          [50.3830471, 30.4418368], [50.3834757, 30.442481], [50.3842871, 30.443746], [50.3845945, 30.4441385], [50.385614, 30.4453821],
+          [50.3858881, 30.4457165], [50.3859068, 30.4458457], [50.3857016, 30.4462804], [50.385743, 30.4464683], [50.3864401, 30.4475633],
+          [50.3869148, 30.4483205], [50.3870401, 30.4485041], [50.3863625, 30.449699], [50.3863322, 30.4497586], [50.3861902, 30.4499357],
+          [50.3854837, 30.45123], [50.3852149, 30.4517165], [50.3848759, 30.4524341], [50.3845856, 30.4531037], [50.3843099, 30.4537162],
+          [50.3842733, 30.4538108], [50.3842121, 30.4539417], [50.3842851, 30.4540919], [50.3843125, 30.4541453], [50.3845217, 30.4545191],
+          [50.3845994, 30.4544192], [50.3846576, 30.4543367], [50.3846948, 30.4543286], [50.3849407, 30.4544581], [50.3854445, 30.4546963],
+          [50.385965, 30.4550035], [50.3865309, 30.4553328], [50.3867651, 30.4554491], [50.3869749, 30.4555163], [50.3870886, 30.4555422],
+          [50.3873641, 30.4556348], [50.3877425, 30.4559528], [50.3879101, 30.4560995], [50.3886542, 30.4566732], [50.3883154, 30.4579841],
+          [50.3881715, 30.4586189], [50.3893004, 30.4593045], [50.3891028, 30.4603755], [50.3890946, 30.4604197], [50.3893603, 30.460479],
+          [50.3897652, 30.4605126], [50.3903337, 30.4605334], [50.3907051, 30.4605759], [50.3911219, 30.4606224], [50.3913555, 30.4606485],
+          [50.3913998, 30.460653], [50.3913948, 30.4608015], [50.391389, 30.4609727], [50.3913779, 30.4613204], [50.3913738, 30.4614471],
+          [50.3913703, 30.4615589], [50.3913573, 30.4619767], [50.3913555, 30.4620344], [50.3913514, 30.4621681], [50.391317, 30.4633979],
+          [50.3912933, 30.4640879], [50.3912929, 30.4640954], [50.3912924, 30.4641027], [50.3912919, 30.4641104], [50.3912911, 30.4641178],
+          [50.39129, 30.4641256], [50.3912887, 30.4641338], [50.3912872, 30.4641411], [50.3912863, 30.4641453], [50.3912847, 30.464152],
+          [50.391282, 30.4641614], [50.3912781, 30.4641734], [50.3912674, 30.4642028], [50.3912397, 30.4642676], [50.3912116, 30.4643267],
+          [50.3911885, 30.4643722], [50.391174, 30.4643947], [50.3911086, 30.464489], [50.3910334, 30.4645973], [50.3905561, 30.4652851],
+          [50.3904893, 30.4653737], [50.3906017, 30.4655873], [50.3908044, 30.4659815], [50.3910483, 30.4664806], [50.3912062, 30.4668324],
+          [50.3913337, 30.4671652], [50.3914288, 30.4674603], [50.3915065, 30.4677237], [50.3915551, 30.4678982], [50.3915831, 30.4680074],
+          [50.3916308, 30.4681933], [50.3916977, 30.4685222], [50.3917497, 30.4687968], [50.3917929, 30.4690817], [50.3918094, 30.4691886],
+          [50.3918275, 30.4693318], [50.3918752, 30.4697248], [50.3918997, 30.469948], [50.3919886, 30.4707649], [50.3920209, 30.4710449],
+          [50.3920283, 30.4711163], [50.3920632, 30.4714536], [50.3958354, 30.47045], [50.3965238, 30.4705404], [50.3966578, 30.4710678],
+          [50.3967323, 30.4713397], [50.3971224, 30.4729226], [50.3981496, 30.4731941], [50.3982319, 30.4727974], [50.3985671, 30.4724745],
+          [50.3986788, 30.4721423], [50.3988376, 30.4716718], [50.3990199, 30.4716811], [50.3990434, 30.4721239], [50.3989435, 30.4727051],
+          [50.3987318, 30.4730372], [50.3983672, 30.4734801], [50.398473, 30.4750207], [50.3982056, 30.4788596], [50.3979871, 30.4786656],
+          [50.3978946, 30.4785834], [50.3978247, 30.4785507], [50.3976911, 30.478534], [50.3976015, 30.478566], [50.397541, 30.4786049],
+          [50.3974771, 30.4786459], [50.3974093, 30.478714], [50.3973403, 30.4788131], [50.3973924, 30.4789526], [50.3974522, 30.4795893],
+          [50.3974889, 30.4798709], [50.3975013, 30.4799416], [50.3975417, 30.4801359], [50.397585, 30.4803392], [50.3979108, 30.4818698],
+          [50.3982408, 30.4833641], [50.3984252, 30.4839457], [50.3984836, 30.4841297], [50.3985785, 30.4844012], [50.3989696, 30.4853731],
+          [50.3991119, 30.4856315], [50.3992489, 30.4858804], [50.3993172, 30.4860044], [50.399624, 30.4864474], [50.3997369, 30.4866443],
+          [50.3998715, 30.4868516], [50.3998932, 30.486885], [50.4001996, 30.4873371], [50.4004882, 30.487746], [50.4007037, 30.4880265],
+          [50.4010418, 30.4884151], [50.4013219, 30.4886855], [50.4017842, 30.4890019], [50.4022523, 30.4892876], [50.4027356, 30.4895628],
+          [50.4029785, 30.4896682], [50.4034859, 30.4899013], [50.4040506, 30.490155], [50.404512, 30.4903243], [50.4049194, 30.4904544],
+          [50.4054064, 30.4905732], [50.4061031, 30.4906611], [50.4062771, 30.4906857], [50.4064461, 30.4907006], [50.4065667, 30.4907274],
+          [50.406696, 30.4907782], [50.4068969, 30.4908572], [50.4071949, 30.4910255], [50.4074396, 30.4911637], [50.407748, 30.4913825],
+          [50.4081506, 30.4916705], [50.4082484, 30.4917441], [50.4083115, 30.4917915], [50.4084582, 30.4919058], [50.4085327, 30.4919578],
+          [50.4086372, 30.4920365], [50.4086891, 30.4920825], [50.4088225, 30.4922008], [50.4090107, 30.4924107], [50.4091423, 30.4925941],
+          [50.4093856, 30.492992], [50.409597, 30.4934926], [50.4097211, 30.4939369], [50.4097444, 30.494013], [50.4103607, 30.4961219],
+          [50.4104786, 30.4966051], [50.4105796, 30.4970819], [50.4106419, 30.4975232], [50.4106488, 30.4976048], [50.4106785, 30.4979577],
+          [50.4107119, 30.4988339], [50.410714, 30.4990286], [50.4107219, 30.4997398], [50.4107102, 30.5004683], [50.4106891, 30.5008724],
+          [50.4106541, 30.5013068], [50.4104478, 30.5034912], [50.4103905, 30.5041436], [50.4103763, 30.5044008], [50.4103716, 30.5045856],
+          [50.4103978, 30.5051812], [50.4104271, 30.5056298], [50.4104558, 30.5060012], [50.4104773, 30.5063027], [50.4104952, 30.5064523],
+          [50.410511, 30.5066297], [50.4105342, 30.5067996], [50.410562, 30.5069819], [50.4106203, 30.5072846], [50.4106515, 30.5074052],
+          [50.4113519, 30.5068725], [50.4117025, 30.5056603], [50.4120098, 30.5050349], [50.4126663, 30.5035711], [50.4129029, 30.5030155],
+          [50.4138276, 30.5013053], [50.414132, 30.5009934], [50.414513, 30.5004195], [50.4146312, 30.5002752], [50.4148747, 30.5000431],
+          [50.4155465, 30.4991296], [50.4159637, 30.4986926], [50.4159678, 30.4985705], [50.4165509, 30.4984915], [50.4167449, 30.498543],
+          [50.4174154, 30.499049], [50.4178322, 30.4994666], [50.4179476, 30.4996088], [50.4184745, 30.5001594], [50.4199749, 30.501713],
+          [50.4207421, 30.5025354], [50.4210283, 30.5028227], [50.4214539, 30.5032014], [50.4217782, 30.5033981], [50.4221178, 30.5035486],
+          [50.4221006, 30.5036456], [50.4220429, 30.5039712], [50.4215143, 30.504883], [50.4215611, 30.5049658], [50.4218093, 30.5054844],
+          [50.4219257, 30.5057006], [50.4219595, 30.5058123], [50.4220221, 30.5060186], [50.4221342, 30.5064603], [50.4221865, 30.5066222],
+          [50.4223518, 30.5069932], [50.4222837, 30.507206], [50.4223871, 30.5077166], [50.4223688, 30.507875], [50.422236, 30.5083354],
+          [50.422195, 30.5084976], [50.4221848, 30.5086666], [50.4219851, 30.5089933], [50.4215206, 30.5091534], [50.4214296, 30.5091747],
+          [50.4215715, 30.5100286], [50.4213438, 30.5102966], [50.4214155, 30.5104752], [50.421608, 30.5110849], [50.4179105, 30.5147909],
+          [50.4181385, 30.5153737], [50.4184056, 30.5150754], [50.4189456, 30.5145959], [50.4191339, 30.5144822], [50.4193439, 30.514397],
+          [50.4195431, 30.5144027], [50.4197531, 30.5142947], [50.4201804, 30.5139992], [50.4212168, 30.5131454], [50.4218708, 30.5125932],
+          [50.4224156, 30.5121729], [50.4226244, 30.5120375], [50.4241042, 30.5113891], [50.4246898, 30.5111398], [50.4249122, 30.5109759],
+          [50.4257429, 30.510242], [50.4264384, 30.5097415], [50.4267029, 30.5096615], [50.426975, 30.509652], [50.42727, 30.5096691],
+          [50.4275252, 30.5096838], [50.4280745, 30.5097481], [50.4282615, 30.5097501], [50.4284344, 30.5097023], [50.4287732, 30.5095476],
+          [50.4288515, 30.5095064], [50.4289297, 30.5094546], [50.4301075, 30.5081794], [50.4304799, 30.5078287], [50.4307255, 30.5075713],
+          [50.4310927, 30.507167], [50.4313908, 30.5068637], [50.4319593, 30.5062744], [50.4323672, 30.5058521], [50.4325276, 30.5056811],
+          [50.4327106, 30.5052373], [50.4334589, 30.5028027], [50.4340407, 30.5013264], [50.4338725, 30.5011873], [50.4345365, 30.4999742],
+          [50.4350624, 30.4991485], [50.4361084, 30.497511], [50.4367877, 30.4965444], [50.4386004, 30.4940673], [50.4387282, 30.4937472],
+          [50.4389281, 30.4934845], [50.4394181, 30.4928405], [50.4394436, 30.492885], [50.4400673, 30.4920485], [50.4406493, 30.4912677],
+          [50.4414631, 30.4921349], [50.4416608, 30.4917091], [50.4415678, 30.4901735], [50.4415663, 30.490132], [50.4415573, 30.4900203],
+          [50.4423969, 30.4888821], [50.4425159, 30.4886987], [50.4424927, 30.4886537], [50.4433574, 30.4874863], [50.4435843, 30.487142],
+          [50.4441825, 30.4862318], [50.4444668, 30.4857058], [50.4446894, 30.4851971], [50.444837, 30.4847557], [50.4449428, 30.4844392],
+          [50.4452355, 30.4833724], [50.4453251, 30.4831852], [50.4454583, 30.4827582], [50.4454361, 30.4827382], [50.4454014, 30.4827068],
+          [50.4454086, 30.4826808], [50.4456901, 30.4817581], [50.4457058, 30.4817048], [50.4457616, 30.4815459], [50.4457847, 30.4814865],
+          [50.4459679, 30.4810211], [50.4460437, 30.48094], [50.4466568, 30.4788606], [50.4468919, 30.4778725], [50.4471042, 30.4765711],
+          [50.4471843, 30.4750541], [50.4471173, 30.4735512], [50.4470105, 30.4726131], [50.4468777, 30.471757], [50.4460465, 30.467541],
+          [50.4466449, 30.4670762], [50.446715, 30.4670342], [50.4467309, 30.4670248], [50.4469526, 30.466884], [50.4479564, 30.4662466],
+          [50.448096, 30.4661925], [50.4481653, 30.4661722], [50.4484736, 30.466071], [50.4490678, 30.4660519], [50.4491908, 30.4660651],
+          [50.4492987, 30.466097], [50.4494006, 30.4661325], [50.4497898, 30.466268], [50.4498456, 30.4662842], [50.449876, 30.4662939],
+          [50.4504537, 30.4665132], [50.4505942, 30.4665683], [50.4508677, 30.4666696], [50.4508846, 30.4666773], [50.4510492, 30.4667523],
+          [50.4510843, 30.4667588], [50.4511118, 30.4665859], [50.4517203, 30.4627841], [50.4523562, 30.458905], [50.453131, 30.454188],
+          [50.4532963, 30.4532246], [50.4535368, 30.4518523], [50.4536258, 30.451357], [50.4537336, 30.4507576], [50.454264, 30.4474067],
+          [50.4544209, 30.4465271], [50.4544841, 30.4461731], [50.4547232, 30.4446773], [50.4551815, 30.4418637], [50.4553833, 30.440609],
+          [50.4568891, 30.4312916], [50.4571609, 30.4296412], [50.457434, 30.4279296], [50.4576863, 30.4263979], [50.4580203, 30.4243952],
+          [50.4583153, 30.4226032], [50.4585392, 30.4212423], [50.4586908, 30.4203525], [50.4589042, 30.419049], [50.4591735, 30.4175796],
+          [50.4594049, 30.4162793], [50.4594207, 30.4157666], [50.4590482, 30.4157268], [50.4581214, 30.4156519], [50.4574738, 30.4155589],
+          [50.4570286, 30.415438], [50.4566248, 30.4152632], [50.4562589, 30.4150698], [50.4557347, 30.4147551], [50.4553087, 30.4143857],
+          [50.4549269, 30.4139682], [50.4547068, 30.4136454], [50.4543106, 30.4130607], [50.4538939, 30.4123472], [50.4535079, 30.4116284],
+          [50.4515447, 30.4079778], [50.450986, 30.4069343], [50.4506016, 30.4061996], [50.449497, 30.4041756], [50.4492406, 30.4037739],
+          [50.4483591, 30.4019706], [50.4481197, 30.401537], [50.4478901, 30.4011452], [50.4478189, 30.4010238], [50.4476932, 30.400802],
+          [50.4475827, 30.4006346], [50.4473808, 30.4003394], [50.4468887, 30.3997292], [50.446469, 30.3993694], [50.4460743, 30.3990899],
+          [50.4452315, 30.3986549], [50.4442871, 30.3983549], [50.4424407, 30.3977425], [50.4420375, 30.3976244], [50.4418266, 30.397573],
+          [50.4414487, 30.397512]
+        ]
+      ]
     ],
     population: 400000,
     area: 40.2
   },
   {
     name: "Sviatoshynskyi",
-    coordinates: [
-      [50.4268097, 30.2361453], [50.4262928, 30.237359], [50.4257336, 30.2387189], [50.4252359, 30.2399272], [50.4250069, 30.2403992],
-      [50.4249659, 30.2407908], [50.4245797, 30.2413648], [50.4250377, 30.2421373], [50.4232135, 30.2447015], [50.4243828, 30.2469249],
-      [50.4262879, 30.2505595], [50.4265315, 30.2509142], [50.429052, 30.2536475], [50.4299949, 30.2544564], [50.4305072, 30.254859],
-      [50.4310217, 30.2552067], [50.4310721, 30.2552843], [50.4311921, 30.2600935], [50.4310684, 30.26036], [50.4305581, 30.2614596],
-      [50.4262956, 30.269261], [50.4269864, 30.2705024], [50.4277016, 30.2716872], [50.4282313, 30.272516], [50.4299733, 30.2751429],
-      [50.4306977, 30.2762464], [50.4316624, 30.2747185], [50.4321987, 30.2750427], [50.4331265, 30.2756032], [50.4356516, 30.2771938],
-      [50.4365075, 30.2779421], [50.437869, 30.2789882], [50.4383217, 30.2792752], [50.4397379, 30.2801274], [50.440825, 30.2806311],
-      [50.4415794, 30.2810454], [50.4420399, 30.2812813], [50.4423251, 30.2814307], [50.4426795, 30.2816114], [50.4430314, 30.2816945],
-      [50.4432164, 30.2817359], [50.4432694, 30.2817377], [50.4445846, 30.2817828], [50.4473313, 30.2813786], [50.4461707, 30.2893317],
-      [50.4450581, 30.2969559], [50.4447588, 30.299127], [50.444615, 30.3001703], [50.443452, 30.3072714], [50.4432517, 30.3086344],
-      [50.4426352, 30.3128283], [50.4424075, 30.3146175], [50.4426931, 30.3153761], [50.4426371, 30.3161026], [50.4425547, 30.3202589],
-      [50.4423487, 30.320262], [50.4424213, 30.3217469], [50.4424423, 30.3221848], [50.4425397, 30.3221649], [50.4428897, 30.3233349],
-      [50.4431965, 30.3245037], [50.4441043, 30.3291045], [50.4447534, 30.3335431], [50.4451171, 30.3370771], [50.4456431, 30.3421874],
-      [50.4458725, 30.3440806], [50.4458562, 30.3443376], [50.4459692, 30.3450911], [50.4460231, 30.3468582], [50.4458501, 30.3486839],
-      [50.4458865, 30.3489126], [50.4460856, 30.3487947], [50.4466803, 30.3493603], [50.4466879, 30.3498699], [50.4476373, 30.348743],
-      [50.4485315, 30.3483159], [50.4486772, 30.3482358], [50.4487707, 30.3480812], [50.4489221, 30.3479583], [50.4490673, 30.3479006],
-      [50.4491943, 30.347899], [50.4493279, 30.3477468], [50.4495413, 30.3476726], [50.4496515, 30.347538], [50.4498527, 30.3474886],
-      [50.4501641, 30.34781], [50.450182, 30.3479576], [50.4504003, 30.348169], [50.4505541, 30.3481699], [50.4511829, 30.3482312],
-      [50.4512215, 30.348235], [50.4512267, 30.3486308], [50.4513004, 30.3499284], [50.4504167, 30.350109], [50.4503829, 30.3502636],
-      [50.4504162, 30.3509445], [50.4501999, 30.3509331], [50.4494517, 30.351037], [50.4494513, 30.3510449], [50.449447, 30.3512166],
-      [50.4463007, 30.3512919], [50.4457485, 30.3515823], [50.4452335, 30.3533656], [50.445234, 30.3576898], [50.4451895, 30.3576963],
-      [50.4452012, 30.3578939], [50.4452338, 30.3578891], [50.4452337, 30.3581032], [50.4447522, 30.3581829], [50.4443979, 30.3582332],
-      [50.4438901, 30.3583149], [50.4435265, 30.3583744], [50.4428761, 30.3584815], [50.4426748, 30.3585147], [50.4420644, 30.3586249],
-      [50.4414058, 30.3587223], [50.4409846, 30.3587846], [50.4403172, 30.3588893], [50.4397177, 30.3589918], [50.4393923, 30.3590338],
-      [50.438785, 30.3591172], [50.4380303, 30.3592327], [50.4376412, 30.3592884], [50.4373053, 30.3593394], [50.4357628, 30.3595765],
-      [50.4352899, 30.3596641], [50.435015, 30.3597174], [50.4347212, 30.3597866], [50.4343595, 30.3598718], [50.4338978, 30.3600354],
-      [50.4334079, 30.3602089], [50.4331714, 30.3603208], [50.4327106, 30.3605633], [50.4322238, 30.3608771], [50.4314464, 30.3614462],
-      [50.4313498, 30.3615204], [50.4309149, 30.3618366], [50.4305837, 30.362094], [50.4300348, 30.3625163], [50.4293625, 30.3630285],
-      [50.4286377, 30.3635806], [50.4281973, 30.3639162], [50.4275891, 30.3643795], [50.4267326, 30.3650738], [50.4262374, 30.3654836],
-      [50.4257034, 30.3659097], [50.4251093, 30.3663548], [50.4250781, 30.3663794], [50.4249578, 30.3664744], [50.4248547, 30.366556],
-      [50.4244153, 30.3662905], [50.4243787, 30.3659935], [50.4243231, 30.3657496], [50.4242781, 30.3654401], [50.4241899, 30.3654879],
-      [50.4242007, 30.3655569], [50.4241895, 30.3656354], [50.4241422, 30.3657245], [50.424072, 30.3657969], [50.4232537, 30.3664577],
-      [50.4230657, 30.3667735], [50.4230401, 30.3673375], [50.4230042, 30.3674421], [50.4225715, 30.3683029], [50.4222878, 30.3685367],
-      [50.4222562, 30.3685628], [50.4219259, 30.3688376], [50.4215744, 30.3691558], [50.4212389, 30.3695214], [50.4210238, 30.3697732],
-      [50.4208207, 30.3700304], [50.4206121, 30.3702922], [50.4204287, 30.3705487], [50.4199705, 30.3712662], [50.4195694, 30.3718895],
-      [50.41887, 30.3730218], [50.4183796, 30.3738524], [50.418322, 30.3739528], [50.4176703, 30.3750113], [50.4170431, 30.3760244],
-      [50.4166421, 30.3766492], [50.4158323, 30.3779402], [50.4151869, 30.3789426], [50.4146962, 30.379695], [50.4144297, 30.380112],
-      [50.4140384, 30.3807187], [50.4138672, 30.380991], [50.4136825, 30.3812703], [50.4134447, 30.3816599], [50.4129341, 30.3825406],
-      [50.4127846, 30.382782], [50.412446, 30.3833106], [50.4117001, 30.3844204], [50.411574, 30.3846228], [50.4112317, 30.3851374],
-      [50.4110602, 30.3854259], [50.4107508, 30.3859132], [50.410499, 30.3863295], [50.4103008, 30.3866495], [50.4095475, 30.387865],
-      [50.4095157, 30.3879162], [50.4094001, 30.388108], [50.4092405, 30.3883548], [50.4089113, 30.3888837], [50.4087913, 30.3890764],
-      [50.4086143, 30.3893514], [50.4083897, 30.3897006], [50.4079614, 30.3903512], [50.4075296, 30.3910898], [50.4074067, 30.3912941],
-      [50.4068145, 30.3922423], [50.4065451, 30.3927043], [50.4064813, 30.3928347], [50.4061871, 30.3934362], [50.4059197, 30.3940078],
-      [50.4057039, 30.3945562], [50.4054704, 30.3951971], [50.404904, 30.396864], [50.4045554, 30.3979142], [50.4041007, 30.3992591],
-      [50.4032791, 30.401659], [50.4025421, 30.4038056], [50.4022959, 30.4045188], [50.4022733, 30.4045854], [50.4021149, 30.4050522],
-      [50.4018246, 30.4059248], [50.4015716, 30.406773], [50.4014347, 30.4073145], [50.4012753, 30.4079735], [50.4011922, 30.4082785],
-      [50.4010709, 30.4086875], [50.4004279, 30.4107516], [50.4003394, 30.4110379], [50.4001036, 30.4118007], [50.3997663, 30.4128043],
-      [50.3994123, 30.4138573], [50.3983928, 30.4168866], [50.397977, 30.4171999], [50.3980357, 30.417983], [50.3982365, 30.4184166],
-      [50.3988809, 30.4197102], [50.399332, 30.4205339], [50.3996094, 30.4209941], [50.3999546, 30.421558], [50.4003899, 30.4222101],
-      [50.4010904, 30.4231944], [50.401726, 30.4240263], [50.4022404, 30.4246119], [50.4030278, 30.4254425], [50.4038969, 30.4259674],
-      [50.4039586, 30.4260088], [50.4041826, 30.4261592], [50.4045525, 30.4263984], [50.405391, 30.4269191], [50.4060023, 30.4273151],
-      [50.4063419, 30.4275013], [50.406791, 30.4276575], [50.4072984, 30.4277046], [50.4076503, 30.4276721], [50.408045, 30.4275723],
-      [50.4083866, 30.4274152], [50.4088885, 30.4270902], [50.4093632, 30.4266111], [50.4096771, 30.4261929], [50.4124324, 30.4240222],
-      [50.4125832, 30.423746], [50.4127588, 30.4234868], [50.4130768, 30.4230834], [50.4133464, 30.4227789], [50.4136274, 30.422517],
-      [50.4139987, 30.4221689], [50.4144098, 30.4217798], [50.415733, 30.4205164], [50.4161423, 30.4201313], [50.4164619, 30.4198396],
-      [50.41691, 30.419403], [50.41728, 30.4190145], [50.4176479, 30.4185824], [50.4179831, 30.4181412], [50.4183241, 30.4176754],
-      [50.4190036, 30.4167383], [50.4200287, 30.4153275], [50.4203546, 30.414886], [50.4207043, 30.4144281], [50.4210539, 30.4140072],
-      [50.4214284, 30.413615], [50.4218029, 30.4132475], [50.4248052, 30.4101589], [50.4258435, 30.4091058], [50.4278383, 30.4071525],
-      [50.4284131, 30.4066808], [50.429589, 30.4057862], [50.4306739, 30.4049675], [50.4324698, 30.4036553], [50.4328265, 30.4033947],
-      [50.4334034, 30.4029619], [50.4351048, 30.4016751], [50.4373881, 30.399928], [50.4390195, 30.3987316], [50.439068, 30.3986942],
-      [50.4396257, 30.3983473], [50.4400127, 30.3980637], [50.4403046, 30.3978527], [50.4405767, 30.3977121], [50.4408067, 30.3976225],
-      [50.4411162, 30.3975474], [50.4414487, 30.397512], [50.4418266, 30.397573], [50.4420375, 30.3976244], [50.4424407, 30.3977425],
-      [50.4442871, 30.3983549], [50.4452315, 30.3986549], [50.4460743, 30.3990899], [50.446469, 30.3993694], [50.4468887, 30.3997292],
-      [50.4473808, 30.4003394], [50.4475827, 30.4006346], [50.4476932, 30.400802], [50.4478189, 30.4010238], [50.4478901, 30.4011452],
-      [50.4481197, 30.401537], [50.4483591, 30.4019706], [50.4492406, 30.4037739], [50.449497, 30.4041756], [50.4506016, 30.4061996],
-      [50.450986, 30.4069343], [50.4515447, 30.4079778], [50.4535079, 30.4116284], [50.4538939, 30.4123472], [50.4543106, 30.4130607],
-      [50.4547068, 30.4136454], [50.4549269, 30.4139682], [50.4553087, 30.4143857], [50.4557347, 30.4147551], [50.4562589, 30.4150698],
-      [50.4566248, 30.4152632], [50.4570286, 30.415438], [50.4574738, 30.4155589], [50.4581214, 30.4156519], [50.4590482, 30.4157268],
-      [50.4594207, 30.4157666], [50.4594215, 30.414846], [50.4593832, 30.4143624], [50.4589874, 30.4109211], [50.458964, 30.4107285],
-      [50.458889, 30.4098451], [50.4584186, 30.402912], [50.4583709, 30.4015802], [50.4583172, 30.4007946], [50.4582431, 30.3995659],
-      [50.4580079, 30.3960725], [50.4580727, 30.3960721], [50.4582277, 30.3960699], [50.4585794, 30.3960648], [50.4586994, 30.3960631],
-      [50.4591725, 30.3960525], [50.4594346, 30.3960503], [50.4595194, 30.3960519], [50.4601657, 30.3960514], [50.4614515, 30.3960503],
-      [50.4617771, 30.39605], [50.4631064, 30.3960488], [50.4636094, 30.3960484], [50.4640453, 30.396048], [50.4644366, 30.3960477],
-      [50.4644971, 30.3960476], [50.4668097, 30.3960298], [50.4670647, 30.3960278], [50.4672763, 30.3960261], [50.4673756, 30.3960254],
-      [50.4678597, 30.3960188], [50.4697081, 30.3959935], [50.4701972, 30.3959868], [50.4707594, 30.3959792], [50.4711432, 30.3959739],
-      [50.4716603, 30.3959668], [50.4717273, 30.3959659], [50.4718104, 30.3959648], [50.4719417, 30.395963], [50.4736716, 30.3959401],
-      [50.4743869, 30.3959307], [50.4746503, 30.3959272], [50.4747207, 30.3959263], [50.4748603, 30.3959245], [50.4748995, 30.395924],
-      [50.4752564, 30.3959168], [50.4753939, 30.395914], [50.4754495, 30.3959128], [50.4756124, 30.3959095], [50.4763581, 30.3958943],
-      [50.4768163, 30.3958849], [50.4771642, 30.3958774], [50.4775951, 30.3958687], [50.4783409, 30.3958537], [50.4784211, 30.395852],
-      [50.4785833, 30.3958487], [50.4789965, 30.3958407], [50.4798034, 30.3958252], [50.4798595, 30.3958239], [50.4799506, 30.3958205],
-      [50.4809915, 30.3958024], [50.4813213, 30.3957935], [50.4813913, 30.3957918], [50.4814533, 30.3957899], [50.4815332, 30.3957867],
-      [50.4818132, 30.3957879], [50.4824487, 30.3957914], [50.4829111, 30.3957875], [50.4830056, 30.3957863], [50.4832215, 30.3957835],
-      [50.4836017, 30.3957742], [50.4837051, 30.3957704], [50.4841838, 30.395759], [50.4842811, 30.3957538], [50.4847772, 30.3957302],
-      [50.4851537, 30.395723], [50.4853677, 30.3957148], [50.4854138, 30.3957142], [50.4857816, 30.3957093], [50.4858042, 30.395709],
-      [50.4859692, 30.3956789], [50.4861725, 30.3957082], [50.4866921, 30.3959173], [50.4868554, 30.3955838], [50.4870678, 30.3950644],
-      [50.4871759, 30.3947847], [50.4872363, 30.3945832], [50.4873038, 30.3944233], [50.4873228, 30.3943721], [50.4873359, 30.3943269],
-      [50.4875824, 30.39381], [50.4876064, 30.3937484], [50.4879076, 30.3929739], [50.4882594, 30.3920695], [50.4886244, 30.3911313],
-      [50.4890103, 30.3901391], [50.489199, 30.389654], [50.4894351, 30.3890471], [50.4901653, 30.3871699], [50.4901876, 30.3871134],
-      [50.490483, 30.3863644], [50.4905738, 30.3861195], [50.4907013, 30.3857916], [50.4913037, 30.3842428], [50.4914791, 30.3837934],
-      [50.4915144, 30.3837031], [50.491818, 30.3829249], [50.4921503, 30.382068], [50.4924382, 30.3813242], [50.4927889, 30.380424],
-      [50.4929668, 30.3799759], [50.4930919, 30.3796606], [50.4932762, 30.3791836], [50.493348, 30.3789976], [50.4934317, 30.378781],
-      [50.4935901, 30.378377], [50.4944247, 30.3762489], [50.4945541, 30.3759188], [50.4953355, 30.3739263], [50.4955205, 30.3734543],
-      [50.4957826, 30.3727978], [50.4960495, 30.3721103], [50.4962891, 30.3714408], [50.4963875, 30.3711713], [50.4966536, 30.3704546],
-      [50.4967195, 30.370277], [50.496731, 30.3702461], [50.4967428, 30.370219], [50.4969051, 30.369915], [50.4969953, 30.3696805],
-      [50.4970173, 30.3696182], [50.497617, 30.3679159], [50.4977348, 30.3675918], [50.4978075, 30.3673919], [50.4978448, 30.3672947],
-      [50.4979495, 30.3670217], [50.4980249, 30.3668134], [50.4981767, 30.3663488], [50.4984605, 30.3655168], [50.4987011, 30.3651116],
-      [50.4991995, 30.3650643], [50.5002188, 30.3649751], [50.5005297, 30.3649063], [50.5013134, 30.3647617], [50.5017163, 30.364686],
-      [50.5034107, 30.3643556], [50.5044659, 30.3641628], [50.505521, 30.3639494], [50.5106432, 30.3629581], [50.5153933, 30.3620395],
-      [50.5157435, 30.3619914], [50.5158229, 30.361698], [50.5159034, 30.3613964], [50.5159202, 30.3613359], [50.5159629, 30.3611815],
-      [50.516055, 30.3608811], [50.5160885, 30.3607658], [50.5165537, 30.3592191], [50.5169062, 30.3579971], [50.5172489, 30.3568492],
-      [50.5175993, 30.3557782], [50.5182823, 30.3539954], [50.5185495, 30.3534304], [50.5188655, 30.3527273], [50.5191256, 30.3522926],
-      [50.5193895, 30.3518911], [50.5198702, 30.3511473], [50.5203585, 30.3503531], [50.5209364, 30.3493883], [50.5215533, 30.3483249],
-      [50.5222304, 30.3471652], [50.5232588, 30.3453833], [50.5233152, 30.3452855], [50.5234352, 30.3450776], [50.5264066, 30.3399286],
-      [50.5276216, 30.337817], [50.5319445, 30.3303313], [50.5330853, 30.3283552], [50.5332056, 30.3281346], [50.5359674, 30.3234195],
-      [50.5361563, 30.3230843], [50.5381429, 30.3195737], [50.542523, 30.3119953], [50.5430575, 30.3110689], [50.544526, 30.3085231],
-      [50.5457313, 30.3064405], [50.5463205, 30.3054131], [50.5469556, 30.3043055], [50.5475554, 30.3032594], [50.5476842, 30.3030347],
-      [50.5476567, 30.302963], [50.5471956, 30.3017662], [50.5440594, 30.3041909], [50.543854, 30.304444], [50.5405398, 30.3038551],
-      [50.539729, 30.3036962], [50.5394305, 30.3036175], [50.5346815, 30.3026919], [50.5334296, 30.3025182], [50.5334615, 30.3023422],
-      [50.5339116, 30.3005049], [50.5331836, 30.300183], [50.5331222, 30.298748], [50.5330317, 30.2972184], [50.5327405, 30.2927236],
-      [50.5311888, 30.2916509], [50.5295785, 30.290531], [50.5290086, 30.2902027], [50.5288226, 30.2902782], [50.5273141, 30.290922],
-      [50.527055, 30.2905135], [50.5269521, 30.2903689], [50.5263325, 30.2893924], [50.5257523, 30.2884834], [50.5251537, 30.2875745],
-      [50.5252858, 30.2863777], [50.5238893, 30.2844572], [50.5235977, 30.2840844], [50.5233248, 30.283725], [50.5230489, 30.2833768],
-      [50.5229236, 30.2826937], [50.5224712, 30.2819632], [50.5222075, 30.2814685], [50.5223955, 30.2807718], [50.5220107, 30.2796964],
-      [50.5216222, 30.278848], [50.5215889, 30.2783042], [50.5215467, 30.2775708], [50.521476, 30.276959], [50.5214994, 30.2760416],
-      [50.5215318, 30.2748616], [50.5213652, 30.2739764], [50.5211816, 30.2737495], [50.5210715, 30.2733707], [50.5209313, 30.2730122],
-      [50.520804, 30.2727606], [50.520634, 30.2725226], [50.5203863, 30.2724225], [50.5199478, 30.2721594], [50.5196685, 30.2718826],
-      [50.519472, 30.2713863], [50.5191511, 30.2704415], [50.5190584, 30.2699986], [50.5189397, 30.2696912], [50.5185256, 30.2686859],
-      [50.5178939, 30.2677701], [50.5175868, 30.2671101], [50.517192, 30.2666877], [50.5168457, 30.2664875], [50.5160373, 30.2659129],
-      [50.5157975, 30.2655082], [50.5156208, 30.2650821], [50.5152088, 30.2644347], [50.5150681, 30.2641037], [50.5136072, 30.2631441],
-      [50.5115169, 30.2610574], [50.5106956, 30.2605779], [50.5101619, 30.2602664], [50.5100079, 30.2601765], [50.5093901, 30.2611818],
-      [50.507878, 30.2622091], [50.5061701, 30.2641241], [50.5052067, 30.2658341], [50.5029974, 30.2695238], [50.5024034, 30.2698694],
-      [50.5024307, 30.2702395], [50.5022383, 30.2703759], [50.5015974, 30.2704713], [50.4998804, 30.2702929], [50.4988362, 30.27025],
-      [50.4986929, 30.2702101], [50.4984161, 30.2701331], [50.4982362, 30.270083], [50.4970855, 30.268775], [50.4961408, 30.2679313],
-      [50.4949724, 30.2666855], [50.4947922, 30.2664478], [50.4943996, 30.2659573], [50.4941083, 30.2656119], [50.4938755, 30.265313],
-      [50.4938288, 30.2652495], [50.4933131, 30.2657787], [50.4926431, 30.2664685], [50.4921624, 30.2658477], [50.4920933, 30.2657873],
-      [50.490333, 30.26425], [50.4887999, 30.2629899], [50.4888115, 30.2627073], [50.4886951, 30.2625888], [50.4886744, 30.2625681],
-      [50.488605, 30.2627332], [50.4885355, 30.2629045], [50.4883986, 30.2632533], [50.488267, 30.263133], [50.48775, 30.2627],
-      [50.4877832, 30.261082], [50.4877158, 30.2608439], [50.4875996, 30.2604033], [50.487442, 30.2600078], [50.4870568, 30.2592388],
-      [50.4868267, 30.2586869], [50.4866554, 30.2583234], [50.4865974, 30.2581678], [50.4865804, 30.2579934], [50.4865882, 30.2577722],
-      [50.4865799, 30.2576142], [50.486552, 30.2574747], [50.486568, 30.2561932], [50.4865563, 30.2557032], [50.4865977, 30.2552224],
-      [50.4868014, 30.2543027], [50.486845, 30.2538594], [50.4868156, 30.2534869], [50.4867091, 30.2531448], [50.4865704, 30.2527424],
-      [50.4864253, 30.2525504], [50.4862155, 30.2524114], [50.4856112, 30.2520972], [50.4848427, 30.251669], [50.4848125, 30.2516596],
-      [50.4843941, 30.2516136], [50.4843358, 30.2516005], [50.482989, 30.251306], [50.4827541, 30.2514443], [50.4825215, 30.2515195],
-      [50.4822684, 30.2514658], [50.4820924, 30.2512938], [50.4817692, 30.251197], [50.4817278, 30.251259], [50.481602, 30.2514472],
-      [50.4808629, 30.2515894], [50.4806395, 30.2515429], [50.4803172, 30.2515014], [50.4801083, 30.2513579], [50.4800035, 30.2513427],
-      [50.4788975, 30.2511013], [50.4787637, 30.2509855], [50.478504, 30.2507608], [50.4781242, 30.2504322], [50.4779345, 30.2502681],
-      [50.4773289, 30.2497441], [50.4762757, 30.2495268], [50.4742939, 30.2490655], [50.4740856, 30.2493578], [50.474017, 30.24965],
-      [50.4737579, 30.2498111], [50.4728646, 30.2532003], [50.4728967, 30.2543933], [50.4725415, 30.2544117], [50.4721669, 30.2558675],
-      [50.4721396, 30.2582145], [50.4697581, 30.2577451], [50.4684367, 30.2569243], [50.4667863, 30.2539849], [50.4662851, 30.2530904],
-      [50.4650063, 30.2518659], [50.4645041, 30.251345], [50.4636964, 30.2507714], [50.4634597, 30.2503121], [50.463151, 30.2496861],
-      [50.4625314, 30.2484297], [50.4625156, 30.2483976], [50.4606135, 30.2464369], [50.4591075, 30.2449831], [50.4573811, 30.2433228],
-      [50.4571488, 30.2433577], [50.4567731, 30.2431699], [50.4556751, 30.2419375], [50.4554583, 30.2416974], [50.4553421, 30.2415526],
-      [50.4552362, 30.2414372], [50.454145, 30.2409625], [50.453888, 30.2407986], [50.4524157, 30.2399088], [50.4518531, 30.2397555],
-      [50.4506423, 30.2394712], [50.4501214, 30.2393505], [50.4485724, 30.2401829], [50.4476756, 30.2416286], [50.446702, 30.2419496],
-      [50.444859, 30.2435213], [50.4443261, 30.2442643], [50.4437556, 30.2450797], [50.4434106, 30.2456456], [50.4429203, 30.2459675],
-      [50.4422815, 30.2460989], [50.4410601, 30.2462009], [50.4404725, 30.2464771], [50.4397516, 30.2461633], [50.4394048, 30.2460694],
-      [50.4385114, 30.2429554], [50.4358702, 30.2422607], [50.4347768, 30.2422661], [50.434536, 30.2417725], [50.4341225, 30.2405843],
-      [50.4338406, 30.240013], [50.4330718, 30.2389804], [50.4315085, 30.2373308], [50.4294308, 30.2363008], [50.4268097, 30.2361453]
+    polygons: [
+      [
+        [
+          [50.4268097, 30.2361453], [50.4262928, 30.237359], [50.4257336, 30.2387189], [50.4252359, 30.2399272], [50.4250069, 30.2403992],
+          [50.4249659, 30.2407908], [50.4245797, 30.2413648], [50.4250377, 30.2421373], [50.4232135, 30.2447015], [50.4243828, 30.2469249],
+          [50.4262879, 30.2505595], [50.4265315, 30.2509142], [50.429052, 30.2536475], [50.4299949, 30.2544564], [50.4305072, 30.254859],
+          [50.4310217, 30.2552067], [50.4310721, 30.2552843], [50.4311921, 30.2600935], [50.4310684, 30.26036], [50.4305581, 30.2614596],
+          [50.4262956, 30.269261], [50.4269864, 30.2705024], [50.4277016, 30.2716872], [50.4282313, 30.272516], [50.4299733, 30.2751429],
+          [50.4306977, 30.2762464], [50.4316624, 30.2747185], [50.4321987, 30.2750427], [50.4331265, 30.2756032], [50.4356516, 30.2771938],
+          [50.4365075, 30.2779421], [50.437869, 30.2789882], [50.4383217, 30.2792752], [50.4397379, 30.2801274], [50.440825, 30.2806311],
+          [50.4415794, 30.2810454], [50.4420399, 30.2812813], [50.4423251, 30.2814307], [50.4426795, 30.2816114], [50.4430314, 30.2816945],
+          [50.4432164, 30.2817359], [50.4432694, 30.2817377], [50.4445846, 30.2817828], [50.4473313, 30.2813786], [50.4461707, 30.2893317],
+          [50.4450581, 30.2969559], [50.4447588, 30.299127], [50.444615, 30.3001703], [50.443452, 30.3072714], [50.4432517, 30.3086344],
+          [50.4426352, 30.3128283], [50.4424075, 30.3146175], [50.4426931, 30.3153761], [50.4426371, 30.3161026], [50.4425547, 30.3202589],
+          [50.4423487, 30.320262], [50.4424213, 30.3217469], [50.4424423, 30.3221848], [50.4425397, 30.3221649], [50.4428897, 30.3233349],
+          [50.4431965, 30.3245037], [50.4441043, 30.3291045], [50.4447534, 30.3335431], [50.4451171, 30.3370771], [50.4456431, 30.3421874],
+          [50.4458725, 30.3440806], [50.4458562, 30.3443376], [50.4459692, 30.3450911], [50.4460231, 30.3468582], [50.4458501, 30.3486839],
+          [50.4458865, 30.3489126], [50.4460856, 30.3487947], [50.4466803, 30.3493603], [50.4466879, 30.3498699], [50.4476373, 30.348743],
+          [50.4485315, 30.3483159], [50.4486772, 30.3482358], [50.4487707, 30.3480812], [50.4489221, 30.3479583], [50.4490673, 30.3479006],
+          [50.4491943, 30.347899], [50.4493279, 30.3477468], [50.4495413, 30.3476726], [50.4496515, 30.347538], [50.4498527, 30.3474886],
+          [50.4501641, 30.34781], [50.450182, 30.3479576], [50.4504003, 30.348169], [50.4505541, 30.3481699], [50.4511829, 30.3482312],
+          [50.4512215, 30.348235], [50.4512267, 30.3486308], [50.4513004, 30.3499284], [50.4504167, 30.350109], [50.4503829, 30.3502636],
+          [50.4504162, 30.3509445], [50.4501999, 30.3509331], [50.4494517, 30.351037], [50.4494513, 30.3510449], [50.449447, 30.3512166],
+          [50.4463007, 30.3512919], [50.4457485, 30.3515823], [50.4452335, 30.3533656], [50.445234, 30.3576898], [50.4451895, 30.3576963],
+          [50.4452012, 30.3578939], [50.4452338, 30.3578891], [50.4452337, 30.3581032], [50.4447522, 30.3581829], [50.4443979, 30.3582332],
+          [50.4438901, 30.3583149], [50.4435265, 30.3583744], [50.4428761, 30.3584815], [50.4426748, 30.3585147], [50.4420644, 30.3586249],
+          [50.4414058, 30.3587223], [50.4409846, 30.3587846], [50.4403172, 30.3588893], [50.4397177, 30.3589918], [50.4393923, 30.3590338],
+          [50.438785, 30.3591172], [50.4380303, 30.3592327], [50.4376412, 30.3592884], [50.4373053, 30.3593394], [50.4357628, 30.3595765],
+          [50.4352899, 30.3596641], [50.435015, 30.3597174], [50.4347212, 30.3597866], [50.4343595, 30.3598718], [50.4338978, 30.3600354],
+          [50.4334079, 30.3602089], [50.4331714, 30.3603208], [50.4327106, 30.3605633], [50.4322238, 30.3608771], [50.4314464, 30.3614462],
+          [50.4313498, 30.3615204], [50.4309149, 30.3618366], [50.4305837, 30.362094], [50.4300348, 30.3625163], [50.4293625, 30.3630285],
+          [50.4286377, 30.3635806], [50.4281973, 30.3639162], [50.4275891, 30.3643795], [50.4267326, 30.3650738], [50.4262374, 30.3654836],
+          [50.4257034, 30.3659097], [50.4251093, 30.3663548], [50.4250781, 30.3663794], [50.4249578, 30.3664744], [50.4248547, 30.366556],
+          [50.4244153, 30.3662905], [50.4243787, 30.3659935], [50.4243231, 30.3657496], [50.4242781, 30.3654401], [50.4241899, 30.3654879],
+          [50.4242007, 30.3655569], [50.4241895, 30.3656354], [50.4241422, 30.3657245], [50.424072, 30.3657969], [50.4232537, 30.3664577],
+          [50.4230657, 30.3667735], [50.4230401, 30.3673375], [50.4230042, 30.3674421], [50.4225715, 30.3683029], [50.4222878, 30.3685367],
+          [50.4222562, 30.3685628], [50.4219259, 30.3688376], [50.4215744, 30.3691558], [50.4212389, 30.3695214], [50.4210238, 30.3697732],
+          [50.4208207, 30.3700304], [50.4206121, 30.3702922], [50.4204287, 30.3705487], [50.4199705, 30.3712662], [50.4195694, 30.3718895],
+          [50.41887, 30.3730218], [50.4183796, 30.3738524], [50.418322, 30.3739528], [50.4176703, 30.3750113], [50.4170431, 30.3760244],
+          [50.4166421, 30.3766492], [50.4158323, 30.3779402], [50.4151869, 30.3789426], [50.4146962, 30.379695], [50.4144297, 30.380112],
+          [50.4140384, 30.3807187], [50.4138672, 30.380991], [50.4136825, 30.3812703], [50.4134447, 30.3816599], [50.4129341, 30.3825406],
+          [50.4127846, 30.382782], [50.412446, 30.3833106], [50.4117001, 30.3844204], [50.411574, 30.3846228], [50.4112317, 30.3851374],
+          [50.4110602, 30.3854259], [50.4107508, 30.3859132], [50.410499, 30.3863295], [50.4103008, 30.3866495], [50.4095475, 30.387865],
+          [50.4095157, 30.3879162], [50.4094001, 30.388108], [50.4092405, 30.3883548], [50.4089113, 30.3888837], [50.4087913, 30.3890764],
+          [50.4086143, 30.3893514], [50.4083897, 30.3897006], [50.4079614, 30.3903512], [50.4075296, 30.3910898], [50.4074067, 30.3912941],
+          [50.4068145, 30.3922423], [50.4065451, 30.3927043], [50.4064813, 30.3928347], [50.4061871, 30.3934362], [50.4059197, 30.3940078],
+          [50.4057039, 30.3945562], [50.4054704, 30.3951971], [50.404904, 30.396864], [50.4045554, 30.3979142], [50.4041007, 30.3992591],
+          [50.4032791, 30.401659], [50.4025421, 30.4038056], [50.4022959, 30.4045188], [50.4022733, 30.4045854], [50.4021149, 30.4050522],
+          [50.4018246, 30.4059248], [50.4015716, 30.406773], [50.4014347, 30.4073145], [50.4012753, 30.4079735], [50.4011922, 30.4082785],
+          [50.4010709, 30.4086875], [50.4004279, 30.4107516], [50.4003394, 30.4110379], [50.4001036, 30.4118007], [50.3997663, 30.4128043],
+          [50.3994123, 30.4138573], [50.3983928, 30.4168866], [50.397977, 30.4171999], [50.3980357, 30.417983], [50.3982365, 30.4184166],
+          [50.3988809, 30.4197102], [50.399332, 30.4205339], [50.3996094, 30.4209941], [50.3999546, 30.421558], [50.4003899, 30.4222101],
+          [50.4010904, 30.4231944], [50.401726, 30.4240263], [50.4022404, 30.4246119], [50.4030278, 30.4254425], [50.4038969, 30.4259674],
+          [50.4039586, 30.4260088], [50.4041826, 30.4261592], [50.4045525, 30.4263984], [50.405391, 30.4269191], [50.4060023, 30.4273151],
+          [50.4063419, 30.4275013], [50.406791, 30.4276575], [50.4072984, 30.4277046], [50.4076503, 30.4276721], [50.408045, 30.4275723],
+          [50.4083866, 30.4274152], [50.4088885, 30.4270902], [50.4093632, 30.4266111], [50.4096771, 30.4261929], [50.4124324, 30.4240222],
+          [50.4125832, 30.423746], [50.4127588, 30.4234868], [50.4130768, 30.4230834], [50.4133464, 30.4227789], [50.4136274, 30.422517],
+          [50.4139987, 30.4221689], [50.4144098, 30.4217798], [50.415733, 30.4205164], [50.4161423, 30.4201313], [50.4164619, 30.4198396],
+          [50.41691, 30.419403], [50.41728, 30.4190145], [50.4176479, 30.4185824], [50.4179831, 30.4181412], [50.4183241, 30.4176754],
+          [50.4190036, 30.4167383], [50.4200287, 30.4153275], [50.4203546, 30.414886], [50.4207043, 30.4144281], [50.4210539, 30.4140072],
+          [50.4214284, 30.413615], [50.4218029, 30.4132475], [50.4248052, 30.4101589], [50.4258435, 30.4091058], [50.4278383, 30.4071525],
+          [50.4284131, 30.4066808], [50.429589, 30.4057862], [50.4306739, 30.4049675], [50.4324698, 30.4036553], [50.4328265, 30.4033947],
+          [50.4334034, 30.4029619], [50.4351048, 30.4016751], [50.4373881, 30.399928], [50.4390195, 30.3987316], [50.439068, 30.3986942],
+          [50.4396257, 30.3983473], [50.4400127, 30.3980637], [50.4403046, 30.3978527], [50.4405767, 30.3977121], [50.4408067, 30.3976225],
+          [50.4411162, 30.3975474], [50.4414487, 30.397512], [50.4418266, 30.397573], [50.4420375, 30.3976244], [50.4424407, 30.3977425],
+          [50.4442871, 30.3983549], [50.4452315, 30.3986549], [50.4460743, 30.3990899], [50.446469, 30.3993694], [50.4468887, 30.3997292],
+          [50.4473808, 30.4003394], [50.4475827, 30.4006346], [50.4476932, 30.400802], [50.4478189, 30.4010238], [50.4478901, 30.4011452],
+          [50.4481197, 30.401537], [50.4483591, 30.4019706], [50.4492406, 30.4037739], [50.449497, 30.4041756], [50.4506016, 30.4061996],
+          [50.450986, 30.4069343], [50.4515447, 30.4079778], [50.4535079, 30.4116284], [50.4538939, 30.4123472], [50.4543106, 30.4130607],
+          [50.4547068, 30.4136454], [50.4549269, 30.4139682], [50.4553087, 30.4143857], [50.4557347, 30.4147551], [50.4562589, 30.4150698],
+          [50.4566248, 30.4152632], [50.4570286, 30.415438], [50.4574738, 30.4155589], [50.4581214, 30.4156519], [50.4590482, 30.4157268],
+          [50.4594207, 30.4157666], [50.4594215, 30.414846], [50.4593832, 30.4143624], [50.4589874, 30.4109211], [50.458964, 30.4107285],
+          [50.458889, 30.4098451], [50.4584186, 30.402912], [50.4583709, 30.4015802], [50.4583172, 30.4007946], [50.4582431, 30.3995659],
+          [50.4580079, 30.3960725], [50.4580727, 30.3960721], [50.4582277, 30.3960699], [50.4585794, 30.3960648], [50.4586994, 30.3960631],
+          [50.4591725, 30.3960525], [50.4594346, 30.3960503], [50.4595194, 30.3960519], [50.4601657, 30.3960514], [50.4614515, 30.3960503],
+          [50.4617771, 30.39605], [50.4631064, 30.3960488], [50.4636094, 30.3960484], [50.4640453, 30.396048], [50.4644366, 30.3960477],
+          [50.4644971, 30.3960476], [50.4668097, 30.3960298], [50.4670647, 30.3960278], [50.4672763, 30.3960261], [50.4673756, 30.3960254],
+          [50.4678597, 30.3960188], [50.4697081, 30.3959935], [50.4701972, 30.3959868], [50.4707594, 30.3959792], [50.4711432, 30.3959739],
+          [50.4716603, 30.3959668], [50.4717273, 30.3959659], [50.4718104, 30.3959648], [50.4719417, 30.395963], [50.4736716, 30.3959401],
+          [50.4743869, 30.3959307], [50.4746503, 30.3959272], [50.4747207, 30.3959263], [50.4748603, 30.3959245], [50.4748995, 30.395924],
+          [50.4752564, 30.3959168], [50.4753939, 30.395914], [50.4754495, 30.3959128], [50.4756124, 30.3959095], [50.4763581, 30.3958943],
+          [50.4768163, 30.3958849], [50.4771642, 30.3958774], [50.4775951, 30.3958687], [50.4783409, 30.3958537], [50.4784211, 30.395852],
+          [50.4785833, 30.3958487], [50.4789965, 30.3958407], [50.4798034, 30.3958252], [50.4798595, 30.3958239], [50.4799506, 30.3958205],
+          [50.4809915, 30.3958024], [50.4813213, 30.3957935], [50.4813913, 30.3957918], [50.4814533, 30.3957899], [50.4815332, 30.3957867],
+          [50.4818132, 30.3957879], [50.4824487, 30.3957914], [50.4829111, 30.3957875], [50.4830056, 30.3957863], [50.4832215, 30.3957835],
+          [50.4836017, 30.3957742], [50.4837051, 30.3957704], [50.4841838, 30.395759], [50.4842811, 30.3957538], [50.4847772, 30.3957302],
+          [50.4851537, 30.395723], [50.4853677, 30.3957148], [50.4854138, 30.3957142], [50.4857816, 30.3957093], [50.4858042, 30.395709],
+          [50.4859692, 30.3956789], [50.4861725, 30.3957082], [50.4866921, 30.3959173], [50.4868554, 30.3955838], [50.4870678, 30.3950644],
+          [50.4871759, 30.3947847], [50.4872363, 30.3945832], [50.4873038, 30.3944233], [50.4873228, 30.3943721], [50.4873359, 30.3943269],
+          [50.4875824, 30.39381], [50.4876064, 30.3937484], [50.4879076, 30.3929739], [50.4882594, 30.3920695], [50.4886244, 30.3911313],
+          [50.4890103, 30.3901391], [50.489199, 30.389654], [50.4894351, 30.3890471], [50.4901653, 30.3871699], [50.4901876, 30.3871134],
+          [50.490483, 30.3863644], [50.4905738, 30.3861195], [50.4907013, 30.3857916], [50.4913037, 30.3842428], [50.4914791, 30.3837934],
+          [50.4915144, 30.3837031], [50.491818, 30.3829249], [50.4921503, 30.382068], [50.4924382, 30.3813242], [50.4927889, 30.380424],
+          [50.4929668, 30.3799759], [50.4930919, 30.3796606], [50.4932762, 30.3791836], [50.493348, 30.3789976], [50.4934317, 30.378781],
+          [50.4935901, 30.378377], [50.4944247, 30.3762489], [50.4945541, 30.3759188], [50.4953355, 30.3739263], [50.4955205, 30.3734543],
+          [50.4957826, 30.3727978], [50.4960495, 30.3721103], [50.4962891, 30.3714408], [50.4963875, 30.3711713], [50.4966536, 30.3704546],
+          [50.4967195, 30.370277], [50.496731, 30.3702461], [50.4967428, 30.370219], [50.4969051, 30.369915], [50.4969953, 30.3696805],
+          [50.4970173, 30.3696182], [50.497617, 30.3679159], [50.4977348, 30.3675918], [50.4978075, 30.3673919], [50.4978448, 30.3672947],
+          [50.4979495, 30.3670217], [50.4980249, 30.3668134], [50.4981767, 30.3663488], [50.4984605, 30.3655168], [50.4987011, 30.3651116],
+          [50.4991995, 30.3650643], [50.5002188, 30.3649751], [50.5005297, 30.3649063], [50.5013134, 30.3647617], [50.5017163, 30.364686],
+          [50.5034107, 30.3643556], [50.5044659, 30.3641628], [50.505521, 30.3639494], [50.5106432, 30.3629581], [50.5153933, 30.3620395],
+          [50.5157435, 30.3619914], [50.5158229, 30.361698], [50.5159034, 30.3613964], [50.5159202, 30.3613359], [50.5159629, 30.3611815],
+          [50.516055, 30.3608811], [50.5160885, 30.3607658], [50.5165537, 30.3592191], [50.5169062, 30.3579971], [50.5172489, 30.3568492],
+          [50.5175993, 30.3557782], [50.5182823, 30.3539954], [50.5185495, 30.3534304], [50.5188655, 30.3527273], [50.5191256, 30.3522926],
+          [50.5193895, 30.3518911], [50.5198702, 30.3511473], [50.5203585, 30.3503531], [50.5209364, 30.3493883], [50.5215533, 30.3483249],
+          [50.5222304, 30.3471652], [50.5232588, 30.3453833], [50.5233152, 30.3452855], [50.5234352, 30.3450776], [50.5264066, 30.3399286],
+          [50.5276216, 30.337817], [50.5319445, 30.3303313], [50.5330853, 30.3283552], [50.5332056, 30.3281346], [50.5359674, 30.3234195],
+          [50.5361563, 30.3230843], [50.5381429, 30.3195737], [50.542523, 30.3119953], [50.5430575, 30.3110689], [50.544526, 30.3085231],
+          [50.5457313, 30.3064405], [50.5463205, 30.3054131], [50.5469556, 30.3043055], [50.5475554, 30.3032594], [50.5476842, 30.3030347],
+          [50.5476567, 30.302963], [50.5471956, 30.3017662], [50.5440594, 30.3041909], [50.543854, 30.304444], [50.5405398, 30.3038551],
+          [50.539729, 30.3036962], [50.5394305, 30.3036175], [50.5346815, 30.3026919], [50.5334296, 30.3025182], [50.5334615, 30.3023422],
+          [50.5339116, 30.3005049], [50.5331836, 30.300183], [50.5331222, 30.298748], [50.5330317, 30.2972184], [50.5327405, 30.2927236],
+          [50.5311888, 30.2916509], [50.5295785, 30.290531], [50.5290086, 30.2902027], [50.5288226, 30.2902782], [50.5273141, 30.290922],
+          [50.527055, 30.2905135], [50.5269521, 30.2903689], [50.5263325, 30.2893924], [50.5257523, 30.2884834], [50.5251537, 30.2875745],
+          [50.5252858, 30.2863777], [50.5238893, 30.2844572], [50.5235977, 30.2840844], [50.5233248, 30.283725], [50.5230489, 30.2833768],
+          [50.5229236, 30.2826937], [50.5224712, 30.2819632], [50.5222075, 30.2814685], [50.5223955, 30.2807718], [50.5220107, 30.2796964],
+          [50.5216222, 30.278848], [50.5215889, 30.2783042], [50.5215467, 30.2775708], [50.521476, 30.276959], [50.5214994, 30.2760416],
+          [50.5215318, 30.2748616], [50.5213652, 30.2739764], [50.5211816, 30.2737495], [50.5210715, 30.2733707], [50.5209313, 30.2730122],
+          [50.520804, 30.2727606], [50.520634, 30.2725226], [50.5203863, 30.2724225], [50.5199478, 30.2721594], [50.5196685, 30.2718826],
+          [50.519472, 30.2713863], [50.5191511, 30.2704415], [50.5190584, 30.2699986], [50.5189397, 30.2696912], [50.5185256, 30.2686859],
+          [50.5178939, 30.2677701], [50.5175868, 30.2671101], [50.517192, 30.2666877], [50.5168457, 30.2664875], [50.5160373, 30.2659129],
+          [50.5157975, 30.2655082], [50.5156208, 30.2650821], [50.5152088, 30.2644347], [50.5150681, 30.2641037], [50.5136072, 30.2631441],
+          [50.5115169, 30.2610574], [50.5106956, 30.2605779], [50.5101619, 30.2602664], [50.5100079, 30.2601765], [50.5093901, 30.2611818],
+          [50.507878, 30.2622091], [50.5061701, 30.2641241], [50.5052067, 30.2658341], [50.5029974, 30.2695238], [50.5024034, 30.2698694],
+          [50.5024307, 30.2702395], [50.5022383, 30.2703759], [50.5015974, 30.2704713], [50.4998804, 30.2702929], [50.4988362, 30.27025],
+          [50.4986929, 30.2702101], [50.4984161, 30.2701331], [50.4982362, 30.270083], [50.4970855, 30.268775], [50.4961408, 30.2679313],
+          [50.4949724, 30.2666855], [50.4947922, 30.2664478], [50.4943996, 30.2659573], [50.4941083, 30.2656119], [50.4938755, 30.265313],
+          [50.4938288, 30.2652495], [50.4933131, 30.2657787], [50.4926431, 30.2664685], [50.4921624, 30.2658477], [50.4920933, 30.2657873],
+          [50.490333, 30.26425], [50.4887999, 30.2629899], [50.4888115, 30.2627073], [50.4886951, 30.2625888], [50.4886744, 30.2625681],
+          [50.488605, 30.2627332], [50.4885355, 30.2629045], [50.4883986, 30.2632533], [50.488267, 30.263133], [50.48775, 30.2627],
+          [50.4877832, 30.261082], [50.4877158, 30.2608439], [50.4875996, 30.2604033], [50.487442, 30.2600078], [50.4870568, 30.2592388],
+          [50.4868267, 30.2586869], [50.4866554, 30.2583234], [50.4865974, 30.2581678], [50.4865804, 30.2579934], [50.4865882, 30.2577722],
+          [50.4865799, 30.2576142], [50.486552, 30.2574747], [50.486568, 30.2561932], [50.4865563, 30.2557032], [50.4865977, 30.2552224],
+          [50.4868014, 30.2543027], [50.486845, 30.2538594], [50.4868156, 30.2534869], [50.4867091, 30.2531448], [50.4865704, 30.2527424],
+          [50.4864253, 30.2525504], [50.4862155, 30.2524114], [50.4856112, 30.2520972], [50.4848427, 30.251669], [50.4848125, 30.2516596],
+          [50.4843941, 30.2516136], [50.4843358, 30.2516005], [50.482989, 30.251306], [50.4827541, 30.2514443], [50.4825215, 30.2515195],
+          [50.4822684, 30.2514658], [50.4820924, 30.2512938], [50.4817692, 30.251197], [50.4817278, 30.251259], [50.481602, 30.2514472],
+          [50.4808629, 30.2515894], [50.4806395, 30.2515429], [50.4803172, 30.2515014], [50.4801083, 30.2513579], [50.4800035, 30.2513427],
+          [50.4788975, 30.2511013], [50.4787637, 30.2509855], [50.478504, 30.2507608], [50.4781242, 30.2504322], [50.4779345, 30.2502681],
+          [50.4773289, 30.2497441], [50.4762757, 30.2495268], [50.4742939, 30.2490655], [50.4740856, 30.2493578], [50.474017, 30.24965],
+          [50.4737579, 30.2498111], [50.4728646, 30.2532003], [50.4728967, 30.2543933], [50.4725415, 30.2544117], [50.4721669, 30.2558675],
+          [50.4721396, 30.2582145], [50.4697581, 30.2577451], [50.4684367, 30.2569243], [50.4667863, 30.2539849], [50.4662851, 30.2530904],
+          [50.4650063, 30.2518659], [50.4645041, 30.251345], [50.4636964, 30.2507714], [50.4634597, 30.2503121], [50.463151, 30.2496861],
+          [50.4625314, 30.2484297], [50.4625156, 30.2483976], [50.4606135, 30.2464369], [50.4591075, 30.2449831], [50.4573811, 30.2433228],
+          [50.4571488, 30.2433577], [50.4567731, 30.2431699], [50.4556751, 30.2419375], [50.4554583, 30.2416974], [50.4553421, 30.2415526],
+          [50.4552362, 30.2414372], [50.454145, 30.2409625], [50.453888, 30.2407986], [50.4524157, 30.2399088], [50.4518531, 30.2397555],
+          [50.4506423, 30.2394712], [50.4501214, 30.2393505], [50.4485724, 30.2401829], [50.4476756, 30.2416286], [50.446702, 30.2419496],
+          [50.444859, 30.2435213], [50.4443261, 30.2442643], [50.4437556, 30.2450797], [50.4434106, 30.2456456], [50.4429203, 30.2459675],
+          [50.4422815, 30.2460989], [50.4410601, 30.2462009], [50.4404725, 30.2464771], [50.4397516, 30.2461633], [50.4394048, 30.2460694],
+          [50.4385114, 30.2429554], [50.4358702, 30.2422607], [50.4347768, 30.2422661], [50.434536, 30.2417725], [50.4341225, 30.2405843],
+          [50.4338406, 30.240013], [50.4330718, 30.2389804], [50.4315085, 30.2373308], [50.4294308, 30.2363008], [50.4268097, 30.2361453]
+        ]
+      ]
     ],
     population: 330000,
     area: 101.2
   }
 ];
 
-// Interface for district statistics
-export interface DistrictStats {
-  district: {
-    name: string;
-    nameUa: string;
-    bounds: [number, number][];
-    population: number;
-    area: number;
-  };
-  count: number;
-  density: number;
-}
-
-// Calculate district density based on alert markers
-export function calculateDistrictDensities(markers: any[]): DistrictStats[] {
-  const districtCounts = new Map<string, number>();
-  
-  // Initialize all districts with 0 count
-  kyivDistricts.forEach(district => {
-    districtCounts.set(district.name, 0);
-  });
-  
-  // Count markers in each district
-  markers.forEach(marker => {
-    // Handle different marker formats
-    let lat, lng;
-    
-    if (marker.lat !== undefined && marker.lng !== undefined) {
-      lat = marker.lat;
-      lng = marker.lng;
-    } else if (marker.latitude !== undefined && marker.longitude !== undefined) {
-      lat = marker.latitude;
-      lng = marker.longitude;
-    } else if (marker.coordinates) {
-      lat = marker.coordinates.lat;
-      lng = marker.coordinates.lng;
-    } else {
-      return;
-    }
-    
-    const point: [number, number] = [lat, lng];
-    
-    // Check if coordinates are in expected range for Kyiv
-    const isInKyivRange = lat >= 50.2 && lat <= 50.7 && lng >= 30.0 && lng <= 31.0;
-    
-    if (!isInKyivRange) {
-      return;
-    }
-    
-    for (const district of kyivDistricts) {
-      if (isPointInPolygon(point, district.coordinates)) {
-        const currentCount = districtCounts.get(district.name) || 0;
-        districtCounts.set(district.name, currentCount + 1);
-        break; // Point can only be in one district
-      }
-    }
-  });
-  
-  // Convert to the expected format
-  return kyivDistricts.map(district => {
-    const count = districtCounts.get(district.name) || 0;
-    const density = district.area > 0 ? count / district.area : 0;
-    
-    return {
-      district: {
-        name: district.name,
-        nameUa: getUkrainianName(district.name),
-        bounds: district.coordinates,
-        population: district.population,
-        area: district.area
-      },
-      count: count,
-      density: density
-    };
-  });
-}
-
 // Helper function to get Ukrainian names
-function getUkrainianName(englishName: string): string {
+export function getUkrainianName(englishName: string): string {
   const nameMap: Record<string, string> = {
     'Darnytskyi': 'Дарницький',
     'Desnianskyi': 'Деснянський',
@@ -1412,21 +1371,3 @@ function getUkrainianName(englishName: string): string {
   
   return nameMap[englishName] || englishName;
 }
-
-// Point-in-polygon algorithm (ray casting)
-function isPointInPolygon(point: [number, number], polygon: [number, number][]): boolean {
-  const [lat, lng] = point;
-  let inside = false;
-  
-  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
-    const [lat1, lng1] = polygon[i];
-    const [lat2, lng2] = polygon[j];
-    
-    if ((lng1 > lng) !== (lng2 > lng) && 
-        lat < (lat2 - lat1) * (lng - lng1) / (lng2 - lng1) + lat1) {
-      inside = !inside;
-    }
-  }
-  
-  return inside;
-}
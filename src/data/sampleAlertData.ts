@@ -1,4 +1,4 @@
-import type { Location, AlertMarker } from '../types';
+import type { Location, AlertMarker, VisualizationType } from '../types';
 
 /**
  * Sample heatmap locations in Kyiv
@@ -359,11 +359,12 @@ export const sampleGeoJSONString = `{
 /**
  * Get sample data by visualization type
  */
-export function getSampleDataByType(type: 'heatmap' | 'density' | 'markers' | 'points'): Location[] {
+export function getSampleDataByType(type: VisualizationType): Location[] {
   switch (type) {
     case 'heatmap':
       return sampleLocations;
     case 'density':
+    case 'hexbin':
       return sampleDensityData;
     case 'markers':
       return sampleAlertMarkers;
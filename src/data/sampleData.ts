@@ -1,4 +1,5 @@
 import type { Location, MapConfig, HeatmapConfig } from '../types';
+import { DEFAULT_HEATMAP_PALETTE, getPaletteGradient } from '../utils/palettes';
 
 /**
  * Sample location data for demonstration
@@ -59,14 +60,7 @@ export const defaultHeatmapConfig: HeatmapConfig = {
   maxOpacity: 0.8,
   minOpacity: 0,
   blur: 15,
-  gradient: {
-    0.0: 'blue',
-    0.2: 'cyan',
-    0.4: 'lime',
-    0.6: 'yellow',
-    0.8: 'orange',
-    1.0: 'red'
-  }
+  gradient: getPaletteGradient(DEFAULT_HEATMAP_PALETTE)
 };
 
 /**
@@ -2,13 +2,21 @@ import './style.css';
 import 'leaflet/dist/leaflet.css';
 import { MapVisualizationRenderer } from './components/MapVisualizationRenderer';
 import { FileUploadComponent } from './components/FileUploadComponent';
+import { TimeRangeControl, type TimeRange } from './components/TimeRangeControl';
+import { TimePlaybackControl, type PlaybackFrame } from './components/TimePlaybackControl';
+import { VisualizationControlPanel } from './components/VisualizationControlPanel';
+import { getVisualization, getVisualizations, type VisualizationModule } from './visualizations';
 import { getSampleDataByType } from './data/sampleAlertData';
 import type { Location, VisualizationType } from './types';
 
 class HeatmapApp {
   private renderer?: MapVisualizationRenderer;
+  private timeRangeControl?: TimeRangeControl;
+  private playbackControl?: TimePlaybackControl;
+  private controlPanels: Map<VisualizationType, VisualizationControlPanel> = new Map();
   private currentData: Location[] = [];
   private currentVisualizationType: VisualizationType = 'heatmap';
+  private fitPending = false; // Fit the map to the data once it is visible after a load
   private readonly DATA_STORAGE_KEY = 'heatmap_app_data';
 
   constructor() {
@@ -47,6 +55,7 @@ class HeatmapApp {
         const parsed = JSON.parse(storedData);
         if (parsed.data && Array.isArray(parsed.data)) {
           this.currentData = parsed.data;
+          this.fitPending = true;
           this.updateDataStats();
           this.renderVisualization();
           console.log(`Loaded ${this.currentData.length} points from storage`);
@@ -82,9 +91,9 @@ class HeatmapApp {
         
         <nav class="app-nav">
           <div class="nav-tabs">
-            <button class="tab-button active" data-tab="heatmap">Heatmap</button>
-            <button class="tab-button" data-tab="density">Density</button>
-            <button class="tab-button" data-tab="markers">Markers</button>
+            ${this.getTabVisualizations().map(visualization => `
+              <button class="tab-button ${visualization.type === this.currentVisualizationType ? 'active' : ''}" data-tab="${visualization.type}">${visualization.label}</button>
+            `).join('')}
             <button class="tab-button" data-tab="upload">File Upload</button>
           </div>
           
@@ -98,163 +107,22 @@ class HeatmapApp {
         </nav>
 
         <main class="app-main">
-          <!-- Visualization Tabs -->
-          <div id="heatmap-tab" class="tab-content active">
-            <div class="tab-header">
-              <h2>🔥 Heatmap Visualization</h2>
-              <p>Classic heatmap rendering showing intensity distribution</p>
-              <div class="controls">
-                <label>
-                  Radius: 
-                  <input type="range" id="heatmap-radius" min="20" max="80" value="50" />
-                  <span id="heatmap-radius-value">50</span>px
-                </label>
-                <label>
-                  Opacity: 
-                  <input type="range" id="heatmap-opacity" min="0.3" max="1" step="0.1" value="0.8" />
-                  <span id="heatmap-opacity-value">0.8</span>
-                </label>
-                <label>
-                  Intensity: 
-                  <input type="range" id="heatmap-intensity" min="0.5" max="3" step="0.1" value="2.0" />
-                  <span id="heatmap-intensity-value">2.0</span>x
-                </label>
-                <label>
-                  Filter by Alert Type: 
-                  <select id="heatmap-alert-type-filter">
-                    <option value="all" selected>All Types</option>
-                    <option value="critical">Critical</option>
-                    <option value="warning">Warning</option>
-                    <option value="info">Info</option>
-                    <option value="danger">Danger</option>
-                    <option value="success">Success</option>
-                    <option value="resolved">Resolved</option>
-                  </select>
-                </label>
-                <label>
-                  Filter by Time: 
-                  <select id="heatmap-time-filter">
-                    <option value="0" selected>All Time</option>
-                    <option value="1">Last 1 hour</option>
-                    <option value="2">Last 2 hours</option>
-                    <option value="3">Last 3 hours</option>
-                    <option value="4">Last 4 hours</option>
-                    <option value="5">Last 5 hours</option>
-                    <option value="6">Last 6 hours</option>
-                    <option value="7">Last 7 hours</option>
-                    <option value="8">Last 8 hours</option>
-                  </select>
-                </label>
-                <div class="filter-status" id="heatmap-filter-status">
-                  <span id="heatmap-filter-count">Showing all data points</span>
-                </div>
-              </div>
-            </div>
-            <div id="heatmap-container" style="height: 750px; width: 100%;"></div>
+          <!-- Shared time range and playback for all visualization tabs -->
+          <div id="time-controls">
+            <div id="time-range-container"></div>
+            <div id="time-playback-container"></div>
           </div>
 
-          <div id="density-tab" class="tab-content">
-            <div class="tab-header">
-              <h2>🏙️ Density Visualization</h2>
-              <p>Density analysis based on administrative districts of Kyiv</p>
-              <div class="controls">
-                <label>
-                  Show Labels: 
-                  <input type="checkbox" id="show-district-labels" />
-                </label>
-                <label>
-                  Show Population: 
-                  <input type="checkbox" id="show-population" checked />
-                </label>
-                <label>
-                  Filter by Alert Type: 
-                  <select id="density-alert-type-filter">
-                    <option value="all" selected>All Types</option>
-                    <option value="critical">Critical</option>
-                    <option value="warning">Warning</option>
-                    <option value="info">Info</option>
-                    <option value="danger">Danger</option>
-                    <option value="success">Success</option>
-                    <option value="resolved">Resolved</option>
-                  </select>
-                </label>
-                <label>
-                  Filter by Time: 
-                  <select id="density-time-filter">
-                    <option value="0" selected>All Time</option>
-                    <option value="1">Last 1 hour</option>
-                    <option value="2">Last 2 hours</option>
-                    <option value="3">Last 3 hours</option>
-                    <option value="4">Last 4 hours</option>
-                    <option value="5">Last 5 hours</option>
-                    <option value="6">Last 6 hours</option>
-                    <option value="7">Last 7 hours</option>
-                    <option value="8">Last 8 hours</option>
-                  </select>
-                </label>
-                <div class="filter-status" id="density-filter-status">
-                  <span id="density-filter-count">Showing all data points</span>
-                </div>
-              </div>
-            </div>
-            <div id="density-container" style="height: 750px; width: 100%;"></div>
-          </div>
+          <!-- Visualization Tabs -->
+          ${this.getTabVisualizations().map(visualization => this.getVisualizationTabHTML(visualization)).join('')}
 
-          <div id="markers-tab" class="tab-content">
-            <div class="tab-header">
-              <h2>🚨 Location Markers</h2>
-              <p>Custom markers for all uploaded location data with alert-style icons</p>
-              <div class="controls">
-                <label>
-                  <input type="checkbox" id="pulse-animation" checked />
-                  Pulse Animation
-                </label>
-                <label>
-                  Icon Size: 
-                  <select id="icon-size">
-                    <option value="24">Small (24px)</option>
-                    <option value="32" selected>Medium (32px)</option>
-                    <option value="48">Large (48px)</option>
-                  </select>
-                </label>
-                <label>
-                  Filter by Alert Type: 
-                  <select id="alert-type-filter">
-                    <option value="all" selected>All Types</option>
-                    <option value="critical">Critical</option>
-                    <option value="warning">Warning</option>
-                    <option value="info">Info</option>
-                    <option value="danger">Danger</option>
-                    <option value="success">Success</option>
-                    <option value="resolved">Resolved</option>
-                  </select>
-                </label>
-                <label>
-                  Filter by Time: 
-                  <select id="time-filter">
-                    <option value="0" selected>All Time</option>
-                    <option value="1">Last 1 hour</option>
-                    <option value="2">Last 2 hours</option>
-                    <option value="3">Last 3 hours</option>
-                    <option value="4">Last 4 hours</option>
-                    <option value="5">Last 5 hours</option>
-                    <option value="6">Last 6 hours</option>
-                    <option value="7">Last 7 hours</option>
-                    <option value="8">Last 8 hours</option>
-                  </select>
-                </label>
-                <div class="filter-status" id="filter-status">
-                  <span id="filter-count">Showing all markers</span>
-                </div>
-              </div>
-            </div>
-            <div id="markers-container" style="height: 750px; width: 100%;"></div>
-          </div>
+          <!-- Single map shared by all visualization tabs -->
+          <div id="map-container" style="height: 750px; width: 100%;"></div>
 
           <div id="upload-tab" class="tab-content">
             <div class="tab-header">
               <h2>📁 File Upload</h2>
-              <p>Load your own data from JSON, CSV, TSV, or GeoJSON files</p>
+              <p>Load your own data from JSON, NDJSON, CSV, TSV, GeoJSON, KML, KMZ or GPX files</p>
             </div>
             <div id="upload-container"></div>
           </div>
@@ -266,10 +134,66 @@ class HeatmapApp {
       </div>
     `;
 
+    this.setupVisualizationControls();
     this.setupEventListeners();
     this.setupCustomEventListeners();
   }
 
+  /**
+   * Registered visualization types shown as tabs
+   */
+  private getTabVisualizations(): VisualizationModule<any>[] {
+    return getVisualizations().filter(visualization => visualization.showTab !== false);
+  }
+
+  /**
+   * Get the HTML of a visualization tab
+   */
+  private getVisualizationTabHTML(visualization: VisualizationModule<any>): string {
+    const type = visualization.type;
+    const alertTypes = ['critical', 'warning', 'info', 'danger', 'success', 'resolved'];
+
+    return `
+      <div id="${type}-tab" class="tab-content ${type === this.currentVisualizationType ? 'active' : ''}">
+        <div class="tab-header">
+          <h2>${visualization.title}</h2>
+          <p>${visualization.description}</p>
+          <div class="controls">
+            <div class="visualization-controls" id="${type}-controls"></div>
+            <label>
+              Filter by Alert Type: 
+              <select id="${type}-alert-type-filter">
+                <option value="all" selected>All Types</option>
+                ${alertTypes.map(alertType => `
+                  <option value="${alertType}">${alertType.charAt(0).toUpperCase() + alertType.slice(1)}</option>
+                `).join('')}
+              </select>
+            </label>
+            <div class="filter-status" id="${type}-filter-status">
+              <span id="${type}-filter-count">Showing all ${visualization.itemLabel ?? 'data points'}</span>
+            </div>
+          </div>
+        </div>
+      </div>
+    `;
+  }
+
+  /**
+   * Build each tab's config controls from its visualization schema
+   */
+  private setupVisualizationControls(): void {
+    this.getTabVisualizations().forEach(visualization => {
+      const container = document.getElementById(`${visualization.type}-controls`);
+      if (!container) return;
+
+      this.controlPanels.set(visualization.type, new VisualizationControlPanel(container, visualization, () => {
+        if (this.currentVisualizationType === visualization.type) {
+          this.renderVisualization();
+        }
+      }));
+    });
+  }
+
   /**
    * Setup custom event listeners for inter-component communication
    */
@@ -331,114 +255,20 @@ class HeatmapApp {
       this.clearData();
     });
 
-    // Heatmap controls
-    const heatmapRadiusSlider = document.getElementById('heatmap-radius') as HTMLInputElement;
-    const heatmapRadiusValue = document.getElementById('heatmap-radius-value');
-    heatmapRadiusSlider?.addEventListener('input', () => {
-      if (heatmapRadiusValue) heatmapRadiusValue.textContent = heatmapRadiusSlider.value;
-      if (this.currentVisualizationType === 'heatmap') {
-        this.renderVisualization();
-      }
-    });
-
-    const heatmapOpacitySlider = document.getElementById('heatmap-opacity') as HTMLInputElement;
-    const heatmapOpacityValue = document.getElementById('heatmap-opacity-value');
-    heatmapOpacitySlider?.addEventListener('input', () => {
-      if (heatmapOpacityValue) heatmapOpacityValue.textContent = heatmapOpacitySlider.value;
-      if (this.currentVisualizationType === 'heatmap') {
-        this.renderVisualization();
-      }
-    });
-
-    const heatmapIntensitySlider = document.getElementById('heatmap-intensity') as HTMLInputElement;
-    const heatmapIntensityValue = document.getElementById('heatmap-intensity-value');
-    heatmapIntensitySlider?.addEventListener('input', () => {
-      if (heatmapIntensityValue) heatmapIntensityValue.textContent = heatmapIntensitySlider.value;
-      if (this.currentVisualizationType === 'heatmap') {
-        this.renderVisualization();
-      }
-    });
-
-    // Heatmap filter controls
-    const heatmapAlertTypeFilter = document.getElementById('heatmap-alert-type-filter') as HTMLSelectElement;
-    const heatmapTimeFilter = document.getElementById('heatmap-time-filter') as HTMLSelectElement;
-    
-    heatmapAlertTypeFilter?.addEventListener('change', () => {
-      if (this.currentVisualizationType === 'heatmap') {
-        this.renderVisualization();
-      }
-    });
-    
-    heatmapTimeFilter?.addEventListener('change', () => {
-      if (this.currentVisualizationType === 'heatmap') {
-        this.renderVisualization();
-      }
-    });
-
-    // Density controls
-    const showDistrictLabels = document.getElementById('show-district-labels') as HTMLInputElement;
-    const showPopulation = document.getElementById('show-population') as HTMLInputElement;
-    
-    showDistrictLabels?.addEventListener('change', () => {
-      if (this.currentVisualizationType === 'density') {
-        this.renderVisualization();
-      }
-    });
-    
-    showPopulation?.addEventListener('change', () => {
-      if (this.currentVisualizationType === 'density') {
-        this.renderVisualization();
-      }
-    });
-
-    // Density filter controls
-    const densityAlertTypeFilter = document.getElementById('density-alert-type-filter') as HTMLSelectElement;
-    const densityTimeFilter = document.getElementById('density-time-filter') as HTMLSelectElement;
-    
-    densityAlertTypeFilter?.addEventListener('change', () => {
-      if (this.currentVisualizationType === 'density') {
-        this.renderVisualization();
-      }
-    });
-    
-    densityTimeFilter?.addEventListener('change', () => {
-      if (this.currentVisualizationType === 'density') {
-        this.renderVisualization();
-      }
-    });
-
-    // Marker controls
-    const pulseAnimation = document.getElementById('pulse-animation') as HTMLInputElement;
-    const iconSize = document.getElementById('icon-size') as HTMLSelectElement;
-    const alertTypeFilter = document.getElementById('alert-type-filter') as HTMLSelectElement;
-    const timeFilter = document.getElementById('time-filter') as HTMLSelectElement;
-    
-    pulseAnimation?.addEventListener('change', () => {
-      if (this.currentVisualizationType === 'markers') {
-        this.renderVisualization();
-      }
-    });
-    iconSize?.addEventListener('change', () => {
-      if (this.currentVisualizationType === 'markers') {
-        this.renderVisualization();
-      }
-    });
-    alertTypeFilter?.addEventListener('change', () => {
-      if (this.currentVisualizationType === 'markers') {
-        this.renderVisualization();
-      }
-    });
-    timeFilter?.addEventListener('change', () => {
-      if (this.currentVisualizationType === 'markers') {
-        this.renderVisualization();
-      }
+    // Alert type filters
+    this.getTabVisualizations().forEach(visualization => {
+      document.getElementById(`${visualization.type}-alert-type-filter`)?.addEventListener('change', () => {
+        if (this.currentVisualizationType === visualization.type) {
+          this.renderVisualization();
+        }
+      });
     });
   }
 
   private initializeRenderers(): void {
     // Initialize unified renderer
     this.renderer = new MapVisualizationRenderer({
-      container: 'heatmap-container',
+      container: 'map-container',
       center: [50.4501, 30.5234], // Kyiv center coordinates
       zoom: 11,
       visualizationType: 'heatmap'
@@ -446,9 +276,22 @@ class HeatmapApp {
 
     // Initialize file upload component with CSS injection
     const style = document.createElement('style');
-    style.textContent = FileUploadComponent.getCSS();
+    style.textContent = FileUploadComponent.getCSS() + TimeRangeControl.getCSS() + TimePlaybackControl.getCSS();
     document.head.appendChild(style);
 
+    // Shared time range filter feeding every visualization tab
+    this.timeRangeControl = new TimeRangeControl('time-range-container', () => {
+      this.updatePlaybackDomain();
+      this.renderVisualization();
+    });
+
+    // Playback steps a sliding window through the time range
+    this.playbackControl = new TimePlaybackControl(
+      'time-playback-container',
+      () => this.renderVisualization(),
+      (frames) => this.exportPlaybackFrames(frames)
+    );
+
     new FileUploadComponent('upload-container', (data: Location[], _result: any, shouldAppend: boolean = false) => {
       if (shouldAppend) {
         // Append new data to existing data
@@ -459,6 +302,7 @@ class HeatmapApp {
         this.currentData = data;
         console.log(`Loaded ${data.length} points`);
       }
+      this.fitPending = true;
       this.saveDataToStorage();
       this.updateDataStats();
       this.renderVisualization();
@@ -474,13 +318,18 @@ class HeatmapApp {
     document.querySelectorAll('.tab-content').forEach(content => content.classList.remove('active'));
     document.getElementById(`${tabName}-tab`)?.classList.add('active');
 
-    // Update current visualization type and render
+    // The map, time range and playback only apply to visualizations
+    ['time-controls', 'map-container'].forEach(id => {
+      const element = document.getElementById(id);
+      if (element) {
+        element.style.display = tabName === 'upload' ? 'none' : '';
+      }
+    });
+
+    // Update current visualization type and render; the map and its view are kept
     if (tabName !== 'upload') {
       this.currentVisualizationType = tabName as VisualizationType;
       
-      // Update container for the new visualization type
-      this.updateRendererContainer(tabName as VisualizationType);
-      
       // Use setTimeout to ensure the container is visible before rendering
       setTimeout(() => {
         this.renderVisualization();
@@ -489,32 +338,6 @@ class HeatmapApp {
     }
   }
 
-  /**
-   * Update renderer container for different visualization types
-   */
-  private updateRendererContainer(visualizationType: VisualizationType): void {
-    if (!this.renderer) return;
-
-    const containerMap: Record<VisualizationType, string> = {
-      'heatmap': 'heatmap-container',
-      'density': 'density-container',
-      'markers': 'markers-container',
-      'points': 'markers-container' // Use markers container for points
-    };
-
-    const containerId = containerMap[visualizationType];
-    if (containerId) {
-      // Create new renderer for the specific container
-      this.renderer.destroy();
-      this.renderer = new MapVisualizationRenderer({
-        container: containerId,
-        center: [50.4501, 30.5234], // Kyiv center coordinates
-        zoom: 11,
-        visualizationType: visualizationType
-      });
-    }
-  }
-
   /**
    * Invalidate map sizes after tab switch to ensure proper rendering
    */
@@ -529,6 +352,7 @@ class HeatmapApp {
 
   private loadSampleData(): void {
     this.currentData = getSampleDataByType(this.currentVisualizationType);
+    this.fitPending = true;
     this.saveDataToStorage();
     this.updateDataStats();
     this.renderVisualization();
@@ -542,173 +366,177 @@ class HeatmapApp {
   }
 
   private renderVisualization(): void {
-    if (this.currentData.length === 0) return;
-
-    try {
-      switch (this.currentVisualizationType) {
-        case 'heatmap':
-          this.renderHeatmap();
-          break;
-        case 'density':
-          this.renderDensity();
-          break;
-        case 'markers':
-          this.renderMarkers();
-          break;
-        case 'points':
-          this.renderPoints();
-          break;
-      }
-    } catch (error) {
-      console.error(`Error rendering ${this.currentVisualizationType} visualization:`, error);
+    // The map outlives the data, so drop the last visualization's layers and legend
+    if (this.currentData.length === 0) {
+      this.renderer?.clear();
+      return;
     }
-  }
 
-  private renderHeatmap(): void {
     // Ensure container is ready
-    if (!this.isContainerReady('heatmap-container')) {
-      console.warn('Heatmap container not ready, retrying...');
-      setTimeout(() => this.renderHeatmap(), 100);
+    if (!this.isContainerReady('map-container')) {
+      console.warn('Map container not ready, retrying...');
+      setTimeout(() => this.renderVisualization(), 100);
       return;
     }
 
     if (!this.renderer) return;
 
-    // Get dynamic values from controls
-    const radius = parseInt((document.getElementById('heatmap-radius') as HTMLInputElement)?.value || '25');
-    const maxOpacity = parseFloat((document.getElementById('heatmap-opacity') as HTMLInputElement)?.value || '0.8');
-    const intensityMultiplier = parseFloat((document.getElementById('heatmap-intensity') as HTMLInputElement)?.value || '2.0');
-    
-    // Get filter values
-    const alertTypeFilter = (document.getElementById('heatmap-alert-type-filter') as HTMLSelectElement)?.value || 'all';
-    const timeFilterHours = parseInt((document.getElementById('heatmap-time-filter') as HTMLSelectElement)?.value || '0');
-
-    // Filter data by alert type and time
-    const filteredData = this.filterDataByAlertTypeAndTime(this.currentData, alertTypeFilter, timeFilterHours);
-
-    // Apply intensity multiplier to the data
-    const intensifiedData = filteredData.map(location => ({
-      ...location,
-      intensity: (location.intensity || 0.8) * intensityMultiplier // Increased default intensity
-    }));
-
-    // Update filter status for heatmap
-    this.updateHeatmapFilterStatus(filteredData.length, alertTypeFilter, timeFilterHours);
-
-    // Configure and render heatmap
-    this.renderer.updateConfig({
-      heatmap: {
-        radius: radius,
-        maxOpacity: maxOpacity,
-        blur: 15,
-        gradient: {
-          0.2: 'blue',
-          0.4: 'cyan',
-          0.5: 'lime',
-          0.6: 'yellow',
-          0.7: 'orange',
-          1.0: 'red'
-        }
-      }
-    });
+    const type = this.currentVisualizationType;
 
-    this.renderer.setVisualizationType('heatmap');
-    this.renderer.render(intensifiedData);
-  }
-
-  private renderDensity(): void {
-    // Ensure container is ready
-    if (!this.isContainerReady('density-container')) {
-      console.warn('Density container not ready, retrying...');
-      setTimeout(() => this.renderDensity(), 100);
-      return;
-    }
+    try {
+      // Get filter values
+      const alertTypeFilter = (document.getElementById(`${type}-alert-type-filter`) as HTMLSelectElement)?.value || 'all';
+      const timeRange = this.getTimeRange();
 
-    if (!this.renderer) return;
+      // Filter data by alert type and time
+      const { locations: filteredData, undatedCount } = this.filterDataByAlertTypeAndTime(
+        this.currentData, alertTypeFilter, timeRange
+      );
 
-    // Get control values
-    const showLabels = (document.getElementById('show-district-labels') as HTMLInputElement)?.checked ?? true;
-    const showPopulation = (document.getElementById('show-population') as HTMLInputElement)?.checked ?? true;
-    
-    // Get filter values
-    const alertTypeFilter = (document.getElementById('density-alert-type-filter') as HTMLSelectElement)?.value || 'all';
-    const timeFilterHours = parseInt((document.getElementById('density-time-filter') as HTMLSelectElement)?.value || '0');
+      this.updateFilterStatus(filteredData.length, alertTypeFilter, timeRange, undatedCount);
 
-    // Filter data by alert type and time
-    const filteredData = this.filterDataByAlertTypeAndTime(this.currentData, alertTypeFilter, timeFilterHours);
+      this.renderer.show(type, filteredData, this.controlPanels.get(type)?.getConfig());
 
-    // Update filter status for density
-    this.updateDensityFilterStatus(filteredData.length, alertTypeFilter, timeFilterHours);
-    
-    this.renderer.setVisualizationType('density', {
-      density: {
-        showLabels,
-        showPopulation,
-        colorScale: ['#ffffcc', '#ffeda0', '#fed976', '#feb24c', '#fd8d3c', '#fc4e2a', '#e31a1c', '#bd0026', '#800026'],
-        showGrid: false,
-        aggregationMethod: 'count'
+      // Fit the view once after new data was loaded; later renders keep the user's pan/zoom
+      if (this.fitPending) {
+        this.renderer.fitToData(this.currentData);
+        this.fitPending = false;
       }
-    });
+    } catch (error) {
+      console.error(`Error rendering ${type} visualization:`, error);
+    }
+  }
+
+  /**
+   * Check if a container element is visible and has dimensions
+   */
+  private isContainerReady(containerId: string): boolean {
+    const container = document.getElementById(containerId);
+    if (!container) return false;
     
-    this.renderer.render(filteredData);
+    const rect = container.getBoundingClientRect();
+    return rect.width > 0 && rect.height > 0;
   }
 
-  private renderMarkers(): void {
-    // Ensure container is ready
-    if (!this.isContainerReady('markers-container')) {
-      console.warn('Markers container not ready, retrying...');
-      setTimeout(() => this.renderMarkers(), 100);
-      return;
-    }
+  /**
+   * Current selection of the shared time range control, or the playback window while playing
+   */
+  private getTimeRange(): TimeRange {
+    const range = this.timeRangeControl?.getRange() ?? { start: null, end: null, includeUndated: true };
+    const frame = this.playbackControl?.getCurrentFrame();
 
-    if (!this.renderer) return;
+    return frame ? { ...range, start: frame.start, end: frame.end } : range;
+  }
+
+  /**
+   * Let playback cover the dated locations within the selected time range
+   */
+  private updatePlaybackDomain(): void {
+    const times = this.currentData
+      .map(location => this.extractTimestampFromLocation(location)?.getTime())
+      .filter((time): time is number => time !== undefined);
 
-    const pulseAnimation = (document.getElementById('pulse-animation') as HTMLInputElement)?.checked || false;
-    const iconSize = parseInt((document.getElementById('icon-size') as HTMLSelectElement)?.value || '32');
-    const alertTypeFilter = (document.getElementById('alert-type-filter') as HTMLSelectElement)?.value || 'all';
-    const timeFilterHours = parseInt((document.getElementById('time-filter') as HTMLSelectElement)?.value || '0');
+    if (times.length === 0) {
+      this.playbackControl?.setDomain(null, null);
+      return;
+    }
 
-    // Filter data by alert type and time
-    const filteredData = this.filterDataByAlertTypeAndTime(this.currentData, alertTypeFilter, timeFilterHours);
+    const range = this.timeRangeControl?.getRange();
+    const start = Math.max(times.reduce((a, b) => Math.min(a, b)), range?.start?.getTime() ?? -Infinity);
+    const end = Math.min(times.reduce((a, b) => Math.max(a, b)), range?.end?.getTime() ?? Infinity);
 
-    // Update filter status
-    this.updateFilterStatus(filteredData.length, alertTypeFilter, timeFilterHours);
+    if (start > end) {
+      this.playbackControl?.setDomain(null, null);
+    } else {
+      this.playbackControl?.setDomain(start, end);
+    }
+  }
 
-    this.renderer.setVisualizationType('markers', {
-      markers: {
-        iconSize: [iconSize, iconSize],
-        pulseAnimation,
-        showPopups: true,
-        clustering: false
+  /**
+   * Export the playback frames with the locations visible in each frame
+   */
+  private exportPlaybackFrames(frames: PlaybackFrame[]): void {
+    const alertTypeFilter = (document.getElementById(
+      `${this.currentVisualizationType}-alert-type-filter`
+    ) as HTMLSelectElement)?.value || 'all';
+    const range = this.getTimeRange();
+    const indexes = new Map(this.currentData.map((location, index) => [location, index]));
+
+    // Sort the dated locations once; each frame is then a slice found by binary search
+    const { locations: candidates } = this.filterDataByAlertTypeAndTime(
+      this.currentData, alertTypeFilter, { start: null, end: null, includeUndated: true }
+    );
+    const dated: { time: number; index: number }[] = [];
+    const undatedIndexes: number[] = [];
+    candidates.forEach(location => {
+      const time = this.extractTimestampFromLocation(location)?.getTime();
+      if (time !== undefined) {
+        dated.push({ time, index: indexes.get(location)! });
+      } else if (range.includeUndated) {
+        undatedIndexes.push(indexes.get(location)!);
       }
     });
+    dated.sort((a, b) => a.time - b.time);
+
+    // First position whose time passes the test; the test must be false then true along the sorted times
+    const findFirst = (test: (time: number) => boolean) => {
+      let low = 0;
+      let high = dated.length;
+      while (low < high) {
+        const middle = (low + high) >> 1;
+        if (test(dated[middle].time)) high = middle; else low = middle + 1;
+      }
+      return low;
+    };
 
-    this.renderer.render(filteredData);
-  }
-
-  private renderPoints(): void {
-    if (!this.renderer) return;
+    const dataToExport = {
+      metadata: {
+        exportDate: new Date().toISOString(),
+        visualizationType: this.currentVisualizationType,
+        alertTypeFilter,
+        includeUndated: range.includeUndated,
+        totalPoints: this.currentData.length,
+        totalFrames: frames.length,
+        version: '1.0'
+      },
+      frames: frames.map(frame => {
+        const first = findFirst(time => time >= frame.start.getTime());
+        const last = findFirst(time => time > frame.end.getTime());
+        const locationIndexes = [...dated.slice(first, last).map(entry => entry.index), ...undatedIndexes]
+          .sort((a, b) => a - b);
+        return {
+          index: frame.index,
+          start: frame.start.toISOString(),
+          end: frame.end.toISOString(),
+          count: locationIndexes.length,
+          locationIndexes
+        };
+      }),
+      data: this.currentData
+    };
 
-    // Use markers renderer for points
-    this.renderer.setVisualizationType('points');
-    this.renderer.render(this.currentData);
-  }
+    const blob = new Blob([JSON.stringify(dataToExport, null, 2)], {
+      type: 'application/json'
+    });
 
-  /**
-   * Check if a container element is visible and has dimensions
-   */
-  private isContainerReady(containerId: string): boolean {
-    const container = document.getElementById(containerId);
-    if (!container) return false;
-    
-    const rect = container.getBoundingClientRect();
-    return rect.width > 0 && rect.height > 0;
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `heatmap-playback-${new Date().toISOString().split('T')[0]}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
   }
 
   /**
-   * Filter data by alert type and time
+   * Filter data by alert type and time; undated locations pass the time filter only when included
    */
-  private filterDataByAlertTypeAndTime(data: Location[], alertTypeFilter: string, timeFilterHours: number): Location[] {
+  private filterDataByAlertTypeAndTime(
+    data: Location[],
+    alertTypeFilter: string,
+    timeRange: TimeRange
+  ): { locations: Location[]; undatedCount: number } {
     let filteredData = data;
 
     // Apply alert type filter
@@ -719,123 +547,67 @@ class HeatmapApp {
       });
     }
 
+    const undatedCount = filteredData.filter(location => !this.extractTimestampFromLocation(location)).length;
+
     // Apply time filter
-    if (timeFilterHours > 0) {
-      const cutoffTime = new Date(Date.now() - timeFilterHours * 60 * 60 * 1000);
+    if (TimeRangeControl.isBounded(timeRange)) {
       filteredData = filteredData.filter(location => {
         const timestamp = this.extractTimestampFromLocation(location);
-        return timestamp && timestamp >= cutoffTime;
+        if (!timestamp) return timeRange.includeUndated;
+        return (!timeRange.start || timestamp >= timeRange.start) && (!timeRange.end || timestamp <= timeRange.end);
       });
     }
 
-    return filteredData;
+    return { locations: filteredData, undatedCount };
   }
 
   /**
-   * Extract timestamp from location data
+   * Extract timestamp from location data, or null if the location is undated
    */
   private extractTimestampFromLocation(location: Location): Date | null {
-    // Check if it's already an AlertMarker with timestamp
-    if ((location as any).timestamp) {
-      return new Date((location as any).timestamp);
-    }
+    const value = (location as any).timestamp ??
+      location.metadata?.timestamp ??
+      location.metadata?.date_time ??
+      location.metadata?.createdAt ??
+      location.metadata?.created_at;
 
-    // Check metadata for timestamp fields
-    if (location.metadata?.timestamp) {
-      return new Date(location.metadata.timestamp);
-    }
-    
-    if (location.metadata?.date_time) {
-      return new Date(location.metadata.date_time);
-    }
-    
-    if (location.metadata?.createdAt) {
-      return new Date(location.metadata.createdAt);
-    }
-    
-    if (location.metadata?.created_at) {
-      return new Date(location.metadata.created_at);
-    }
-
-    // For sample data, generate a timestamp within the last 24 hours
-    if (!location.metadata?.timestamp) {
-      const randomHours = Math.random() * 24;
-      const timestamp = new Date(Date.now() - randomHours * 60 * 60 * 1000);
-      
-      // Store it in metadata for consistency
-      if (!location.metadata) {
-        location.metadata = {};
-      }
-      location.metadata.timestamp = timestamp.toISOString();
-      
-      return timestamp;
-    }
+    if (!value) return null;
 
-    return null;
+    const timestamp = new Date(value);
+    return isNaN(timestamp.getTime()) ? null : timestamp;
   }
 
   /**
-   * Update filter status display
+   * Describe how undated locations were treated, for the filter status
    */
-  private updateFilterStatus(filteredCount: number, alertTypeFilter: string, timeFilterHours: number): void {
-    const statusElement = document.getElementById('filter-count');
-    if (statusElement) {
-      let statusText = `Showing ${filteredCount} markers`;
-      
-      const filters = [];
-      if (alertTypeFilter !== 'all') {
-        filters.push(`type: ${alertTypeFilter}`);
-      }
-      if (timeFilterHours > 0) {
-        filters.push(`time: last ${timeFilterHours} hour${timeFilterHours > 1 ? 's' : ''}`);
-      }
-      
-      if (filters.length > 0) {
-        statusText += ` (filtered by ${filters.join(', ')})`;
-      }
-      
-      statusElement.textContent = statusText;
-    }
-  }
-
-  /**
-   * Update heatmap filter status display
-   */
-  private updateHeatmapFilterStatus(filteredCount: number, alertTypeFilter: string, timeFilterHours: number): void {
-    const statusElement = document.getElementById('heatmap-filter-count');
-    if (statusElement) {
-      let statusText = `Showing ${filteredCount} data points`;
-      
-      const filters = [];
-      if (alertTypeFilter !== 'all') {
-        filters.push(`type: ${alertTypeFilter}`);
-      }
-      if (timeFilterHours > 0) {
-        filters.push(`time: last ${timeFilterHours} hour${timeFilterHours > 1 ? 's' : ''}`);
-      }
-      
-      if (filters.length > 0) {
-        statusText += ` (filtered by ${filters.join(', ')})`;
-      }
-      
-      statusElement.textContent = statusText;
-    }
+  private describeUndated(undatedCount: number, timeRange: TimeRange): string {
+    if (undatedCount === 0) return '';
+    if (!TimeRangeControl.isBounded(timeRange)) return `, ${undatedCount} undated`;
+    return timeRange.includeUndated
+      ? `, including ${undatedCount} undated`
+      : `, ${undatedCount} undated excluded`;
   }
 
   /**
-   * Update density filter status display
+   * Update filter status display of the current tab
    */
-  private updateDensityFilterStatus(filteredCount: number, alertTypeFilter: string, timeFilterHours: number): void {
-    const statusElement = document.getElementById('density-filter-count');
+  private updateFilterStatus(
+    filteredCount: number,
+    alertTypeFilter: string,
+    timeRange: TimeRange,
+    undatedCount: number
+  ): void {
+    const statusElement = document.getElementById(`${this.currentVisualizationType}-filter-count`);
     if (statusElement) {
-      let statusText = `Showing ${filteredCount} data points`;
+      const itemLabel = getVisualization(this.currentVisualizationType)?.itemLabel ?? 'data points';
+      let statusText = `Showing ${filteredCount} ${itemLabel}${this.describeUndated(undatedCount, timeRange)}`;
       
       const filters = [];
       if (alertTypeFilter !== 'all') {
         filters.push(`type: ${alertTypeFilter}`);
       }
-      if (timeFilterHours > 0) {
-        filters.push(`time: last ${timeFilterHours} hour${timeFilterHours > 1 ? 's' : ''}`);
+      if (TimeRangeControl.isBounded(timeRange)) {
+        filters.push(`time: ${TimeRangeControl.describeRange(timeRange)}`);
       }
       
       if (filters.length > 0) {
@@ -881,6 +653,11 @@ class HeatmapApp {
     if (statsElement) {
       statsElement.textContent = `${this.currentData.length} points`;
     }
+
+    this.timeRangeControl?.setTimestamps(
+      this.currentData.map(location => this.extractTimestampFromLocation(location))
+    );
+    this.updatePlaybackDomain();
   }
 }
 
@@ -25,6 +25,7 @@ export interface HeatmapConfig {
   maxOpacity?: number;
   minOpacity?: number;
   blur?: number;
+  max?: number; // Point intensity drawn at full strength
   gradient?: Record<string, string>;
   maxZoom?: number;
 }
@@ -60,9 +61,9 @@ export interface HeatmapVisualization {
 }
 
 /**
- * Visualization types supported by the application
+ * Registered visualization type; built-ins are 'heatmap', 'density', 'markers', 'hexbin' and 'points'
  */
-export type VisualizationType = 'heatmap' | 'density' | 'markers' | 'points';
+export type VisualizationType = string;
 
 /**
  * Complete visualization configuration supporting multiple types
@@ -110,6 +111,7 @@ export interface MarkerConfig {
   customIconUrl?: string;
   shadowUrl?: string;
   pulseAnimation?: boolean;
+  alertColors?: Record<string, string>; // Base color per alert type, e.g. from a categorical palette
 }
 
 /**
@@ -133,6 +135,9 @@ export interface PointConfig {
   intensityBased?: boolean;
   colorScale?: string[];
   showLabels?: boolean;
+  showTracks?: boolean; // Connect GPX track/route points into paths
+  trackColor?: string;
+  trackWidth?: number;
 }
 
 /**
@@ -160,3 +165,33 @@ export interface DensityGridCell {
     west: number;
   };
 }
+
+/**
+ * Transform applied to heatmap weights before drawing
+ */
+export type WeightTransform = 'linear' | 'log' | 'sqrt' | 'rank';
+
+/**
+ * How choropleth values are split into color classes
+ */
+export type ClassificationMethod = 'equalInterval' | 'quantile' | 'jenks' | 'stdDev' | 'manual';
+
+/**
+ * One color class of a choropleth, with the number of areas or cells in it
+ */
+export interface ChoroplethClass {
+  min: number;
+  max: number; // Inclusive upper bound
+  count: number;
+}
+
+/**
+ * Hexagonal bin for hexbin visualization
+ */
+export interface HexbinCell {
+  center: Coordinate;
+  vertices: Coordinate[]; // Six corners, clockwise from the top
+  count: number;
+  value: number; // Aggregated by the configured method
+  locations: Location[];
+}
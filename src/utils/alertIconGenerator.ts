@@ -1,5 +1,6 @@
 import L from 'leaflet';
 import type { MarkerConfig, AlertMarker } from '../types';
+import { ALERT_TYPE_COLORS, interpolateColor } from './palettes';
 
 /**
  * Utility class for generating custom alert icons and markers
@@ -37,6 +38,46 @@ export class AlertIconGenerator {
     return icon;
   }
 
+  /**
+   * Generate cluster icon showing the member count and the worst alert inside
+   */
+  public static createClusterIcon(
+    count: number,
+    alertType: string = 'info',
+    severity: number = 1,
+    alertColors?: Record<string, string>
+  ): L.DivIcon {
+    // Grow with the order of magnitude of the count
+    const size = count < 10 ? 36 : count < 100 ? 42 : count < 1000 ? 48 : 56;
+    const cacheKey = `cluster-${count}-${alertType}-${severity}-${JSON.stringify(alertColors ?? {})}`;
+
+    if (this.iconCache.has(cacheKey)) {
+      return this.iconCache.get(cacheKey)!;
+    }
+
+    const color = this.getAlertColor(alertType, severity, alertColors);
+    const label = count >= 10000 ? `${Math.round(count / 1000)}k` : String(count);
+
+    const icon = L.divIcon({
+      html: `
+        <div class="alert-cluster-container">
+          <svg width="${size}" height="${size}" viewBox="0 0 32 32" class="alert-icon">
+            <circle cx="16" cy="16" r="15" fill="${color}" fill-opacity="0.35"/>
+            <circle cx="16" cy="16" r="11" fill="${color}" stroke="#fff" stroke-width="1.5"/>
+            <text x="16" y="20" text-anchor="middle" fill="#fff" font-size="${label.length > 3 ? 8 : 10}" font-weight="bold">${label}</text>
+          </svg>
+          <div class="severity-badge cluster-badge" style="background: ${color};">${severity}</div>
+        </div>
+      `,
+      className: `alert-cluster alert-${alertType} severity-${severity}`,
+      iconSize: [size, size],
+      iconAnchor: [size / 2, size / 2]
+    });
+
+    this.iconCache.set(cacheKey, icon);
+    return icon;
+  }
+
   /**
    * Generate SVG HTML for alert icons
    */
@@ -46,7 +87,7 @@ export class AlertIconGenerator {
     config: MarkerConfig
   ): string {
     const size = config.iconSize ? config.iconSize[0] : 32;
-    const color = this.getAlertColor(alertType, severity);
+    const color = this.getAlertColor(alertType, severity, config.alertColors);
     const icon = this.getAlertSymbol(alertType);
     const pulseClass = config.pulseAnimation ? 'alert-pulse' : '';
     
@@ -105,24 +146,18 @@ export class AlertIconGenerator {
 
   /**
    * Get color based on alert type and severity
+   * @param alertColors Base color per alert type from a palette; the built-in shades otherwise
    */
-  private static getAlertColor(alertType: string, severity: number): string {
+  private static getAlertColor(alertType: string, severity: number, alertColors?: Record<string, string>): string {
     const severityMultiplier = Math.min(severity / 5, 1);
-    
-    switch (alertType) {
-      case 'critical':
-        return this.interpolateColor('#ff4444', '#aa0000', severityMultiplier);
-      case 'warning':
-        return this.interpolateColor('#ffaa00', '#ff6600', severityMultiplier);
-      case 'danger':
-        return this.interpolateColor('#ff6b6b', '#cc0000', severityMultiplier);
-      case 'info':
-        return this.interpolateColor('#3498db', '#2980b9', severityMultiplier);
-      case 'success':
-        return this.interpolateColor('#2ecc71', '#27ae60', severityMultiplier);
-      default:
-        return this.interpolateColor('#95a5a6', '#7f8c8d', severityMultiplier);
+    const baseColor = alertColors?.[alertType];
+
+    if (baseColor) {
+      return interpolateColor(baseColor, interpolateColor(baseColor, '#000000', 0.35), severityMultiplier);
     }
+
+    const [light, dark] = ALERT_TYPE_COLORS[alertType] || ALERT_TYPE_COLORS.resolved;
+    return interpolateColor(light, dark, severityMultiplier);
   }
 
   /**
@@ -166,28 +201,6 @@ export class AlertIconGenerator {
     }
   }
 
-  /**
-   * Interpolate between two colors based on factor (0-1)
-   */
-  private static interpolateColor(color1: string, color2: string, factor: number): string {
-    const hex1 = color1.replace('#', '');
-    const hex2 = color2.replace('#', '');
-    
-    const r1 = parseInt(hex1.substr(0, 2), 16);
-    const g1 = parseInt(hex1.substr(2, 2), 16);
-    const b1 = parseInt(hex1.substr(4, 2), 16);
-    
-    const r2 = parseInt(hex2.substr(0, 2), 16);
-    const g2 = parseInt(hex2.substr(2, 2), 16);
-    const b2 = parseInt(hex2.substr(4, 2), 16);
-    
-    const r = Math.round(r1 + (r2 - r1) * factor);
-    const g = Math.round(g1 + (g2 - g1) * factor);
-    const b = Math.round(b1 + (b2 - b1) * factor);
-    
-    return `#${r.toString(16).padStart(2, '0')}${g.toString(16).padStart(2, '0')}${b.toString(16).padStart(2, '0')}`;
-  }
-
   /**
    * Create popup content for alert markers
    */
@@ -313,6 +326,28 @@ export class AlertIconGenerator {
         display: inline-block;
       }
       
+      .alert-cluster-container {
+        position: relative;
+        display: inline-block;
+        cursor: pointer;
+      }
+
+      .cluster-badge {
+        position: absolute;
+        top: -4px;
+        right: -4px;
+        color: white;
+        border-radius: 50%;
+        width: 16px;
+        height: 16px;
+        font-size: 10px;
+        font-weight: bold;
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        border: 2px solid white;
+      }
+
       .alert-pulse {
         animation: alertPulse 2s infinite;
       }
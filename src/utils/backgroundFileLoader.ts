@@ -0,0 +1,137 @@
+import {
+  FileLoader,
+  type FileLoadOptions,
+  type FileLoadProgress,
+  type FileLoadResult,
+  type SupportedFileFormat
+} from './fileLoader';
+
+/**
+ * Options that can be sent to the worker (callbacks and signals stay on the main thread)
+ */
+type SerializableLoadOptions = Omit<FileLoadOptions, 'onProgress' | 'signal'>;
+
+/**
+ * Message sent from the main thread to the loader worker
+ */
+export type FileLoaderWorkerRequest =
+  | { source: 'file'; file: File; options: SerializableLoadOptions }
+  | { source: 'url'; url: string; options: SerializableLoadOptions };
+
+/**
+ * Message sent from the loader worker back to the main thread
+ */
+export type FileLoaderWorkerResponse =
+  | { type: 'progress'; progress: FileLoadProgress }
+  | { type: 'result'; result: FileLoadResult }
+  | { type: 'error'; message: string };
+
+/**
+ * XML formats need DOMParser, which is not available inside workers
+ */
+const MAIN_THREAD_FORMATS: SupportedFileFormat[] = ['kml', 'kmz', 'gpx'];
+
+/**
+ * Runs FileLoader in a dedicated Web Worker so that parsing large files
+ * does not block the UI. Mirrors the FileLoader loading API; pass
+ * `options.signal` to cancel and `options.onProgress` to receive progress.
+ */
+export class BackgroundFileLoader {
+
+  /**
+   * Load location data from a file in a worker
+   */
+  static loadFromFile(file: File, options: FileLoadOptions = {}): Promise<FileLoadResult> {
+    const format = options.format || FileLoader.detectFormat(file.name);
+
+    if (!this.canUseWorker(format)) {
+      return FileLoader.loadFromFile(file, options);
+    }
+
+    return this.runInWorker({ source: 'file', file, options: this.toSerializable(options) }, options);
+  }
+
+  /**
+   * Load location data from a URL in a worker
+   */
+  static loadFromUrl(url: string, options: FileLoadOptions = {}): Promise<FileLoadResult> {
+    const format = options.format || FileLoader.detectFormat(url);
+
+    if (!this.canUseWorker(format)) {
+      return FileLoader.loadFromUrl(url, options);
+    }
+
+    // Relative URLs would resolve against the worker script inside the worker, so resolve them against the page here
+    const absoluteUrl = new URL(url, location.href).href;
+    return this.runInWorker({ source: 'url', url: absoluteUrl, options: this.toSerializable(options) }, options);
+  }
+
+  /**
+   * Check whether the given format can be parsed in a worker
+   */
+  private static canUseWorker(format: SupportedFileFormat): boolean {
+    return typeof Worker !== 'undefined' && !MAIN_THREAD_FORMATS.includes(format);
+  }
+
+  /**
+   * Strip main-thread-only members from load options
+   */
+  private static toSerializable(options: FileLoadOptions): SerializableLoadOptions {
+    const { onProgress: _onProgress, signal: _signal, ...serializable } = options;
+    return serializable;
+  }
+
+  /**
+   * Start a dedicated worker for one load and settle once it reports back
+   */
+  private static runInWorker(
+    request: FileLoaderWorkerRequest,
+    options: FileLoadOptions
+  ): Promise<FileLoadResult> {
+    return new Promise((resolve, reject) => {
+      if (options.signal?.aborted) {
+        reject(new Error('Loading cancelled'));
+        return;
+      }
+
+      const worker = new Worker(new URL('./fileLoader.worker.ts', import.meta.url), { type: 'module' });
+
+      const finish = () => {
+        worker.terminate();
+        options.signal?.removeEventListener('abort', handleAbort);
+      };
+
+      const handleAbort = () => {
+        finish();
+        reject(new Error('Loading cancelled'));
+      };
+
+      options.signal?.addEventListener('abort', handleAbort);
+
+      worker.onmessage = (event: MessageEvent<FileLoaderWorkerResponse>) => {
+        const message = event.data;
+
+        switch (message.type) {
+          case 'progress':
+            options.onProgress?.(message.progress);
+            break;
+          case 'result':
+            finish();
+            resolve(message.result);
+            break;
+          case 'error':
+            finish();
+            reject(new Error(message.message));
+            break;
+        }
+      };
+
+      worker.onerror = (event) => {
+        finish();
+        reject(new Error(event.message || 'File loader worker failed'));
+      };
+
+      worker.postMessage(request);
+    });
+  }
+}
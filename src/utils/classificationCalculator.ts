@@ -0,0 +1,168 @@
+import type { ChoroplethClass, ClassificationMethod } from '../types';
+
+// Natural breaks are quadratic in the number of values; larger inputs are sampled evenly
+const JENKS_MAX_VALUES = 1000;
+
+/**
+ * Utility class for splitting choropleth values into color classes
+ */
+export class ClassificationCalculator {
+
+  /**
+   * Split values into classes with their counts
+   * @param classCount Number of classes; manual breaks define their own
+   * @param manualBreaks Upper bounds of all classes but the last, for the 'manual' method
+   */
+  public static calculateClasses(
+    values: number[],
+    method: ClassificationMethod,
+    classCount: number,
+    manualBreaks: number[] = []
+  ): ChoroplethClass[] {
+    const sorted = values.filter(value => isFinite(value)).sort((a, b) => a - b);
+    if (sorted.length === 0) return [];
+
+    const min = sorted[0];
+    const max = sorted[sorted.length - 1];
+    const count = Math.max(1, Math.round(classCount));
+
+    let breaks: number[];
+    switch (method) {
+      case 'quantile':
+        breaks = this.quantileBreaks(sorted, count);
+        break;
+      case 'jenks':
+        breaks = this.jenksBreaks(sorted, count);
+        break;
+      case 'stdDev':
+        breaks = this.standardDeviationBreaks(sorted, count);
+        break;
+      case 'manual':
+        breaks = manualBreaks;
+        break;
+      case 'equalInterval':
+      default:
+        breaks = Array.from({ length: count - 1 }, (_, i) => min + (max - min) * (i + 1) / count);
+    }
+
+    // Class upper bounds within the data, ending at the maximum
+    const upperBounds = Array.from(new Set([...breaks.filter(value => value >= min && value < max), max]))
+      .sort((a, b) => a - b);
+
+    const classes = upperBounds.map((upper, i) => ({
+      min: i === 0 ? min : upperBounds[i - 1],
+      max: upper,
+      count: 0
+    }));
+    sorted.forEach(value => classes[this.getClassIndex(value, classes)].count++);
+
+    return classes;
+  }
+
+  /**
+   * Index of the class containing a value; values beyond the range go to the nearest class
+   */
+  public static getClassIndex(value: number, classes: ChoroplethClass[]): number {
+    const index = classes.findIndex(choroplethClass => value <= choroplethClass.max);
+    return index === -1 ? Math.max(classes.length - 1, 0) : index;
+  }
+
+  /**
+   * Color of a class, spreading the classes over the whole color scale
+   */
+  public static getClassColor(index: number, classCount: number, colorScale: string[]): string {
+    if (classCount <= 1) return colorScale[0];
+    return colorScale[Math.round(index * (colorScale.length - 1) / (classCount - 1))];
+  }
+
+  /**
+   * Parse manual breaks typed as a comma or space separated list
+   */
+  public static parseBreaks(text: string): number[] {
+    return text
+      .split(/[\s,;]+/)
+      .filter(part => part !== '')
+      .map(Number)
+      .filter(value => isFinite(value));
+  }
+
+  /**
+   * Breaks putting about the same number of values in each class
+   */
+  private static quantileBreaks(sorted: number[], classCount: number): number[] {
+    return Array.from({ length: classCount - 1 }, (_, i) =>
+      sorted[Math.max(Math.ceil(sorted.length * (i + 1) / classCount) - 1, 0)]);
+  }
+
+  /**
+   * Breaks one standard deviation apart, centered on the mean
+   */
+  private static standardDeviationBreaks(sorted: number[], classCount: number): number[] {
+    const mean = sorted.reduce((sum, value) => sum + value, 0) / sorted.length;
+    const stdDev = Math.sqrt(sorted.reduce((sum, value) => sum + Math.pow(value - mean, 2), 0) / sorted.length);
+    if (stdDev === 0) return [];
+
+    return Array.from({ length: classCount - 1 }, (_, i) => mean + (i + 1 - classCount / 2) * stdDev);
+  }
+
+  /**
+   * Fisher-Jenks natural breaks, minimizing the variance within classes
+   */
+  private static jenksBreaks(sorted: number[], classCount: number): number[] {
+    const data = sorted.length > JENKS_MAX_VALUES
+      ? Array.from({ length: JENKS_MAX_VALUES }, (_, i) => sorted[Math.floor(i * (sorted.length - 1) / (JENKS_MAX_VALUES - 1))])
+      : sorted;
+    const n = data.length;
+    const k = Math.min(classCount, n);
+    if (k <= 1) return [];
+
+    // lowerClassLimits[l][j]: first value (1-based) of the last class when splitting the first l values into j classes
+    const lowerClassLimits = Array.from({ length: n + 1 }, () => new Array<number>(k + 1).fill(0));
+    const variances = Array.from({ length: n + 1 }, () => new Array<number>(k + 1).fill(0));
+
+    for (let j = 1; j <= k; j++) {
+      lowerClassLimits[1][j] = 1;
+      for (let l = 2; l <= n; l++) {
+        variances[l][j] = Infinity;
+      }
+    }
+
+    for (let l = 2; l <= n; l++) {
+      let sum = 0;
+      let sumSquares = 0;
+      let variance = 0;
+
+      for (let m = 1; m <= l; m++) {
+        const first = l - m + 1;
+        const value = data[first - 1];
+        sum += value;
+        sumSquares += value * value;
+        variance = sumSquares - (sum * sum) / m;
+
+        const previous = first - 1;
+        if (previous !== 0) {
+          for (let j = 2; j <= k; j++) {
+            if (variances[l][j] >= variance + variances[previous][j - 1]) {
+              lowerClassLimits[l][j] = first;
+              variances[l][j] = variance + variances[previous][j - 1];
+            }
+          }
+        }
+      }
+
+      lowerClassLimits[l][1] = 1;
+      variances[l][1] = variance;
+    }
+
+    // Walk back from the last value, collecting the upper bound of each earlier class
+    const breaks: number[] = [];
+    let last = n;
+    for (let j = k; j >= 2; j--) {
+      const first = lowerClassLimits[last][j];
+      breaks.unshift(data[first - 2]);
+      last = first - 1;
+    }
+
+    return breaks;
+  }
+}
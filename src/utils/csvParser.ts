@@ -0,0 +1,344 @@
+/**
+ * RFC 4180 CSV record parsing and CSV layout detection
+ */
+
+import type { ColumnMapping } from './fileLoader';
+
+/**
+ * Parsed CSV record with the line it starts on
+ */
+export interface CSVRecord {
+  values: string[];
+  line: number;
+}
+
+/**
+ * Best guess about the structure of a CSV/TSV file
+ */
+export interface CSVLayoutGuess {
+  delimiter: string;
+  hasHeader: boolean;
+  headers: string[];
+  columnMapping: Partial<ColumnMapping>;
+}
+
+type GuessedColumnRole =
+  | 'lat' | 'lng' | 'intensity' | 'name' | 'id' | 'timestamp' | 'alertType' | 'severity' | 'status' | 'description';
+
+/**
+ * Known column names per role, normalized (lowercase, no spaces/underscores)
+ */
+const COLUMN_NAME_PATTERNS: Record<GuessedColumnRole, { exact: string[]; partial: string[] }> = {
+  lat: {
+    exact: ['lat', 'latitude', 'y', 'ycoord', 'широта', 'шир', 'latdd', 'latdeg'],
+    partial: ['lat', 'широт']
+  },
+  lng: {
+    exact: ['lng', 'lon', 'long', 'longitude', 'x', 'xcoord', 'довгота', 'довг', 'londd', 'londeg'],
+    partial: ['lng', 'lon', 'довгот']
+  },
+  intensity: {
+    exact: ['intensity', 'weight', 'value', 'score', 'magnitude', 'count', 'інтенсивність', 'вага'],
+    partial: ['intens', 'weight', 'інтенс']
+  },
+  name: {
+    exact: ['name', 'title', 'label', 'address', 'назва', 'адреса', 'імя'],
+    partial: ['name', 'title', 'назв']
+  },
+  id: {
+    exact: ['id', 'uid', 'uuid', 'index', '№', 'no'],
+    partial: []
+  },
+  timestamp: {
+    exact: ['timestamp', 'time', 'datetime', 'date', 'createdat', 'час', 'дата', 'датачас'],
+    partial: ['time', 'date', 'час', 'дата']
+  },
+  alertType: {
+    exact: ['alerttype', 'type', 'category', 'тип', 'категорія'],
+    partial: ['alert', 'тип']
+  },
+  severity: {
+    exact: ['severity', 'priority', 'level', 'рівень', 'пріоритет'],
+    partial: ['sever', 'priorit']
+  },
+  status: {
+    exact: ['status', 'state', 'active', 'статус', 'стан'],
+    partial: ['status', 'статус']
+  },
+  description: {
+    exact: ['description', 'desc', 'details', 'comment', 'notes', 'опис', 'коментар'],
+    partial: ['descr', 'опис']
+  }
+};
+
+const CANDIDATE_DELIMITERS = [',', ';', '\t', '|'];
+const LAYOUT_SAMPLE_ROWS = 200;
+
+/**
+ * Split CSV text into records following RFC 4180: quoted fields may contain
+ * delimiters, line breaks and doubled quotes. Handles a leading BOM and CRLF.
+ * An empty quoteChar disables quoting.
+ */
+export function parseCSVRecords(
+  text: string,
+  delimiter: string,
+  quoteChar: string,
+  errors: string[]
+): CSVRecord[] {
+  const records: CSVRecord[] = [];
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  let values: string[] = [];
+  let field = '';
+  let fieldQuoted = false;
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+  let quoteStartLine = 1;
+
+  const endField = () => {
+    // Whitespace around unquoted fields is insignificant in practice
+    values.push(fieldQuoted ? field : field.trim());
+    field = '';
+    fieldQuoted = false;
+  };
+
+  const endRecord = () => {
+    endField();
+    // Skip blank lines
+    if (values.length > 1 || values[0] !== '') {
+      records.push({ values, line: recordLine });
+    }
+    values = [];
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === quoteChar) {
+        if (input[i + 1] === quoteChar) {
+          field += quoteChar; // Escaped quote
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (quoteChar && char === quoteChar && field.trim() === '') {
+      // Opening quote, possibly after insignificant whitespace
+      inQuotes = true;
+      fieldQuoted = true;
+      field = '';
+      quoteStartLine = line;
+    } else if (char === delimiter) {
+      endField();
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    errors.push(`Row ${quoteStartLine}: Unterminated quoted field`);
+  }
+
+  endRecord();
+  return records;
+}
+
+/**
+ * Guess delimiter, header presence and column roles from the start of a CSV/TSV file
+ * @param sample Beginning of the file; a truncated last line is ignored
+ * @param quoteChar Field quote character
+ */
+export function detectCSVLayout(sample: string, quoteChar: string = '"'): CSVLayoutGuess {
+  const delimiter = detectDelimiter(sample, quoteChar);
+  const records = parseCSVRecords(sample, delimiter, quoteChar, []);
+
+  // The sample may end mid-record
+  if (records.length > 2) records.pop();
+
+  if (records.length === 0) {
+    return { delimiter, hasHeader: true, headers: [], columnMapping: {} };
+  }
+
+  const hasHeader = detectHeader(records);
+  const columnCount = Math.max(...records.map(record => record.values.length));
+  const headers = hasHeader
+    ? records[0].values
+    : Array.from({ length: columnCount }, (_, i) => `column_${i}`);
+  const rows = records.slice(hasHeader ? 1 : 0, LAYOUT_SAMPLE_ROWS + 1).map(record => record.values);
+
+  return {
+    delimiter,
+    hasHeader,
+    headers,
+    columnMapping: guessColumnMapping(headers, rows)
+  };
+}
+
+/**
+ * Pick the delimiter that splits the sample into the most consistent number of fields
+ */
+function detectDelimiter(sample: string, quoteChar: string): string {
+  let bestDelimiter = ',';
+  let bestScore = -1;
+
+  CANDIDATE_DELIMITERS.forEach(delimiter => {
+    const records = parseCSVRecords(sample, delimiter, quoteChar, []).slice(0, 50);
+    if (records.length > 2) records.pop();
+    if (records.length === 0) return;
+
+    const countFrequency = new Map<number, number>();
+    records.forEach(record => {
+      const count = record.values.length;
+      countFrequency.set(count, (countFrequency.get(count) || 0) + 1);
+    });
+
+    const [modeCount, modeFrequency] = [...countFrequency.entries()].sort((a, b) => b[1] - a[1])[0];
+    if (modeCount < 2) return;
+
+    // Consistency dominates, column count breaks ties
+    const score = (modeFrequency / records.length) * 100 + Math.min(modeCount, 50);
+    if (score > bestScore) {
+      bestScore = score;
+      bestDelimiter = delimiter;
+    }
+  });
+
+  return bestDelimiter;
+}
+
+/**
+ * A first row is a header if it has text where the data below is numeric,
+ * or if the whole file is text and the first row looks different
+ */
+function detectHeader(records: CSVRecord[]): boolean {
+  if (records.length < 2) {
+    return records[0].values.some(value => !isNumeric(value));
+  }
+
+  const [first, ...rest] = records;
+  let numericColumns = 0;
+
+  for (let column = 0; column < first.values.length; column++) {
+    const values = rest.map(record => record.values[column]).filter(value => value !== undefined && value !== '');
+    if (values.length === 0) continue;
+
+    const numericRatio = values.filter(isNumeric).length / values.length;
+    if (numericRatio >= 0.8) {
+      numericColumns++;
+      if (!isNumeric(first.values[column])) return true;
+    }
+  }
+
+  return numericColumns === 0 && first.values.every(value => !isNumeric(value));
+}
+
+/**
+ * Score every column for every role by name and value range and pick the best matches
+ */
+export function guessColumnMapping(headers: string[], rows: string[][]): Partial<ColumnMapping> {
+  const stats = headers.map((_, column) => getColumnStats(rows.map(row => row[column])));
+  const used = new Set<number>();
+  const mapping: Partial<ColumnMapping> = {};
+
+  const pick = (role: GuessedColumnRole, valueScore: (column: number) => number | null, requireName: boolean) => {
+    let best = -1;
+    let bestScore = 0;
+
+    headers.forEach((header, column) => {
+      if (used.has(column)) return;
+
+      const byValue = valueScore(column);
+      if (byValue === null) return; // Values rule the column out
+
+      const byName = scoreColumnName(header, role);
+      if (requireName && byName === 0) return;
+
+      const score = byName + byValue;
+      if (score > bestScore) {
+        bestScore = score;
+        best = column;
+      }
+    });
+
+    if (best >= 0) {
+      used.add(best);
+      mapping[role] = headers[best];
+    }
+  };
+
+  const rangeScore = (limit: number) => (column: number) => {
+    const { numericRatio, min, max } = stats[column];
+    if (numericRatio < 0.9 || min < -limit || max > limit) return null;
+    return 1;
+  };
+
+  // Named coordinate columns first, then fall back to value ranges in column order
+  pick('lat', rangeScore(90), true);
+  pick('lng', rangeScore(180), true);
+  if (!mapping.lat) pick('lat', rangeScore(90), false);
+  if (!mapping.lng) pick('lng', rangeScore(180), false);
+
+  pick('intensity', column => stats[column].numericRatio >= 0.9 ? 0.5 : null, true);
+  pick('name', column => stats[column].numericRatio < 0.5 ? 0.5 : null, true);
+  pick('id', () => 0.5, true);
+  pick('timestamp', () => 0.5, true);
+  pick('alertType', column => stats[column].numericRatio < 0.5 ? 0.5 : null, true);
+  pick('severity', column => stats[column].numericRatio >= 0.9 ? 0.5 : null, true);
+  pick('status', column => stats[column].numericRatio < 0.5 ? 0.5 : null, true);
+  pick('description', column => stats[column].numericRatio < 0.5 ? 0.5 : null, true);
+
+  return mapping;
+}
+
+/**
+ * Score how well a header name matches a role
+ */
+function scoreColumnName(header: string, role: GuessedColumnRole): number {
+  const normalized = header.toLowerCase().replace(/[\s_\-().'"]/g, '');
+  const patterns = COLUMN_NAME_PATTERNS[role];
+
+  if (patterns.exact.includes(normalized)) return 3;
+  if (patterns.partial.some(part => normalized.includes(part))) return 1.5;
+  return 0;
+}
+
+/**
+ * Numeric share and range of the non-empty values in a column
+ */
+function getColumnStats(values: (string | undefined)[]): { numericRatio: number; min: number; max: number } {
+  const present = values.filter((value): value is string => value !== undefined && value !== '');
+  const numbers = present.filter(isNumeric).map(parseLocaleNumber);
+
+  return {
+    numericRatio: present.length > 0 ? numbers.length / present.length : 0,
+    min: numbers.length > 0 ? Math.min(...numbers) : 0,
+    max: numbers.length > 0 ? Math.max(...numbers) : 0
+  };
+}
+
+/**
+ * Parse a number that may use a decimal comma
+ */
+function parseLocaleNumber(value: string): number {
+  return Number(value.trim().replace(',', '.'));
+}
+
+/**
+ * Check if a string is a plain number (decimal point or comma)
+ */
+function isNumeric(value: string): boolean {
+  return /^[-+]?(\d+([.,]\d*)?|[.,]\d+)([eE][-+]?\d+)?$/.test(value.trim());
+}
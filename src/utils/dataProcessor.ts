@@ -2,7 +2,8 @@
  * Advanced data processing utilities for heatmap visualizations
  */
 
-import type { Location, Coordinate } from '../types';
+import type { Location, Coordinate, WeightTransform } from '../types';
+import { SpatialIndex } from './spatialIndex';
 
 /**
  * Data clustering utilities
@@ -34,15 +35,18 @@ export class DataProcessor {
 
   /**
    * Calculate density-based intensity values
+   * @param radius Neighbourhood radius in kilometers
    */
   static calculateDensityIntensity(
     locations: Location[],
     radius: number = 0.1
   ): Location[] {
+    const index = SpatialIndex.forLocations(locations);
+
     return locations.map(location => {
       let density = 0;
       
-      locations.forEach(other => {
+      index.searchRadius(location.coordinates.lat, location.coordinates.lng, radius).forEach(other => {
         const distance = this.calculateDistance(
           location.coordinates,
           other.coordinates
@@ -72,15 +76,88 @@ export class DataProcessor {
       west: number;
     }
   ): Location[] {
-    return locations.filter(location => {
-      const { lat, lng } = location.coordinates;
-      return (
-        lat <= bounds.north &&
-        lat >= bounds.south &&
-        lng <= bounds.east &&
-        lng >= bounds.west
-      );
+    return SpatialIndex.forLocations(locations).search(bounds);
+  }
+
+  /**
+   * Numeric metadata fields found across locations, most common first
+   */
+  static getNumericMetadataFields(locations: Location[]): string[] {
+    const counts = new Map<string, number>();
+
+    locations.forEach(location => {
+      Object.entries(location.metadata || {}).forEach(([key, value]) => {
+        if (this.toNumber(value) !== null) {
+          counts.set(key, (counts.get(key) || 0) + 1);
+        }
+      });
     });
+
+    return Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1])
+      .map(([key]) => key);
+  }
+
+  /**
+   * Weight per location from a numeric metadata field, or from intensity when field is 'intensity'
+   * @param clipPercentile Values beyond this percentile at either end are clipped; 100 disables clipping
+   * @returns Weights in location order; null where the field is missing. Metadata weights are scaled to 0-1
+   */
+  static calculateWeights(
+    locations: Location[],
+    field: string,
+    transform: WeightTransform = 'linear',
+    clipPercentile: number = 100
+  ): (number | null)[] {
+    const isIntensity = field === 'intensity';
+    const values = locations.map(location => isIntensity
+      ? location.intensity || 0.8
+      : this.toNumber(location.metadata?.[field]));
+
+    const sorted = values.filter((value): value is number => value !== null).sort((a, b) => a - b);
+    if (sorted.length === 0) return values;
+
+    // Clip outliers at both ends
+    let lower = -Infinity;
+    let upper = Infinity;
+    if (clipPercentile < 100) {
+      const quantile = (fraction: number) => sorted[Math.round(fraction * (sorted.length - 1))];
+      lower = quantile(1 - clipPercentile / 100);
+      upper = quantile(clipPercentile / 100);
+    }
+
+    // Ties share their average rank
+    const ranks = new Map<number, number>();
+    if (transform === 'rank') {
+      for (let start = 0; start < sorted.length;) {
+        let end = start;
+        while (end + 1 < sorted.length && sorted[end + 1] === sorted[start]) end++;
+        ranks.set(sorted[start], sorted.length > 1 ? (start + end) / 2 / (sorted.length - 1) : 1);
+        start = end + 1;
+      }
+    }
+
+    const weights = values.map(value => {
+      if (value === null) return null;
+      const clipped = Math.min(Math.max(value, lower), upper);
+
+      switch (transform) {
+        case 'log':
+          return Math.log1p(Math.max(clipped, 0));
+        case 'sqrt':
+          return Math.sqrt(Math.max(clipped, 0));
+        case 'rank':
+          return ranks.get(value)!;
+        default:
+          return clipped;
+      }
+    });
+
+    // Intensities are already on the heatmap's scale; other fields get a 0-1 range
+    if (isIntensity || transform === 'rank') return weights;
+
+    const maxWeight = weights.reduce<number>((max, weight) => Math.max(max, weight ?? 0), 0);
+    return weights.map(weight => weight === null ? null : maxWeight > 0 ? Math.max(weight, 0) / maxWeight : 0);
   }
 
   /**
@@ -111,6 +188,18 @@ export class DataProcessor {
     return R * c;
   }
 
+  /**
+   * Number from a numeric value or numeric string; null for anything else
+   */
+  private static toNumber(value: unknown): number | null {
+    if (typeof value === 'number') return isFinite(value) ? value : null;
+    if (typeof value === 'string' && value.trim() !== '') {
+      const number = Number(value);
+      return isFinite(number) ? number : null;
+    }
+    return null;
+  }
+
   /**
    * Convert degrees to radians
    */
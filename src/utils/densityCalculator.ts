@@ -1,5 +1,7 @@
 import type { Location, Coordinate } from '../types';
 import type { DensityGridCell, DensityConfig } from '../types';
+import { SpatialIndex } from './spatialIndex';
+import { DEFAULT_SEQUENTIAL_PALETTE, getPaletteColors, interpolatePaletteColor } from './palettes';
 
 /**
  * Utility class for calculating density grids from location data
@@ -21,6 +23,7 @@ export class DensityCalculator {
     const lngStep = (bounds.east - bounds.west) / gridSize;
     
     const grid: DensityGridCell[] = [];
+    const index = SpatialIndex.forLocations(locations);
     
     for (let i = 0; i < gridSize; i++) {
       for (let j = 0; j < gridSize; j++) {
@@ -36,7 +39,7 @@ export class DensityCalculator {
           lng: cellBounds.west + (lngStep / 2)
         };
         
-        const locationsInCell = this.getLocationsInBounds(locations, cellBounds);
+        const locationsInCell = this.getLocationsInBounds(index, cellBounds);
         const cellValue = this.calculateCellValue(locationsInCell, method);
         
         if (cellValue > 0) {
@@ -57,21 +60,16 @@ export class DensityCalculator {
    * Get locations within specific bounds
    */
   private static getLocationsInBounds(
-    locations: Location[],
+    index: SpatialIndex<Location>,
     bounds: { north: number; south: number; east: number; west: number }
   ): Location[] {
-    return locations.filter(location => 
-      location.coordinates.lat >= bounds.south &&
-      location.coordinates.lat <= bounds.north &&
-      location.coordinates.lng >= bounds.west &&
-      location.coordinates.lng <= bounds.east
-    );
+    return index.search(bounds);
   }
 
   /**
    * Calculate aggregated value for a cell
    */
-  private static calculateCellValue(
+  public static calculateCellValue(
     locations: Location[],
     method: 'count' | 'sum' | 'average'
   ): number {
@@ -109,14 +107,11 @@ export class DensityCalculator {
    */
   public static generateDensityColorScale(): string[] {
     const steps = 5;
+    const palette = getPaletteColors(DEFAULT_SEQUENTIAL_PALETTE);
     const colors: string[] = [];
     
     for (let i = 0; i < steps; i++) {
-      const intensity = i / (steps - 1);
-      const r = Math.round(255 * intensity);
-      const g = Math.round(255 * (1 - intensity * 0.8));
-      const b = Math.round(255 * (1 - intensity));
-      colors.push(`rgb(${r}, ${g}, ${b})`);
+      colors.push(interpolatePaletteColor(palette, i / (steps - 1)));
     }
     
     return colors;
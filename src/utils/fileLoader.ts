@@ -1,9 +1,18 @@
 import type { Location, Coordinate } from '../types';
+import { listZipEntries, extractZipEntry } from './zipReader';
+import { parseCSVRecords } from './csvParser';
+import { parseTimestamp } from './timeParser';
+import {
+  samplePointsAlongLine,
+  samplePointsInPolygons,
+  calculateRingCentroid,
+  calculatePolygonArea
+} from './geoUtils';
 
 /**
  * Supported file formats for data loading
  */
-export type SupportedFileFormat = 'json' | 'csv' | 'geojson' | 'tsv';
+export type SupportedFileFormat = 'json' | 'csv' | 'geojson' | 'tsv' | 'kml' | 'kmz' | 'gpx' | 'ndjson';
 
 /**
  * CSV/TSV column mapping configuration
@@ -14,6 +23,34 @@ export interface ColumnMapping {
   intensity?: string;
   name?: string;
   id?: string;
+  timestamp?: string;
+  timestampFormat?: string; // e.g. 'DD.MM.YYYY HH:mm', 'unix', 'unix_ms'; auto-detected when omitted
+  timezone?: string; // 'UTC', '+02:00' or IANA name for timestamps without an offset; local time when omitted
+  alertType?: string;
+  severity?: string;
+  status?: string;
+  description?: string;
+  ignore?: string[]; // Columns left out; all other unmapped columns are kept in Location.metadata
+}
+
+/**
+ * How LineString/MultiLineString geometries are converted to locations
+ */
+export type LineGeometryMode = 'vertices' | 'sample';
+
+/**
+ * How Polygon/MultiPolygon geometries are converted to locations
+ */
+export type PolygonGeometryMode = 'centroid' | 'sample';
+
+/**
+ * Progress report for streamed loading
+ */
+export interface FileLoadProgress {
+  loadedBytes: number;
+  totalBytes?: number; // Unknown for URL responses without Content-Length
+  rowsProcessed: number;
+  totalRows?: number; // Known once the whole text is in memory (JSON, CSV)
 }
 
 /**
@@ -24,6 +61,13 @@ export interface FileLoadOptions {
   columnMapping?: ColumnMapping;
   delimiter?: string; // For CSV/TSV files
   hasHeader?: boolean; // Whether CSV/TSV has header row
+  quoteChar?: string; // CSV/TSV field quote character, default '"'; empty disables quoting
+  lineMode?: LineGeometryMode; // For GeoJSON lines, default 'vertices'
+  lineSampleDistance?: number; // Metres between samples when lineMode is 'sample'
+  polygonMode?: PolygonGeometryMode; // For GeoJSON polygons, default 'centroid'
+  polygonSampleCount?: number; // Approximate samples per feature when polygonMode is 'sample'
+  onProgress?: (progress: FileLoadProgress) => void; // Called while streaming or parsing rows
+  signal?: AbortSignal; // Cancels a load in progress
 }
 
 /**
@@ -39,6 +83,21 @@ export interface FileLoadResult {
   };
 }
 
+/**
+ * Number of rows between progress reports for in-memory formats
+ */
+const PROGRESS_ROW_INTERVAL = 5000;
+
+/**
+ * Accumulator used while parsing NDJSON line by line
+ */
+interface NDJSONParseState {
+  locations: Location[];
+  errors: string[];
+  lineNumber: number;
+  totalRows: number;
+}
+
 /**
  * FileLoader class for handling various data file formats
  */
@@ -52,20 +111,33 @@ export class FileLoader {
     options: FileLoadOptions = {}
   ): Promise<FileLoadResult> {
     const format = options.format || this.detectFormat(file.name);
+
+    // KMZ is a zip archive and has to be read as binary
+    if (format === 'kmz') {
+      return this.parseKMZ(await file.arrayBuffer());
+    }
+
+    // NDJSON feeds can be hundreds of MB, so never hold them as a single string
+    if (format === 'ndjson') {
+      return this.parseNDJSONStream(file.stream(), file.size, options);
+    }
+
     const text = await this.readFileAsText(file);
-    
-    switch (format) {
-      case 'json':
-        return this.parseJSON(text);
-      case 'csv':
-        return this.parseCSV(text, options);
-      case 'tsv':
-        return this.parseCSV(text, { ...options, delimiter: '\t' });
-      case 'geojson':
-        return this.parseGeoJSON(text);
-      default:
-        throw new Error(`Unsupported file format: ${format}`);
+    return this.loadFromText(text, format, options);
+  }
+
+  /**
+   * Load location data from text that is already in memory
+   */
+  static loadFromText(
+    text: string,
+    format: SupportedFileFormat,
+    options: FileLoadOptions = {}
+  ): FileLoadResult {
+    if (format === 'kmz') {
+      throw new Error('KMZ is a binary format and cannot be loaded from text');
     }
+    return this.parseText(text, format, options);
   }
 
   /**
@@ -81,21 +153,19 @@ export class FileLoader {
         throw new Error(`HTTP ${response.status}: ${response.statusText}`);
       }
       
-      const text = await response.text();
       const format = options.format || this.detectFormat(url);
-      
-      switch (format) {
-        case 'json':
-          return this.parseJSON(text);
-        case 'csv':
-          return this.parseCSV(text, options);
-        case 'tsv':
-          return this.parseCSV(text, { ...options, delimiter: '\t' });
-        case 'geojson':
-          return this.parseGeoJSON(text);
-        default:
-          throw new Error(`Unsupported file format: ${format}`);
+
+      if (format === 'kmz') {
+        return await this.parseKMZ(await response.arrayBuffer());
+      }
+
+      if (format === 'ndjson' && response.body) {
+        const contentLength = parseInt(response.headers.get('Content-Length') || '');
+        return await this.parseNDJSONStream(response.body, isNaN(contentLength) ? undefined : contentLength, options);
       }
+
+      const text = await response.text();
+      return this.parseText(text, format, options);
     } catch (error) {
       return {
         locations: [],
@@ -112,7 +182,7 @@ export class FileLoader {
   /**
    * Detect file format from filename
    */
-  private static detectFormat(filename: string): SupportedFileFormat {
+  static detectFormat(filename: string): SupportedFileFormat {
     const extension = filename.split('.').pop()?.toLowerCase();
     
     switch (extension) {
@@ -125,11 +195,48 @@ export class FileLoader {
         return 'tsv';
       case 'geojson':
         return 'geojson';
+      case 'kml':
+        return 'kml';
+      case 'kmz':
+        return 'kmz';
+      case 'gpx':
+        return 'gpx';
+      case 'ndjson':
+      case 'jsonl':
+        return 'ndjson';
       default:
         return 'json'; // Default fallback
     }
   }
 
+  /**
+   * Parse text content according to the given format
+   */
+  private static parseText(
+    text: string,
+    format: SupportedFileFormat,
+    options: FileLoadOptions
+  ): FileLoadResult {
+    switch (format) {
+      case 'json':
+        return this.parseJSON(text, options);
+      case 'csv':
+        return this.parseCSV(text, options);
+      case 'tsv':
+        return this.parseCSV(text, { ...options, delimiter: '\t' });
+      case 'geojson':
+        return this.parseGeoJSON(text, options);
+      case 'kml':
+        return this.parseKML(text);
+      case 'gpx':
+        return this.parseGPX(text);
+      case 'ndjson':
+        return this.parseNDJSONLines(text.split('\n'));
+      default:
+        throw new Error(`Unsupported file format: ${format}`);
+    }
+  }
+
   /**
    * Read file as text
    */
@@ -145,7 +252,7 @@ export class FileLoader {
   /**
    * Parse JSON format
    */
-  private static parseJSON(text: string): FileLoadResult {
+  private static parseJSON(text: string, options: FileLoadOptions = {}): FileLoadResult {
     const errors: string[] = [];
     let data: any;
     
@@ -187,6 +294,7 @@ export class FileLoader {
       } catch (error) {
         errors.push(`Row ${index + 1}: ${error instanceof Error ? error.message : 'Invalid data'}`);
       }
+      this.reportRowProgress(options, text.length, index + 1, rawLocations.length);
     });
 
     return {
@@ -200,6 +308,119 @@ export class FileLoader {
     };
   }
 
+  /**
+   * Parse NDJSON / JSON Lines from a byte stream, one location object per line
+   */
+  private static async parseNDJSONStream(
+    stream: ReadableStream<Uint8Array>,
+    totalBytes: number | undefined,
+    options: FileLoadOptions
+  ): Promise<FileLoadResult> {
+    const reader = stream.getReader();
+    const decoder = new TextDecoder();
+    const state = this.createNDJSONState();
+    let loadedBytes = 0;
+    let pending = '';
+
+    try {
+      while (true) {
+        if (options.signal?.aborted) {
+          await reader.cancel();
+          throw new Error('Loading cancelled');
+        }
+
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        loadedBytes += value.byteLength;
+        pending += decoder.decode(value, { stream: true });
+
+        // Keep the trailing partial line for the next chunk
+        const lines = pending.split('\n');
+        pending = lines.pop() ?? '';
+        lines.forEach(line => this.parseNDJSONLine(line, state));
+
+        options.onProgress?.({ loadedBytes, totalBytes, rowsProcessed: state.totalRows });
+      }
+    } finally {
+      reader.releaseLock();
+    }
+
+    pending += decoder.decode();
+    this.parseNDJSONLine(pending, state);
+    options.onProgress?.({ loadedBytes, totalBytes, rowsProcessed: state.totalRows });
+
+    return this.getNDJSONResult(state);
+  }
+
+  /**
+   * Report progress of in-memory row parsing every few thousand rows
+   */
+  private static reportRowProgress(
+    options: FileLoadOptions,
+    totalBytes: number,
+    rowsProcessed: number,
+    totalRows: number
+  ): void {
+    if (!options.onProgress) return;
+    if (rowsProcessed % PROGRESS_ROW_INTERVAL !== 0 && rowsProcessed !== totalRows) return;
+
+    options.onProgress({ loadedBytes: totalBytes, totalBytes, rowsProcessed, totalRows });
+  }
+
+  /**
+   * Parse NDJSON / JSON Lines that are already in memory
+   */
+  private static parseNDJSONLines(lines: string[]): FileLoadResult {
+    const state = this.createNDJSONState();
+    lines.forEach(line => this.parseNDJSONLine(line, state));
+    return this.getNDJSONResult(state);
+  }
+
+  /**
+   * Create the accumulator shared by the NDJSON parsers
+   */
+  private static createNDJSONState(): NDJSONParseState {
+    return { locations: [], errors: [], lineNumber: 0, totalRows: 0 };
+  }
+
+  /**
+   * Parse a single NDJSON line into the accumulator
+   */
+  private static parseNDJSONLine(line: string, state: NDJSONParseState): void {
+    state.lineNumber++;
+    const trimmed = line.trim();
+    if (!trimmed) return;
+
+    const rowIndex = state.totalRows++;
+
+    try {
+      const location = this.parseLocationObject(JSON.parse(trimmed), rowIndex);
+      if (location) {
+        state.locations.push(location);
+      }
+    } catch (error) {
+      const message = error instanceof SyntaxError ? 'Invalid JSON' :
+                      error instanceof Error ? error.message : 'Invalid data';
+      state.errors.push(`Line ${state.lineNumber}: ${message}`);
+    }
+  }
+
+  /**
+   * Build the load result from the NDJSON accumulator
+   */
+  private static getNDJSONResult(state: NDJSONParseState): FileLoadResult {
+    return {
+      locations: state.locations,
+      errors: state.errors,
+      summary: {
+        totalRows: state.totalRows,
+        validLocations: state.locations.length,
+        invalidRows: state.totalRows - state.locations.length
+      }
+    };
+  }
+
   /**
    * Parse CSV/TSV format
    */
@@ -214,11 +435,11 @@ export class FileLoader {
       id: 'id'
     };
 
-    const lines = text.trim().split('\n');
     const errors: string[] = [];
     const locations: Location[] = [];
+    const records = parseCSVRecords(text, delimiter, options.quoteChar ?? '"', errors);
 
-    if (lines.length === 0) {
+    if (records.length === 0) {
       return {
         locations: [],
         errors: ['File is empty'],
@@ -230,45 +451,45 @@ export class FileLoader {
     let dataStartIndex = 0;
 
     if (hasHeader) {
-      headers = lines[0].split(delimiter).map(h => h.trim().replace(/^["']|["']$/g, ''));
+      headers = records[0].values;
       dataStartIndex = 1;
     } else {
       // Generate default headers
-      const firstRow = lines[0].split(delimiter);
-      headers = firstRow.map((_, i) => `column_${i}`);
+      headers = records[0].values.map((_, i) => `column_${i}`);
     }
 
+    const totalRows = records.length - dataStartIndex;
+
     // Process data rows
-    for (let i = dataStartIndex; i < lines.length; i++) {
-      const line = lines[i].trim();
-      if (!line) continue;
+    for (let i = dataStartIndex; i < records.length; i++) {
+      const record = records[i];
 
       try {
-        const values = this.parseCSVLine(line, delimiter);
         const rowData: Record<string, string> = {};
         
-        values.forEach((value, index) => {
+        record.values.forEach((value, index) => {
           if (headers[index]) {
             rowData[headers[index]] = value;
           }
         });
 
-        const location = this.parseCSVRow(rowData, columnMapping, i + 1);
+        const location = this.parseCSVRow(rowData, columnMapping, record.line);
         if (location) {
           locations.push(location);
         }
       } catch (error) {
-        errors.push(`Row ${i + 1}: ${error instanceof Error ? error.message : 'Invalid data'}`);
+        errors.push(`Row ${record.line}: ${error instanceof Error ? error.message : 'Invalid data'}`);
       }
+      this.reportRowProgress(options, text.length, i + 1 - dataStartIndex, totalRows);
     }
 
     return {
       locations,
       errors,
       summary: {
-        totalRows: lines.length - dataStartIndex,
+        totalRows,
         validLocations: locations.length,
-        invalidRows: (lines.length - dataStartIndex) - locations.length
+        invalidRows: totalRows - locations.length
       }
     };
   }
@@ -276,7 +497,7 @@ export class FileLoader {
   /**
    * Parse GeoJSON format
    */
-  private static parseGeoJSON(text: string): FileLoadResult {
+  private static parseGeoJSON(text: string, options: FileLoadOptions = {}): FileLoadResult {
     const errors: string[] = [];
     let geoData: any;
     
@@ -299,40 +520,55 @@ export class FileLoader {
     }
 
     const locations: Location[] = [];
+    let invalidFeatures = 0;
     
     geoData.features.forEach((feature: any, index: number) => {
       try {
-        if (feature.geometry?.type === 'Point' && feature.geometry.coordinates) {
-          const [lng, lat] = feature.geometry.coordinates;
-          const properties = feature.properties || {};
-          
-          // Smart extraction of common properties
-          const name = properties.name || properties.title || properties.address || 
-                      properties.description || `Point ${index + 1}`;
-          const alertType = properties.alert_type || properties.alertType || 
-                           properties.type || properties.category;
-          
-          const location: Location = {
-            id: properties.id || feature.id || `geojson-${index}`,
+        if (!feature.geometry?.type) {
+          throw new Error('Missing geometry');
+        }
+
+        const geometryType: string = feature.geometry.type;
+        const points = this.extractGeometryPoints(feature.geometry, options);
+        const properties = feature.properties || {};
+        
+        // Smart extraction of common properties
+        const name = properties.name || properties.title || properties.address || 
+                    properties.description || `Point ${index + 1}`;
+        const alertType = properties.alert_type || properties.alertType || 
+                         properties.type || properties.category;
+        const baseId = properties.id || feature.id || `geojson-${index}`;
+        let validPoints = 0;
+
+        points.forEach((coordinate, pointIndex) => {
+          if (!this.validateCoordinate(coordinate)) {
+            errors.push(`Feature ${index + 1}: Invalid coordinates (${coordinate.lat}, ${coordinate.lng})`);
+            return;
+          }
+
+          validPoints++;
+          locations.push({
+            id: points.length > 1 ? `${baseId}-${pointIndex}` : baseId,
             name: name,
-            coordinates: { lat, lng },
+            coordinates: coordinate,
             intensity: properties.intensity || properties.weight || properties.value || 0.5,
             metadata: {
               ...properties,
               // Add processed alertType to metadata for marker styling
-              ...(alertType && { processedAlertType: alertType })
+              ...(alertType && { processedAlertType: alertType }),
+              ...(geometryType !== 'Point' && { geometryType, featureIndex: index, pointIndex })
             }
-          };
+          });
+        });
 
-          if (this.validateCoordinate({ lat, lng })) {
-            locations.push(location);
-          } else {
-            errors.push(`Feature ${index + 1}: Invalid coordinates (${lat}, ${lng})`);
+        if (validPoints === 0) {
+          invalidFeatures++;
+          if (points.length === 0) {
+            errors.push(`Feature ${index + 1}: ${geometryType} geometry has no usable coordinates`);
           }
-        } else {
-          errors.push(`Feature ${index + 1}: Only Point geometries are supported`);
         }
       } catch (error) {
+        invalidFeatures++;
         errors.push(`Feature ${index + 1}: ${error instanceof Error ? error.message : 'Invalid data'}`);
       }
     });
@@ -343,9 +579,309 @@ export class FileLoader {
       summary: {
         totalRows: geoData.features.length,
         validLocations: locations.length,
-        invalidRows: geoData.features.length - locations.length
+        invalidRows: invalidFeatures
+      }
+    };
+  }
+
+  /**
+   * Convert a GeoJSON geometry into the point coordinates that represent it
+   */
+  private static extractGeometryPoints(geometry: any, options: FileLoadOptions): Coordinate[] {
+    const toCoordinate = (position: number[]): Coordinate => ({ lat: position[1], lng: position[0] });
+    const toPath = (positions: number[][]): Coordinate[] => positions.map(toCoordinate);
+    const lineSpacingKm = (options.lineSampleDistance || 100) / 1000;
+    const polygonSamples = options.polygonSampleCount || 20;
+
+    const linePoints = (lines: number[][][]): Coordinate[] => options.lineMode === 'sample'
+      ? lines.flatMap(line => samplePointsAlongLine(toPath(line), lineSpacingKm))
+      : lines.flatMap(toPath);
+
+    const polygonPoints = (polygons: number[][][][]): Coordinate[] => {
+      const rings = polygons.map(polygon => polygon.map(toPath)).filter(polygon => polygon[0]?.length > 0);
+      if (options.polygonMode === 'sample') {
+        return samplePointsInPolygons(rings, polygonSamples);
       }
+      if (rings.length === 0) return [];
+
+      // One area-weighted centroid per feature, even for multi-part polygons
+      const parts = rings.map(polygon => ({
+        centroid: calculateRingCentroid(polygon[0]),
+        area: calculatePolygonArea(polygon)
+      }));
+      const totalArea = parts.reduce((sum, part) => sum + part.area, 0);
+      if (totalArea === 0) return [parts[0].centroid];
+
+      return [{
+        lat: parts.reduce((sum, part) => sum + part.centroid.lat * part.area, 0) / totalArea,
+        lng: parts.reduce((sum, part) => sum + part.centroid.lng * part.area, 0) / totalArea
+      }];
     };
+
+    if (geometry.type !== 'GeometryCollection' && !Array.isArray(geometry.coordinates)) {
+      throw new Error(`Missing coordinates for ${geometry.type} geometry`);
+    }
+
+    switch (geometry.type) {
+      case 'Point':
+        return [toCoordinate(geometry.coordinates)];
+      case 'MultiPoint':
+        return toPath(geometry.coordinates);
+      case 'LineString':
+        return linePoints([geometry.coordinates]);
+      case 'MultiLineString':
+        return linePoints(geometry.coordinates);
+      case 'Polygon':
+        return polygonPoints([geometry.coordinates]);
+      case 'MultiPolygon':
+        return polygonPoints(geometry.coordinates);
+      case 'GeometryCollection':
+        return (geometry.geometries || []).flatMap((child: any) => this.extractGeometryPoints(child, options));
+      default:
+        throw new Error(`Unsupported geometry type: ${geometry.type}`);
+    }
+  }
+
+  /**
+   * Parse KMZ format (zipped KML)
+   */
+  private static async parseKMZ(buffer: ArrayBuffer): Promise<FileLoadResult> {
+    let kmlText: string;
+
+    try {
+      const kmlEntries = listZipEntries(buffer).filter(entry => entry.name.toLowerCase().endsWith('.kml'));
+
+      if (kmlEntries.length === 0) {
+        throw new Error('Archive does not contain a .kml document');
+      }
+
+      // By convention the main document is doc.kml at the archive root
+      const mainEntry = kmlEntries.find(entry => entry.name.toLowerCase() === 'doc.kml') || kmlEntries[0];
+      const bytes = await extractZipEntry(buffer, mainEntry);
+      kmlText = new TextDecoder().decode(bytes);
+    } catch (error) {
+      return {
+        locations: [],
+        errors: [`Invalid KMZ format: ${error instanceof Error ? error.message : 'Unknown error'}`],
+        summary: { totalRows: 0, validLocations: 0, invalidRows: 1 }
+      };
+    }
+
+    return this.parseKML(kmlText);
+  }
+
+  /**
+   * Parse KML format
+   */
+  private static parseKML(text: string): FileLoadResult {
+    const errors: string[] = [];
+    const doc = new DOMParser().parseFromString(text, 'application/xml');
+
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+      return {
+        locations: [],
+        errors: ['Invalid KML format'],
+        summary: { totalRows: 0, validLocations: 0, invalidRows: 1 }
+      };
+    }
+
+    const placemarks = Array.from(doc.getElementsByTagName('Placemark'));
+    const locations: Location[] = [];
+
+    placemarks.forEach((placemark, index) => {
+      try {
+        const point = placemark.getElementsByTagName('Point')[0];
+        if (!point) {
+          errors.push(`Placemark ${index + 1}: Only Point geometries are supported`);
+          return;
+        }
+
+        const coordinatesText = this.getXMLChildText(point, 'coordinates');
+        if (!coordinatesText) {
+          errors.push(`Placemark ${index + 1}: Missing coordinates`);
+          return;
+        }
+
+        // KML coordinates are "lng,lat[,alt]"
+        const [lng, lat, altitude] = coordinatesText.trim().split(/\s+/)[0].split(',').map(parseFloat);
+
+        if (!this.validateCoordinate({ lat, lng })) {
+          errors.push(`Placemark ${index + 1}: Invalid coordinates (${lat}, ${lng})`);
+          return;
+        }
+
+        const extendedData = this.parseKMLExtendedData(placemark);
+        const description = this.getXMLChildText(placemark, 'description');
+        const timestamp = this.getXMLChildText(placemark, 'when');
+        const alertType = extendedData.alert_type || extendedData.alertType ||
+                         extendedData.type || extendedData.category;
+        const intensity = parseFloat(extendedData.intensity ?? extendedData.weight ?? extendedData.value);
+
+        locations.push({
+          id: placemark.getAttribute('id') || extendedData.id || `kml-${index}`,
+          name: this.getXMLChildText(placemark, 'name') || `Placemark ${index + 1}`,
+          coordinates: { lat, lng },
+          intensity: isNaN(intensity) ? undefined : intensity,
+          metadata: {
+            ...extendedData,
+            ...(description && { description }),
+            ...(timestamp && { timestamp }),
+            ...(!isNaN(altitude) && { altitude }),
+            ...(alertType && { processedAlertType: alertType })
+          }
+        });
+      } catch (error) {
+        errors.push(`Placemark ${index + 1}: ${error instanceof Error ? error.message : 'Invalid data'}`);
+      }
+    });
+
+    return {
+      locations,
+      errors,
+      summary: {
+        totalRows: placemarks.length,
+        validLocations: locations.length,
+        invalidRows: placemarks.length - locations.length
+      }
+    };
+  }
+
+  /**
+   * Parse GPX format (waypoints, routes and tracks)
+   */
+  private static parseGPX(text: string): FileLoadResult {
+    const doc = new DOMParser().parseFromString(text, 'application/xml');
+
+    if (doc.getElementsByTagName('parsererror').length > 0 || !doc.getElementsByTagName('gpx')[0]) {
+      return {
+        locations: [],
+        errors: ['Invalid GPX format'],
+        summary: { totalRows: 0, validLocations: 0, invalidRows: 1 }
+      };
+    }
+
+    const errors: string[] = [];
+    const locations: Location[] = [];
+    let totalRows = 0;
+
+    const addPoint = (element: Element, label: string, id: string, metadata: Record<string, any>) => {
+      totalRows++;
+      const lat = parseFloat(element.getAttribute('lat') ?? '');
+      const lng = parseFloat(element.getAttribute('lon') ?? '');
+
+      if (!this.validateCoordinate({ lat, lng })) {
+        errors.push(`${label}: Invalid coordinates (${lat}, ${lng})`);
+        return;
+      }
+
+      const elevation = parseFloat(this.getXMLChildText(element, 'ele') ?? '');
+      const timestamp = this.getXMLChildText(element, 'time');
+      const description = this.getXMLChildText(element, 'desc');
+      const type = this.getXMLChildText(element, 'type');
+
+      locations.push({
+        id,
+        name: this.getXMLChildText(element, 'name') || label,
+        coordinates: { lat, lng },
+        metadata: {
+          ...metadata,
+          ...(timestamp && { timestamp }),
+          ...(!isNaN(elevation) && { elevation }),
+          ...(description && { description }),
+          ...(type && { type, processedAlertType: type })
+        }
+      });
+    };
+
+    Array.from(doc.getElementsByTagName('wpt')).forEach((waypoint, index) => {
+      addPoint(waypoint, `Waypoint ${index + 1}`, `gpx-wpt-${index}`, { gpxType: 'waypoint' });
+    });
+
+    Array.from(doc.getElementsByTagName('rte')).forEach((route, routeIndex) => {
+      const routeName = this.getXMLDirectChildText(route, 'name') || `Route ${routeIndex + 1}`;
+
+      Array.from(route.getElementsByTagName('rtept')).forEach((point, pointIndex) => {
+        addPoint(point, `${routeName}, point ${pointIndex + 1}`, `gpx-rte-${routeIndex}-${pointIndex}`, {
+          gpxType: 'routepoint',
+          trackId: `rte-${routeIndex}`,
+          trackName: routeName,
+          segmentId: 0,
+          pointIndex
+        });
+      });
+    });
+
+    Array.from(doc.getElementsByTagName('trk')).forEach((track, trackIndex) => {
+      const trackName = this.getXMLDirectChildText(track, 'name') || `Track ${trackIndex + 1}`;
+
+      Array.from(track.getElementsByTagName('trkseg')).forEach((segment, segmentIndex) => {
+        Array.from(segment.getElementsByTagName('trkpt')).forEach((point, pointIndex) => {
+          addPoint(
+            point,
+            `${trackName}, segment ${segmentIndex + 1}, point ${pointIndex + 1}`,
+            `gpx-trk-${trackIndex}-${segmentIndex}-${pointIndex}`,
+            {
+              gpxType: 'trackpoint',
+              trackId: `trk-${trackIndex}`,
+              trackName,
+              segmentId: segmentIndex,
+              pointIndex
+            }
+          );
+        });
+      });
+    });
+
+    return {
+      locations,
+      errors,
+      summary: {
+        totalRows,
+        validLocations: locations.length,
+        invalidRows: totalRows - locations.length
+      }
+    };
+  }
+
+  /**
+   * Get trimmed text of a direct child XML element with the given tag
+   */
+  private static getXMLDirectChildText(element: Element, tagName: string): string | undefined {
+    const child = Array.from(element.children).find(item => item.localName === tagName);
+    return child?.textContent?.trim() || undefined;
+  }
+
+  /**
+   * Get trimmed text of the first descendant XML element with the given tag
+   */
+  private static getXMLChildText(element: Element, tagName: string): string | undefined {
+    const text = element.getElementsByTagName(tagName)[0]?.textContent?.trim();
+    return text || undefined;
+  }
+
+  /**
+   * Collect <Data> and <SchemaData>/<SimpleData> values of a Placemark
+   */
+  private static parseKMLExtendedData(placemark: Element): Record<string, string> {
+    const data: Record<string, string> = {};
+    const extendedData = placemark.getElementsByTagName('ExtendedData')[0];
+    if (!extendedData) return data;
+
+    Array.from(extendedData.getElementsByTagName('Data')).forEach(item => {
+      const name = item.getAttribute('name');
+      if (name) {
+        data[name] = this.getXMLChildText(item, 'value') ?? '';
+      }
+    });
+
+    Array.from(extendedData.getElementsByTagName('SimpleData')).forEach(item => {
+      const name = item.getAttribute('name');
+      if (name) {
+        data[name] = item.textContent?.trim() ?? '';
+      }
+    });
+
+    return data;
   }
 
   /**
@@ -388,8 +924,8 @@ export class FileLoader {
     mapping: ColumnMapping, 
     rowNumber: number
   ): Location | null {
-    const lat = parseFloat(rowData[mapping.lat]);
-    const lng = parseFloat(rowData[mapping.lng]);
+    const lat = this.parseCSVNumber(rowData[mapping.lat]);
+    const lng = this.parseCSVNumber(rowData[mapping.lng]);
 
     if (isNaN(lat) || isNaN(lng)) {
       throw new Error(`Invalid coordinates: lat="${rowData[mapping.lat]}", lng="${rowData[mapping.lng]}"`);
@@ -400,44 +936,63 @@ export class FileLoader {
       throw new Error(`Coordinates out of range (${lat}, ${lng})`);
     }
 
+    const metadata: Record<string, any> = {};
+    const mappedColumns = new Set([
+      mapping.lat, mapping.lng, mapping.intensity, mapping.name, mapping.id,
+      mapping.timestamp, mapping.alertType, mapping.severity, mapping.status, mapping.description,
+      ...(mapping.ignore || [])
+    ]);
+
+    // Keep unmapped columns instead of discarding them
+    Object.entries(rowData).forEach(([column, value]) => {
+      if (!mappedColumns.has(column) && value !== '') {
+        metadata[column] = value;
+      }
+    });
+
+    if (mapping.timestamp && rowData[mapping.timestamp]) {
+      const date = parseTimestamp(rowData[mapping.timestamp], mapping.timestampFormat, mapping.timezone);
+      if (!date) {
+        throw new Error(`Invalid timestamp "${rowData[mapping.timestamp]}"`);
+      }
+      metadata.timestamp = date.toISOString();
+    }
+
+    if (mapping.alertType && rowData[mapping.alertType]) {
+      metadata.alertType = rowData[mapping.alertType];
+      // Add processed alertType to metadata for marker styling
+      metadata.processedAlertType = rowData[mapping.alertType];
+    }
+
+    if (mapping.severity && rowData[mapping.severity]) {
+      const severity = this.parseCSVNumber(rowData[mapping.severity]);
+      metadata.severity = isNaN(severity) ? rowData[mapping.severity] : severity;
+    }
+
+    if (mapping.status && rowData[mapping.status]) {
+      metadata.status = rowData[mapping.status];
+    }
+
+    if (mapping.description && rowData[mapping.description]) {
+      metadata.description = rowData[mapping.description];
+    }
+
     const location: Location = {
       id: mapping.id ? rowData[mapping.id] : rowNumber,
       name: mapping.name ? rowData[mapping.name] : undefined,
       coordinates,
-      intensity: mapping.intensity ? parseFloat(rowData[mapping.intensity]) || undefined : undefined
+      intensity: mapping.intensity ? this.parseCSVNumber(rowData[mapping.intensity]) || undefined : undefined,
+      ...(Object.keys(metadata).length > 0 && { metadata })
     };
 
     return location;
   }
 
   /**
-   * Parse a CSV line respecting quoted values
+   * Parse a numeric CSV value, accepting a decimal comma (e.g. "50,4501")
    */
-  private static parseCSVLine(line: string, delimiter: string): string[] {
-    const values: string[] = [];
-    let current = '';
-    let inQuotes = false;
-    let quoteChar = '';
-
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-      
-      if ((char === '"' || char === "'") && !inQuotes) {
-        inQuotes = true;
-        quoteChar = char;
-      } else if (char === quoteChar && inQuotes) {
-        inQuotes = false;
-        quoteChar = '';
-      } else if (char === delimiter && !inQuotes) {
-        values.push(current.trim());
-        current = '';
-      } else {
-        current += char;
-      }
-    }
-    
-    values.push(current.trim());
-    return values.map(v => v.replace(/^["']|["']$/g, ''));
+  private static parseCSVNumber(value: string | undefined): number {
+    return parseFloat((value ?? '').replace(',', '.'));
   }
 
   /**
@@ -0,0 +1,27 @@
+/**
+ * Web Worker entry point that runs FileLoader parsing off the main thread
+ */
+
+import { FileLoader, type FileLoadOptions } from './fileLoader';
+import type { FileLoaderWorkerRequest, FileLoaderWorkerResponse } from './backgroundFileLoader';
+
+self.onmessage = async (event: MessageEvent<FileLoaderWorkerRequest>) => {
+  const request = event.data;
+  const options: FileLoadOptions = {
+    ...request.options,
+    onProgress: (progress) => post({ type: 'progress', progress })
+  };
+
+  try {
+    const result = request.source === 'file'
+      ? await FileLoader.loadFromFile(request.file, options)
+      : await FileLoader.loadFromUrl(request.url, options);
+    post({ type: 'result', result });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : 'Unknown error' });
+  }
+};
+
+function post(message: FileLoaderWorkerResponse): void {
+  self.postMessage(message);
+}
@@ -114,3 +114,178 @@ export function filterLocationsByBounds(
     loc.coordinates.lng >= bounds.west
   );
 }
+
+/**
+ * Sample points along a polyline at a fixed spacing
+ * @param path Ordered line vertices
+ * @param spacingKm Distance between samples in kilometers
+ * @returns Sampled points including both line ends
+ */
+export function samplePointsAlongLine(path: Coordinate[], spacingKm: number): Coordinate[] {
+  if (path.length < 2 || spacingKm <= 0) return [...path];
+
+  const samples: Coordinate[] = [path[0]];
+  let carried = 0; // Distance walked since the last sample
+
+  for (let i = 1; i < path.length; i++) {
+    const start = path[i - 1];
+    const end = path[i];
+    const segmentLength = calculateDistance(start, end);
+    let position = spacingKm - carried;
+
+    while (position <= segmentLength) {
+      const ratio = position / segmentLength;
+      samples.push({
+        lat: start.lat + (end.lat - start.lat) * ratio,
+        lng: start.lng + (end.lng - start.lng) * ratio
+      });
+      position += spacingKm;
+    }
+
+    carried = segmentLength - (position - spacingKm);
+  }
+
+  const last = path[path.length - 1];
+  const lastSample = samples[samples.length - 1];
+  if (lastSample.lat !== last.lat || lastSample.lng !== last.lng) {
+    samples.push(last);
+  }
+
+  return samples;
+}
+
+/**
+ * Checks whether a point lies inside a ring (ray casting)
+ */
+export function isPointInRing(point: Coordinate, ring: Coordinate[]): boolean {
+  let inside = false;
+
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const a = ring[i];
+    const b = ring[j];
+
+    if ((a.lat > point.lat) !== (b.lat > point.lat) &&
+        point.lng < (b.lng - a.lng) * (point.lat - a.lat) / (b.lat - a.lat) + a.lng) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+}
+
+/**
+ * Checks whether a point lies inside a polygon given as outer ring followed by holes
+ */
+export function isPointInPolygonRings(point: Coordinate, rings: Coordinate[][]): boolean {
+  if (rings.length === 0 || !isPointInRing(point, rings[0])) return false;
+  return !rings.slice(1).some(hole => isPointInRing(point, hole));
+}
+
+/**
+ * Calculates the approximate area of a ring in square kilometers
+ */
+export function calculateRingArea(ring: Coordinate[]): number {
+  if (ring.length < 3) return 0;
+
+  // Equirectangular projection around the ring's mean latitude
+  const meanLat = ring.reduce((sum, coord) => sum + coord.lat, 0) / ring.length;
+  const kmPerDegLat = 111.32;
+  const kmPerDegLng = 111.32 * Math.cos(toRadians(meanLat));
+  let area = 0;
+
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    area += (ring[j].lng * kmPerDegLng) * (ring[i].lat * kmPerDegLat) -
+            (ring[i].lng * kmPerDegLng) * (ring[j].lat * kmPerDegLat);
+  }
+
+  return Math.abs(area / 2);
+}
+
+/**
+ * Calculates the area of a polygon with holes in square kilometers
+ */
+export function calculatePolygonArea(rings: Coordinate[][]): number {
+  if (rings.length === 0) return 0;
+
+  const holesArea = rings.slice(1).reduce((sum, hole) => sum + calculateRingArea(hole), 0);
+  return Math.max(0, calculateRingArea(rings[0]) - holesArea);
+}
+
+/**
+ * Calculates the area-weighted centroid of a ring
+ */
+export function calculateRingCentroid(ring: Coordinate[]): Coordinate {
+  let twiceArea = 0;
+  let lat = 0;
+  let lng = 0;
+
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const cross = ring[j].lng * ring[i].lat - ring[i].lng * ring[j].lat;
+    twiceArea += cross;
+    lng += (ring[j].lng + ring[i].lng) * cross;
+    lat += (ring[j].lat + ring[i].lat) * cross;
+  }
+
+  // Degenerate ring: fall back to the vertex average
+  if (Math.abs(twiceArea) < 1e-12) {
+    return {
+      lat: ring.reduce((sum, coord) => sum + coord.lat, 0) / ring.length,
+      lng: ring.reduce((sum, coord) => sum + coord.lng, 0) / ring.length
+    };
+  }
+
+  return {
+    lat: lat / (3 * twiceArea),
+    lng: lng / (3 * twiceArea)
+  };
+}
+
+/**
+ * Samples points on a regular grid inside a set of polygons, so that each
+ * polygon receives a share of the samples proportional to its area
+ * @param polygons Polygons as outer ring followed by holes
+ * @param sampleCount Approximate total number of samples
+ */
+export function samplePointsInPolygons(polygons: Coordinate[][][], sampleCount: number): Coordinate[] {
+  const totalArea = polygons.reduce((sum, rings) => sum + calculatePolygonArea(rings), 0);
+  if (totalArea === 0 || sampleCount <= 0) return [];
+
+  // Grid cell size (km) that yields roughly sampleCount cells over the total area
+  const cellSizeKm = Math.sqrt(totalArea / sampleCount);
+  const samples: Coordinate[] = [];
+
+  polygons.forEach(rings => {
+    const outer = rings[0];
+    if (!outer || outer.length < 3) return;
+
+    const bounds = outer.reduce(
+      (acc, coord) => ({
+        north: Math.max(acc.north, coord.lat),
+        south: Math.min(acc.south, coord.lat),
+        east: Math.max(acc.east, coord.lng),
+        west: Math.min(acc.west, coord.lng)
+      }),
+      { north: -90, south: 90, east: -180, west: 180 }
+    );
+
+    const samplesBefore = samples.length;
+    const latStep = cellSizeKm / 111.32;
+    const lngStep = cellSizeKm / (111.32 * Math.cos(toRadians((bounds.north + bounds.south) / 2)));
+
+    for (let lat = bounds.south + latStep / 2; lat < bounds.north; lat += latStep) {
+      for (let lng = bounds.west + lngStep / 2; lng < bounds.east; lng += lngStep) {
+        const point = { lat, lng };
+        if (isPointInPolygonRings(point, rings)) {
+          samples.push(point);
+        }
+      }
+    }
+
+    // Polygons smaller than a grid cell still get represented by their centroid
+    if (samples.length === samplesBefore) {
+      samples.push(calculateRingCentroid(outer));
+    }
+  });
+
+  return samples;
+}
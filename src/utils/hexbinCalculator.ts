@@ -0,0 +1,98 @@
+import type { Location, Coordinate, DensityConfig, HexbinCell } from '../types';
+import { DensityCalculator } from './densityCalculator';
+
+const METERS_PER_DEGREE_LAT = 111320;
+const EARTH_CIRCUMFERENCE_METERS = 40075016.686;
+
+/**
+ * Utility class for aggregating locations into pointy-top hexagons
+ */
+export class HexbinCalculator {
+
+  /**
+   * Bin locations into hexagons
+   * @param radius Hexagon size in meters, center to corner
+   * @param method Aggregation of intensities, as in DensityConfig
+   */
+  public static calculateHexbins(
+    locations: Location[],
+    radius: number,
+    method: DensityConfig['aggregationMethod'] = 'count'
+  ): HexbinCell[] {
+    const validLocations = locations.filter(location => location.coordinates);
+    if (validLocations.length === 0 || radius <= 0) return [];
+
+    // Equirectangular projection around the data's mean latitude
+    const referenceLat = validLocations.reduce((sum, location) => sum + location.coordinates.lat, 0) / validLocations.length;
+    const metersPerDegreeLng = METERS_PER_DEGREE_LAT * Math.cos(referenceLat * Math.PI / 180);
+
+    const bins = new Map<string, { q: number; r: number; locations: Location[] }>();
+
+    validLocations.forEach(location => {
+      const x = location.coordinates.lng * metersPerDegreeLng;
+      const y = location.coordinates.lat * METERS_PER_DEGREE_LAT;
+      const [q, r] = this.toHex(x, y, radius);
+
+      const key = `${q},${r}`;
+      if (!bins.has(key)) {
+        bins.set(key, { q, r, locations: [] });
+      }
+      bins.get(key)!.locations.push(location);
+    });
+
+    return Array.from(bins.values()).map(bin => {
+      const centerX = radius * Math.sqrt(3) * (bin.q + bin.r / 2);
+      const centerY = radius * 1.5 * bin.r;
+
+      const vertices: Coordinate[] = [];
+      for (let i = 0; i < 6; i++) {
+        const angle = (90 - 60 * i) * Math.PI / 180;
+        vertices.push({
+          lat: (centerY + radius * Math.sin(angle)) / METERS_PER_DEGREE_LAT,
+          lng: (centerX + radius * Math.cos(angle)) / metersPerDegreeLng
+        });
+      }
+
+      return {
+        center: { lat: centerY / METERS_PER_DEGREE_LAT, lng: centerX / metersPerDegreeLng },
+        vertices,
+        count: bin.locations.length,
+        value: DensityCalculator.calculateCellValue(bin.locations, method || 'count'),
+        locations: bin.locations
+      };
+    });
+  }
+
+  /**
+   * Meters covered by one screen pixel at a zoom level and latitude
+   */
+  public static metersPerPixel(zoom: number, lat: number): number {
+    return EARTH_CIRCUMFERENCE_METERS * Math.cos(lat * Math.PI / 180) / Math.pow(2, zoom + 8);
+  }
+
+  /**
+   * Axial coordinates of the hexagon containing a projected point
+   */
+  private static toHex(x: number, y: number, radius: number): [number, number] {
+    const q = (Math.sqrt(3) / 3 * x - y / 3) / radius;
+    const r = (2 / 3 * y) / radius;
+
+    // Round in cube coordinates, fixing the component with the largest error
+    const s = -q - r;
+    let roundedQ = Math.round(q);
+    let roundedR = Math.round(r);
+    const roundedS = Math.round(s);
+
+    const qDiff = Math.abs(roundedQ - q);
+    const rDiff = Math.abs(roundedR - r);
+    const sDiff = Math.abs(roundedS - s);
+
+    if (qDiff > rDiff && qDiff > sDiff) {
+      roundedQ = -roundedR - roundedS;
+    } else if (rDiff > sDiff) {
+      roundedR = -roundedQ - roundedS;
+    }
+
+    return [roundedQ, roundedR];
+  }
+}
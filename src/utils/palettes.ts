@@ -0,0 +1,223 @@
+/**
+ * Shared color palettes for gradients, color scales and categories
+ */
+
+export type PaletteKind = 'sequential' | 'diverging' | 'categorical';
+
+/**
+ * Named list of hex colors, ordered from low to high values (or by category)
+ */
+export interface Palette {
+  id: string;
+  name: string;
+  kind: PaletteKind;
+  colors: string[];
+  colorBlindSafe: boolean; // Distinguishable with the common forms of color vision deficiency
+}
+
+export const DEFAULT_SEQUENTIAL_PALETTE = 'ylOrRd';
+export const DEFAULT_HEATMAP_PALETTE = 'heat';
+export const DEFAULT_ALERT_PALETTE = 'alert';
+
+// Alert types in the order categorical palette colors are assigned to them
+export const ALERT_TYPES = ['critical', 'warning', 'danger', 'info', 'success', 'resolved'];
+
+// Light and dark shade per alert type; severity picks a color between them
+export const ALERT_TYPE_COLORS: Record<string, [string, string]> = {
+  critical: ['#ff4444', '#aa0000'],
+  warning: ['#ffaa00', '#ff6600'],
+  danger: ['#ff6b6b', '#cc0000'],
+  info: ['#3498db', '#2980b9'],
+  success: ['#2ecc71', '#27ae60'],
+  resolved: ['#95a5a6', '#7f8c8d']
+};
+
+// ColorBrewer, matplotlib and Paul Tol / Okabe-Ito schemes
+const PALETTES: Palette[] = [
+  // Sequential
+  {
+    id: 'ylOrRd',
+    name: 'Yellow-Orange-Red',
+    kind: 'sequential',
+    colors: ['#ffffcc', '#ffeda0', '#fed976', '#feb24c', '#fd8d3c', '#fc4e2a', '#e31a1c', '#bd0026', '#800026'],
+    colorBlindSafe: true
+  },
+  {
+    id: 'heat',
+    name: 'Classic heat',
+    kind: 'sequential',
+    colors: ['#0000ff', '#00ffff', '#00ff00', '#ffff00', '#ffa500', '#ff0000'],
+    colorBlindSafe: false
+  },
+  {
+    id: 'viridis',
+    name: 'Viridis',
+    kind: 'sequential',
+    colors: ['#440154', '#482878', '#3e4989', '#31688e', '#26828e', '#1f9e89', '#35b779', '#6ece58', '#b5de2b', '#fde725'],
+    colorBlindSafe: true
+  },
+  {
+    id: 'cividis',
+    name: 'Cividis',
+    kind: 'sequential',
+    colors: ['#00224e', '#123570', '#3b496c', '#575d6d', '#707173', '#8a8678', '#a59c74', '#c3b369', '#e1cc55', '#fee838'],
+    colorBlindSafe: true
+  },
+  {
+    id: 'magma',
+    name: 'Magma',
+    kind: 'sequential',
+    colors: ['#000004', '#180f3d', '#440f76', '#721f81', '#9e2f7f', '#cd4071', '#f1605d', '#fd9668', '#feca8d', '#fcfdbf'],
+    colorBlindSafe: true
+  },
+  {
+    id: 'blues',
+    name: 'Blues',
+    kind: 'sequential',
+    colors: ['#f7fbff', '#deebf7', '#c6dbef', '#9ecae1', '#6baed6', '#4292c6', '#2171b5', '#08519c', '#08306b'],
+    colorBlindSafe: true
+  },
+  {
+    id: 'greens',
+    name: 'Greens',
+    kind: 'sequential',
+    colors: ['#f7fcf5', '#e5f5e0', '#c7e9c0', '#a1d99b', '#74c476', '#41ab5d', '#238b45', '#006d2c', '#00441b'],
+    colorBlindSafe: true
+  },
+
+  // Diverging
+  {
+    id: 'rdBu',
+    name: 'Red-Blue',
+    kind: 'diverging',
+    colors: ['#2166ac', '#4393c3', '#92c5de', '#d1e5f0', '#f7f7f7', '#fddbc7', '#f4a582', '#d6604d', '#b2182b'],
+    colorBlindSafe: true
+  },
+  {
+    id: 'puOr',
+    name: 'Purple-Orange',
+    kind: 'diverging',
+    colors: ['#542788', '#8073ac', '#b2abd2', '#d8daeb', '#f7f7f7', '#fee0b6', '#fdb863', '#e08214', '#b35806'],
+    colorBlindSafe: true
+  },
+  {
+    id: 'brBG',
+    name: 'Brown-Teal',
+    kind: 'diverging',
+    colors: ['#01665e', '#35978f', '#80cdc1', '#c7eae5', '#f5f5f5', '#f6e8c3', '#dfc27d', '#bf812d', '#8c510a'],
+    colorBlindSafe: true
+  },
+  {
+    id: 'spectral',
+    name: 'Spectral',
+    kind: 'diverging',
+    colors: ['#3288bd', '#66c2a5', '#abdda4', '#e6f598', '#ffffbf', '#fee08b', '#fdae61', '#f46d43', '#d53e4f'],
+    colorBlindSafe: false
+  },
+
+  // Categorical
+  {
+    id: 'alert',
+    name: 'Alert types',
+    kind: 'categorical',
+    colors: ALERT_TYPES.map(alertType => ALERT_TYPE_COLORS[alertType][0]),
+    colorBlindSafe: false
+  },
+  {
+    id: 'okabeIto',
+    name: 'Okabe-Ito',
+    kind: 'categorical',
+    colors: ['#d55e00', '#e69f00', '#cc79a7', '#0072b2', '#009e73', '#999999', '#56b4e9', '#f0e442'],
+    colorBlindSafe: true
+  },
+  {
+    id: 'tolBright',
+    name: 'Tol bright',
+    kind: 'categorical',
+    colors: ['#ee6677', '#ccbb44', '#aa3377', '#4477aa', '#228833', '#bbbbbb', '#66ccee'],
+    colorBlindSafe: true
+  },
+  {
+    id: 'set1',
+    name: 'Set 1',
+    kind: 'categorical',
+    colors: ['#e41a1c', '#ff7f00', '#984ea3', '#377eb8', '#4daf4a', '#999999', '#a65628', '#f781bf'],
+    colorBlindSafe: false
+  }
+];
+
+/**
+ * Look up a palette
+ */
+export function getPalette(id: string): Palette | undefined {
+  return PALETTES.find(palette => palette.id === id);
+}
+
+/**
+ * Palettes of the given kinds, or all of them
+ */
+export function getPalettes(kinds?: PaletteKind[]): Palette[] {
+  return kinds ? PALETTES.filter(palette => kinds.includes(palette.kind)) : [...PALETTES];
+}
+
+/**
+ * Colors of a palette, optionally reversed; unknown ids fall back to the default sequential palette
+ */
+export function getPaletteColors(id: string, reversed: boolean = false): string[] {
+  const colors = (getPalette(id) || getPalette(DEFAULT_SEQUENTIAL_PALETTE)!).colors;
+  return reversed ? [...colors].reverse() : [...colors];
+}
+
+/**
+ * Heatmap gradient with the palette colors at evenly spaced stops
+ */
+export function getPaletteGradient(id: string, reversed: boolean = false): Record<string, string> {
+  const colors = getPaletteColors(id, reversed);
+  const gradient: Record<string, string> = {};
+  colors.forEach((color, i) => {
+    gradient[(i / (colors.length - 1)).toFixed(2)] = color;
+  });
+  return gradient;
+}
+
+/**
+ * Color at a position between 0 and 1, interpolated between the neighbouring palette colors
+ */
+export function interpolatePaletteColor(colors: string[], position: number): string {
+  if (colors.length === 1) return colors[0];
+
+  const scaled = Math.min(Math.max(position, 0), 1) * (colors.length - 1);
+  const index = Math.min(Math.floor(scaled), colors.length - 2);
+  return interpolateColor(colors[index], colors[index + 1], scaled - index);
+}
+
+/**
+ * Base color per alert type from a categorical palette
+ */
+export function getAlertTypeColors(colors: string[]): Record<string, string> {
+  const alertColors: Record<string, string> = {};
+  ALERT_TYPES.forEach((alertType, i) => {
+    alertColors[alertType] = colors[i % colors.length];
+  });
+  return alertColors;
+}
+
+/**
+ * Interpolate between two hex colors based on factor (0-1)
+ */
+export function interpolateColor(color1: string, color2: string, factor: number): string {
+  const rgb1 = parseHexColor(color1);
+  const rgb2 = parseHexColor(color2);
+
+  return '#' + rgb1
+    .map((channel, i) => Math.round(channel + (rgb2[i] - channel) * factor).toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Red, green and blue channels of a #rrggbb color
+ */
+function parseHexColor(color: string): number[] {
+  const hex = color.replace('#', '');
+  return [0, 2, 4].map(offset => parseInt(hex.substring(offset, offset + 2), 16));
+}
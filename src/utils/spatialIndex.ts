@@ -0,0 +1,164 @@
+import type { Location } from '../types';
+
+export interface SpatialBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+// Maximum entries per tree node
+const NODE_CAPACITY = 16;
+
+interface SpatialNode {
+  bounds: SpatialBounds;
+  children: SpatialNode[]; // Empty for leaves
+  entries: number[]; // Positions of the items, leaves only
+}
+
+// Indexes are cached by array identity, so repeated queries over the same data build once
+const locationIndexes = new WeakMap<Location[], SpatialIndex<Location>>();
+
+/**
+ * Static R-tree over items with bounding boxes, bulk loaded with Sort-Tile-Recursive packing
+ */
+export class SpatialIndex<T> {
+  private items: T[];
+  private itemBounds: (SpatialBounds | null)[];
+  private root: SpatialNode | null;
+
+  /**
+   * Build the tree; items without bounds are left out
+   */
+  constructor(items: T[], getBounds: (item: T) => SpatialBounds | null) {
+    this.items = items;
+    this.itemBounds = items.map(getBounds);
+
+    const leaves: { bounds: SpatialBounds; position: number }[] = [];
+    this.itemBounds.forEach((bounds, position) => {
+      if (bounds) {
+        leaves.push({ bounds, position });
+      }
+    });
+
+    let nodes: SpatialNode[] = SpatialIndex.pack(leaves).map(group => ({
+      bounds: SpatialIndex.union(group.map(leaf => leaf.bounds)),
+      children: [],
+      entries: group.map(leaf => leaf.position)
+    }));
+
+    while (nodes.length > 1) {
+      nodes = SpatialIndex.pack(nodes).map(group => ({
+        bounds: SpatialIndex.union(group.map(node => node.bounds)),
+        children: group,
+        entries: []
+      }));
+    }
+
+    this.root = nodes[0] || null;
+  }
+
+  /**
+   * Index of locations by their coordinates, cached for the array
+   */
+  static forLocations(locations: Location[]): SpatialIndex<Location> {
+    let index = locationIndexes.get(locations);
+    if (!index) {
+      index = new SpatialIndex(locations, location => location.coordinates
+        ? {
+            north: location.coordinates.lat,
+            south: location.coordinates.lat,
+            east: location.coordinates.lng,
+            west: location.coordinates.lng
+          }
+        : null);
+      locationIndexes.set(locations, index);
+    }
+    return index;
+  }
+
+  /**
+   * Items whose bounds intersect the given bounds (edges inclusive), in their original order
+   */
+  search(bounds: SpatialBounds): T[] {
+    const positions: number[] = [];
+    const stack = this.root && SpatialIndex.intersects(this.root.bounds, bounds) ? [this.root] : [];
+
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      if (node.children.length === 0) {
+        node.entries.forEach(position => {
+          if (SpatialIndex.intersects(this.itemBounds[position]!, bounds)) {
+            positions.push(position);
+          }
+        });
+        continue;
+      }
+      node.children.forEach(child => {
+        if (SpatialIndex.intersects(child.bounds, bounds)) {
+          stack.push(child);
+        }
+      });
+    }
+
+    return positions
+      .sort((a, b) => a - b)
+      .map(position => this.items[position]);
+  }
+
+  /**
+   * Items within a radius in kilometers of a point, by bounding box; callers refine by exact distance
+   */
+  searchRadius(lat: number, lng: number, radiusKm: number): T[] {
+    const latDelta = radiusKm / 111.32;
+    const lngDelta = radiusKm / (111.32 * Math.max(Math.cos(lat * Math.PI / 180), 1e-6));
+
+    return this.search({
+      north: lat + latDelta,
+      south: lat - latDelta,
+      east: lng + lngDelta,
+      west: lng - lngDelta
+    });
+  }
+
+  /**
+   * Group elements into tiles of at most NODE_CAPACITY, sliced by longitude then latitude
+   */
+  private static pack<E extends { bounds: SpatialBounds }>(elements: E[]): E[][] {
+    const centerLng = (element: E) => (element.bounds.east + element.bounds.west) / 2;
+    const centerLat = (element: E) => (element.bounds.north + element.bounds.south) / 2;
+
+    const tileCount = Math.ceil(elements.length / NODE_CAPACITY);
+    const sliceSize = Math.ceil(Math.sqrt(tileCount)) * NODE_CAPACITY;
+    const sorted = [...elements].sort((a, b) => centerLng(a) - centerLng(b));
+    const groups: E[][] = [];
+
+    for (let i = 0; i < sorted.length; i += sliceSize) {
+      const slice = sorted.slice(i, i + sliceSize).sort((a, b) => centerLat(a) - centerLat(b));
+      for (let j = 0; j < slice.length; j += NODE_CAPACITY) {
+        groups.push(slice.slice(j, j + NODE_CAPACITY));
+      }
+    }
+
+    return groups;
+  }
+
+  /**
+   * Bounds covering all the given bounds
+   */
+  private static union(boundsList: SpatialBounds[]): SpatialBounds {
+    return boundsList.reduce((union, bounds) => ({
+      north: Math.max(union.north, bounds.north),
+      south: Math.min(union.south, bounds.south),
+      east: Math.max(union.east, bounds.east),
+      west: Math.min(union.west, bounds.west)
+    }));
+  }
+
+  /**
+   * Whether two bounds overlap or touch
+   */
+  private static intersects(a: SpatialBounds, b: SpatialBounds): boolean {
+    return a.south <= b.north && a.north >= b.south && a.west <= b.east && a.east >= b.west;
+  }
+}
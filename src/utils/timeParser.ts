@@ -0,0 +1,199 @@
+/**
+ * Timestamp parsing with explicit formats and time zones
+ */
+
+/**
+ * Tokens understood in timestamp format strings, e.g. "DD.MM.YYYY HH:mm"
+ */
+const FORMAT_TOKENS: Record<string, string> = {
+  YYYY: '(\\d{4})',
+  MM: '(\\d{1,2})',
+  DD: '(\\d{1,2})',
+  HH: '(\\d{1,2})',
+  mm: '(\\d{1,2})',
+  ss: '(\\d{1,2})',
+  SSS: '(\\d{1,3})'
+};
+
+type DateField = 'YYYY' | 'MM' | 'DD' | 'HH' | 'mm' | 'ss' | 'SSS';
+
+// Epoch values taken as seconds or milliseconds when no format is given (1973 to 5138)
+const EPOCH_SECONDS_RANGE = [1e8, 1e11];
+const EPOCH_MILLISECONDS_RANGE = [1e11, 1e14];
+
+// Compact dates such as 20240115, 202401151030 or 20240115103000
+const COMPACT_DATE = /^(19|20)\d{2}(0[1-9]|1[0-2])(0[1-9]|[12]\d|3[01])(\d{4}|\d{6})?$/;
+
+/**
+ * Parse a timestamp string into a Date
+ * @param value Raw timestamp
+ * @param format Format string built from YYYY, MM, DD, HH, mm, ss, SSS; or 'unix' (seconds),
+ *   'unix_ms' (milliseconds), 'iso'. Auto-detected when omitted.
+ * @param timeZone Zone for values without an explicit offset: 'UTC', '+02:00' or an IANA
+ *   name such as 'Europe/Kyiv'. The browser's local zone is used when omitted.
+ * @returns The parsed date, or null if the value cannot be parsed
+ */
+export function parseTimestamp(value: string, format?: string, timeZone?: string): Date | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  const normalizedFormat = format?.trim();
+
+  if (normalizedFormat === 'unix' || normalizedFormat === 'unix_ms') {
+    const number = Number(trimmed);
+    if (isNaN(number)) return null;
+    return new Date(normalizedFormat === 'unix' ? number * 1000 : number);
+  }
+
+  if (normalizedFormat && normalizedFormat !== 'iso') {
+    return parseWithFormat(trimmed, normalizedFormat, timeZone);
+  }
+
+  // Plain numbers are compact dates, or epoch seconds or milliseconds within a plausible range
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    if (COMPACT_DATE.test(trimmed)) {
+      return parseWithFormat(trimmed, 'YYYYMMDDHHmmss', timeZone);
+    }
+
+    const number = Number(trimmed);
+    if (number >= EPOCH_SECONDS_RANGE[0] && number < EPOCH_SECONDS_RANGE[1]) return new Date(number * 1000);
+    if (number >= EPOCH_MILLISECONDS_RANGE[0] && number < EPOCH_MILLISECONDS_RANGE[1]) return new Date(number);
+    return null;
+  }
+
+  // Day-first dates as commonly written in Ukraine/Europe
+  if (!normalizedFormat && /^\d{1,2}\.\d{1,2}\.\d{4}/.test(trimmed)) {
+    return parseWithFormat(trimmed, 'DD.MM.YYYY HH:mm:ss', timeZone);
+  }
+
+  if (hasExplicitOffset(trimmed) || !timeZone) {
+    const date = new Date(trimmed);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  // ISO-like value without offset: interpret its wall-clock time in the given zone
+  return parseWithFormat(trimmed.replace('T', ' '), 'YYYY-MM-DD HH:mm:ss.SSS', timeZone);
+}
+
+/**
+ * Check whether a zone is accepted by parseTimestamp: 'UTC', a '+02:00' offset or a known IANA name
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  if (/^(UTC|Z)$/i.test(timeZone) || /^[+-]\d{2}:?\d{2}$/.test(timeZone)) return true;
+
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parse a value according to a token format string
+ */
+function parseWithFormat(value: string, format: string, timeZone?: string): Date | null {
+  const fields: DateField[] = [];
+  const tokenRegex = /YYYY|SSS|MM|DD|HH|mm|ss/g;
+  let pattern = '';
+  let optionalGroups = 0;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  // Everything after the date part is optional, so "DD.MM.YYYY HH:mm:ss" also accepts "DD.MM.YYYY"
+  while ((match = tokenRegex.exec(format)) !== null) {
+    const literal = escapeRegExp(format.slice(lastIndex, match.index));
+    if (fields.length >= 3) {
+      pattern += `(?:${literal}`;
+      optionalGroups++;
+    } else {
+      pattern += literal;
+    }
+    pattern += FORMAT_TOKENS[match[0]];
+    fields.push(match[0] as DateField);
+    lastIndex = match.index + match[0].length;
+  }
+  pattern += ')?'.repeat(optionalGroups) + escapeRegExp(format.slice(lastIndex));
+
+  const result = new RegExp(`^${pattern}\\s*$`).exec(value);
+  if (!result) return null;
+
+  const parts: Record<DateField, number> = { YYYY: 1970, MM: 1, DD: 1, HH: 0, mm: 0, ss: 0, SSS: 0 };
+  fields.forEach((field, index) => {
+    const raw = result[index + 1];
+    if (raw !== undefined) parts[field] = Number(field === 'SSS' ? raw.padEnd(3, '0') : raw);
+  });
+
+  if (parts.MM < 1 || parts.MM > 12 || parts.DD < 1 || parts.DD > 31 || parts.HH > 23 || parts.mm > 59 || parts.ss > 59) {
+    return null;
+  }
+
+  const wallClock = Date.UTC(parts.YYYY, parts.MM - 1, parts.DD, parts.HH, parts.mm, parts.ss, parts.SSS);
+  const date = new Date(toUTC(wallClock, timeZone));
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Escape a literal for use inside a regular expression
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Check whether a date string carries its own zone (Z or ±HH:MM)
+ */
+function hasExplicitOffset(value: string): boolean {
+  return /(Z|[+-]\d{2}:?\d{2})$/i.test(value);
+}
+
+/**
+ * Convert a wall-clock time (expressed as if it were UTC) in the given zone to a UTC epoch
+ */
+function toUTC(wallClock: number, timeZone?: string): number {
+  if (!timeZone) {
+    // Browser local time
+    const local = new Date(wallClock);
+    return new Date(
+      local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate(),
+      local.getUTCHours(), local.getUTCMinutes(), local.getUTCSeconds(), local.getUTCMilliseconds()
+    ).getTime();
+  }
+
+  if (timeZone.toUpperCase() === 'UTC' || timeZone.toUpperCase() === 'Z') {
+    return wallClock;
+  }
+
+  const offsetMatch = /^([+-])(\d{2}):?(\d{2})$/.exec(timeZone);
+  if (offsetMatch) {
+    const sign = offsetMatch[1] === '+' ? 1 : -1;
+    const offsetMinutes = sign * (Number(offsetMatch[2]) * 60 + Number(offsetMatch[3]));
+    return wallClock - offsetMinutes * 60 * 1000;
+  }
+
+  // IANA zone: the offset may differ across a DST change, so correct once
+  const guess = wallClock - getTimeZoneOffset(timeZone, wallClock);
+  return wallClock - getTimeZoneOffset(timeZone, guess);
+}
+
+/**
+ * Offset of an IANA zone from UTC in milliseconds at the given instant
+ */
+function getTimeZoneOffset(timeZone: string, instant: number): number {
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  });
+
+  const parts = formatter.formatToParts(new Date(instant));
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value);
+  const asUTC = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+
+  return asUTC - Math.floor(instant / 1000) * 1000;
+}
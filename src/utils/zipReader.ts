@@ -0,0 +1,100 @@
+/**
+ * Minimal ZIP archive reader used for zipped formats such as KMZ
+ */
+
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50;
+
+/**
+ * Entry listed in the archive's central directory
+ */
+export interface ZipEntry {
+  name: string;
+  compressionMethod: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+}
+
+/**
+ * List all entries of a ZIP archive
+ */
+export function listZipEntries(buffer: ArrayBuffer): ZipEntry[] {
+  const view = new DataView(buffer);
+  const eocdOffset = findEndOfCentralDirectory(view);
+
+  if (eocdOffset < 0) {
+    throw new Error('Not a valid ZIP archive');
+  }
+
+  const entryCount = view.getUint16(eocdOffset + 10, true);
+  let offset = view.getUint32(eocdOffset + 16, true);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_SIGNATURE) {
+      throw new Error('Corrupted ZIP central directory');
+    }
+
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+
+    entries.push({
+      name: decoder.decode(new Uint8Array(buffer, offset + 46, nameLength)),
+      compressionMethod: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      uncompressedSize: view.getUint32(offset + 24, true),
+      localHeaderOffset: view.getUint32(offset + 42, true)
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Extract a single entry from a ZIP archive as raw bytes
+ */
+export async function extractZipEntry(buffer: ArrayBuffer, entry: ZipEntry): Promise<Uint8Array> {
+  const view = new DataView(buffer);
+  const offset = entry.localHeaderOffset;
+
+  if (view.getUint32(offset, true) !== LOCAL_FILE_HEADER_SIGNATURE) {
+    throw new Error(`Corrupted ZIP entry "${entry.name}"`);
+  }
+
+  const nameLength = view.getUint16(offset + 26, true);
+  const extraLength = view.getUint16(offset + 28, true);
+  const dataStart = offset + 30 + nameLength + extraLength;
+  const data = new Uint8Array(buffer, dataStart, entry.compressedSize);
+
+  switch (entry.compressionMethod) {
+    case 0: // Stored
+      return data.slice();
+    case 8: { // Deflate
+      const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+      return new Uint8Array(await new Response(stream).arrayBuffer());
+    }
+    default:
+      throw new Error(`Unsupported ZIP compression method ${entry.compressionMethod} in "${entry.name}"`);
+  }
+}
+
+/**
+ * Locate the End Of Central Directory record, scanning back over an optional comment
+ */
+function findEndOfCentralDirectory(view: DataView): number {
+  const minOffset = Math.max(0, view.byteLength - 22 - 0xffff);
+
+  for (let offset = view.byteLength - 22; offset >= minOffset; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      return offset;
+    }
+  }
+
+  return -1;
+}
@@ -0,0 +1,508 @@
+import L from 'leaflet';
+import type { ChoroplethClass, ClassificationMethod, DensityConfig, Location } from '../types';
+import {
+  calculateDistrictDensities,
+  getBoundaryNumericFields,
+  getBoundarySet,
+  getNormalizationUnit,
+  KYIV_BOUNDARY_SET_ID,
+  type BoundaryFeature,
+  type DistrictNormalization,
+  type DistrictStats
+} from '../data/boundarySets';
+import { BoundarySetControl } from '../components/BoundarySetControl';
+import { ClassificationCalculator } from '../utils/classificationCalculator';
+import { DensityCalculator } from '../utils/densityCalculator';
+import { DEFAULT_SEQUENTIAL_PALETTE, getPaletteColors } from '../utils/palettes';
+import { escapeHtml, injectCSS } from '../utils/htmlUtils';
+import { PalettePicker } from '../components/PalettePicker';
+import type { VisualizationContext, VisualizationModule } from './types';
+
+/**
+ * Density visualization configuration
+ */
+export interface DensityVisualizationConfig {
+  boundarySet: string; // Id of the boundary set whose areas are aggregated
+  normalization: DistrictNormalization; // What district colors and labels are relative to
+  denominatorField: string; // Feature property for the 'field' normalization; first numeric one when empty
+  showLabels: boolean; // Label every district instead of only clicked ones
+  showPopulation: boolean;
+  palette: string; // Palette the color scale was built from
+  reversePalette: boolean;
+  colorScale: string[];
+  classification: ClassificationMethod; // How values are split into color classes
+  classCount: number;
+  manualBreaks: string; // Class upper bounds for the 'manual' method, e.g. '1, 5, 10'
+  showGrid: boolean; // Aggregate into a rectangular grid instead of districts
+  autoGridSize: boolean; // Pick the number of cells from the number of points
+  cellsPerSide: number; // Grid cells along each side of the data bounds
+  aggregationMethod: NonNullable<DensityConfig['aggregationMethod']>; // Grid cell value
+}
+
+const AGGREGATION_LABELS: Record<DensityVisualizationConfig['aggregationMethod'], string> = {
+  count: 'Points per cell',
+  sum: 'Sum of intensity per cell',
+  average: 'Average intensity per cell'
+};
+
+// Fill of districts missing the normalization denominator
+const NO_DATA_COLOR = '#cccccc';
+
+/**
+ * Density analysis based on administrative boundaries
+ */
+export const densityVisualization: VisualizationModule<DensityVisualizationConfig> = {
+  type: 'density',
+  label: 'Density',
+  title: '🏙️ Density Visualization',
+  description: 'Density analysis based on administrative boundaries (Kyiv districts or your own GeoJSON) or a rectangular grid',
+  defaultConfig: {
+    boundarySet: KYIV_BOUNDARY_SET_ID,
+    normalization: 'area',
+    denominatorField: '',
+    showLabels: false,
+    showPopulation: true,
+    palette: DEFAULT_SEQUENTIAL_PALETTE,
+    reversePalette: false,
+    colorScale: getPaletteColors(DEFAULT_SEQUENTIAL_PALETTE),
+    classification: 'jenks',
+    classCount: 5,
+    manualBreaks: '',
+    showGrid: false,
+    autoGridSize: true,
+    cellsPerSide: 20,
+    aggregationMethod: 'count'
+  },
+  controls: [
+    {
+      type: 'select',
+      key: 'normalization',
+      label: 'District Value',
+      options: [
+        { value: 'count', label: 'Raw count' },
+        { value: 'area', label: 'Per km²' },
+        { value: 'population', label: 'Per 1,000 residents' },
+        { value: 'field', label: 'Per custom field' }
+      ]
+    },
+    {
+      type: 'select',
+      key: 'classification',
+      label: 'Classes',
+      options: [
+        { value: 'equalInterval', label: 'Equal interval' },
+        { value: 'quantile', label: 'Quantile' },
+        { value: 'jenks', label: 'Natural breaks (Jenks)' },
+        { value: 'stdDev', label: 'Standard deviation' },
+        { value: 'manual', label: 'Manual breaks' }
+      ]
+    },
+    { type: 'range', key: 'classCount', label: 'Class Count', min: 2, max: 9 },
+    { type: 'text', key: 'manualBreaks', label: 'Manual Breaks', placeholder: 'e.g. 1, 5, 10' },
+    { type: 'checkbox', key: 'showLabels', label: 'Show Labels' },
+    { type: 'checkbox', key: 'showPopulation', label: 'Show Population' },
+    { type: 'checkbox', key: 'showGrid', label: 'Grid Aggregation' },
+    { type: 'checkbox', key: 'autoGridSize', label: 'Optimal Cell Count' },
+    { type: 'range', key: 'cellsPerSide', label: 'Cells per Side', min: 5, max: 50 },
+    {
+      type: 'select',
+      key: 'aggregationMethod',
+      label: 'Cell Value',
+      options: [
+        { value: 'count', label: 'Count' },
+        { value: 'sum', label: 'Sum of intensity' },
+        { value: 'average', label: 'Average intensity' }
+      ]
+    }
+  ],
+
+  createControls(container, config, onChange) {
+    injectCSS('boundary-set-styles', BoundarySetControl.getCSS());
+    injectCSS('palette-picker-styles', PalettePicker.getCSS());
+
+    const fieldLabel = document.createElement('label');
+    fieldLabel.innerHTML = 'Custom Field: <select id="density-denominatorField"></select>';
+    const fieldSelect = fieldLabel.querySelector('select') as HTMLSelectElement;
+
+    // List the numeric properties of the selected set, keeping the chosen field when it exists
+    const updateFields = (boundarySetId: string, preferred: string = fieldSelect.value) => {
+      const boundarySet = getBoundarySet(boundarySetId) || getBoundarySet(KYIV_BOUNDARY_SET_ID)!;
+      const fields = getBoundaryNumericFields(boundarySet);
+      const selected = fields.includes(preferred) ? preferred : fields[0] || '';
+      fieldSelect.replaceChildren(...(fields.length > 0
+        ? fields.map(field => new Option(field, field))
+        : [new Option('No numeric properties', '')]));
+      fieldSelect.value = selected;
+      return selected;
+    };
+
+    new BoundarySetControl(container, config.boundarySet, boundarySet => {
+      onChange({ boundarySet, denominatorField: updateFields(boundarySet) });
+    });
+
+    container.appendChild(fieldLabel);
+    updateFields(config.boundarySet, config.denominatorField);
+    fieldSelect.addEventListener('change', () => onChange({ denominatorField: fieldSelect.value }));
+
+    new PalettePicker(container, 'density', ['sequential', 'diverging'], config.palette, config.reversePalette,
+      (palette, reversePalette) => onChange({ palette, reversePalette, colorScale: getPaletteColors(palette, reversePalette) }));
+  },
+
+  setup(context) {
+    // Districts whose label the user opened by clicking, keyed by set and feature
+    context.state.labelledDistricts = new Set<string>();
+  },
+
+  render(data, config, context) {
+    if (config.showGrid) {
+      renderGrid(data, config, context);
+    } else {
+      renderDistricts(data, config, context);
+    }
+  },
+
+  renderLegend(config, context) {
+    const classes: ChoroplethClass[] = context.state.classes || [];
+    const title = config.showGrid
+      ? AGGREGATION_LABELS[config.aggregationMethod]
+      : `${config.normalization === 'area' ? 'Density' : 'Rate'} (${escapeHtml(getNormalizationUnit(config.normalization, context.state.denominatorField))})`;
+    const format = (value: number) => config.showGrid
+      ? value.toFixed(config.aggregationMethod === 'count' ? 0 : 1)
+      : formatRate(value, config.normalization);
+
+    let legendHtml = `<strong style="color: #333;">${title}</strong><br>`;
+
+    // One entry per class: value range and number of areas or cells
+    classes.forEach((choroplethClass, i) => {
+      const color = ClassificationCalculator.getClassColor(i, classes.length, config.colorScale);
+      legendHtml += `
+        <div style="margin: 2px 0; color: #333;">
+          <span style="
+            display: inline-block;
+            width: 20px;
+            height: 12px;
+            background: ${color};
+            border: 1px solid #666;
+            margin-right: 5px;
+            vertical-align: middle;
+          "></span>
+          ${format(choroplethClass.min)} – ${format(choroplethClass.max)}
+          <span style="color: #666;">(${choroplethClass.count})</span>
+        </div>
+      `;
+    });
+
+    if (!config.showGrid && context.state.noDataCount > 0) {
+      legendHtml += `
+        <div style="margin: 2px 0; color: #333;">
+          <span style="
+            display: inline-block;
+            width: 20px;
+            height: 12px;
+            background: ${NO_DATA_COLOR};
+            border: 1px solid #666;
+            margin-right: 5px;
+            vertical-align: middle;
+          "></span>
+          No data (${context.state.noDataCount})
+        </div>
+      `;
+    }
+
+    if (!config.showGrid && context.state.boundarySetName) {
+      legendHtml += `<div style="margin-top: 4px; font-size: 11px; color: #666;">${escapeHtml(context.state.boundarySetName)}</div>`;
+
+      // Points the choropleth cannot show
+      const { outsideCount, gapCount } = context.state;
+      if (outsideCount > 0) {
+        legendHtml += `<div style="font-size: 11px; color: #c0392b;">${outsideCount} points outside all areas</div>`;
+      }
+      if (gapCount > 0) {
+        legendHtml += `<div style="font-size: 11px; color: #c0392b;">${gapCount} points in gaps or holes</div>`;
+      }
+    }
+
+    if (config.showGrid && context.state.cellsPerSide) {
+      legendHtml += `<div style="margin-top: 4px; font-size: 11px; color: #666;">${context.state.cellsPerSide} × ${context.state.cellsPerSide} grid</div>`;
+    }
+
+    return legendHtml;
+  }
+};
+
+/**
+ * Draw the areas of the selected boundary set colored by point density
+ */
+function renderDistricts(data: Location[], config: DensityVisualizationConfig, context: VisualizationContext): void {
+  const { map, layer, state } = context;
+  const labelledDistricts: Set<string> = state.labelledDistricts;
+  const labels = new Map<string, L.Marker>();
+
+  // Fall back to Kyiv districts when a loaded set was removed
+  const boundarySet = getBoundarySet(config.boundarySet) || getBoundarySet(KYIV_BOUNDARY_SET_ID)!;
+  state.boundarySetName = boundarySet.name;
+
+  // Calculate district rates
+  const denominatorField = config.denominatorField || getBoundaryNumericFields(boundarySet)[0];
+  state.denominatorField = denominatorField;
+  const { stats: districtStats, outsideCount, gapCount } =
+    calculateDistrictDensities(data, boundarySet, config.normalization, denominatorField);
+  state.outsideCount = outsideCount;
+  state.gapCount = gapCount;
+
+  // Split the rates into color classes
+  const classes = calculateClasses(districtStats.flatMap(stat => stat.rate === null ? [] : [stat.rate]), config);
+  state.classes = classes;
+  state.noDataCount = districtStats.filter(stat => stat.rate === null).length;
+
+  districtStats.forEach(stat => {
+    const { district, count, density, rate } = stat;
+    const labelKey = `${boundarySet.id}:${district.id}`;
+
+    if (district.polygons.length === 0) {
+      console.warn(`No polygons for district ${district.name}`);
+      return;
+    }
+
+    try {
+      // Polygons with holes - coordinates are already in [lat, lng] format
+      const polygon = L.polygon(district.polygons, {
+        fillColor: rate === null ? NO_DATA_COLOR : getClassColor(rate, classes, config.colorScale),
+        fillOpacity: 0.7,
+        color: '#ffffff',
+        weight: 2,
+        opacity: 0.8
+      });
+
+      // Add popup with district information
+      const populationInfo = config.showPopulation && district.population ?
+        `• Population: <strong>${district.population.toLocaleString()}</strong><br>` : '';
+      const title = district.localName ? `${district.localName} (${district.name})` : district.name;
+      const rateInfo = config.normalization === 'count' || config.normalization === 'area' ? '' :
+        `• Rate: <strong>${rate === null ? 'no data' : `${formatRate(rate, config.normalization)} ${escapeHtml(getNormalizationUnit(config.normalization, denominatorField))}`}</strong><br>`;
+
+      const popupContent = `
+        <div style="min-width: 200px;">
+          <strong>${escapeHtml(title)}</strong><br>
+          <div style="margin-top: 8px;">
+            <strong>📊 Statistics:</strong><br>
+            • Points: <strong>${count}</strong><br>
+            • Area: <strong>${district.area.toFixed(1)} km²</strong><br>
+            • Density: <strong>${density.toFixed(2)} points/km²</strong><br>
+            ${rateInfo}
+            ${populationInfo}
+          </div>
+          <div style="margin-top: 8px; font-size: 0.9em; color: #666;">
+            Click to focus on this area
+          </div>
+        </div>
+      `;
+
+      polygon.bindPopup(popupContent);
+
+      // Add click handler to focus on district and toggle label
+      polygon.on('click', () => {
+        map.fitBounds(polygon.getBounds(), { padding: [20, 20] });
+
+        // Toggle district label on click
+        const existingLabel = labels.get(labelKey);
+        if (existingLabel) {
+          layer.removeLayer(existingLabel);
+          labels.delete(labelKey);
+          labelledDistricts.delete(labelKey);
+        } else {
+          labels.set(labelKey, addDistrictLabel(stat, config, denominatorField, layer));
+          labelledDistricts.add(labelKey);
+        }
+      });
+
+      // Add hover effects
+      polygon.on('mouseover', () => {
+        polygon.setStyle({
+          weight: 3,
+          opacity: 1,
+          fillOpacity: 0.8
+        });
+      });
+
+      polygon.on('mouseout', () => {
+        polygon.setStyle({
+          weight: 2,
+          opacity: 0.8,
+          fillOpacity: 0.7
+        });
+      });
+
+      layer.addLayer(polygon);
+
+      // Restore labels opened before a re-render or tab switch
+      if (config.showLabels || labelledDistricts.has(labelKey)) {
+        labels.set(labelKey, addDistrictLabel(stat, config, denominatorField, layer));
+      }
+    } catch (error) {
+      console.error(`Error creating polygon for ${district.name}:`, error);
+      return;
+    }
+  });
+}
+
+/**
+ * Draw rectangular grid cells colored by their aggregated value
+ */
+function renderGrid(data: Location[], config: DensityVisualizationConfig, context: VisualizationContext): void {
+  const { layer, state } = context;
+  const locations = data.filter(location => location.coordinates);
+  if (locations.length === 0) return;
+
+  const cellsPerSide = config.autoGridSize
+    ? DensityCalculator.calculateOptimalGridSize(locations)
+    : config.cellsPerSide;
+  state.cellsPerSide = cellsPerSide;
+
+  // Keep a minimal extent so a single location or a straight line still forms cells
+  const bounds = DensityCalculator.calculateBounds(locations);
+  if (bounds.north - bounds.south < 0.001) {
+    bounds.north += 0.0005;
+    bounds.south -= 0.0005;
+  }
+  if (bounds.east - bounds.west < 0.001) {
+    bounds.east += 0.0005;
+    bounds.west -= 0.0005;
+  }
+
+  const cells = DensityCalculator.calculateDensityGrid(
+    locations,
+    bounds,
+    { gridSize: cellsPerSide, aggregationMethod: config.aggregationMethod }
+  );
+
+  const classes = calculateClasses(cells.map(cell => cell.value), config);
+  state.classes = classes;
+
+  cells.forEach(cell => {
+    const { bounds } = cell;
+    const rectangle = L.rectangle(
+      [[bounds.south, bounds.west], [bounds.north, bounds.east]],
+      {
+        fillColor: getClassColor(cell.value, classes, config.colorScale),
+        fillOpacity: 0.7,
+        color: '#ffffff',
+        weight: 1,
+        opacity: 0.8
+      }
+    );
+
+    // Approximate cell dimensions for the popup
+    const heightKm = (bounds.north - bounds.south) * 111.32;
+    const widthKm = (bounds.east - bounds.west) * 111.32 * Math.cos(cell.coordinates.lat * Math.PI / 180);
+    const valueInfo = config.aggregationMethod === 'count' ? '' :
+      `• ${config.aggregationMethod === 'sum' ? 'Sum' : 'Average'} of intensity: <strong>${cell.value.toFixed(2)}</strong><br>`;
+
+    rectangle.bindPopup(`
+      <div style="min-width: 180px;">
+        <strong>Grid Cell</strong><br>
+        <div style="margin-top: 8px;">
+          • Points: <strong>${cell.count}</strong><br>
+          ${valueInfo}
+          • Size: <strong>${widthKm.toFixed(2)} × ${heightKm.toFixed(2)} km</strong><br>
+          • Density: <strong>${(cell.count / (widthKm * heightKm)).toFixed(2)} points/km²</strong><br>
+        </div>
+      </div>
+    `);
+
+    rectangle.on('mouseover', () => rectangle.setStyle({ weight: 2, opacity: 1, fillOpacity: 0.8 }));
+    rectangle.on('mouseout', () => rectangle.setStyle({ weight: 1, opacity: 0.8, fillOpacity: 0.7 }));
+
+    layer.addLayer(rectangle);
+  });
+}
+
+/**
+ * Split values into color classes with the configured method
+ */
+function calculateClasses(values: number[], config: DensityVisualizationConfig): ChoroplethClass[] {
+  return ClassificationCalculator.calculateClasses(
+    values,
+    config.classification,
+    config.classCount,
+    ClassificationCalculator.parseBreaks(config.manualBreaks)
+  );
+}
+
+/**
+ * Get the color of the class containing a value
+ */
+function getClassColor(value: number, classes: ChoroplethClass[], colorScale: string[]): string {
+  return ClassificationCalculator.getClassColor(
+    ClassificationCalculator.getClassIndex(value, classes),
+    classes.length,
+    colorScale
+  );
+}
+
+/**
+ * Format a district rate with precision suited to its normalization
+ */
+function formatRate(value: number, normalization: DistrictNormalization): string {
+  if (normalization === 'count') return value.toFixed(0);
+  return value.toFixed(value < 10 ? 2 : 1);
+}
+
+/**
+ * Add a label with district statistics at the district center
+ */
+function addDistrictLabel(
+  stat: DistrictStats,
+  config: DensityVisualizationConfig,
+  denominatorField: string | undefined,
+  layer: L.LayerGroup
+): L.Marker {
+  const { district, count, rate } = stat;
+  const rateSuffix: Record<DistrictNormalization, string> = {
+    count: '',
+    area: '/km²',
+    population: '/1k res.',
+    field: `/${escapeHtml(denominatorField || 'field')}`
+  };
+  const rateLabel = config.normalization === 'count' ? '' :
+    ` (${rate === null ? 'no data' : `${formatRate(rate, config.normalization)}${rateSuffix[config.normalization]}`})`;
+  const populationLabel = config.showPopulation && district.population ?
+    `<br><span style="font-size: 9px; color: #666;">Pop: ${(district.population / 1000).toFixed(0)}k</span>` : '';
+
+  const labelIcon = L.divIcon({
+    className: 'district-label',
+    html: `<div style="
+      background: rgba(255, 255, 255, 0.95);
+      padding: 4px 8px;
+      border-radius: 4px;
+      font-size: 11px;
+      font-weight: bold;
+      color: #333;
+      border: 1px solid #ddd;
+      box-shadow: 0 2px 4px rgba(0,0,0,0.2);
+      white-space: nowrap;
+      text-align: center;
+    ">
+      ${escapeHtml(district.localName || district.name)}
+      <br><span style="font-size: 10px; color: #666;">
+        ${count} pts${rateLabel}
+      </span>
+      ${populationLabel}
+    </div>`,
+    iconSize: [120, 50],
+    iconAnchor: [60, 25]
+  });
+
+  const label = L.marker(getLabelPosition(district), { icon: labelIcon });
+  layer.addLayer(label);
+  return label;
+}
+
+/**
+ * Label position: center of the bounds of the largest part
+ */
+function getLabelPosition(district: BoundaryFeature): L.LatLng {
+  const largest = district.polygons.reduce((best, polygon) =>
+    polygon[0].length > best[0].length ? polygon : best);
+  return L.latLngBounds(largest[0]).getCenter();
+}
@@ -0,0 +1,143 @@
+import L from 'leaflet';
+import 'leaflet.heat';
+import type { WeightTransform } from '../types';
+import { GradientEditor } from '../components/GradientEditor';
+import { injectCSS } from '../utils/htmlUtils';
+import { DataProcessor } from '../utils/dataProcessor';
+import { DEFAULT_HEATMAP_PALETTE, getPaletteGradient } from '../utils/palettes';
+import type { VisualizationModule } from './types';
+
+// Weight selector of the current controls, refilled when the data's fields change
+let weightFieldSelect: HTMLSelectElement | null = null;
+
+/**
+ * Heatmap visualization configuration
+ */
+export interface HeatmapVisualizationConfig {
+  radius: number;
+  maxOpacity: number;
+  intensityMultiplier: number;
+  weightField: string; // 'intensity' or a numeric metadata field
+  weightTransform: WeightTransform;
+  clipPercentile: number; // Weights beyond this percentile at either end are clipped; 100 disables clipping
+  blur: number;
+  minOpacity: number; // Opacity of the faintest heat
+  max: number; // Point intensity drawn at full strength
+  gradient: Record<string, string>;
+}
+
+/**
+ * Classic heatmap using Leaflet.heat for natural organic shapes
+ */
+export const heatmapVisualization: VisualizationModule<HeatmapVisualizationConfig> = {
+  type: 'heatmap',
+  label: 'Heatmap',
+  title: '🔥 Heatmap Visualization',
+  description: 'Classic heatmap rendering showing intensity distribution',
+  defaultConfig: {
+    radius: 50,
+    maxOpacity: 0.8,
+    intensityMultiplier: 2.0,
+    weightField: 'intensity',
+    weightTransform: 'linear',
+    clipPercentile: 100,
+    blur: 15,
+    minOpacity: 0,
+    max: 0.5, // Low for higher sensitivity
+    gradient: getPaletteGradient(DEFAULT_HEATMAP_PALETTE)
+  },
+  controls: [
+    { type: 'range', key: 'radius', label: 'Radius', min: 20, max: 80, unit: 'px' },
+    { type: 'range', key: 'maxOpacity', label: 'Opacity', min: 0.3, max: 1, step: 0.1 },
+    { type: 'range', key: 'intensityMultiplier', label: 'Intensity', min: 0.5, max: 3, step: 0.1, unit: 'x' },
+    {
+      type: 'select',
+      key: 'weightTransform',
+      label: 'Weight Transform',
+      options: [
+        { value: 'linear', label: 'Linear' },
+        { value: 'log', label: 'Log' },
+        { value: 'sqrt', label: 'Square root' },
+        { value: 'rank', label: 'Rank' }
+      ]
+    },
+    { type: 'range', key: 'clipPercentile', label: 'Clip Outliers At', min: 90, max: 100, step: 0.5, unit: '%' },
+    { type: 'range', key: 'blur', label: 'Blur', min: 0, max: 40, unit: 'px' },
+    { type: 'range', key: 'minOpacity', label: 'Min Opacity', min: 0, max: 0.5, step: 0.05 },
+    { type: 'range', key: 'max', label: 'Max Value', min: 0.1, max: 5, step: 0.1 }
+  ],
+
+  createControls(container, config, onChange) {
+    injectCSS('gradient-editor-styles', GradientEditor.getCSS());
+
+    // Options are filled from the data's metadata on render
+    const fieldLabel = document.createElement('label');
+    fieldLabel.textContent = 'Weight By: ';
+    const fieldSelect = document.createElement('select');
+    fieldSelect.id = 'heatmap-weightField';
+    fieldSelect.appendChild(createOption(config.weightField, config.weightField));
+    fieldSelect.addEventListener('change', () => onChange({ weightField: fieldSelect.value }));
+    fieldLabel.appendChild(fieldSelect);
+    weightFieldSelect = fieldSelect;
+    container.insertBefore(fieldLabel, container.firstChild);
+
+    new GradientEditor(container, 'heatmap', config.gradient, gradient => onChange({ gradient }));
+  },
+
+  render(data, config, context) {
+    // Numeric metadata fields only change with the data
+    if (context.state.data !== data) {
+      context.state.data = data;
+      context.state.weightFields = DataProcessor.getNumericMetadataFields(data);
+    }
+    const weightFields: string[] = context.state.weightFields;
+    const weightField = weightFields.includes(config.weightField) ? config.weightField : 'intensity';
+    updateWeightFieldOptions(weightFields, weightField);
+
+    const locations = data.filter(location => location.coordinates);
+    const weights = DataProcessor.calculateWeights(locations, weightField, config.weightTransform, config.clipPercentile);
+
+    // Convert location data to Leaflet.heat format, leaving out locations without the field
+    const heatData = locations.flatMap((location, index) => {
+      const weight = weights[index];
+      return weight === null ? [] : [[
+        location.coordinates.lat,
+        location.coordinates.lng,
+        weight * config.intensityMultiplier * 1.5 // Increased default intensity and multiplier
+      ] as [number, number, number]];
+    });
+
+    // Create heat layer with enhanced sensitivity settings
+    const heatLayer = L.heatLayer(heatData, {
+      radius: config.radius,
+      blur: config.blur,
+      maxZoom: 17,
+      max: config.max,
+      minOpacity: config.minOpacity,
+      gradient: config.gradient
+    });
+
+    context.layer.addLayer(heatLayer);
+  }
+};
+
+/**
+ * List intensity and the numeric metadata fields in the weight selector
+ */
+function updateWeightFieldOptions(fields: string[], selected: string): void {
+  if (!weightFieldSelect) return;
+
+  weightFieldSelect.replaceChildren(...['intensity', ...fields.filter(field => field !== 'intensity')]
+    .map(field => createOption(field, field === 'intensity' ? 'Intensity' : field)));
+  weightFieldSelect.value = selected;
+}
+
+/**
+ * Option element with a plain-text label, so field names are never parsed as HTML
+ */
+function createOption(value: string, label: string): HTMLOptionElement {
+  const option = document.createElement('option');
+  option.value = value;
+  option.textContent = label;
+  return option;
+}
@@ -0,0 +1,184 @@
+import L from 'leaflet';
+import type { DensityConfig } from '../types';
+import { DensityCalculator } from '../utils/densityCalculator';
+import { HexbinCalculator } from '../utils/hexbinCalculator';
+import { DEFAULT_SEQUENTIAL_PALETTE, getPaletteColors } from '../utils/palettes';
+import { PalettePicker } from '../components/PalettePicker';
+import { injectCSS } from '../utils/htmlUtils';
+import type { VisualizationModule } from './types';
+
+/**
+ * Hexbin visualization configuration
+ */
+export interface HexbinVisualizationConfig {
+  size: number; // Hexagon radius in meters, center to corner
+  aggregationMethod: NonNullable<DensityConfig['aggregationMethod']>;
+  palette: string; // Palette the color scale was built from
+  reversePalette: boolean;
+  colorScale: string[];
+  fillOpacity: number;
+}
+
+// Hexagons are enlarged when zoomed out so they stay at least this many pixels across
+const MIN_HEX_RADIUS_PIXELS = 6;
+
+const AGGREGATION_LABELS: Record<HexbinVisualizationConfig['aggregationMethod'], string> = {
+  count: 'Points',
+  sum: 'Sum of intensity',
+  average: 'Average intensity'
+};
+
+/**
+ * Points aggregated into equal-area hexagons, free of district boundary bias
+ */
+export const hexbinVisualization: VisualizationModule<HexbinVisualizationConfig> = {
+  type: 'hexbin',
+  label: 'Hexbin',
+  title: '⬡ Hexbin Visualization',
+  description: 'Points aggregated into hexagons of equal size for comparing density without boundary bias',
+  defaultConfig: {
+    size: 500,
+    aggregationMethod: 'count',
+    palette: DEFAULT_SEQUENTIAL_PALETTE,
+    reversePalette: false,
+    colorScale: getPaletteColors(DEFAULT_SEQUENTIAL_PALETTE),
+    fillOpacity: 0.7
+  },
+  controls: [
+    { type: 'range', key: 'size', label: 'Hexagon Size', min: 100, max: 5000, step: 100, unit: 'm' },
+    {
+      type: 'select',
+      key: 'aggregationMethod',
+      label: 'Color By',
+      options: [
+        { value: 'count', label: 'Count' },
+        { value: 'sum', label: 'Sum of intensity' },
+        { value: 'average', label: 'Average intensity' }
+      ]
+    },
+    { type: 'range', key: 'fillOpacity', label: 'Opacity', min: 0.3, max: 1, step: 0.1 }
+  ],
+
+  createControls(container, config, onChange) {
+    injectCSS('palette-picker-styles', PalettePicker.getCSS());
+    new PalettePicker(container, 'hexbin', ['sequential', 'diverging'], config.palette, config.reversePalette,
+      (palette, reversePalette) => onChange({ palette, reversePalette, colorScale: getPaletteColors(palette, reversePalette) }));
+  },
+
+  setup(context) {
+    // Recompute when zooming changes the effective hexagon size
+    context.state.onZoom = () => {
+      if (context.state.radius !== undefined &&
+          getEffectiveRadius(context.state.size, context.map) !== context.state.radius) {
+        context.refresh();
+      }
+    };
+    context.map.on('zoomend', context.state.onZoom);
+  },
+
+  render(data, config, context) {
+    const radius = getEffectiveRadius(config.size, context.map);
+    context.state.size = config.size;
+    context.state.radius = radius;
+
+    const cells = HexbinCalculator.calculateHexbins(data, radius, config.aggregationMethod);
+    const maxValue = cells.reduce((max, cell) => Math.max(max, cell.value), 0);
+    context.state.maxValue = maxValue;
+
+    cells.forEach(cell => {
+      const polygon = L.polygon(
+        cell.vertices.map(vertex => [vertex.lat, vertex.lng] as L.LatLngTuple),
+        {
+          fillColor: DensityCalculator.getColorForDensity(cell.value, maxValue, config.colorScale),
+          fillOpacity: config.fillOpacity,
+          color: '#ffffff',
+          weight: 1,
+          opacity: 0.8
+        }
+      );
+
+      const valueInfo = config.aggregationMethod === 'count' ? '' :
+        `• ${AGGREGATION_LABELS[config.aggregationMethod]}: <strong>${cell.value.toFixed(2)}</strong><br>`;
+
+      polygon.bindPopup(`
+        <div style="min-width: 180px;">
+          <strong>Hexagon</strong><br>
+          <div style="margin-top: 8px;">
+            • Points: <strong>${cell.count}</strong><br>
+            ${valueInfo}
+            • Size: <strong>${formatMeters(radius)}</strong><br>
+          </div>
+          <div style="margin-top: 8px; font-size: 0.9em; color: #666;">
+            ${cell.center.lat.toFixed(5)}, ${cell.center.lng.toFixed(5)}
+          </div>
+        </div>
+      `);
+
+      polygon.on('mouseover', () => polygon.setStyle({ weight: 2, opacity: 1 }));
+      polygon.on('mouseout', () => polygon.setStyle({ weight: 1, opacity: 0.8 }));
+
+      context.layer.addLayer(polygon);
+    });
+  },
+
+  clear(context) {
+    // Not shown, so zooming must not trigger a refresh check
+    context.state.radius = undefined;
+  },
+
+  teardown(context) {
+    context.map.off('zoomend', context.state.onZoom);
+  },
+
+  renderLegend(config, context) {
+    const maxValue: number = context.state.maxValue ?? 0;
+    const radius: number = context.state.radius ?? config.size;
+    const decimals = config.aggregationMethod === 'count' ? 0 : 2;
+
+    let legendHtml = `<strong style="color: #333;">${AGGREGATION_LABELS[config.aggregationMethod]} per hexagon</strong><br>`;
+
+    const steps = 5;
+    for (let i = 0; i < steps; i++) {
+      const value = (maxValue * i / (steps - 1));
+      const color = DensityCalculator.getColorForDensity(value, maxValue, config.colorScale);
+      legendHtml += `
+        <div style="margin: 2px 0; color: #333;">
+          <span style="
+            display: inline-block;
+            width: 20px;
+            height: 12px;
+            background: ${color};
+            border: 1px solid #666;
+            margin-right: 5px;
+            vertical-align: middle;
+          "></span>
+          ${value.toFixed(decimals)}
+        </div>
+      `;
+    }
+
+    if (radius !== config.size) {
+      legendHtml += `<div style="margin-top: 4px; font-size: 11px; color: #666;">Enlarged to ${formatMeters(radius)} at this zoom</div>`;
+    }
+
+    return legendHtml;
+  }
+};
+
+/**
+ * Configured size, enlarged so hexagons stay visible at the current zoom
+ */
+function getEffectiveRadius(size: number, map: L.Map): number {
+  const minRadius = MIN_HEX_RADIUS_PIXELS * HexbinCalculator.metersPerPixel(map.getZoom(), map.getCenter().lat);
+  if (size >= minRadius) return size;
+
+  // Round up to whole 100 m so small pans at one zoom level do not change the size
+  return Math.ceil(minRadius / 100) * 100;
+}
+
+/**
+ * Format a distance in meters for display
+ */
+function formatMeters(meters: number): string {
+  return meters >= 1000 ? `${(meters / 1000).toFixed(1)} km` : `${meters} m`;
+}
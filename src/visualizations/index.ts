@@ -0,0 +1,21 @@
+import { registerVisualization } from './registry';
+import { heatmapVisualization } from './heatmap';
+import { densityVisualization } from './density';
+import { markersVisualization } from './markers';
+import { hexbinVisualization } from './hexbin';
+import { pointsVisualization } from './points';
+
+// Built-in visualization types, in tab order
+registerVisualization(heatmapVisualization);
+registerVisualization(densityVisualization);
+registerVisualization(markersVisualization);
+registerVisualization(hexbinVisualization);
+registerVisualization(pointsVisualization);
+
+export { registerVisualization, getVisualization, getVisualizations } from './registry';
+export type {
+  VisualizationContext,
+  VisualizationControlSchema,
+  VisualizationModule,
+  VisualizationSelectOption
+} from './types';
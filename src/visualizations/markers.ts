@@ -0,0 +1,393 @@
+import L from 'leaflet';
+import type { AlertMarker, Location } from '../types';
+import { AlertIconGenerator } from '../utils/alertIconGenerator';
+import { DEFAULT_ALERT_PALETTE, getAlertTypeColors, getPaletteColors } from '../utils/palettes';
+import { PalettePicker } from '../components/PalettePicker';
+import { injectCSS } from '../utils/htmlUtils';
+import type { VisualizationContext, VisualizationModule } from './types';
+
+// Grid cell in screen pixels within which markers are clustered
+const CLUSTER_CELL_PIXELS = 60;
+
+// Alert types from worst to least severe
+const ALERT_TYPE_RANK: AlertMarker['alertType'][] = ['critical', 'danger', 'warning', 'info', 'success', 'resolved'];
+
+/**
+ * Marker visualization configuration
+ */
+export interface MarkersVisualizationConfig {
+  iconSize: number; // Icon width and height in pixels
+  pulseAnimation: boolean;
+  showPopups: boolean;
+  clustering: boolean;
+  palette: string; // Categorical palette coloring the alert types
+  reversePalette: boolean;
+  alertColors?: Record<string, string>; // Base color per alert type; built-in alert shades when unset
+}
+
+/**
+ * Alert-style markers for every location
+ */
+export const markersVisualization: VisualizationModule<MarkersVisualizationConfig> = {
+  type: 'markers',
+  label: 'Markers',
+  title: '🚨 Location Markers',
+  description: 'Custom markers for all uploaded location data with alert-style icons',
+  itemLabel: 'markers',
+  defaultConfig: {
+    iconSize: 32,
+    pulseAnimation: true,
+    showPopups: true,
+    clustering: true,
+    palette: DEFAULT_ALERT_PALETTE,
+    reversePalette: false
+  },
+  controls: [
+    { type: 'checkbox', key: 'pulseAnimation', label: 'Pulse Animation' },
+    {
+      type: 'select',
+      key: 'iconSize',
+      label: 'Icon Size',
+      options: [
+        { value: 24, label: 'Small (24px)' },
+        { value: 32, label: 'Medium (32px)' },
+        { value: 48, label: 'Large (48px)' }
+      ]
+    },
+    { type: 'checkbox', key: 'clustering', label: 'Cluster Markers' }
+  ],
+
+  createControls(container, config, onChange) {
+    injectCSS('palette-picker-styles', PalettePicker.getCSS());
+    new PalettePicker(container, 'markers', ['categorical'], config.palette, config.reversePalette,
+      (palette, reversePalette) => onChange({
+        palette,
+        reversePalette,
+        alertColors: palette === DEFAULT_ALERT_PALETTE && !reversePalette
+          ? undefined
+          : getAlertTypeColors(getPaletteColors(palette, reversePalette))
+      }));
+  },
+
+  setup(context) {
+    injectCSS('alert-marker-styles', AlertIconGenerator.getAlertMarkerCSS());
+
+    // Re-cluster after zooming or panning beyond the rendered area
+    context.state.onViewChange = () => {
+      const { clusteredZoom, clusteredBounds } = context.state;
+      if (clusteredZoom === undefined) return;
+
+      if (context.map.getZoom() !== clusteredZoom || !clusteredBounds.contains(context.map.getBounds())) {
+        context.refresh();
+      }
+    };
+    context.map.on('zoomend moveend', context.state.onViewChange);
+
+    // Clicking the map folds a spiderfied cluster back
+    context.state.onMapClick = () => context.state.unspiderfy?.();
+    context.map.on('click', context.state.onMapClick);
+  },
+
+  render(data, config, context) {
+    // Alert properties only change with the data, not with the view
+    if (context.state.data !== data) {
+      context.state.data = data;
+      context.state.alertMarkers = data
+        .map((location, index) => location.coordinates ? toAlertMarker(location, index) : null)
+        .filter((alertMarker): alertMarker is AlertMarker => alertMarker !== null);
+    }
+    const alertMarkers: AlertMarker[] = context.state.alertMarkers;
+
+    if (config.clustering) {
+      renderClusters(alertMarkers, config, context);
+    } else {
+      alertMarkers.forEach(alertMarker => context.layer.addLayer(createMarker(alertMarker, config)));
+    }
+  },
+
+  clear(context) {
+    context.state.clusteredZoom = undefined;
+    context.state.unspiderfy = undefined;
+  },
+
+  teardown(context) {
+    context.map.off('zoomend moveend', context.state.onViewChange);
+    context.map.off('click', context.state.onMapClick);
+    AlertIconGenerator.clearCache();
+
+    // Remove injected CSS
+    document.getElementById('alert-marker-styles')?.remove();
+  }
+};
+
+/**
+ * Convert a location to an alert marker with derived type, severity and status
+ */
+function toAlertMarker(location: Location, index: number): AlertMarker {
+  return {
+    ...location,
+    alertType: determineAlertType(location),
+    severity: determineSeverity(location),
+    status: determineStatus(location),
+    description: extractDescription(location, index),
+    timestamp: extractTimestamp(location),
+  };
+}
+
+/**
+ * Create the Leaflet marker for one alert
+ */
+function createMarker(alertMarker: AlertMarker, config: MarkersVisualizationConfig, position?: L.LatLng): L.Marker {
+  const icon = AlertIconGenerator.createAlertIcon(
+    alertMarker.alertType,
+    alertMarker.severity,
+    {
+      iconSize: [config.iconSize, config.iconSize],
+      pulseAnimation: config.pulseAnimation,
+      showPopups: config.showPopups,
+      clustering: config.clustering,
+      alertColors: config.alertColors
+    }
+  );
+
+  const marker = L.marker(
+    position || [alertMarker.coordinates.lat, alertMarker.coordinates.lng],
+    { icon }
+  );
+
+  // Add popup with alert information
+  if (config.showPopups) {
+    const popupContent = AlertIconGenerator.createAlertPopup(alertMarker);
+    marker.bindPopup(popupContent, {
+      maxWidth: 350,
+      className: 'alert-popup-container'
+    });
+  }
+
+  // Add tooltip for quick info
+  marker.bindTooltip(
+    `${alertMarker.name || 'Location'} (${alertMarker.alertType})`,
+    {
+      direction: 'top',
+      offset: [0, -32]
+    }
+  );
+
+  return marker;
+}
+
+/**
+ * Group markers that fall into the same pixel grid cell at the current zoom and
+ * draw the groups within the padded view
+ */
+function renderClusters(alertMarkers: AlertMarker[], config: MarkersVisualizationConfig, context: VisualizationContext): void {
+  const { map, layer, state } = context;
+  const zoom = map.getZoom();
+  const bounds = map.getBounds().pad(0.5);
+  state.clusteredZoom = zoom;
+  state.clusteredBounds = bounds;
+
+  const clusters = new Map<string, AlertMarker[]>();
+  alertMarkers.forEach(alertMarker => {
+    const point = map.project([alertMarker.coordinates.lat, alertMarker.coordinates.lng], zoom);
+    const key = `${Math.floor(point.x / CLUSTER_CELL_PIXELS)}:${Math.floor(point.y / CLUSTER_CELL_PIXELS)}`;
+    if (!clusters.has(key)) {
+      clusters.set(key, []);
+    }
+    clusters.get(key)!.push(alertMarker);
+  });
+
+  clusters.forEach(members => {
+    const center = L.latLng(
+      members.reduce((sum, member) => sum + member.coordinates.lat, 0) / members.length,
+      members.reduce((sum, member) => sum + member.coordinates.lng, 0) / members.length
+    );
+    if (!bounds.contains(center)) return;
+
+    if (members.length === 1) {
+      layer.addLayer(createMarker(members[0], config));
+      return;
+    }
+
+    const worst = getWorstAlert(members);
+    const cluster = L.marker(center, {
+      icon: AlertIconGenerator.createClusterIcon(members.length, worst.alertType, worst.severity, config.alertColors)
+    });
+
+    cluster.bindTooltip(
+      `${members.length} alerts, worst: ${worst.alertType} (severity ${worst.severity})`,
+      { direction: 'top' }
+    );
+
+    cluster.on('click', (event: L.LeafletMouseEvent) => {
+      L.DomEvent.stopPropagation(event);
+      const memberBounds = L.latLngBounds(members.map(member => [member.coordinates.lat, member.coordinates.lng] as L.LatLngTuple));
+
+      // Zoom in until the cluster splits; at max zoom or for identical positions fan the markers out
+      if (zoom < map.getMaxZoom() && !memberBounds.getNorthEast().equals(memberBounds.getSouthWest())) {
+        map.fitBounds(memberBounds, { padding: [40, 40] });
+      } else {
+        spiderfy(cluster, members, config, context);
+      }
+    });
+
+    layer.addLayer(cluster);
+  });
+}
+
+/**
+ * Worst alert type and highest severity among cluster members
+ */
+function getWorstAlert(members: AlertMarker[]): { alertType: AlertMarker['alertType']; severity: number } {
+  const rank = (alertType: AlertMarker['alertType']) => {
+    const index = ALERT_TYPE_RANK.indexOf(alertType);
+    return index === -1 ? ALERT_TYPE_RANK.length : index;
+  };
+
+  return {
+    alertType: members.reduce((worst, member) =>
+      rank(member.alertType) < rank(worst) ? member.alertType : worst, members[0].alertType),
+    severity: members.reduce((max, member) => Math.max(max, member.severity || 1), 1)
+  };
+}
+
+/**
+ * Replace a cluster with its members placed around it, connected by legs
+ */
+function spiderfy(
+  cluster: L.Marker,
+  members: AlertMarker[],
+  config: MarkersVisualizationConfig,
+  context: VisualizationContext
+): void {
+  const { map, layer, state } = context;
+  state.unspiderfy?.();
+
+  const center = map.latLngToLayerPoint(cluster.getLatLng());
+  const spider = L.layerGroup();
+  const legDistance = config.iconSize * 1.2;
+
+  members.forEach((member, index) => {
+    let offset: L.Point;
+    if (members.length <= 8) {
+      // Circle around the cluster
+      const angle = 2 * Math.PI * index / members.length;
+      const radius = Math.max(legDistance, legDistance * members.length / (2 * Math.PI));
+      offset = L.point(radius * Math.cos(angle), radius * Math.sin(angle));
+    } else {
+      // Spiral outwards so many markers do not overlap
+      const angle = 0.6 * index + 1;
+      const radius = legDistance * (0.6 + 0.12 * index);
+      offset = L.point(radius * Math.cos(angle), radius * Math.sin(angle));
+    }
+
+    // Anchor at the icon bottom, so shift the leg end to the icon center
+    const position = map.layerPointToLatLng(center.add(offset).add([0, config.iconSize / 2]));
+    const legEnd = map.layerPointToLatLng(center.add(offset));
+
+    spider.addLayer(L.polyline([cluster.getLatLng(), legEnd], { color: '#555', weight: 1.5, opacity: 0.7 }));
+    spider.addLayer(createMarker(member, config, position));
+  });
+
+  layer.removeLayer(cluster);
+  layer.addLayer(spider);
+
+  state.unspiderfy = () => {
+    layer.removeLayer(spider);
+    layer.addLayer(cluster);
+    state.unspiderfy = undefined;
+  };
+}
+
+/**
+ * Determine the appropriate alert type for a location
+ */
+function determineAlertType(location: Location): AlertMarker['alertType'] {
+  // Check if GeoJSON properties contain alert type information
+  if (location.metadata?.processedAlertType) {
+    const geoAlertType = String(location.metadata.processedAlertType).toLowerCase();
+    // Map common GeoJSON alert types to our internal types
+    if (geoAlertType.includes('critical') || geoAlertType.includes('🔴')) return 'critical';
+    if (geoAlertType.includes('warning') || geoAlertType.includes('⚠️') || geoAlertType.includes('🟡')) return 'warning';
+    if (geoAlertType.includes('success') || geoAlertType.includes('✅') || geoAlertType.includes('🟢')) return 'success';
+    if (geoAlertType.includes('danger') || geoAlertType.includes('❌')) return 'danger';
+    if (geoAlertType.includes('resolved') || geoAlertType.includes('✔️')) return 'resolved';
+    if (geoAlertType.includes('info') || geoAlertType.includes('🔵')) return 'info';
+  }
+
+  // Check if it's already an AlertMarker with alertType
+  if ((location as any).alertType) {
+    return (location as any).alertType;
+  }
+
+  // Check metadata for direct alert type fields
+  if (location.metadata?.alertType) {
+    const alertType = String(location.metadata.alertType).toLowerCase();
+    if (['critical', 'warning', 'info', 'danger', 'success', 'resolved'].includes(alertType)) {
+      return alertType as AlertMarker['alertType'];
+    }
+  }
+
+  if (location.metadata?.alert_type) {
+    const alertType = String(location.metadata.alert_type).toLowerCase();
+    if (['critical', 'warning', 'info', 'danger', 'success', 'resolved'].includes(alertType)) {
+      return alertType as AlertMarker['alertType'];
+    }
+  }
+
+  if (location.metadata?.type) {
+    const alertType = String(location.metadata.type).toLowerCase();
+    if (['critical', 'warning', 'info', 'danger', 'success', 'resolved'].includes(alertType)) {
+      return alertType as AlertMarker['alertType'];
+    }
+  }
+
+  // Default to info
+  return 'info';
+}
+
+/**
+ * Extract description from location metadata
+ */
+function extractDescription(location: Location, index: number): string {
+  // Try various properties for description
+  if (location.metadata?.description) return String(location.metadata.description);
+  if (location.metadata?.alert_type) return String(location.metadata.alert_type);
+  if (location.metadata?.info) return String(location.metadata.info);
+  if (location.metadata?.details) return String(location.metadata.details);
+  if (location.name) return `Location: ${location.name}`;
+
+  return `Data point ${index + 1}`;
+}
+
+/**
+ * Severity (1-5) from imported metadata, falling back to intensity
+ */
+function determineSeverity(location: Location): number {
+  const severity = Number(location.metadata?.severity);
+  if (location.metadata?.severity !== undefined && !isNaN(severity)) {
+    return Math.min(5, Math.max(1, Math.round(severity)));
+  }
+
+  return location.intensity ? Math.ceil(location.intensity * 5) : 3;
+}
+
+/**
+ * Alert status from imported metadata, defaulting to active
+ */
+function determineStatus(location: Location): AlertMarker['status'] {
+  const status = String(location.metadata?.status ?? '').toLowerCase();
+  if (status === 'acknowledged' || status === 'resolved') return status;
+  return 'active';
+}
+
+/**
+ * Timestamp from imported metadata, if any
+ */
+function extractTimestamp(location: Location): Date | undefined {
+  const value = location.metadata?.timestamp ?? location.metadata?.date_time;
+  if (!value) return undefined;
+
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
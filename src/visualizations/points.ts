@@ -0,0 +1,139 @@
+import L from 'leaflet';
+import type { Location } from '../types';
+import { PalettePicker } from '../components/PalettePicker';
+import { escapeHtml, injectCSS } from '../utils/htmlUtils';
+import { getPaletteColors, interpolatePaletteColor } from '../utils/palettes';
+import type { VisualizationModule } from './types';
+
+/**
+ * Point visualization configuration
+ */
+export interface PointsVisualizationConfig {
+  radius: number;
+  fillColor: string;
+  strokeColor: string;
+  strokeWidth: number;
+  fillOpacity: number;
+  strokeOpacity: number;
+  intensityBased: boolean; // Fill by intensity from the color scale instead of fillColor
+  palette: string; // Palette the color scale was built from
+  reversePalette: boolean;
+  colorScale: string[];
+  showTracks: boolean; // Connect GPX track/route points into paths
+  trackColor: string;
+  trackWidth: number;
+}
+
+/**
+ * Simple circle markers, with GPX tracks drawn as paths
+ */
+export const pointsVisualization: VisualizationModule<PointsVisualizationConfig> = {
+  type: 'points',
+  label: 'Points',
+  title: '📍 Points',
+  description: 'Simple point markers with track and route paths',
+  defaultConfig: {
+    radius: 6,
+    fillColor: '#3498db',
+    strokeColor: '#ffffff',
+    strokeWidth: 2,
+    fillOpacity: 0.8,
+    strokeOpacity: 1,
+    intensityBased: false,
+    palette: 'viridis',
+    reversePalette: false,
+    colorScale: getPaletteColors('viridis'),
+    showTracks: true,
+    trackColor: '#e67e22',
+    trackWidth: 3
+  },
+  controls: [
+    { type: 'range', key: 'radius', label: 'Radius', min: 2, max: 20, unit: 'px' },
+    { type: 'range', key: 'fillOpacity', label: 'Opacity', min: 0.1, max: 1, step: 0.1 },
+    { type: 'checkbox', key: 'intensityBased', label: 'Color by Intensity' },
+    { type: 'checkbox', key: 'showTracks', label: 'Show Tracks' },
+    { type: 'range', key: 'trackWidth', label: 'Track Width', min: 1, max: 10, unit: 'px' }
+  ],
+
+  createControls(container, config, onChange) {
+    injectCSS('palette-picker-styles', PalettePicker.getCSS());
+    new PalettePicker(container, 'points', ['sequential', 'diverging'], config.palette, config.reversePalette,
+      (palette, reversePalette) => onChange({ palette, reversePalette, colorScale: getPaletteColors(palette, reversePalette) }));
+  },
+
+  render(data, config, context) {
+    // Draw tracks first so the points stay on top
+    if (config.showTracks) {
+      renderTracks(data, config, context.layer);
+    }
+
+    const maxIntensity = data.reduce((max, location) => Math.max(max, location.intensity ?? 0), 0.001);
+
+    data.forEach((location, index) => {
+      if (location.coordinates) {
+        const circle = L.circleMarker(
+          [location.coordinates.lat, location.coordinates.lng],
+          {
+            radius: config.radius,
+            fillColor: config.intensityBased && location.intensity !== undefined
+              ? interpolatePaletteColor(config.colorScale, location.intensity / maxIntensity)
+              : config.fillColor,
+            color: config.strokeColor,
+            weight: config.strokeWidth,
+            opacity: config.strokeOpacity,
+            fillOpacity: config.fillOpacity
+          }
+        );
+
+        // Add popup with location information
+        circle.bindPopup(`
+          <div>
+            <strong>${escapeHtml(location.name || `Point ${index + 1}`)}</strong><br>
+            ${(location as any).description ? `${escapeHtml(String((location as any).description))}<br>` : ''}
+            <small>
+              Lat: ${location.coordinates.lat.toFixed(6)}<br>
+              Lng: ${location.coordinates.lng.toFixed(6)}
+            </small>
+          </div>
+        `);
+
+        context.layer.addLayer(circle);
+      }
+    });
+  }
+};
+
+/**
+ * Render ordered track/route points (e.g. from GPX) as polylines
+ */
+function renderTracks(data: Location[], config: PointsVisualizationConfig, layer: L.LayerGroup): void {
+  const tracks = new Map<string, { name: string; points: Location[] }>();
+
+  data.forEach(location => {
+    const trackId = location.metadata?.trackId;
+    if (trackId === undefined || !location.coordinates) return;
+
+    const key = `${trackId}:${location.metadata?.segmentId ?? 0}`;
+    if (!tracks.has(key)) {
+      tracks.set(key, { name: location.metadata?.trackName || String(trackId), points: [] });
+    }
+    tracks.get(key)!.points.push(location);
+  });
+
+  tracks.forEach(track => {
+    if (track.points.length < 2) return;
+
+    const path = [...track.points]
+      .sort((a, b) => (a.metadata?.pointIndex ?? 0) - (b.metadata?.pointIndex ?? 0))
+      .map(location => [location.coordinates.lat, location.coordinates.lng] as L.LatLngTuple);
+
+    const polyline = L.polyline(path, {
+      color: config.trackColor,
+      weight: config.trackWidth,
+      opacity: 0.8
+    });
+
+    polyline.bindTooltip(`${track.name} (${track.points.length} points)`, { sticky: true });
+    layer.addLayer(polyline);
+  });
+}
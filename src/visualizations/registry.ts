@@ -0,0 +1,28 @@
+import type { VisualizationType } from '../types';
+import type { VisualizationModule } from './types';
+
+const visualizations = new Map<VisualizationType, VisualizationModule<any>>();
+
+/**
+ * Register a visualization type; types appear as tabs in registration order
+ */
+export function registerVisualization<TConfig extends object>(visualization: VisualizationModule<TConfig>): void {
+  if (visualizations.has(visualization.type)) {
+    throw new Error(`Visualization type '${visualization.type}' is already registered`);
+  }
+  visualizations.set(visualization.type, visualization);
+}
+
+/**
+ * Look up a registered visualization type
+ */
+export function getVisualization(type: VisualizationType): VisualizationModule<any> | undefined {
+  return visualizations.get(type);
+}
+
+/**
+ * All registered visualization types in registration order
+ */
+export function getVisualizations(): VisualizationModule<any>[] {
+  return Array.from(visualizations.values());
+}
@@ -0,0 +1,103 @@
+import type L from 'leaflet';
+import type { Location, VisualizationType } from '../types';
+
+/**
+ * Option of a select control
+ */
+export interface VisualizationSelectOption {
+  value: string | number;
+  label: string;
+}
+
+/**
+ * UI control bound to one field of a visualization's config
+ */
+export type VisualizationControlSchema<TConfig> =
+  | {
+      type: 'range';
+      key: keyof TConfig & string;
+      label: string;
+      min: number;
+      max: number;
+      step?: number;
+      unit?: string; // Shown after the current value, e.g. 'px'
+    }
+  | {
+      type: 'number';
+      key: keyof TConfig & string;
+      label: string;
+      min?: number;
+      max?: number;
+      step?: number;
+    }
+  | {
+      type: 'checkbox';
+      key: keyof TConfig & string;
+      label: string;
+    }
+  | {
+      type: 'text';
+      key: keyof TConfig & string;
+      label: string;
+      placeholder?: string;
+    }
+  | {
+      type: 'select';
+      key: keyof TConfig & string;
+      label: string;
+      options: VisualizationSelectOption[];
+    };
+
+/**
+ * Everything a visualization needs while it is shown on a map
+ */
+export interface VisualizationContext {
+  map: L.Map;
+  layer: L.LayerGroup; // Owned by the visualization, on the map while it is active
+  state: Record<string, any>; // Kept across renders and type switches (e.g. opened labels)
+  refresh(): void; // Re-render with the last data and config while this type is shown, e.g. after a zoom
+}
+
+/**
+ * A visualization type: config schema, rendering, legend and UI controls
+ */
+export interface VisualizationModule<TConfig extends object = Record<string, any>> {
+  type: VisualizationType;
+  label: string; // Tab button text
+  title: string; // Tab heading
+  description: string;
+  itemLabel?: string; // Name for rendered items in the filter status, default 'data points'
+  showTab?: boolean; // Default true
+  defaultConfig: TConfig;
+  controls?: VisualizationControlSchema<TConfig>[];
+
+  /**
+   * Called once when the visualization is first used on a map
+   */
+  setup?(context: VisualizationContext): void;
+
+  /**
+   * Draw data into context.layer (the layer is cleared beforehand)
+   */
+  render(data: Location[], config: TConfig, context: VisualizationContext): void;
+
+  /**
+   * Extra cleanup when the visualization is cleared or replaced; context.layer is cleared by the host
+   */
+  clear?(context: VisualizationContext): void;
+
+  /**
+   * Called when the map is destroyed
+   */
+  teardown?(context: VisualizationContext): void;
+
+  /**
+   * HTML legend for the last render, or null for none
+   */
+  renderLegend?(config: TConfig, context: VisualizationContext): string | null;
+
+  /**
+   * Controls beyond the schema; call onChange with the fields to update
+   */
+  createControls?(container: HTMLElement, config: TConfig, onChange: (changes: Partial<TConfig>) => void): void;
+}